@@ -0,0 +1,48 @@
+/**
+ * Attachment Routes
+ * Serves media files extracted from "Export with media" archives
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { basename, resolve, sep } from 'path';
+import { config } from '../../config/index.js';
+import { getMimeType } from '../../core/parser/index.js';
+
+export async function registerAttachmentRoutes(app: FastifyInstance) {
+  // GET /api/attachments/:conversationId/:fileName - Download an attachment
+  app.get<{ Params: { conversationId: string; fileName: string } }>(
+    '/api/attachments/:conversationId/:fileName',
+    async (request, reply) => {
+      const { conversationId, fileName } = request.params;
+
+      // Reject anything that could escape the attachments directory (route params are
+      // decoded, so %2E%2E arrives as ..)
+      const segments = [conversationId, fileName];
+      if (segments.some((segment) => basename(segment) !== segment || segment === '.' || segment === '..')) {
+        return reply.status(400).send({ error: 'Invalid attachment path' });
+      }
+
+      const root = resolve(config.attachments.path);
+      const filePath = resolve(root, conversationId, fileName);
+      if (!filePath.startsWith(root + sep)) {
+        return reply.status(400).send({ error: 'Invalid attachment path' });
+      }
+
+      try {
+        const info = await stat(filePath);
+        if (!info.isFile()) {
+          return reply.status(404).send({ error: 'Attachment not found' });
+        }
+
+        return reply
+          .header('Content-Type', getMimeType(fileName))
+          .header('Content-Length', info.size)
+          .send(createReadStream(filePath));
+      } catch {
+        return reply.status(404).send({ error: 'Attachment not found' });
+      }
+    },
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Conversation Routes
+ * Browse and manage ingested conversations
+ */
+
+import type { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { getConversationManager, getMetadataStore } from '../../storage/index.js';
+
+const RenameBodySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+});
+
+const MergeBodySchema = z.object({
+  sourceId: z.string().min(1),
+});
+
+const DefaultBodySchema = z.object({
+  conversationId: z.string().min(1).nullable(),
+});
+
+const MessagesQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(200).optional(),
+    before: z.string().min(1).optional(),
+    after: z.string().min(1).optional(),
+    around: z.string().min(1).optional(),
+    sender: z.string().min(1).optional(),
+    type: z.enum(['text', 'media', 'system', 'deleted']).optional(),
+    q: z.string().min(1).max(200).optional(),
+  })
+  .refine((query) => [query.before, query.after, query.around].filter(Boolean).length <= 1, {
+    message: 'Use only one of before, after and around',
+  });
+
+export async function registerConversationRoutes(app: FastifyInstance) {
+  const manager = getConversationManager();
+  await manager.initialize();
+
+  // GET /api/conversations - List conversations with their stats
+  app.get('/api/conversations', async () => {
+    return {
+      conversations: await manager.list(),
+      defaultConversationId: manager.getDefault(),
+    };
+  });
+
+  // GET /api/conversations/default - Conversation queries are restricted to when they name none
+  app.get('/api/conversations/default', async () => {
+    return { conversationId: manager.getDefault() };
+  });
+
+  // PUT /api/conversations/default - Set the default conversation ({ conversationId: null } clears it)
+  app.put('/api/conversations/default', async (request, reply) => {
+    const parsed = DefaultBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Validation error', details: parsed.error.errors });
+    }
+
+    if (!manager.setDefault(parsed.data.conversationId)) {
+      return reply.status(404).send({ error: 'Conversation not found' });
+    }
+
+    return { conversationId: parsed.data.conversationId };
+  });
+
+  // GET /api/conversations/:id - Get a conversation with its ingestion history
+  app.get<{ Params: { id: string } }>('/api/conversations/:id', async (request, reply) => {
+    const conversation = await manager.get(request.params.id);
+
+    if (!conversation) {
+      return reply.status(404).send({ error: 'Conversation not found' });
+    }
+
+    return {
+      ...conversation,
+      jobs: getMetadataStore().listJobs({ conversationId: conversation.id }),
+    };
+  });
+
+  // GET /api/conversations/:id/messages - Page through messages
+  // (?before=|after=<cursor>, ?around=<messageId|timestamp>, ?sender=, ?type=, ?q=, ?limit=50)
+  app.get<{ Params: { id: string } }>('/api/conversations/:id/messages', async (request, reply) => {
+    const parsed = MessagesQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Validation error', details: parsed.error.errors });
+    }
+
+    const metadata = getMetadataStore();
+    if (!metadata.getConversation(request.params.id)) {
+      return reply.status(404).send({ error: 'Conversation not found' });
+    }
+
+    const { q, ...options } = parsed.data;
+    try {
+      return metadata.listMessages(request.params.id, { ...options, search: q });
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : 'Invalid query' });
+    }
+  });
+
+  // PATCH /api/conversations/:id - Rename a conversation
+  app.patch<{ Params: { id: string } }>('/api/conversations/:id', async (request, reply) => {
+    const parsed = RenameBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Validation error', details: parsed.error.errors });
+    }
+
+    const conversation = await manager.rename(request.params.id, parsed.data.name);
+    if (!conversation) {
+      return reply.status(404).send({ error: 'Conversation not found' });
+    }
+
+    return conversation;
+  });
+
+  // DELETE /api/conversations/:id - Delete a conversation and all its vectors
+  app.delete<{ Params: { id: string } }>('/api/conversations/:id', async (request, reply) => {
+    try {
+      const deletedChunks = await manager.delete(request.params.id);
+      if (deletedChunks === null) {
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
+
+      return { success: true, deletedChunks };
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : 'Delete failed' });
+    }
+  });
+
+  // POST /api/conversations/:id/merge - Merge another conversation ({ sourceId }) into this one
+  app.post<{ Params: { id: string } }>('/api/conversations/:id/merge', async (request, reply) => {
+    const parsed = MergeBodySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Validation error', details: parsed.error.errors });
+    }
+
+    try {
+      const conversation = await manager.merge(parsed.data.sourceId, request.params.id);
+      if (!conversation) {
+        return reply.status(404).send({ error: 'Conversation not found' });
+      }
+
+      return conversation;
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : 'Merge failed' });
+    }
+  });
+}
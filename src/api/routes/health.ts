@@ -3,6 +3,7 @@
  */
 
 import type { FastifyInstance } from 'fastify';
+import { config } from '../../config/index.js';
 import { checkProvidersHealth } from '../../providers/index.js';
 import { getRetriever } from '../../rag/index.js';
 
@@ -32,7 +33,7 @@ export async function registerHealthRoutes(app: FastifyInstance) {
       components: {
         providers: providerHealth,
         vectorStore: {
-          name: 'qdrant',
+          name: config.vectorStore,
           available: vectorStoreAvailable,
         },
       },
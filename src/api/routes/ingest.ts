@@ -4,26 +4,74 @@
 
 import type { FastifyInstance } from 'fastify';
 import { z } from 'zod';
-import { writeFile, unlink, mkdir } from 'fs/promises';
-import { join } from 'path';
+import type { JobType } from 'bullmq';
+import { createWriteStream } from 'fs';
+import { unlink, mkdir } from 'fs/promises';
+import { extname, join } from 'path';
+import { pipeline as pipeStream } from 'stream/promises';
 import { nanoid } from 'nanoid';
-import { getIngestionPipeline } from '../../ingestion/index.js';
+import { config } from '../../config/index.js';
+import { getMetadataStore } from '../../storage/index.js';
+import {
+  cancelIngestJob,
+  closeIngestQueue,
+  enqueueIngestion,
+  getIngestJob,
+  getIngestionPipeline,
+  listIngestJobs,
+  retryIngestJob,
+  startIngestionWorker,
+  watchIngestJob,
+  type IngestJobEvent,
+} from '../../ingestion/index.js';
+
+const HistoryQuerySchema = z.object({
+  conversationId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+/**
+ * Interval of SSE keep-alive comments (proxies close idle connections)
+ */
+const SSE_HEARTBEAT_MS = 15_000;
 
 const IngestOptionsSchema = z.object({
   conversationName: z.string().optional(),
   chunkGapMinutes: z.number().int().min(1).max(1440).optional(),
   chunkMaxMessages: z.number().int().min(10).max(500).optional(),
+  chunkMaxChars: z.number().int().min(500).max(20000).optional(),
   generateSummaries: z.boolean().optional(),
   includeSystemMessages: z.boolean().optional(),
   includeDeletedMessages: z.boolean().optional(),
+  dateOrder: z.enum(['DMY', 'MDY', 'auto']).optional(),
+  format: z.string().optional(),
+  incremental: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const ListJobsQuerySchema = z.object({
+  state: z
+    .string()
+    .optional()
+    .transform((value) => value?.split(',').filter(Boolean) as JobType[] | undefined),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
 });
 
 export async function registerIngestRoutes(app: FastifyInstance) {
-  // Initialize pipeline
-  const pipeline = getIngestionPipeline();
-  await pipeline.initialize();
+  // Run queued jobs in this process unless workers run separately (`cli worker`)
+  if (config.ingestion.worker) {
+    const worker = await startIngestionWorker();
+    app.addHook('onClose', async () => {
+      await worker.close();
+    });
+  }
+  app.addHook('onClose', async () => {
+    await closeIngestQueue();
+  });
 
-  // POST /api/ingest - Ingest a WhatsApp export file
+  // POST /api/ingest - Queue a chat export (WhatsApp .txt/.zip, Telegram .json) for ingestion
+  // With dryRun=true, the export is parsed and chunked right away and the chunking report
+  // is returned instead (nothing is embedded or stored)
   app.post('/api/ingest', async (request, reply) => {
     const data = await request.file();
 
@@ -44,6 +92,9 @@ export async function registerIngestRoutes(app: FastifyInstance) {
     if (fields.chunkMaxMessages?.value) {
       optionsRaw.chunkMaxMessages = parseInt(fields.chunkMaxMessages.value, 10);
     }
+    if (fields.chunkMaxChars?.value) {
+      optionsRaw.chunkMaxChars = parseInt(fields.chunkMaxChars.value, 10);
+    }
     if (fields.generateSummaries?.value) {
       optionsRaw.generateSummaries = fields.generateSummaries.value === 'true';
     }
@@ -53,6 +104,18 @@ export async function registerIngestRoutes(app: FastifyInstance) {
     if (fields.includeDeletedMessages?.value) {
       optionsRaw.includeDeletedMessages = fields.includeDeletedMessages.value === 'true';
     }
+    if (fields.dateOrder?.value) {
+      optionsRaw.dateOrder = fields.dateOrder.value;
+    }
+    if (fields.format?.value) {
+      optionsRaw.format = fields.format.value;
+    }
+    if (fields.incremental?.value) {
+      optionsRaw.incremental = fields.incremental.value === 'true';
+    }
+    if (fields.dryRun?.value) {
+      optionsRaw.dryRun = fields.dryRun.value === 'true';
+    }
 
     let options;
     try {
@@ -67,51 +130,199 @@ export async function registerIngestRoutes(app: FastifyInstance) {
       throw error;
     }
 
-    // Save file temporarily
-    const tempDir = join(process.cwd(), 'temp');
-    await mkdir(tempDir, { recursive: true });
-    const tempPath = join(tempDir, `${nanoid()}.txt`);
+    // Keep the upload until its job completes (keep the extension, used when the format
+    // can't be sniffed)
+    await mkdir(config.ingestion.uploadsPath, { recursive: true });
+    const extension = ['.zip', '.json'].includes(extname(data.filename).toLowerCase())
+      ? extname(data.filename).toLowerCase()
+      : '.txt';
+    const uploadPath = join(config.ingestion.uploadsPath, `${nanoid()}${extension}`);
 
     try {
-      const buffer = await data.toBuffer();
-      await writeFile(tempPath, buffer);
-
-      // Ingest the file
-      const result = await pipeline.ingest(
-        tempPath,
-        options.conversationName,
-        {
+      await pipeStream(data.file, createWriteStream(uploadPath));
+      if (data.file.truncated) {
+        await unlink(uploadPath);
+        return reply.status(413).send({ error: 'File too large' });
+      }
+
+      if (options.dryRun) {
+        const report = await getIngestionPipeline().dryRun(uploadPath, {
+          chunkGapMinutes: options.chunkGapMinutes,
+          chunkMaxMessages: options.chunkMaxMessages,
+          chunkMaxChars: options.chunkMaxChars,
+          includeSystemMessages: options.includeSystemMessages,
+          includeDeletedMessages: options.includeDeletedMessages,
+          dateOrder: options.dateOrder,
+          format: options.format,
+        });
+        await unlink(uploadPath);
+        return { success: true, dryRun: report };
+      }
+
+      const job = await enqueueIngestion({
+        filePath: uploadPath,
+        fileName: data.filename,
+        conversationName: options.conversationName,
+        options: {
           chunkGapMinutes: options.chunkGapMinutes,
           chunkMaxMessages: options.chunkMaxMessages,
+          chunkMaxChars: options.chunkMaxChars,
           generateSummaries: options.generateSummaries,
           includeSystemMessages: options.includeSystemMessages,
           includeDeletedMessages: options.includeDeletedMessages,
+          dateOrder: options.dateOrder,
+          format: options.format,
+          incremental: options.incremental,
         },
-      );
+      });
 
-      return {
+      return reply.status(202).send({
         success: true,
-        result,
-      };
-    } finally {
-      // Clean up temp file
-      try {
-        await unlink(tempPath);
-      } catch {
-        // Ignore cleanup errors
-      }
+        jobId: job.id,
+        job,
+      });
+    } catch (error) {
+      await unlink(uploadPath).catch(() => undefined);
+      throw error;
+    }
+  });
+
+  // GET /api/ingest/jobs - List ingestion jobs (?state=active,failed&limit=20)
+  app.get('/api/ingest/jobs', async (request, reply) => {
+    const parsed = ListJobsQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Validation error', details: parsed.error.errors });
+    }
+
+    const jobs = await listIngestJobs(parsed.data.state, parsed.data.limit);
+    return { jobs };
+  });
+
+  // GET /api/ingest/history - Past ingestions (?conversationId=...&limit=20)
+  app.get('/api/ingest/history', async (request, reply) => {
+    const parsed = HistoryQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'Validation error', details: parsed.error.errors });
     }
+
+    return { jobs: getMetadataStore().listJobs(parsed.data) };
   });
 
-  // GET /api/ingest/:jobId - Get ingestion progress
+  // GET /api/ingest/:jobId - Get a job with its progress, result or error
   app.get<{ Params: { jobId: string } }>('/api/ingest/:jobId', async (request, reply) => {
-    const { jobId } = request.params;
-    const progress = pipeline.getProgress(jobId);
+    const job = await getIngestJob(request.params.jobId);
+
+    if (!job) {
+      return reply.status(404).send({ error: 'Job not found' });
+    }
+
+    return job;
+  });
+
+  // GET /api/ingest/:jobId/events - Server-Sent Events: progress (with ETA) until the job ends
+  app.get<{ Params: { jobId: string } }>('/api/ingest/:jobId/events', async (request, reply) => {
+    const { raw } = reply;
+    let stop: (() => void) | null = null;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let closed = false;
 
-    if (!progress) {
+    const close = () => {
+      closed = true;
+      stop?.();
+      clearInterval(heartbeat);
+      if (!raw.writableEnded) raw.end();
+    };
+    // The response closes when the client goes away, including while the job is looked up
+    raw.on('close', close);
+
+    const send = (event: IngestJobEvent) => {
+      raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.type !== 'progress') close();
+    };
+
+    // Headers are sent once the job is known, so unknown jobs still get a plain 404
+    stop = await watchIngestJob(request.params.jobId, (event) => {
+      if (!raw.headersSent) {
+        reply.hijack();
+        raw.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
+        });
+      }
+      send(event);
+    });
+
+    if (!stop) {
+      if (closed) return reply.hijack();
       return reply.status(404).send({ error: 'Job not found' });
     }
+    if (closed || raw.writableEnded) {
+      stop();
+      if (!raw.headersSent) reply.hijack();
+      return;
+    }
+
+    heartbeat = setInterval(() => raw.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+  });
+
+  // WS /api/ingest/:jobId/stream - Same updates as the SSE stream, as JSON messages
+  app.get<{ Params: { jobId: string } }>(
+    '/api/ingest/:jobId/stream',
+    { websocket: true },
+    async (socket, request) => {
+      let ended = false;
+      let stop: (() => void) | null = null;
+
+      const end = () => {
+        ended = true;
+        stop?.();
+      };
+      // Listened to before watching, so that a client gone meanwhile stops the watcher
+      socket.on('close', end);
+
+      stop = await watchIngestJob(request.params.jobId, (event) => {
+        if (ended) return;
+        socket.send(JSON.stringify(event));
+        if (event.type !== 'progress') {
+          end();
+          socket.close();
+        }
+      });
+
+      if (!stop) {
+        if (!ended) socket.send(JSON.stringify({ type: 'error', error: 'Job not found' }));
+        socket.close();
+        return;
+      }
+      if (ended) stop();
+    },
+  );
+
+  // POST /api/ingest/:jobId/cancel - Cancel a queued or running job
+  app.post<{ Params: { jobId: string } }>('/api/ingest/:jobId/cancel', async (request, reply) => {
+    try {
+      const job = await cancelIngestJob(request.params.jobId);
+      if (!job) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+      return job;
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : 'Cannot cancel job' });
+    }
+  });
 
-    return progress;
+  // POST /api/ingest/:jobId/retry - Run a failed or cancelled job again
+  app.post<{ Params: { jobId: string } }>('/api/ingest/:jobId/retry', async (request, reply) => {
+    try {
+      const job = await retryIngestJob(request.params.jobId);
+      if (!job) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+      return job;
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : 'Cannot retry job' });
+    }
   });
 }
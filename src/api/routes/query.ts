@@ -24,6 +24,8 @@ const QueryBodySchema = z.object({
     includeSources: z.boolean().optional(),
     maxTokens: z.number().int().min(50).max(2000).optional(),
     temperature: z.number().min(0).max(2).optional(),
+    interpretDates: z.boolean().optional(),
+    referenceDate: z.string().datetime().optional(),
   }).optional(),
 });
 
@@ -49,7 +51,10 @@ export async function registerQueryRoutes(app: FastifyInstance) {
       const queryRequest: QueryRequest = {
         question: body.question,
         filters,
-        options: body.options,
+        options: body.options && {
+          ...body.options,
+          referenceDate: body.options.referenceDate ? new Date(body.options.referenceDate) : undefined,
+        },
       };
 
       // Use agent for complex queries if requested
@@ -91,7 +96,10 @@ export async function registerQueryRoutes(app: FastifyInstance) {
         const queryRequest: QueryRequest = {
           question: body.question,
           filters,
-          options: body.options,
+          options: body.options && {
+            ...body.options,
+            referenceDate: body.options.referenceDate ? new Date(body.options.referenceDate) : undefined,
+          },
         };
 
         // Stream the response
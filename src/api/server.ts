@@ -10,6 +10,8 @@ import { config } from '../config/index.js';
 import { registerQueryRoutes } from './routes/query.js';
 import { registerIngestRoutes } from './routes/ingest.js';
 import { registerHealthRoutes } from './routes/health.js';
+import { registerAttachmentRoutes } from './routes/attachments.js';
+import { registerConversationRoutes } from './routes/conversations.js';
 
 export async function createServer() {
   const app = Fastify({
@@ -25,7 +27,7 @@ export async function createServer() {
 
   await app.register(multipart, {
     limits: {
-      fileSize: 50 * 1024 * 1024, // 50MB
+      fileSize: 500 * 1024 * 1024, // 500MB (exports with media)
     },
   });
 
@@ -35,12 +37,22 @@ export async function createServer() {
   await registerHealthRoutes(app);
   await registerQueryRoutes(app);
   await registerIngestRoutes(app);
+  await registerAttachmentRoutes(app);
+  await registerConversationRoutes(app);
 
   return app;
 }
 
 export async function startServer() {
-  const app = await createServer();
+  // Routes open the stores while registering: a misconfiguration (e.g. an embedding
+  // model that does not match the stored vectors) is reported before listening
+  let app: Awaited<ReturnType<typeof createServer>>;
+  try {
+    app = await createServer();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
 
   try {
     await app.listen({ port: config.port, host: '0.0.0.0' });
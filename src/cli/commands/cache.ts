@@ -0,0 +1,67 @@
+/**
+ * Cache Command
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { config } from '../../config/index.js';
+import { createEmbedProvider, getEmbeddingCache } from '../../providers/index.js';
+
+export const cacheCommand = new Command('cache').description('Inspect and prune the embedding cache');
+
+cacheCommand
+  .command('stats')
+  .description('Show cached embeddings per provider and model, with their hit rate')
+  .option('--json', 'Print the stats as JSON')
+  .action((options) => {
+    const stats = getEmbeddingCache().stats();
+
+    if (options.json) {
+      console.log(JSON.stringify(stats, null, 2));
+      return;
+    }
+
+    console.log(chalk.bold('Embedding cache:'));
+    console.log(`  Path: ${chalk.dim(config.embeddingCache.path)}${config.embeddingCache.enabled ? '' : chalk.yellow(' (disabled)')}`);
+    console.log(`  Entries: ${chalk.green(stats.entries)} ${chalk.dim(`(${formatBytes(stats.bytes)})`)}`);
+
+    for (const model of stats.models) {
+      const lookups = model.hits + model.misses;
+      const hitRate = lookups > 0 ? `${Math.round((model.hits / lookups) * 100)}% hit rate` : 'never used';
+      console.log('');
+      console.log(`  ${chalk.cyan(`${model.provider}/${model.model}`)}`);
+      console.log(`    Entries: ${chalk.green(model.entries)}`);
+      console.log(`    Lookups: ${lookups} ${chalk.dim(`(${model.hits} hits, ${model.misses} misses, ${hitRate})`)}`);
+      if (model.lastUsedAt) {
+        console.log(`    Last used: ${model.lastUsedAt.toLocaleString()}`);
+      }
+    }
+  });
+
+cacheCommand
+  .command('prune')
+  .description('Remove cached embeddings (all of them unless an option narrows it down)')
+  .option('--older-than <days>', 'Remove embeddings not used for this many days')
+  .option('--other-models', 'Remove embeddings of every model but the configured one')
+  .option('--max-entries <n>', 'Keep only the most recently used embeddings')
+  .action((options) => {
+    let keepOnly: { provider: string; model: string } | undefined;
+    if (options.otherModels) {
+      const provider = createEmbedProvider();
+      keepOnly = { provider: provider.name, model: provider.model };
+    }
+
+    const removed = getEmbeddingCache().prune({
+      olderThanDays: options.olderThan !== undefined ? parseFloat(options.olderThan) : undefined,
+      keepOnly,
+      maxEntries: options.maxEntries !== undefined ? parseInt(options.maxEntries, 10) : undefined,
+    });
+
+    console.log(chalk.green(`Removed ${removed} cached embeddings`));
+  });
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,242 @@
+/**
+ * Conversations Command
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import chalk from 'chalk';
+import { getConversationManager, getMetadataStore, getVectorStore } from '../../storage/index.js';
+
+export const conversationsCommand = new Command('conversations').description(
+  'List, browse and manage ingested conversations',
+);
+
+conversationsCommand
+  .command('list')
+  .description('List conversations with their message, chunk and vector counts')
+  .option('--json', 'Print the conversations as JSON')
+  .action(async (options) => {
+    const manager = getConversationManager();
+    await manager.initialize();
+    const conversations = await manager.list();
+
+    if (options.json) {
+      console.log(JSON.stringify(conversations, null, 2));
+      return;
+    }
+
+    if (conversations.length === 0) {
+      console.log(chalk.yellow('No conversations ingested yet'));
+      return;
+    }
+
+    for (const conversation of conversations) {
+      const range =
+        conversation.startTime && conversation.endTime
+          ? `${conversation.startTime.toLocaleDateString()} - ${conversation.endTime.toLocaleDateString()}`
+          : 'no messages';
+      const marker = conversation.isDefault ? chalk.cyan(' (default)') : '';
+      console.log(`${chalk.bold(conversation.name || 'Unnamed')}${marker} ${chalk.dim(conversation.id)}`);
+      console.log(
+        `  ${chalk.green(conversation.messageCount)} messages, ${chalk.green(conversation.chunkCount)} chunks, ${chalk.green(conversation.vectorCount)} vectors ${chalk.dim(`(${conversation.format}, ${range})`)}`,
+      );
+      console.log(`  Participants: ${chalk.yellow(conversation.participants.join(', '))}`);
+    }
+  });
+
+conversationsCommand
+  .command('show')
+  .description('Show a conversation and its ingestion history')
+  .argument('<id>', 'Conversation ID')
+  .action((id) => {
+    const metadata = getMetadataStore();
+    const conversation = metadata.getConversation(id);
+
+    if (!conversation) {
+      console.error(chalk.red(`Conversation ${id} not found`));
+      process.exit(1);
+    }
+
+    console.log(chalk.bold(conversation.name || 'Unnamed'));
+    console.log(`  ID: ${chalk.dim(conversation.id)}`);
+    console.log(`  Format: ${chalk.cyan(conversation.format)}`);
+    console.log(`  Messages: ${chalk.green(conversation.messageCount)}`);
+    console.log(`  Chunks: ${chalk.green(conversation.chunkCount)}`);
+    console.log(`  Participants: ${chalk.yellow(conversation.participants.join(', '))}`);
+    if (conversation.startTime && conversation.endTime) {
+      console.log(
+        `  Date range: ${conversation.startTime.toLocaleDateString()} - ${conversation.endTime.toLocaleDateString()}`,
+      );
+    }
+    if (conversation.sourceFile) {
+      console.log(`  Last export: ${conversation.sourceFile} ${chalk.dim(conversation.sourceHash || '')}`);
+    }
+
+    const jobs = metadata.listJobs({ conversationId: id });
+    if (jobs.length > 0) {
+      console.log('');
+      console.log(chalk.bold('Ingestions:'));
+      for (const job of jobs) {
+        console.log(`  ${job.startedAt.toLocaleString()} ${formatStatus(job.status)} ${job.fileName}`);
+      }
+    }
+  });
+
+conversationsCommand
+  .command('rename')
+  .description('Rename a conversation')
+  .argument('<id>', 'Conversation ID')
+  .argument('<name>', 'New name')
+  .action(async (id, name) => {
+    const manager = getConversationManager();
+    await manager.initialize();
+
+    if (!(await manager.rename(id, name))) {
+      console.error(chalk.red(`Conversation ${id} not found`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`Renamed ${id} to "${name}"`));
+  });
+
+conversationsCommand
+  .command('delete')
+  .description('Delete a conversation with its vectors, messages and attachments')
+  .argument('<id>', 'Conversation ID')
+  .option('-y, --yes', 'Delete without asking for confirmation')
+  .action(async (id, options) => {
+    const manager = getConversationManager();
+    await manager.initialize();
+
+    if (!options.yes) {
+      const conversation = await manager.get(id);
+      const label = conversation ? `"${conversation.name || 'Unnamed'}" (${conversation.vectorCount} vectors)` : id;
+      console.log(chalk.yellow(`This deletes ${label} for good. Run again with --yes to confirm.`));
+      return;
+    }
+
+    const deletedChunks = await manager.delete(id);
+    if (deletedChunks === null) {
+      console.error(chalk.red(`Conversation ${id} not found`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`Deleted ${id} (${deletedChunks} chunks)`));
+  });
+
+conversationsCommand
+  .command('merge')
+  .description('Merge a conversation into another one (e.g. two exports of the same chat)')
+  .argument('<source>', 'ID of the conversation to merge, deleted afterwards')
+  .argument('<target>', 'ID of the conversation to merge it into')
+  .action(async (source, target) => {
+    const spinner = ora('Merging conversations...').start();
+
+    try {
+      const manager = getConversationManager();
+      await manager.initialize();
+
+      const merged = await manager.merge(source, target);
+      if (!merged) {
+        spinner.fail('Conversation not found');
+        process.exit(1);
+      }
+      spinner.succeed(
+        `Merged into "${merged.name || 'Unnamed'}" (${merged.messageCount} messages, ${merged.vectorCount} vectors)`,
+      );
+    } catch (error) {
+      spinner.fail('Merge failed');
+      console.error(chalk.red(error instanceof Error ? error.message : error));
+      process.exit(1);
+    }
+  });
+
+conversationsCommand
+  .command('default')
+  .description('Show or set the conversation queries are restricted to when they name none')
+  .argument('[id]', 'Conversation ID')
+  .option('--clear', 'Query all conversations again')
+  .action((id, options) => {
+    const manager = getConversationManager();
+
+    if (options.clear) {
+      manager.setDefault(null);
+      console.log(chalk.green('Queries search all conversations'));
+      return;
+    }
+
+    if (!id) {
+      const current = manager.getDefault();
+      console.log(current ? `Default conversation: ${chalk.cyan(current)}` : 'No default conversation');
+      return;
+    }
+
+    if (!manager.setDefault(id)) {
+      console.error(chalk.red(`Conversation ${id} not found`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`Queries now default to ${id}`));
+  });
+
+conversationsCommand
+  .command('sync')
+  .description('Copy chunks stored in the vector database into the metadata store')
+  .action(async () => {
+    const spinner = ora('Reading chunks from the vector database...').start();
+
+    try {
+      const vectorStore = getVectorStore();
+      await vectorStore.initialize();
+      const chunks = await vectorStore.scrollAll();
+
+      spinner.text = `Storing ${chunks.length} chunks...`;
+      const created = getMetadataStore().importChunks(chunks);
+
+      spinner.succeed(`Synced ${chunks.length} chunks (${created} new conversations)`);
+    } catch (error) {
+      spinner.fail('Sync failed');
+      console.error(chalk.red(error instanceof Error ? error.message : error));
+      process.exit(1);
+    }
+  });
+
+export const historyCommand = new Command('history')
+  .description('Show past ingestions')
+  .option('-c, --conversation <id>', 'Only show ingestions of a conversation')
+  .option('-n, --limit <n>', 'Number of ingestions to show', '20')
+  .action((options) => {
+    const jobs = getMetadataStore().listJobs({
+      conversationId: options.conversation,
+      limit: parseInt(options.limit, 10),
+    });
+
+    if (jobs.length === 0) {
+      console.log(chalk.yellow('No ingestions recorded'));
+      return;
+    }
+
+    for (const job of jobs) {
+      console.log(`${job.startedAt.toLocaleString()} ${formatStatus(job.status)} ${chalk.bold(job.fileName)} ${chalk.dim(job.id)}`);
+      if (job.conversationId) {
+        console.log(`  Conversation: ${chalk.dim(job.conversationId)}`);
+      }
+      if (job.result) {
+        const { totalMessages, newMessages, totalChunks } = job.result;
+        console.log(`  Messages: ${totalMessages ?? '?'} (${newMessages ?? '?'} new), chunks: ${totalChunks ?? '?'}`);
+      }
+      if (job.error) {
+        console.log(`  ${chalk.red(job.error)}`);
+      }
+    }
+  });
+
+function formatStatus(status: string): string {
+  switch (status) {
+    case 'completed':
+      return chalk.green(status);
+    case 'failed':
+      return chalk.red(status);
+    case 'running':
+      return chalk.cyan(status);
+    default:
+      return chalk.yellow(status);
+  }
+}
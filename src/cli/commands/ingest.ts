@@ -5,18 +5,55 @@
 import { Command } from 'commander';
 import ora from 'ora';
 import chalk from 'chalk';
-import { getIngestionPipeline } from '../../ingestion/index.js';
+import { getIngestionPipeline, type IngestionDryRun } from '../../ingestion/index.js';
 
 export const ingestCommand = new Command('ingest')
-  .description('Ingest a WhatsApp export file')
-  .argument('<file>', 'Path to WhatsApp export file (.txt)')
+  .description('Ingest a chat export file')
+  .argument('<file>', 'Path to the export (WhatsApp .txt/.zip, Telegram result.json, Messenger message_1.json)')
   .option('-n, --name <name>', 'Conversation name')
   .option('-g, --gap <minutes>', 'Gap between chunks in minutes', '30')
   .option('-m, --max <messages>', 'Max messages per chunk', '100')
+  .option('--max-chars <chars>', 'Max characters per chunk', '4000')
   .option('-s, --summaries', 'Generate summaries for chunks')
   .option('--include-system', 'Include system messages')
   .option('--include-deleted', 'Include deleted messages')
+  .option('--date-order <order>', 'Day/month order of dates: DMY, MDY or auto', 'auto')
+  .option('-f, --format <format>', 'Export format: whatsapp, telegram, messenger or auto', 'auto')
+  .option('--full', 'Re-ingest the whole export even if the conversation is already stored')
+  .option('--dry-run', 'Parse and chunk without embedding: report chunk sizes, boundaries and the embedding cost')
+  .option('--samples <n>', 'Sample chunks shown by --dry-run', '3')
+  .option('--json', 'Print the --dry-run report as JSON')
   .action(async (file, options) => {
+    const dateOrder = options.dateOrder === 'auto' ? 'auto' : options.dateOrder.toUpperCase();
+    if (!['DMY', 'MDY', 'auto'].includes(dateOrder)) {
+      console.error(chalk.red(`Invalid --date-order "${options.dateOrder}" (expected DMY, MDY or auto)`));
+      process.exit(1);
+    }
+
+    if (options.dryRun) {
+      try {
+        const report = await getIngestionPipeline().dryRun(file, {
+          chunkGapMinutes: parseInt(options.gap, 10),
+          chunkMaxMessages: parseInt(options.max, 10),
+          chunkMaxChars: parseInt(options.maxChars, 10),
+          includeSystemMessages: options.includeSystem || false,
+          includeDeletedMessages: options.includeDeleted || false,
+          dateOrder,
+          format: options.format,
+        }, parseInt(options.samples, 10));
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          printDryRun(report);
+        }
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+        process.exit(1);
+      }
+      return;
+    }
+
     const spinner = ora('Initializing...').start();
 
     try {
@@ -27,9 +64,23 @@ export const ingestCommand = new Command('ingest')
       const result = await pipeline.ingest(file, options.name, {
         chunkGapMinutes: parseInt(options.gap, 10),
         chunkMaxMessages: parseInt(options.max, 10),
+        chunkMaxChars: parseInt(options.maxChars, 10),
         generateSummaries: options.summaries || false,
         includeSystemMessages: options.includeSystem || false,
         includeDeletedMessages: options.includeDeleted || false,
+        dateOrder,
+        format: options.format,
+        incremental: !options.full,
+      }, {
+        onProgress: ({ status, totalMessages, processedChunks, percent, etaSeconds, retries, lastRetry }) => {
+          if (status !== 'embedding') return;
+          const done = percent !== undefined ? `${percent}% - ` : '';
+          const eta = etaSeconds !== undefined ? chalk.dim(` (about ${formatDuration(etaSeconds)} left)`) : '';
+          const retrying = lastRetry
+            ? chalk.yellow(` [${retries} retries, last: ${lastRetry.reason}]`)
+            : '';
+          spinner.text = `Ingesting file... ${done}${totalMessages ?? 0} messages, ${processedChunks ?? 0} chunks stored${eta}${retrying}`;
+        },
       });
 
       spinner.succeed('Ingestion complete!');
@@ -40,14 +91,46 @@ export const ingestCommand = new Command('ingest')
       if (result.conversationName) {
         console.log(`  Name: ${chalk.cyan(result.conversationName)}`);
       }
+      console.log(`  Format: ${chalk.cyan(result.format)}`);
       console.log(`  Messages: ${chalk.green(result.totalMessages)}`);
+      if (result.incremental) {
+        console.log(
+          `  Update: ${chalk.green(`${result.newMessages} new`)}, ${result.skippedMessages} skipped, ${
+            result.changedMessages > 0 ? chalk.yellow(`${result.changedMessages} changed`) : '0 changed'
+          }`,
+        );
+        if (result.changedMessages > 0) {
+          console.log(chalk.dim('    Changes before the last stored chunk are kept as stored; use --full to rewrite them'));
+        }
+      }
       console.log(`  Chunks: ${chalk.green(result.totalChunks)}`);
+      if (result.totalAttachments > 0) {
+        console.log(`  Attachments: ${chalk.green(result.totalAttachments)}`);
+      }
       console.log(`  Participants: ${chalk.yellow(result.participants.join(', '))}`);
 
       if (result.dateRange.start && result.dateRange.end) {
         console.log(`  Date range: ${result.dateRange.start.toLocaleDateString()} - ${result.dateRange.end.toLocaleDateString()}`);
       }
 
+      if (result.dateOrder) {
+        const { order, confidence, source } = result.dateOrder;
+        const orderColor = source === 'detected' && confidence < 0.75 ? chalk.yellow : chalk.cyan;
+        console.log(`  Date order: ${orderColor(order)} ${chalk.dim(`(${source}, confidence ${confidence.toFixed(2)})`)}`);
+      }
+
+      const { diagnostics } = result;
+      if (diagnostics) {
+        const issues = [
+          [diagnostics.orphanLines.count, 'dropped lines'],
+          [diagnostics.backwardsTimestamps.count, 'backwards timestamps'],
+          [diagnostics.suspectedSenderSplits.count, 'suspected sender splits'],
+        ].filter(([count]) => count);
+        if (issues.length > 0) {
+          console.log(`  Warnings: ${chalk.yellow(issues.map(([count, label]) => `${count} ${label}`).join(', '))} ${chalk.dim(`(see: rag-whatsapp inspect ${file})`)}`);
+        }
+      }
+
       console.log(`  Duration: ${chalk.dim((result.duration / 1000).toFixed(2) + 's')}`);
     } catch (error) {
       spinner.fail('Ingestion failed');
@@ -62,3 +145,83 @@ export const ingestCommand = new Command('ingest')
       process.exit(1);
     }
   });
+
+const BOUNDARY_LABELS: Record<keyof IngestionDryRun['boundaries'], string> = {
+  time_gap: 'time gap',
+  max_messages: 'max messages',
+  max_chars: 'max characters',
+  end_of_input: 'end of export',
+};
+
+function printDryRun(report: IngestionDryRun): void {
+  const { options, chunkSizes, embedding } = report;
+
+  console.log(chalk.bold('Dry run') + chalk.dim(' (nothing was embedded or stored)'));
+  console.log(`  Format: ${chalk.cyan(report.format)}`);
+  console.log(`  Messages: ${chalk.green(report.totalMessages)}`);
+  console.log(`  Participants: ${chalk.yellow(report.participants.join(', '))}`);
+  if (report.dateRange.start && report.dateRange.end) {
+    console.log(`  Date range: ${report.dateRange.start.toLocaleDateString()} - ${report.dateRange.end.toLocaleDateString()}`);
+  }
+  console.log(
+    `  Chunking: ${chalk.dim(`gap ${options.chunkGapMinutes} min, max ${options.chunkMaxMessages} messages, max ${options.chunkMaxChars} characters`)}`,
+  );
+  console.log(
+    `  Chunks: ${chalk.green(report.totalChunks)} ${chalk.dim(`(${chunkSizes.averageMessages} messages, ${chunkSizes.averageChars} characters on average)`)}`,
+  );
+  if (chunkSizes.truncated > 0) {
+    console.log(`  Truncated for embedding: ${chalk.yellow(chunkSizes.truncated)}`);
+  }
+
+  const printHistogram = (title: string, buckets: IngestionDryRun['chunkSizes']['chars']) => {
+    const largest = Math.max(...buckets.map((bucket) => bucket.count), 1);
+    console.log('');
+    console.log(chalk.bold(title));
+    for (const { min, max, count } of buckets) {
+      const range = (max === null ? `${min}+` : `${min}-${max - 1}`).padStart(11);
+      const bar = '#'.repeat(Math.round((count / largest) * 30));
+      console.log(`  ${range} ${chalk.cyan(bar)} ${chalk.dim(count)}`);
+    }
+  };
+  printHistogram('Messages per chunk:', chunkSizes.messages);
+  printHistogram('Characters per chunk:', chunkSizes.chars);
+
+  console.log('');
+  console.log(chalk.bold('Chunk boundaries:'));
+  for (const [reason, count] of Object.entries(report.boundaries)) {
+    const share = report.totalChunks > 0 ? Math.round((count / report.totalChunks) * 100) : 0;
+    console.log(`  ${BOUNDARY_LABELS[reason as keyof typeof BOUNDARY_LABELS].padEnd(15)} ${chalk.green(count)} ${chalk.dim(`(${share}%)`)}`);
+  }
+
+  console.log('');
+  console.log(chalk.bold('Embedding estimate:'));
+  console.log(`  Model: ${chalk.cyan(`${embedding.provider}/${embedding.model}`)}`);
+  console.log(`  Tokens: ~${chalk.green(embedding.tokens.toLocaleString())}`);
+  console.log(
+    `  Cost: ${
+      embedding.cost === null
+        ? chalk.dim('unknown price for this model')
+        : embedding.pricePerMillionTokens === 0
+          ? chalk.green('free (local model)')
+          : `~$${embedding.cost.toFixed(4)} ${chalk.dim(`($${embedding.pricePerMillionTokens} per million tokens)`)}`
+    }`,
+  );
+
+  for (const sample of report.samples) {
+    const ended = sample.boundary ? `, ended by ${BOUNDARY_LABELS[sample.boundary.reason]}` : '';
+    console.log('');
+    console.log(
+      chalk.bold(`Sample chunk ${sample.id}`) +
+        chalk.dim(` (${sample.messageCount} messages, ${sample.text.length} characters${ended})`),
+    );
+    const lines = sample.text.split('\n');
+    for (const line of lines.slice(0, 8)) console.log(chalk.dim('  │ ') + line);
+    if (lines.length > 8) console.log(chalk.dim(`  │ ... ${lines.length - 8} more lines`));
+  }
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60 ? `${minutes}m ${seconds % 60}s` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
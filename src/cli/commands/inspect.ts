@@ -0,0 +1,83 @@
+/**
+ * Inspect Command
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { parseChatFile } from '../../core/parser/index.js';
+import type { DiagnosticSamples } from '../../core/parser/index.js';
+
+export const inspectCommand = new Command('inspect')
+  .description('Parse an export without ingesting it and report how it was read')
+  .argument('<file>', 'Path to the export file')
+  .option('--date-order <order>', 'Day/month order of dates: DMY, MDY or auto', 'auto')
+  .option('-f, --format <format>', 'Export format: whatsapp, telegram, messenger or auto', 'auto')
+  .option('--json', 'Print the report as JSON')
+  .action(async (file, options) => {
+    const dateOrder = options.dateOrder === 'auto' ? 'auto' : options.dateOrder.toUpperCase();
+    if (!['DMY', 'MDY', 'auto'].includes(dateOrder)) {
+      console.error(chalk.red(`Invalid --date-order "${options.dateOrder}" (expected DMY, MDY or auto)`));
+      process.exit(1);
+    }
+
+    try {
+      const result = await parseChatFile(file, { dateOrder, format: options.format });
+      const { diagnostics } = result;
+
+      if (options.json) {
+        // Messages are left out: the report is about how the file was read
+        console.log(JSON.stringify({ ...result, messages: undefined }, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold('Export:'));
+      console.log(`  Format: ${chalk.cyan(result.format)}`);
+      if (diagnostics) {
+        console.log(`  Date layout: ${chalk.cyan(diagnostics.format || 'none')}`);
+        console.log(`  Locale: ${chalk.cyan(diagnostics.locale || 'unknown')}`);
+      }
+      if (result.dateOrder) {
+        const { order, confidence, source } = result.dateOrder;
+        console.log(`  Date order: ${chalk.cyan(order)} ${chalk.dim(`(${source}, confidence ${confidence.toFixed(2)})`)}`);
+      }
+
+      const { metadata } = result;
+      console.log(
+        `  Messages: ${chalk.green(metadata.totalMessages)} ${chalk.dim(
+          `(${metadata.textMessages} text, ${metadata.mediaMessages} media, ${metadata.systemMessages} system, ${metadata.deletedMessages} deleted)`,
+        )}`,
+      );
+      console.log(`  Participants: ${chalk.yellow(result.participants.join(', ') || 'none')}`);
+      if (result.startDate && result.endDate) {
+        console.log(`  Date range: ${result.startDate.toLocaleDateString()} - ${result.endDate.toLocaleDateString()}`);
+      }
+      if (result.attachments.length > 0) {
+        console.log(`  Attachments: ${chalk.green(result.attachments.length)}`);
+      }
+
+      if (!diagnostics) return;
+
+      console.log('');
+      console.log(chalk.bold('Diagnostics:'));
+      console.log(`  Lines: ${diagnostics.totalLines} ${chalk.dim(`(${diagnostics.continuationLines} continuation lines)`)}`);
+      printSamples('Orphan lines (dropped)', diagnostics.orphanLines);
+      printSamples('Backwards timestamps', diagnostics.backwardsTimestamps);
+      printSamples('Suspected sender splits', diagnostics.suspectedSenderSplits);
+    } catch (error) {
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
+
+function printSamples(label: string, { count, samples }: DiagnosticSamples): void {
+  const color = count > 0 ? chalk.yellow : chalk.green;
+  console.log(`  ${label}: ${color(count)}`);
+
+  for (const sample of samples) {
+    const reason = sample.reason ? chalk.dim(` (${sample.reason})`) : '';
+    console.log(`    ${chalk.dim(`L${sample.lineNumber}:`)} ${sample.line}${reason}`);
+  }
+  if (count > samples.length) {
+    console.log(chalk.dim(`    ... ${count - samples.length} more`));
+  }
+}
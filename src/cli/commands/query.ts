@@ -12,9 +12,10 @@ export const queryCommand = new Command('query')
   .argument('<question>', 'Question to ask')
   .option('-a, --agent', 'Use ReAct agent for complex queries')
   .option('-k, --topk <n>', 'Number of chunks to retrieve', '5')
-  .option('-s, --score <n>', 'Minimum similarity score', '0.7')
+  .option('-s, --score <n>', 'Minimum similarity score of semantic matches', '0.7')
   .option('-p, --participant <name>', 'Filter by participant')
   .option('--no-sources', 'Hide sources in output')
+  .option('--no-dates', 'Do not filter by the dates the question mentions')
   .option('--stream', 'Stream the response')
   .action(async (question, options) => {
     const spinner = ora('Thinking...').start();
@@ -33,6 +34,7 @@ export const queryCommand = new Command('query')
           options: {
             topK: parseInt(options.topk, 10),
             minScore: parseFloat(options.score),
+            interpretDates: options.dates,
           },
         })) {
           process.stdout.write(token);
@@ -59,6 +61,7 @@ export const queryCommand = new Command('query')
             topK: parseInt(options.topk, 10),
             minScore: parseFloat(options.score),
             includeSources: options.sources,
+            interpretDates: options.dates,
           },
         });
       }
@@ -84,12 +87,28 @@ export const queryCommand = new Command('query')
         console.log(chalk.bold.green('Sources:'));
         result.sources.forEach((source, i) => {
           const date = source.timeRange.start.toLocaleDateString();
-          console.log(chalk.dim(`${i + 1}. [${date}] ${source.participants.join(', ')} (score: ${source.score.toFixed(2)})`));
+          const rerank = source.rerankScore !== undefined ? `, rerank: ${source.rerankScore.toFixed(2)}` : '';
+          console.log(chalk.dim(`${i + 1}. [${date}] ${source.participants.join(', ')} (score: ${source.score.toFixed(2)}${rerank})`));
           console.log(chalk.dim(`   ${source.preview}`));
         });
         console.log('');
       }
 
+      const { dateRange, participants, aliasesError, rerankError } = result.metadata;
+      if (aliasesError) {
+        console.log(chalk.yellow(`Aliases ignored, the last valid ones were used: ${aliasesError}`));
+      }
+      if (rerankError) {
+        console.log(chalk.yellow(`Reranking failed, sources keep the fused ranking: ${rerankError}`));
+      }
+      if (participants) {
+        const people = participants.map((p) => `${p.mention} = ${p.participants.join(', ')}`);
+        console.log(chalk.dim(`People: ${people.join('; ')}`));
+      }
+      if (dateRange) {
+        const period = `${dateRange.start.toLocaleDateString()} - ${dateRange.end.toLocaleDateString()}`;
+        console.log(chalk.dim(`Dates: ${period} (${dateRange.expressions.join(', ')})`));
+      }
       console.log(chalk.dim(`Query time: ${result.metadata.queryTime}ms | Chunks: ${result.metadata.chunksRetrieved}`));
     } catch (error) {
       spinner.fail('Query failed');
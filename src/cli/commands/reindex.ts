@@ -0,0 +1,46 @@
+/**
+ * Reindex Command
+ */
+
+import { Command } from 'commander';
+import ora from 'ora';
+import chalk from 'chalk';
+import { reindex } from '../../ingestion/index.js';
+import { getEmbedProvider } from '../../providers/index.js';
+
+export const reindexCommand = new Command('reindex')
+  .description('Re-embed the stored chunks with the configured embedding model and switch to them')
+  .option('--drop-previous', 'Delete the previous collection once the new one is active')
+  .action(async (options) => {
+    const { name, model, dimensions } = getEmbedProvider();
+    const spinner = ora(`Preparing ${name}/${model} (${dimensions} dimensions)...`).start();
+
+    try {
+      const result = await reindex({
+        dropPrevious: options.dropPrevious,
+        onProgress: ({ source, target, processedChunks, totalChunks, retries, lastRetry }) => {
+          const retrying = lastRetry ? chalk.yellow(` [${retries} retries, last: ${lastRetry.reason}]`) : '';
+          spinner.text = `Re-embedding ${source} -> ${target}: ${processedChunks}/${totalChunks} chunks${retrying}`;
+        },
+      });
+
+      if (!result.switched) {
+        spinner.info(`Collection ${chalk.cyan(result.target)} already holds ${name}/${model} embeddings`);
+        return;
+      }
+
+      spinner.succeed(`Switched to ${chalk.cyan(result.target)}`);
+      console.log('');
+      console.log(`  Chunks re-embedded: ${chalk.green(result.totalChunks)}`);
+      console.log(`  Duration: ${(result.duration / 1000).toFixed(1)}s`);
+      if (result.source && !result.droppedPrevious) {
+        console.log(chalk.dim(`  Previous collection ${result.source} was kept`));
+      }
+      console.log('');
+      console.log(chalk.dim('Restart running servers and workers so they use the new collection.'));
+    } catch (error) {
+      spinner.fail('Reindexing failed');
+      console.error(chalk.red(error instanceof Error ? error.message : 'Unknown error'));
+      process.exit(1);
+    }
+  });
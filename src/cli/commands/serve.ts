@@ -15,6 +15,7 @@ export const serveCommand = new Command('serve')
     console.log('');
     console.log(`  LLM Provider: ${chalk.cyan(config.llmProvider)}`);
     console.log(`  Embed Provider: ${chalk.cyan(config.embedProvider)}`);
+    console.log(`  Vector Store: ${chalk.cyan(config.vectorStore)}`);
     console.log(`  Environment: ${chalk.yellow(config.nodeEnv)}`);
     console.log('');
 
@@ -30,7 +31,9 @@ export const serveCommand = new Command('serve')
     console.log('');
     console.log('Endpoints:');
     console.log(`  ${chalk.cyan('POST')} /api/query     - Query conversations`);
-    console.log(`  ${chalk.cyan('POST')} /api/ingest    - Ingest WhatsApp export`);
+    console.log(`  ${chalk.cyan('POST')} /api/ingest    - Queue a chat export for ingestion`);
+    console.log(`  ${chalk.cyan('GET')}  /api/ingest/jobs - List ingestion jobs`);
+    console.log(`  ${chalk.cyan('GET')}  /api/conversations - List and manage conversations`);
     console.log(`  ${chalk.cyan('GET')}  /health        - Health check`);
     console.log(`  ${chalk.cyan('WS')}   /api/query/stream - Streaming queries`);
     console.log('');
@@ -0,0 +1,33 @@
+/**
+ * Worker Command
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { config } from '../../config/index.js';
+import { closeIngestQueue, startIngestionWorker } from '../../ingestion/index.js';
+
+export const workerCommand = new Command('worker')
+  .description('Run queued ingestion jobs (alongside API servers started with INGEST_WORKER=false)')
+  .option('-c, --concurrency <jobs>', 'Jobs run in parallel', String(config.ingestion.concurrency))
+  .action(async (options) => {
+    config.ingestion.concurrency = parseInt(options.concurrency, 10);
+
+    const worker = await startIngestionWorker();
+    console.log(chalk.bold('Ingestion worker started'));
+    console.log(`  Redis: ${chalk.cyan(config.redis.url)}`);
+    console.log(`  Concurrency: ${chalk.cyan(config.ingestion.concurrency)}`);
+
+    worker.on('completed', (job) => {
+      console.log(`${chalk.green('✔')} ${job.id} ${chalk.dim(job.data.fileName)}`);
+    });
+
+    const shutdown = async () => {
+      console.log(chalk.dim('Stopping worker (running jobs resume on the next start)...'));
+      await worker.close();
+      await closeIngestQueue();
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  });
@@ -3,9 +3,14 @@
  */
 
 import { Command } from 'commander';
+import { cacheCommand } from './commands/cache.js';
+import { conversationsCommand, historyCommand } from './commands/conversations.js';
 import { ingestCommand } from './commands/ingest.js';
+import { inspectCommand } from './commands/inspect.js';
 import { queryCommand } from './commands/query.js';
+import { reindexCommand } from './commands/reindex.js';
 import { serveCommand } from './commands/serve.js';
+import { workerCommand } from './commands/worker.js';
 
 const program = new Command();
 
@@ -14,8 +19,14 @@ program
   .description('RAG system for querying WhatsApp chat history')
   .version('0.1.0');
 
+program.addCommand(cacheCommand);
+program.addCommand(conversationsCommand);
+program.addCommand(historyCommand);
 program.addCommand(ingestCommand);
+program.addCommand(inspectCommand);
 program.addCommand(queryCommand);
+program.addCommand(reindexCommand);
 program.addCommand(serveCommand);
+program.addCommand(workerCommand);
 
 export { program };
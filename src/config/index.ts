@@ -18,37 +18,86 @@ function loadConfig(): Config {
       baseUrl: env.OLLAMA_BASE_URL || 'http://localhost:11434',
       model: env.OLLAMA_MODEL || 'mistral',
       embedModel: env.OLLAMA_EMBED_MODEL || 'nomic-embed-text',
+      requestsPerMinute: env.OLLAMA_RPM ? parseInt(env.OLLAMA_RPM, 10) : 0,
+      tokensPerMinute: env.OLLAMA_TPM ? parseInt(env.OLLAMA_TPM, 10) : 0,
     },
 
     openai: {
       apiKey: env.OPENAI_API_KEY,
       model: env.OPENAI_MODEL || 'gpt-4o-mini',
       embedModel: env.OPENAI_EMBED_MODEL || 'text-embedding-3-small',
+      requestsPerMinute: env.OPENAI_RPM ? parseInt(env.OPENAI_RPM, 10) : 0,
+      tokensPerMinute: env.OPENAI_TPM ? parseInt(env.OPENAI_TPM, 10) : 0,
     },
 
     anthropic: {
       apiKey: env.ANTHROPIC_API_KEY,
       model: env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514',
+      requestsPerMinute: env.ANTHROPIC_RPM ? parseInt(env.ANTHROPIC_RPM, 10) : 0,
+      tokensPerMinute: env.ANTHROPIC_TPM ? parseInt(env.ANTHROPIC_TPM, 10) : 0,
     },
 
+    vectorStore: env.VECTOR_STORE || 'qdrant',
+
     qdrant: {
       url: env.QDRANT_URL || 'http://localhost:6333',
       collection: env.QDRANT_COLLECTION || 'whatsapp_chunks',
     },
 
+    localVectorStore: {
+      path: env.LOCAL_VECTOR_STORE_PATH || './data/vectors.json',
+    },
+
     redis: {
       url: env.REDIS_URL || 'redis://localhost:6379',
     },
 
+    ingestion: {
+      concurrency: env.INGEST_CONCURRENCY ? parseInt(env.INGEST_CONCURRENCY, 10) : 2,
+      attempts: env.INGEST_ATTEMPTS ? parseInt(env.INGEST_ATTEMPTS, 10) : 3,
+      uploadsPath: env.INGEST_UPLOADS_PATH || './data/uploads',
+      worker: env.INGEST_WORKER !== 'false',
+    },
+
     database: {
       path: env.DATABASE_PATH || './data/metadata.db',
     },
 
+    embedding: {
+      concurrency: env.EMBED_CONCURRENCY ? parseInt(env.EMBED_CONCURRENCY, 10) : 2,
+      batchSize: env.EMBED_BATCH_SIZE ? parseInt(env.EMBED_BATCH_SIZE, 10) : 10,
+      maxRetries: env.EMBED_MAX_RETRIES ? parseInt(env.EMBED_MAX_RETRIES, 10) : 5,
+      retryBaseMs: env.EMBED_RETRY_BASE_MS ? parseInt(env.EMBED_RETRY_BASE_MS, 10) : 1000,
+      retryMaxMs: env.EMBED_RETRY_MAX_MS ? parseInt(env.EMBED_RETRY_MAX_MS, 10) : 60000,
+    },
+
+    embeddingCache: {
+      enabled: env.EMBED_CACHE !== 'false',
+      path: env.EMBED_CACHE_PATH || './data/embeddings.db',
+    },
+
+    attachments: {
+      path: env.ATTACHMENTS_PATH || './data/attachments',
+    },
+
     rag: {
       chunkGapMinutes: env.CHUNK_GAP_MINUTES ? parseInt(env.CHUNK_GAP_MINUTES, 10) : 30,
       chunkMaxMessages: env.CHUNK_MAX_MESSAGES ? parseInt(env.CHUNK_MAX_MESSAGES, 10) : 100,
       retrievalTopK: env.RETRIEVAL_TOP_K ? parseInt(env.RETRIEVAL_TOP_K, 10) : 5,
       retrievalMinScore: env.RETRIEVAL_MIN_SCORE ? parseFloat(env.RETRIEVAL_MIN_SCORE) : 0.7,
+      retrievalCandidates: env.RETRIEVAL_CANDIDATES ? parseInt(env.RETRIEVAL_CANDIDATES, 10) : 25,
+      searchLanguages: env.SEARCH_LANGUAGES
+        ? env.SEARCH_LANGUAGES.split(',').map((language) => language.trim().toLowerCase())
+        : ['en', 'fr'],
+    },
+
+    rerank: {
+      provider: env.RERANKER || 'none',
+    },
+
+    participants: {
+      matching: env.PARTICIPANT_MATCHING || 'boost',
+      aliasesPath: env.ALIASES_PATH || './data/aliases.json',
     },
 
     agents: {
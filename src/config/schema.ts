@@ -2,9 +2,16 @@ import { z } from 'zod';
 
 export const LLMProviderSchema = z.enum(['ollama', 'openai', 'claude']);
 export const EmbedProviderSchema = z.enum(['ollama', 'openai']);
+export const VectorStoreSchema = z.enum(['qdrant', 'sqlite', 'local']);
+// Languages of the keyword search analyzer (see core/analyzer)
+export const SearchLanguageSchema = z.enum(['en', 'fr', 'de', 'es', 'pt']);
+export const RerankerSchema = z.enum(['none', 'llm']);
+export const ParticipantMatchingSchema = z.enum(['filter', 'boost', 'off']);
 
 export type LLMProvider = z.infer<typeof LLMProviderSchema>;
 export type EmbedProvider = z.infer<typeof EmbedProviderSchema>;
+export type RerankerProvider = z.infer<typeof RerankerSchema>;
+export type VectorStoreKind = z.infer<typeof VectorStoreSchema>;
 
 export const ConfigSchema = z.object({
   // Server
@@ -20,6 +27,9 @@ export const ConfigSchema = z.object({
     baseUrl: z.string().url().default('http://localhost:11434'),
     model: z.string().default('mistral'),
     embedModel: z.string().default('nomic-embed-text'),
+    // Rate limits (0 = unlimited)
+    requestsPerMinute: z.number().int().min(0).default(0),
+    tokensPerMinute: z.number().int().min(0).default(0),
   }),
 
   // OpenAI
@@ -27,36 +37,94 @@ export const ConfigSchema = z.object({
     apiKey: z.string().optional(),
     model: z.string().default('gpt-4o-mini'),
     embedModel: z.string().default('text-embedding-3-small'),
+    requestsPerMinute: z.number().int().min(0).default(0),
+    tokensPerMinute: z.number().int().min(0).default(0),
   }),
 
   // Anthropic
   anthropic: z.object({
     apiKey: z.string().optional(),
     model: z.string().default('claude-sonnet-4-20250514'),
+    requestsPerMinute: z.number().int().min(0).default(0),
+    tokensPerMinute: z.number().int().min(0).default(0),
   }),
 
+  // Vector store: Qdrant, or an in-process store persisted to a file (tests, demos)
+  vectorStore: VectorStoreSchema.default('qdrant'),
+
   // Qdrant
   qdrant: z.object({
     url: z.string().url().default('http://localhost:6333'),
     collection: z.string().default('whatsapp_chunks'),
   }),
 
+  // Local vector store
+  localVectorStore: z.object({
+    path: z.string().default('./data/vectors.json'),
+  }),
+
   // Redis
   redis: z.object({
     url: z.string().default('redis://localhost:6379'),
   }),
 
+  // Background ingestion jobs (BullMQ)
+  ingestion: z.object({
+    concurrency: z.number().int().min(1).default(2),
+    attempts: z.number().int().min(1).default(3),
+    uploadsPath: z.string().default('./data/uploads'),
+    worker: z.boolean().default(true),
+  }),
+
   // Database
   database: z.object({
     path: z.string().default('./data/metadata.db'),
   }),
 
+  // Embedding requests during ingestion: batches in flight, texts per batch, and retries
+  // of rate-limited or failed requests (exponential backoff with jitter)
+  embedding: z.object({
+    concurrency: z.number().int().min(1).default(2),
+    batchSize: z.number().int().min(1).default(10),
+    maxRetries: z.number().int().min(0).default(5),
+    retryBaseMs: z.number().int().min(0).default(1000),
+    retryMaxMs: z.number().int().min(0).default(60000),
+  }),
+
+  // Embeddings cached by provider, model and text hash
+  embeddingCache: z.object({
+    enabled: z.boolean().default(true),
+    path: z.string().default('./data/embeddings.db'),
+  }),
+
+  // Attachments extracted from "Export with media" archives
+  attachments: z.object({
+    path: z.string().default('./data/attachments'),
+  }),
+
   // RAG Settings
   rag: z.object({
     chunkGapMinutes: z.number().default(30),
     chunkMaxMessages: z.number().default(100),
     retrievalTopK: z.number().default(5),
     retrievalMinScore: z.number().default(0.7),
+    // Candidates of each search (semantic, keyword), and of the reranker (at least topK)
+    retrievalCandidates: z.number().int().min(1).default(25),
+    // Keyword search: each language stems words and contributes stopwords
+    searchLanguages: z.array(SearchLanguageSchema).min(1).default(['en', 'fr']),
+  }),
+
+  // Reranking of the retrieved candidates: none keeps the fused ranking, llm has the
+  // configured LLM rank them (listwise)
+  rerank: z.object({
+    provider: RerankerSchema.default('none'),
+  }),
+
+  // People mentioned in questions, matched with the senders: their chunks are kept
+  // (filter) or ranked first (boost). Aliases map nicknames to senders (JSON)
+  participants: z.object({
+    matching: ParticipantMatchingSchema.default('boost'),
+    aliasesPath: z.string().default('./data/aliases.json'),
   }),
 
   // Agents
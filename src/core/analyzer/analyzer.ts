@@ -0,0 +1,152 @@
+/**
+ * Text Analyzer
+ * Turns chat text into search terms: emoji stripped, accents folded, elisions dropped,
+ * stopwords removed and words stemmed. Indexed text and queries must go through the
+ * same analyzer for their terms to match
+ */
+
+import {
+  ENGLISH_STOPWORDS,
+  FRENCH_STOPWORDS,
+  GERMAN_STOPWORDS,
+  PORTUGUESE_STOPWORDS,
+  SPANISH_STOPWORDS,
+} from './stopwords.js';
+import { stemEnglish, stemFrench, stemGerman, stemPortuguese, stemSpanish } from './stemmers.js';
+import type { Language, LanguageRules } from './types.js';
+
+/**
+ * Version of the analysis rules: bump it when they change, so that indexes built with
+ * the previous rules are rebuilt
+ */
+const ANALYZER_VERSION = 2;
+
+const LANGUAGE_RULES: Record<Language, LanguageRules> = {
+  en: { stopwords: words(ENGLISH_STOPWORDS), stem: stemEnglish },
+  fr: {
+    stopwords: words(FRENCH_STOPWORDS),
+    elisions: ['l', 'd', 'j', 'm', 't', 's', 'n', 'c', 'qu', 'jusqu', 'lorsqu', 'puisqu', 'quoiqu'],
+    stem: stemFrench,
+  },
+  de: { stopwords: words(GERMAN_STOPWORDS), stem: stemGerman },
+  es: { stopwords: words(SPANISH_STOPWORDS), stem: stemSpanish },
+  pt: { stopwords: words(PORTUGUESE_STOPWORDS), stem: stemPortuguese },
+};
+
+/**
+ * Emoji, with their modifiers and joiners: pictographs, flags (regional indicators),
+ * skin tones, variation selectors, zero width joiners and keycaps
+ */
+const EMOJI = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\p{Emoji_Modifier}|\u{FE0E}|\u{FE0F}|\u{200D}|\u{20E3}/gu;
+
+/**
+ * Letters folded to several ASCII letters (others lose their diacritics)
+ */
+const LIGATURES: Record<string, string> = { ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd' };
+
+/**
+ * Words, keeping inner apostrophes for elisions (l'ami, aujourd'hui)
+ */
+const WORD = /[\p{L}\p{N}]+(?:'[\p{L}\p{N}]+)*/gu;
+
+/**
+ * Remove emoji, leaving spaces so that the words around them stay apart
+ */
+export function stripEmoji(text: string): string {
+  return text.replace(EMOJI, ' ');
+}
+
+/**
+ * Lowercase and strip diacritics: Agnès -> agnes, Straße -> strasse
+ */
+export function foldAccents(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[ßæœøłđ]/g, (letter) => LIGATURES[letter]);
+}
+
+export class Analyzer {
+  readonly languages: Language[];
+  private stopwords: Set<string>;
+  private elisions: string[];
+  private stemmers: Array<(word: string) => string>;
+
+  /**
+   * @param languages Languages of the text: each of them stems words and contributes
+   * stopwords and elisions
+   */
+  constructor(languages: Language[]) {
+    if (languages.length === 0) {
+      throw new Error('The analyzer needs at least one language');
+    }
+
+    this.languages = [...new Set(languages)];
+    const rules = this.languages.map((language) => LANGUAGE_RULES[language]);
+    this.stopwords = new Set(rules.flatMap((r) => r.stopwords.map(foldAccents)));
+    // Longest first, so that qu' is dropped before an elided t' or s' would be
+    this.elisions = [...new Set(rules.flatMap((r) => r.elisions ?? []))]
+      .map((prefix) => `${prefix}'`)
+      .sort((a, b) => b.length - a.length);
+    this.stemmers = rules.map((r) => r.stem);
+  }
+
+  /**
+   * Identifies the analysis: terms from analyzers with different signatures may not match
+   */
+  get signature(): string {
+    return `v${ANALYZER_VERSION}:${this.languages.join(',')}`;
+  }
+
+  /**
+   * Search terms of a text, in order (repeated words are repeated). A word the languages
+   * stem differently gives each of its stems, so that chevaux meets cheval in a mixed
+   * English and French chat
+   */
+  terms(text: string): string[] {
+    const folded = foldAccents(stripEmoji(text)).replace(/[‘’ʼ`]/g, "'");
+    const terms: string[] = [];
+
+    for (const [token] of folded.matchAll(WORD)) {
+      for (const word of this.splitElisions(token)) {
+        if (word.length < 2 || this.stopwords.has(word)) continue;
+        if (/\d/.test(word)) terms.push(word);
+        else terms.push(...new Set(this.stemmers.map((stem) => stem(word))));
+      }
+    }
+    return terms;
+  }
+
+  /**
+   * Distinct search terms of a query
+   */
+  keywords(query: string): string[] {
+    return [...new Set(this.terms(query))];
+  }
+
+  /**
+   * Whether a word is too common to search for, in any of the languages
+   */
+  isStopword(word: string): boolean {
+    return this.stopwords.has(foldAccents(word));
+  }
+
+  /**
+   * Drop elided prefixes and possessives, splitting words still holding apostrophes:
+   * l'antibiotique -> antibiotique, john's -> john, aujourd'hui -> aujourd, hui
+   */
+  private splitElisions(token: string): string[] {
+    if (!token.includes("'")) return [token];
+
+    let word = token;
+    const elision = this.elisions.find((prefix) => word.startsWith(prefix));
+    if (elision) word = word.slice(elision.length);
+    if (word.endsWith("'s")) word = word.slice(0, -2);
+    return word.split("'");
+  }
+}
+
+function words(list: string): string[] {
+  return list.split(/\s+/).filter((word) => word.length > 0);
+}
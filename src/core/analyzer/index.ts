@@ -0,0 +1,3 @@
+export * from './types.js';
+export * from './analyzer.js';
+export * from './stemmers.js';
@@ -0,0 +1,125 @@
+/**
+ * Light Stemmers
+ * Strip plural and gender inflections only (after the light stemmers of Savoy and Lucene),
+ * which conflates most forms of a noun or adjective without merging unrelated words.
+ * Words are lowercase and accent-folded; the same word always gets the same stem,
+ * whether indexed or searched
+ */
+
+export function stemEnglish(word: string): string {
+  const length = word.length;
+  if (length < 3 || !word.endsWith('s')) return word;
+
+  // boxes, matches, wishes, classes
+  if (/(?:x|ch|sh|ss|zz)es$/.test(word)) return word.slice(0, -2);
+
+  const previous = word[length - 2];
+  if (previous === 'u' || previous === 's') return word;
+  if (previous === 'e') {
+    // parties -> party (but not days, trees)
+    if (length > 3 && word[length - 3] === 'i' && word[length - 4] !== 'a' && word[length - 4] !== 'e') {
+      return `${word.slice(0, -3)}y`;
+    }
+    if ('iaoe'.includes(word[length - 3])) return word;
+  }
+  return word.slice(0, -1);
+}
+
+export function stemFrench(word: string): string {
+  let stem = word;
+
+  // chevaux -> cheval, jeux -> jeu, antibiotiques -> antibiotique
+  if (stem.length > 4 && stem.endsWith('aux')) {
+    stem = `${stem.slice(0, -3)}al`;
+  } else if (stem.length > 3 && (stem.endsWith('s') || stem.endsWith('x'))) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Feminine and past participles: aimée, aimé -> aim
+  while (stem.length > 3 && stem.endsWith('e')) {
+    stem = stem.slice(0, -1);
+  }
+  // Infinitives: aimer -> aim
+  if (stem.length > 4 && stem.endsWith('er')) {
+    stem = stem.slice(0, -2);
+  }
+  return stem;
+}
+
+/**
+ * Consonants German words ending in -s (genitive, plural) can have before it
+ */
+const GERMAN_S_ENDING = 'bdfghklmnrt';
+const GERMAN_ST_ENDING = 'bdfghklmnt';
+
+export function stemGerman(word: string): string {
+  let stem = word;
+
+  // Step 1: case and plural endings
+  if (stem.length > 5 && stem.endsWith('ern')) {
+    stem = stem.slice(0, -3);
+  } else if (stem.length > 4 && /(?:em|en|er|es)$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.length > 3 && stem.endsWith('e')) {
+    stem = stem.slice(0, -1);
+  } else if (stem.length > 3 && stem.endsWith('s') && GERMAN_S_ENDING.includes(stem[stem.length - 2])) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Step 2: adjective and verb endings
+  if (stem.length > 5 && stem.endsWith('est')) {
+    stem = stem.slice(0, -3);
+  } else if (stem.length > 4 && (stem.endsWith('er') || stem.endsWith('en'))) {
+    stem = stem.slice(0, -2);
+  } else if (stem.length > 4 && stem.endsWith('st') && GERMAN_ST_ENDING.includes(stem[stem.length - 3])) {
+    stem = stem.slice(0, -2);
+  }
+  return stem;
+}
+
+export function stemSpanish(word: string): string {
+  const length = word.length;
+  if (length < 4) return word;
+
+  const last = word[length - 1];
+  if (last === 'o' || last === 'a' || last === 'e') return word.slice(0, -1);
+  if (last !== 's' || length < 5) return word;
+
+  // luces -> luz, veces -> vez
+  if (word.endsWith('ces')) return `${word.slice(0, -3)}z`;
+  // casas -> cas, mujeres -> mujer
+  if ('oae'.includes(word[length - 2])) return word.slice(0, -2);
+  return word.slice(0, -1);
+}
+
+/**
+ * Portuguese plural endings and their singular, longest first
+ */
+const PORTUGUESE_PLURALS: Array<[string, string]> = [
+  ['oes', 'ao'], // corações -> coração
+  ['aes', 'ao'], // pães -> pão
+  ['ais', 'al'], // animais -> animal
+  ['eis', 'el'], // papéis -> papel
+  ['ois', 'ol'], // anzóis -> anzol
+  ['res', 'r'], // mulheres -> mulher
+  ['ns', 'm'], // homens -> homem
+  ['s', ''],
+];
+
+export function stemPortuguese(word: string): string {
+  let stem = word;
+  if (stem.length < 4) return stem;
+
+  for (const [plural, singular] of PORTUGUESE_PLURALS) {
+    if (stem.endsWith(plural) && stem.length - plural.length >= 2) {
+      stem = stem.slice(0, -plural.length) + singular;
+      break;
+    }
+  }
+
+  // Gender and final vowels: casa, caso -> cas
+  if (stem.length > 3 && /[aeo]$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+  return stem;
+}
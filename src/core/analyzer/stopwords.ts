@@ -0,0 +1,56 @@
+/**
+ * Stopwords
+ * Function words (articles, pronouns, prepositions, auxiliaries) plus chat filler,
+ * after the Snowball lists. Folded (lowercase, no accents) by the analyzer
+ */
+
+export const ENGLISH_STOPWORDS = `
+a about above after again against all am an and any are as at be because been before being
+below between both but by can could did do does doing down during each few for from further
+had has have having he her here hers herself him himself his how i if in into is it its
+itself just me more most my myself no nor not now of off on once only or other our ours
+ourselves out over own same she should so some such than that the their theirs them
+themselves then there these they this those through to too under until up very was we
+were what when where which while who whom why will with would you your yours yourself
+yourselves im ive id ill youre theyre dont doesnt didnt isnt wasnt cant wont also yes yeah
+ok okay oh lol
+`;
+
+export const FRENCH_STOPWORDS = `
+a à au aux avec ce ces c cela ça dans de des du elle elles en et eux il ils je j la le les
+leur leurs lui ma mais me même mes moi mon ne n nos notre nous on ou où par pas pour qu que
+qui quoi sa se s ses son sur ta te tes toi ton tu un une vos votre vous y l d m t été être
+est sont suis es sommes êtes ai as avons avez ont avait avais était étais sera serait fait
+faire comme si plus moins très bien tout tous toute toutes aussi alors donc car quand
+comment pourquoi ici là cette cet ceux celle celles celui ni oui non ok ah oh bon bah ben
+voilà aujourd hui
+`;
+
+export const GERMAN_STOPWORDS = `
+aber alle allem allen aller alles als also am an ander andere anderem anderen anderer anderes
+auch auf aus bei bin bis bist da damit dann das dass dein deine deinem deinen deiner dem den
+denn der des dich die dies diese diesem diesen dieser dieses dir doch dort du durch ein eine
+einem einen einer eines er es etwas euch euer eure für hab habe haben hat hatte hätte ich ihm
+ihn ihnen ihr ihre ihrem ihren ihrer im in ins ist ja jede jedem jeden jeder jedes jetzt kann
+kein keine keinem keinen keiner man mein meine meinem meinen meiner mich mir mit muss nach
+nicht nichts noch nun nur ob oder ohne sehr sein seine seinem seinen seiner sich sie sind so
+soll über um und uns unser unsere unter vom von vor war waren warst was weil wenn wer wie
+wir wird wo zu zum zur ok okay
+`;
+
+export const SPANISH_STOPWORDS = `
+a al algo algunas algunos ante antes como con contra cual cuando de del desde donde durante
+e el él ella ellas ellos en entre era erais eran eras eres es esa esas ese eso esos esta
+está están estas este esto estos estoy fue fueron fui ha había han has hasta hay la las le
+les lo los mas más me mi mis mucho muy nada ni no nos nosotros o os otra otro para pero poco
+por porque que qué quien se sea ser si sí sin sobre son su sus también te tengo ti tiene
+todo todos tu tú tus un una uno unos usted vosotros y ya yo vale bueno pues
+`;
+
+export const PORTUGUESE_STOPWORDS = `
+a à ao aos as às até com como da das de dela delas dele deles depois do dos e é ela elas
+ele eles em entre era eram essa essas esse esses esta está estão estas este estes eu foi
+foram há isso isto já lhe lhes mais mas me mesmo meu meus minha minhas muito na nas não
+nem no nos nós o os ou para pela pelas pelo pelos por qual quando que quem se sem ser seu
+seus só sua suas também te tem tenho teu tua tu um uma umas uns você vocês vai vou sim tá
+`;
@@ -0,0 +1,26 @@
+/**
+ * Analyzer Types
+ */
+
+/**
+ * Languages the analyzer has stopwords and a stemmer for (those of the media
+ * placeholders the parser recognizes)
+ */
+export const LANGUAGES = ['en', 'fr', 'de', 'es', 'pt'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export interface LanguageRules {
+  /**
+   * Words too common to search for
+   */
+  stopwords: string[];
+  /**
+   * Prefixes elided before a vowel (l'ami, qu'il), dropped from words
+   */
+  elisions?: string[];
+  /**
+   * Light stemmer: strips plural and gender inflections of an accent-folded, lowercase word
+   */
+  stem: (word: string) => string;
+}
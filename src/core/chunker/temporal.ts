@@ -3,9 +3,9 @@
  * Groups messages into conversational chunks based on time gaps
  */
 
-import { randomUUID } from 'crypto';
 import type { ParsedMessage } from '../parser/types.js';
-import type { Chunk, ChunkerOptions, ChunkingResult, ChunkMetadata } from './types.js';
+import type { Chunk, ChunkBoundary, ChunkerOptions, ChunkingResult, ChunkMetadata } from './types.js';
+import { getChunkId, getConversationId } from '../ids/index.js';
 
 const DEFAULT_OPTIONS: Required<Omit<ChunkerOptions, 'conversationId'>> = {
   gapMinutes: 30,
@@ -21,9 +21,6 @@ export function chunkMessages(
   messages: ParsedMessage[],
   options: ChunkerOptions = {},
 ): ChunkingResult {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-  const conversationId = opts.conversationId || randomUUID();
-
   if (messages.length === 0) {
     return {
       chunks: [],
@@ -41,53 +38,202 @@ export function chunkMessages(
     (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
   );
 
+  const chunker = new StreamingChunker(options);
   const chunks: Chunk[] = [];
-  let currentChunk: ParsedMessage[] = [];
-  let currentChunkChars = 0;
+  for (const message of sortedMessages) {
+    chunks.push(...chunker.push(message));
+  }
+  chunks.push(...chunker.flush());
+
+  const totalMessages = chunks.reduce((sum, c) => sum + c.messages.length, 0);
+
+  return {
+    chunks,
+    metadata: {
+      totalChunks: chunks.length,
+      totalMessages,
+      averageChunkSize: chunks.length > 0 ? totalMessages / chunks.length : 0,
+      timeSpan: {
+        start: sortedMessages[0]?.timestamp || null,
+        end: sortedMessages[sortedMessages.length - 1]?.timestamp || null,
+      },
+    },
+  };
+}
+
+/**
+ * Chunk an async stream of messages, yielding chunks as soon as they are final
+ * Messages are expected in timestamp order (the order of the export)
+ */
+export async function* chunkMessageStream(
+  messages: AsyncIterable<ParsedMessage>,
+  options: ChunkerOptions = {},
+): AsyncGenerator<Chunk> {
+  const chunker = new StreamingChunker(options);
+  for await (const message of messages) {
+    yield* chunker.push(message);
+  }
+  yield* chunker.flush();
+}
+
+/**
+ * Incremental temporal chunker
+ * Produces the same chunks as chunkMessages while only holding the chunks still open:
+ * the one being filled, small chunks waiting to be merged, and the last finished chunk
+ * (which may still absorb a small trailing chunk at the end of the stream)
+ */
+export class StreamingChunker {
+  private id: string | undefined;
+  private opts: Required<Omit<ChunkerOptions, 'conversationId'>>;
+
+  private currentChunk: ParsedMessage[] = [];
+  private currentChunkChars = 0;
+  private pendingMessages: ParsedMessage[] = [];
+  private pendingChars = 0;
+  private pendingBoundary: ChunkBoundary | undefined;
+  private lastChunk: Chunk | null = null;
+
+  constructor(options: ChunkerOptions = {}) {
+    const { conversationId, ...rest } = { ...DEFAULT_OPTIONS, ...options };
+    this.opts = rest;
+    this.id = conversationId;
+  }
+
+  /**
+   * Conversation the chunks belong to
+   * Without an explicit ID, one is derived from the first message
+   */
+  get conversationId(): string {
+    if (!this.id) throw new Error('Conversation ID is not known before the first message');
+    return this.id;
+  }
 
-  for (let i = 0; i < sortedMessages.length; i++) {
-    const message = sortedMessages[i];
-    const prevMessage = currentChunk.length > 0 ? currentChunk[currentChunk.length - 1] : null;
+  /**
+   * Add the next message; returns the chunks that became final
+   */
+  push(message: ParsedMessage): Chunk[] {
+    if (!this.id) this.id = getConversationId('messages', message.id);
+
+    const out: Chunk[] = [];
+    const prevMessage =
+      this.currentChunk.length > 0 ? this.currentChunk[this.currentChunk.length - 1] : null;
     const messageChars = getMessageCharCount(message);
 
-    const shouldSplit = shouldStartNewChunk(
+    const boundary = getBoundary(
       message,
       prevMessage,
-      currentChunk.length,
-      currentChunkChars,
+      this.currentChunk.length,
+      this.currentChunkChars,
       messageChars,
-      opts,
+      this.opts,
     );
 
-    if (shouldSplit && currentChunk.length > 0) {
-      chunks.push(createChunk(currentChunk, conversationId));
-      currentChunk = [];
-      currentChunkChars = 0;
+    if (boundary && this.currentChunk.length > 0) {
+      this.merge(createChunk(this.currentChunk, this.conversationId, boundary), out);
+      this.currentChunk = [];
+      this.currentChunkChars = 0;
     }
 
-    currentChunk.push(message);
-    currentChunkChars += messageChars;
+    this.currentChunk.push(message);
+    this.currentChunkChars += messageChars;
+    return out;
   }
 
-  if (currentChunk.length > 0) {
-    chunks.push(createChunk(currentChunk, conversationId));
+  /**
+   * Close the stream; returns the remaining chunks
+   */
+  flush(): Chunk[] {
+    const out: Chunk[] = [];
+    if (!this.id) return out;
+    const { conversationId } = this;
+
+    if (this.currentChunk.length > 0) {
+      this.merge(createChunk(this.currentChunk, conversationId, { reason: 'end_of_input' }), out);
+      this.currentChunk = [];
+      this.currentChunkChars = 0;
+    }
+
+    if (this.pendingMessages.length > 0) {
+      const lastChunk = this.lastChunk;
+      this.lastChunk = null;
+      if (lastChunk) {
+        const lastChunkChars = getMessagesCharCount(lastChunk.messages);
+        // Only merge if within character limit
+        if (lastChunkChars + this.pendingChars <= this.opts.maxChunkChars) {
+          const allMessages = [...lastChunk.messages, ...this.pendingMessages];
+          out.push(createChunk(allMessages, conversationId, this.pendingBoundary));
+        } else {
+          out.push(lastChunk);
+          out.push(createChunk(this.pendingMessages, conversationId, this.pendingBoundary));
+        }
+      } else {
+        out.push(createChunk(this.pendingMessages, conversationId, this.pendingBoundary));
+      }
+      this.clearPending();
+    }
+
+    if (this.lastChunk) {
+      out.push(this.lastChunk);
+      this.lastChunk = null;
+    }
+
+    return out;
   }
 
-  const mergedChunks = mergeSmallChunks(chunks, opts.minMessages, opts.maxChunkChars, conversationId);
-  const totalMessages = mergedChunks.reduce((sum, c) => sum + c.messages.length, 0);
+  /**
+   * Merge small chunks into their neighbours (one split chunk at a time)
+   */
+  private merge(chunk: Chunk, out: Chunk[]): void {
+    const { minMessages, maxChunkChars } = this.opts;
+    const { conversationId } = this;
+    const chunkChars = getMessagesCharCount(chunk.messages);
 
-  return {
-    chunks: mergedChunks,
-    metadata: {
-      totalChunks: mergedChunks.length,
-      totalMessages,
-      averageChunkSize: mergedChunks.length > 0 ? totalMessages / mergedChunks.length : 0,
-      timeSpan: {
-        start: sortedMessages[0]?.timestamp || null,
-        end: sortedMessages[sortedMessages.length - 1]?.timestamp || null,
-      },
-    },
-  };
+    if (chunk.messages.length >= minMessages) {
+      if (this.pendingMessages.length > 0) {
+        // Check if merging would exceed character limit
+        if (
+          this.pendingMessages.length < minMessages &&
+          this.pendingChars + chunkChars <= maxChunkChars
+        ) {
+          const allMessages = [...this.pendingMessages, ...chunk.messages];
+          this.emit(createChunk(allMessages, conversationId, chunk.boundary), out);
+        } else {
+          this.emit(createChunk(this.pendingMessages, conversationId, this.pendingBoundary), out);
+          this.emit(chunk, out);
+        }
+        this.clearPending();
+      } else {
+        this.emit(chunk, out);
+      }
+    } else {
+      // Check if adding would exceed character limit
+      if (this.pendingChars + chunkChars > maxChunkChars && this.pendingMessages.length > 0) {
+        this.emit(createChunk(this.pendingMessages, conversationId, this.pendingBoundary), out);
+        this.clearPending();
+      }
+      this.pendingMessages.push(...chunk.messages);
+      this.pendingChars += chunkChars;
+      this.pendingBoundary = chunk.boundary;
+      if (this.pendingMessages.length >= minMessages) {
+        this.emit(createChunk(this.pendingMessages, conversationId, this.pendingBoundary), out);
+        this.clearPending();
+      }
+    }
+  }
+
+  private clearPending(): void {
+    this.pendingMessages = [];
+    this.pendingChars = 0;
+    this.pendingBoundary = undefined;
+  }
+
+  /**
+   * Hold back the newest finished chunk; release the one before it
+   */
+  private emit(chunk: Chunk, out: Chunk[]): void {
+    if (this.lastChunk) out.push(this.lastChunk);
+    this.lastChunk = chunk;
+  }
 }
 
 /**
@@ -100,27 +246,37 @@ function getMessageCharCount(message: ParsedMessage): number {
   return overhead + (message.sender?.length || 0) + (message.content?.length || 0);
 }
 
-function shouldStartNewChunk(
+/**
+ * Why a new chunk starts before this message, or null if it continues the current one
+ */
+function getBoundary(
   current: ParsedMessage,
   previous: ParsedMessage | null,
   currentChunkSize: number,
   currentChunkChars: number,
   newMessageChars: number,
   options: Required<Omit<ChunkerOptions, 'conversationId'>>,
-): boolean {
+): Omit<ChunkBoundary, 'messageCount'> | null {
   // Split if adding this message would exceed character limit
-  if (currentChunkChars + newMessageChars > options.maxChunkChars) return true;
+  if (currentChunkChars + newMessageChars > options.maxChunkChars) return { reason: 'max_chars' };
   // Split if max messages reached
-  if (currentChunkSize >= options.maxMessages) return true;
-  if (!previous) return false;
+  if (currentChunkSize >= options.maxMessages) return { reason: 'max_messages' };
+  if (!previous) return null;
 
   const gapMs = current.timestamp.getTime() - previous.timestamp.getTime();
   const gapMinutes = gapMs / (1000 * 60);
 
-  return gapMinutes >= options.gapMinutes;
+  return gapMinutes >= options.gapMinutes ? { reason: 'time_gap', gapMinutes: Math.round(gapMinutes) } : null;
 }
 
-function createChunk(messages: ParsedMessage[], conversationId: string): Chunk {
+/**
+ * Build a chunk; a merged chunk ends where its last part ended
+ */
+function createChunk(
+  messages: ParsedMessage[],
+  conversationId: string,
+  boundary?: Omit<ChunkBoundary, 'messageCount'>,
+): Chunk {
   const participants = [...new Set(messages.map((m) => m.sender).filter(Boolean))];
   const startTime = messages[0].timestamp;
   const endTime = messages[messages.length - 1].timestamp;
@@ -150,12 +306,13 @@ function createChunk(messages: ParsedMessage[], conversationId: string): Chunk {
   };
 
   return {
-    id: randomUUID(),
+    id: getChunkId(conversationId, messages.map((m) => m.id)),
     messages,
     participants,
     startTime,
     endTime,
     metadata,
+    ...(boundary && { boundary: { ...boundary, messageCount: messages.length } }),
   };
 }
 
@@ -166,73 +323,6 @@ function getMessagesCharCount(messages: ParsedMessage[]): number {
   return messages.reduce((sum, m) => sum + getMessageCharCount(m), 0);
 }
 
-function mergeSmallChunks(
-  chunks: Chunk[],
-  minMessages: number,
-  maxChunkChars: number,
-  conversationId: string,
-): Chunk[] {
-  if (chunks.length <= 1) return chunks;
-
-  const result: Chunk[] = [];
-  let pendingMessages: ParsedMessage[] = [];
-  let pendingChars = 0;
-
-  for (const chunk of chunks) {
-    const chunkChars = getMessagesCharCount(chunk.messages);
-
-    if (chunk.messages.length >= minMessages) {
-      if (pendingMessages.length > 0) {
-        // Check if merging would exceed character limit
-        if (pendingMessages.length < minMessages && pendingChars + chunkChars <= maxChunkChars) {
-          const allMessages = [...pendingMessages, ...chunk.messages];
-          result.push(createChunk(allMessages, conversationId));
-        } else {
-          result.push(createChunk(pendingMessages, conversationId));
-          result.push(chunk);
-        }
-        pendingMessages = [];
-        pendingChars = 0;
-      } else {
-        result.push(chunk);
-      }
-    } else {
-      // Check if adding would exceed character limit
-      if (pendingChars + chunkChars > maxChunkChars && pendingMessages.length > 0) {
-        result.push(createChunk(pendingMessages, conversationId));
-        pendingMessages = [];
-        pendingChars = 0;
-      }
-      pendingMessages.push(...chunk.messages);
-      pendingChars += chunkChars;
-      if (pendingMessages.length >= minMessages) {
-        result.push(createChunk(pendingMessages, conversationId));
-        pendingMessages = [];
-        pendingChars = 0;
-      }
-    }
-  }
-
-  if (pendingMessages.length > 0) {
-    if (result.length > 0) {
-      const lastChunk = result.pop()!;
-      const lastChunkChars = getMessagesCharCount(lastChunk.messages);
-      // Only merge if within character limit
-      if (lastChunkChars + pendingChars <= maxChunkChars) {
-        const allMessages = [...lastChunk.messages, ...pendingMessages];
-        result.push(createChunk(allMessages, conversationId));
-      } else {
-        result.push(lastChunk);
-        result.push(createChunk(pendingMessages, conversationId));
-      }
-    } else {
-      result.push(createChunk(pendingMessages, conversationId));
-    }
-  }
-
-  return result;
-}
-
 /**
  * Get text content from a chunk for embedding/summarization
  */
@@ -241,11 +331,33 @@ export function getChunkText(chunk: Chunk): string {
     .filter((m) => m.type === 'text' || m.type === 'media')
     .map((m) => {
       const timestamp = m.timestamp.toISOString().slice(0, 16).replace('T', ' ');
-      return `[${timestamp}] ${m.sender}: ${m.content}`;
+      return `[${timestamp}] ${m.sender}: ${formatMessageContent(m)}`;
     })
     .join('\n');
 }
 
+/**
+ * Render a message's content for chunk text, using its structured fields when it has them
+ */
+export function formatMessageContent(message: ParsedMessage): string {
+  let text = message.content;
+
+  if (message.poll) {
+    const options = message.poll.options
+      .map((o) => `${o.text} (${o.votes} ${o.votes === 1 ? 'vote' : 'votes'})`)
+      .join(', ');
+    text = `Poll: ${message.poll.question}${options ? ` | Options: ${options}` : ''}`;
+  } else if (message.location) {
+    text = `Shared location: ${message.location.latitude}, ${message.location.longitude}`;
+  } else if (message.contactName) {
+    text = `Shared contact: ${message.contactName}`;
+  } else if (message.viewOnce) {
+    text = 'View-once media (not included in the export)';
+  }
+
+  return message.edited ? `${text} (edited)` : text;
+}
+
 /**
  * Get a brief summary header for a chunk
  */
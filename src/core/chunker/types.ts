@@ -14,6 +14,10 @@ export interface Chunk {
   summary?: string;
   embedding?: number[];
   metadata: ChunkMetadata;
+  /**
+   * Why the chunk ended (set by the chunker, not stored)
+   */
+  boundary?: ChunkBoundary;
 }
 
 export interface ChunkMetadata {
@@ -51,7 +55,7 @@ export interface ChunkerOptions {
   maxChunkChars?: number;
 
   /**
-   * Conversation ID to assign to chunks
+   * Conversation ID to assign to chunks (default: derived from the first message)
    */
   conversationId?: string;
 }
@@ -73,7 +77,13 @@ export interface ChunkingResult {
  * Statistics about chunk boundaries
  */
 export interface ChunkBoundary {
-  reason: 'time_gap' | 'max_messages' | 'end_of_input';
+  reason: 'time_gap' | 'max_messages' | 'max_chars' | 'end_of_input';
+  /**
+   * Gap to the next message (time_gap only)
+   */
   gapMinutes?: number;
+  /**
+   * Messages in the chunk that ended
+   */
   messageCount: number;
 }
@@ -0,0 +1,94 @@
+/**
+ * Content-addressed IDs
+ * Messages, chunks and conversations get IDs derived from their content, so ingesting
+ * the same export twice produces the same IDs (and overwrites instead of duplicating)
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Length of message IDs
+ */
+const MESSAGE_ID_LENGTH = 21;
+
+/**
+ * Separator between hashed fields (never part of chat text)
+ */
+const SEPARATOR = '\u0000';
+
+export interface MessageIdentity {
+  timestamp: Date;
+  sender: string;
+  content: string;
+}
+
+/**
+ * Assigns message IDs from timestamp, sender and content
+ * Identical messages sent within the same minute (double sends, repeated stickers) are told
+ * apart by their position among the consecutive messages sharing that timestamp
+ */
+export class MessageIdGenerator {
+  private currentTimestamp: number | null = null;
+  private occurrences = new Map<string, number>();
+
+  next(message: MessageIdentity): string {
+    const timestamp = message.timestamp.getTime();
+    if (timestamp !== this.currentTimestamp) {
+      // Only consecutive messages can share a timestamp: keep memory bounded
+      this.currentTimestamp = timestamp;
+      this.occurrences.clear();
+    }
+
+    const key = [message.timestamp.toISOString(), message.sender, message.content].join(SEPARATOR);
+    const occurrence = this.occurrences.get(key) || 0;
+    this.occurrences.set(key, occurrence + 1);
+
+    return hash(key + SEPARATOR + occurrence)
+      .toString('base64url')
+      .slice(0, MESSAGE_ID_LENGTH);
+  }
+}
+
+/**
+ * Assign content-addressed IDs to a complete, ordered list of messages
+ */
+export function assignMessageIds<T extends MessageIdentity & { id: string }>(messages: T[]): T[] {
+  const ids = new MessageIdGenerator();
+  for (const message of messages) {
+    message.id = ids.next(message);
+  }
+  return messages;
+}
+
+/**
+ * Chunk ID from its conversation and member messages (UUID-shaped: Qdrant point IDs must be UUIDs)
+ */
+export function getChunkId(conversationId: string, messageIds: string[]): string {
+  return toUuid(hash(['chunk', conversationId, ...messageIds].join(SEPARATOR)));
+}
+
+/**
+ * Conversation ID from the identity of an export: its format and its first message
+ * Every export of a chat starts with the same message, so re-ingesting maps to the same ID
+ * @param firstMessageKey - the first message, before parsing options filter any out
+ * (ParsedMessageStream.getConversationKey), or its ID
+ */
+export function getConversationId(format: string, firstMessageKey: string): string {
+  return toUuid(hash(['conversation', format, firstMessageKey].join(SEPARATOR)));
+}
+
+function hash(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Format the first 16 bytes of a hash as an RFC 9562 version 8 (custom) UUID
+ */
+function toUuid(digest: Buffer): string {
+  const bytes = Buffer.from(digest.subarray(0, 16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x80;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,279 @@
+/**
+ * WhatsApp Archive Reader
+ * Reads "Export with media" ZIP archives: the chat transcript plus its attachments
+ */
+
+import { createWriteStream } from 'fs';
+import { mkdir, open } from 'fs/promises';
+import { basename, extname, join } from 'path';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import yauzl from 'yauzl';
+import type { Entry, ZipFile } from 'yauzl';
+import type { MessageAttachment, ParsedMessage, ParserOptions, ParserResult } from './types.js';
+import { getAttachmentFileName, parseWhatsAppExport } from './whatsapp.js';
+
+/**
+ * MIME types for the attachment extensions chat exports produce
+ */
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.heic': 'image/heic',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.3gp': 'video/3gpp',
+  '.avi': 'video/x-msvideo',
+  '.webm': 'video/webm',
+  '.opus': 'audio/ogg',
+  '.ogg': 'audio/ogg',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.txt': 'text/plain',
+  '.vcf': 'text/vcard',
+  '.tgs': 'application/x-tgsticker',
+};
+
+export interface WhatsAppArchive {
+  /**
+   * Name of the chat transcript inside the archive (e.g. "_chat.txt")
+   */
+  chatFileName: string;
+  content: string;
+  attachments: MessageAttachment[];
+}
+
+/**
+ * Get the MIME type for an attachment file name
+ */
+export function getMimeType(fileName: string): string {
+  return MIME_TYPES[extname(fileName).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Check whether a file is a ZIP archive (by its "PK\x03\x04" signature)
+ */
+export async function isZipFile(filePath: string): Promise<boolean> {
+  const handle = await open(filePath, 'r');
+  try {
+    const signature = Buffer.alloc(4);
+    const { bytesRead } = await handle.read(signature, 0, 4, 0);
+    return bytesRead === 4 && signature.readUInt32LE(0) === 0x04034b50;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read the chat transcript and attachments from a WhatsApp export archive
+ */
+export async function readWhatsAppArchive(
+  zipPath: string,
+  options: { extractTo?: string } = {},
+): Promise<WhatsAppArchive> {
+  const { chatFileName, attachments } = await inspectWhatsAppArchive(zipPath, options);
+  const entry = await openArchiveEntry(zipPath, chatFileName);
+  let content: string;
+  try {
+    content = (await readStream(entry.stream)).toString('utf-8').replace(/^\uFEFF/, '');
+  } finally {
+    entry.close();
+  }
+
+  return { chatFileName, content, attachments };
+}
+
+/**
+ * Locate the chat transcript and list (optionally extract) attachments, without reading the chat
+ */
+export async function inspectWhatsAppArchive(
+  zipPath: string,
+  options: { extractTo?: string } = {},
+): Promise<Omit<WhatsAppArchive, 'content'>> {
+  const zip = await openZip(zipPath);
+
+  try {
+    const entries = await listEntries(zip);
+    const files = entries.filter(
+      (e) => !e.fileName.endsWith('/') && !e.fileName.startsWith('__MACOSX/'),
+    );
+
+    const chatEntry = findChatEntry(files);
+    if (!chatEntry) {
+      throw new Error('No chat transcript (.txt) found in archive');
+    }
+
+    if (options.extractTo) {
+      await mkdir(options.extractTo, { recursive: true });
+    }
+
+    const attachments: MessageAttachment[] = [];
+    const taken = new Set<string>();
+    for (const entry of files) {
+      if (entry === chatEntry) continue;
+
+      // Only keep the base name: archive paths must never escape the extraction directory.
+      // Files sharing a name in different folders are numbered instead of overwritten
+      const fileName = uniqueFileName(basename(entry.fileName), taken);
+      const attachment: MessageAttachment = {
+        fileName,
+        size: entry.uncompressedSize,
+        mimeType: getMimeType(fileName),
+      };
+
+      if (options.extractTo) {
+        attachment.path = join(options.extractTo, fileName);
+        await pipeline(await openEntryStream(zip, entry), createWriteStream(attachment.path));
+      }
+
+      attachments.push(attachment);
+    }
+
+    return { chatFileName: chatEntry.fileName, attachments };
+  } finally {
+    zip.close();
+  }
+}
+
+/**
+ * Open a single archive entry for reading; call close() once the stream is consumed
+ */
+export async function openArchiveEntry(
+  zipPath: string,
+  fileName: string,
+): Promise<{ stream: Readable; close: () => void }> {
+  const zip = await openZip(zipPath);
+
+  try {
+    const entry = (await listEntries(zip)).find((e) => e.fileName === fileName);
+    if (!entry) {
+      throw new Error(`Entry not found in archive: ${fileName}`);
+    }
+    return { stream: await openEntryStream(zip, entry), close: () => zip.close() };
+  } catch (error) {
+    zip.close();
+    throw error;
+  }
+}
+
+/**
+ * Parse a WhatsApp "Export with media" archive and link media messages to their files
+ */
+export async function parseWhatsAppArchive(
+  zipPath: string,
+  options: ParserOptions = {},
+): Promise<ParserResult> {
+  const archive = await readWhatsAppArchive(zipPath, { extractTo: options.attachmentsDir });
+  const result = parseWhatsAppExport(archive.content, options);
+
+  return {
+    ...result,
+    messages: linkAttachments(result.messages, archive.attachments),
+    attachments: archive.attachments,
+  };
+}
+
+/**
+ * Attach archive files to the media messages that reference them
+ */
+export function linkAttachments(
+  messages: ParsedMessage[],
+  attachments: MessageAttachment[],
+): ParsedMessage[] {
+  const byName = new Map(attachments.map((a) => [a.fileName.toLowerCase(), a]));
+
+  return messages.map((message) => linkAttachment(message, byName));
+}
+
+/**
+ * Attach the referenced archive file to a single media message
+ * @param byName - attachments keyed by lower-cased file name
+ */
+export function linkAttachment(
+  message: ParsedMessage,
+  byName: Map<string, MessageAttachment>,
+): ParsedMessage {
+  if (message.type !== 'media') return message;
+
+  const fileName = getAttachmentFileName(message.content);
+  const attachment = fileName ? byName.get(fileName.toLowerCase()) : undefined;
+
+  return attachment ? { ...message, attachment } : message;
+}
+
+/**
+ * Number a file name already taken (case-insensitively): IMG.jpg -> IMG-1.jpg, IMG-2.jpg...
+ * @param taken - lower-cased names in use, the returned name is added to it
+ */
+export function uniqueFileName(fileName: string, taken: Set<string>): string {
+  const extension = extname(fileName);
+  const stem = fileName.slice(0, fileName.length - extension.length);
+
+  let name = fileName;
+  for (let i = 1; taken.has(name.toLowerCase()); i++) {
+    name = `${stem}-${i}${extension}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * Pick the chat transcript: iOS uses "_chat.txt", Android "WhatsApp Chat with X.txt"
+ */
+function findChatEntry(entries: Entry[]): Entry | undefined {
+  const textEntries = entries.filter((e) => extname(e.fileName).toLowerCase() === '.txt');
+
+  return (
+    textEntries.find((e) => basename(e.fileName) === '_chat.txt') ||
+    textEntries.find((e) => /^whatsapp/i.test(basename(e.fileName))) ||
+    [...textEntries].sort((a, b) => b.uncompressedSize - a.uncompressedSize)[0]
+  );
+}
+
+function openZip(zipPath: string): Promise<ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true, autoClose: false }, (err, zip) => {
+      if (err || !zip) return reject(err || new Error(`Unable to open archive: ${zipPath}`));
+      resolve(zip);
+    });
+  });
+}
+
+function listEntries(zip: ZipFile): Promise<Entry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: Entry[] = [];
+    zip.on('entry', (entry: Entry) => {
+      entries.push(entry);
+      zip.readEntry();
+    });
+    zip.once('end', () => resolve(entries));
+    zip.once('error', reject);
+    zip.readEntry();
+  });
+}
+
+function openEntryStream(zip: ZipFile, entry: Entry): Promise<Readable> {
+  return new Promise((resolve, reject) => {
+    zip.openReadStream(entry, (err, stream) => {
+      if (err || !stream) return reject(err || new Error(`Unable to read ${entry.fileName}`));
+      resolve(stream);
+    });
+  });
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const buffers: Buffer[] = [];
+  for await (const data of stream) {
+    buffers.push(data as Buffer);
+  }
+  return Buffer.concat(buffers);
+}
@@ -0,0 +1,63 @@
+/**
+ * Local Attachments
+ * Media referenced by JSON exports (Telegram, Messenger) that sits next to the export file
+ */
+
+import { copyFile, mkdir, stat } from 'fs/promises';
+import { basename, join, resolve, sep } from 'path';
+import type { MessageAttachment, ParsedMessage } from './types.js';
+import { getMimeType } from './archive.js';
+
+/**
+ * Describe a media file by its path relative to the export directory
+ * Size is filled in once the file is found on disk (see resolveLocalAttachments)
+ */
+export function describeLocalAttachment(
+  mediaDir: string,
+  relativePath: string,
+  mimeType?: string,
+): MessageAttachment | null {
+  const root = resolve(mediaDir);
+  const path = resolve(root, relativePath);
+  // Never follow paths that leave the export directory
+  if (!path.startsWith(root + sep)) return null;
+
+  const fileName = basename(path);
+  return { fileName, size: 0, mimeType: mimeType || getMimeType(fileName), path };
+}
+
+/**
+ * Check linked media exists (exports can skip it), fill in file sizes, and copy the
+ * files next to other ingested attachments when a directory is given
+ * Messages whose media is missing lose their attachment; the found ones are returned
+ */
+export async function resolveLocalAttachments(
+  messages: ParsedMessage[],
+  targetDir: string | undefined,
+): Promise<MessageAttachment[]> {
+  const found: MessageAttachment[] = [];
+  if (targetDir) await mkdir(targetDir, { recursive: true });
+
+  for (const message of messages) {
+    const attachment = message.attachment;
+    if (!attachment?.path) continue;
+
+    try {
+      const info = await stat(attachment.path);
+      if (!info.isFile()) throw new Error('Not a file');
+      attachment.size = info.size;
+      if (targetDir) {
+        const target = join(targetDir, attachment.fileName);
+        await copyFile(attachment.path, target);
+        attachment.path = target;
+      } else {
+        delete attachment.path;
+      }
+      found.push(attachment);
+    } catch {
+      delete message.attachment;
+    }
+  }
+
+  return found;
+}
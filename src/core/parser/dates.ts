@@ -0,0 +1,209 @@
+/**
+ * Date Order Detection
+ * Resolves whether numeric export dates are day-first or month-first for a whole file
+ */
+
+import type { DateOrder, DateOrderDetection } from './types.js';
+import { DATE_FORMATS } from './types.js';
+
+export type DateFormat = keyof typeof DATE_FORMATS;
+
+export interface DateFields {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Weight of a line that can only be read one way (a field over 12)
+ */
+const RANGE_WEIGHT = 10;
+
+/**
+ * Read the date fields of a matched header line using the given day/month order
+ */
+export function readDateFields(
+  match: RegExpMatchArray,
+  format: DateFormat,
+  order: DateOrder,
+): DateFields {
+  if (format === 'ISO') {
+    // y-m-d, h:mm (never ambiguous)
+    return {
+      year: parseInt(match[1], 10),
+      month: parseInt(match[2], 10),
+      day: parseInt(match[3], 10),
+      hour: parseInt(match[4], 10),
+      minute: parseInt(match[5], 10),
+      second: match[6] ? parseInt(match[6], 10) : 0,
+    };
+  }
+
+  const first = parseInt(match[1], 10);
+  const second = parseInt(match[2], 10);
+  let hour = parseInt(match[4], 10);
+
+  // Handle AM/PM (only the 12-hour layouts capture it)
+  const ampm = match[7]?.toUpperCase();
+  if (ampm === 'PM' && hour !== 12) hour += 12;
+  if (ampm === 'AM' && hour === 12) hour = 0;
+
+  return {
+    year: normalizeYear(parseInt(match[3], 10)),
+    month: order === 'DMY' ? second : first,
+    day: order === 'DMY' ? first : second,
+    hour,
+    minute: parseInt(match[5], 10),
+    second: match[6] ? parseInt(match[6], 10) : 0,
+  };
+}
+
+/**
+ * Normalize 2-digit years to 4-digit
+ */
+export function normalizeYear(year: number): number {
+  if (year < 100) {
+    return year >= 50 ? 1900 + year : 2000 + year;
+  }
+  return year;
+}
+
+/**
+ * Build a timestamp from date fields, rejecting impossible dates (no month/day rollover)
+ */
+export function toTimestamp(fields: DateFields): Date | null {
+  const { year, month, day, hour, minute, second } = fields;
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) return null;
+
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  if (isNaN(date.getTime()) || date.getDate() !== day) return null;
+
+  return date;
+}
+
+/**
+ * Detect the day/month order of a whole export from its (normalized) lines
+ */
+export function detectDateOrder(
+  lines: Iterable<string>,
+  override?: DateOrder | 'auto',
+): DateOrderDetection {
+  const detector = new DateOrderDetector(override);
+  if (detector.needsInput) {
+    for (const line of lines) detector.add(line);
+  }
+  return detector.result();
+}
+
+/**
+ * Incremental day/month order detection, so large files can be scanned line by line
+ *
+ * Three kinds of evidence are combined:
+ * - value ranges: a first field over 12 can only be a day (and vice versa)
+ * - progression: the wrong order makes timestamps jump backwards between lines
+ * - clock style: AM/PM exports lean month-first, 24-hour exports day-first
+ */
+export class DateOrderDetector {
+  private evidence = {
+    dayFirstLines: 0,
+    monthFirstLines: 0,
+    backwardsIfDayFirst: 0,
+    backwardsIfMonthFirst: 0,
+    amPmRatio: 0,
+  };
+  private dateLines = 0;
+  private amPmLines = 0;
+  private previousDayFirst: number | null = null;
+  private previousMonthFirst: number | null = null;
+
+  constructor(private override?: DateOrder | 'auto') {}
+
+  /**
+   * False when an explicit order was given and lines don't need to be scanned
+   */
+  get needsInput(): boolean {
+    return !this.override || this.override === 'auto';
+  }
+
+  add(line: string): void {
+    const header = matchAmbiguousDate(line);
+    if (!header) return;
+
+    const { evidence } = this;
+    this.dateLines++;
+    if (header.match[7]) this.amPmLines++;
+
+    const first = parseInt(header.match[1], 10);
+    const second = parseInt(header.match[2], 10);
+    if (first > 12 && second <= 12) evidence.dayFirstLines++;
+    if (second > 12 && first <= 12) evidence.monthFirstLines++;
+
+    const dayFirst = toTimestamp(readDateFields(header.match, header.format, 'DMY'))?.getTime();
+    const monthFirst = toTimestamp(readDateFields(header.match, header.format, 'MDY'))?.getTime();
+
+    if (dayFirst !== undefined) {
+      if (this.previousDayFirst !== null && dayFirst < this.previousDayFirst) {
+        evidence.backwardsIfDayFirst++;
+      }
+      this.previousDayFirst = dayFirst;
+    }
+    if (monthFirst !== undefined) {
+      if (this.previousMonthFirst !== null && monthFirst < this.previousMonthFirst) {
+        evidence.backwardsIfMonthFirst++;
+      }
+      this.previousMonthFirst = monthFirst;
+    }
+  }
+
+  result(): DateOrderDetection {
+    const evidence = { ...this.evidence };
+
+    if (this.override && this.override !== 'auto') {
+      return { order: this.override, confidence: 1, source: 'override', evidence };
+    }
+
+    if (this.dateLines === 0) {
+      return { order: 'DMY', confidence: 0, source: 'default', evidence };
+    }
+
+    evidence.amPmRatio = Math.round((this.amPmLines / this.dateLines) * 100) / 100;
+    const usesAmPm = evidence.amPmRatio >= 0.5;
+
+    const dayFirstScore =
+      evidence.dayFirstLines * RANGE_WEIGHT +
+      Math.max(0, evidence.backwardsIfMonthFirst - evidence.backwardsIfDayFirst) +
+      (usesAmPm ? 0.5 : 1);
+    const monthFirstScore =
+      evidence.monthFirstLines * RANGE_WEIGHT +
+      Math.max(0, evidence.backwardsIfDayFirst - evidence.backwardsIfMonthFirst) +
+      (usesAmPm ? 1 : 0.5);
+
+    const order: DateOrder = dayFirstScore >= monthFirstScore ? 'DMY' : 'MDY';
+    const confidence =
+      Math.max(dayFirstScore, monthFirstScore) / (dayFirstScore + monthFirstScore);
+
+    return {
+      order,
+      confidence: Math.round(confidence * 100) / 100,
+      source: 'detected',
+      evidence,
+    };
+  }
+}
+
+/**
+ * Match a line against the numeric (possibly ambiguous) date formats
+ */
+function matchAmbiguousDate(
+  line: string,
+): { match: RegExpMatchArray; format: DateFormat } | null {
+  for (const format of Object.keys(DATE_FORMATS) as DateFormat[]) {
+    if (format === 'ISO') continue;
+    const match = line.match(DATE_FORMATS[format]);
+    if (match) return { match, format };
+  }
+  return null;
+}
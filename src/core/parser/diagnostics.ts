@@ -0,0 +1,155 @@
+/**
+ * Parser Diagnostics
+ * Records lines the WhatsApp parser dropped or may have misread, so bad exports can be explained
+ */
+
+import type { DiagnosticLine, DiagnosticSamples, ParserDiagnostics } from './types.js';
+import { SYSTEM_PATTERNS } from './types.js';
+import type { DateFormat } from './dates.js';
+
+/**
+ * Samples kept per diagnostic
+ */
+const MAX_SAMPLES = 5;
+
+/**
+ * Longest line kept in a sample
+ */
+const MAX_SAMPLE_LENGTH = 200;
+
+/**
+ * A sender made of more words than this is probably a sentence split at a colon
+ */
+const MAX_SENDER_WORDS = 5;
+
+/**
+ * Phrases that give away the export language (system messages and media placeholders)
+ */
+const LOCALE_HINTS: Record<string, RegExp> = {
+  en: /end-to-end encrypted|media omitted|image omitted|this message was (deleted|edited)|created group|joined using/i,
+  fr: /chiffrés de bout en bout|médias omis|absente|ce message a été (supprimé|modifié)|a créé le groupe|a quitté/i,
+  de: /ende-zu-ende-verschlüsselt|weggelassen|diese nachricht wurde (gelöscht|bearbeitet)|hat die gruppe/i,
+  es: /cifrados de extremo a extremo|omitid[oa]|este mensaje fue eliminado|creó el grupo/i,
+  pt: /criptografia de ponta a ponta|ocultad[oa]|mídia oculta|esta mensagem foi apagada|criou o grupo/i,
+};
+
+export interface ParsedHeader {
+  timestamp: Date;
+  sender: string;
+  content: string;
+  format: DateFormat;
+}
+
+/**
+ * Collects diagnostics line by line alongside WhatsAppLineParser
+ */
+export class DiagnosticsCollector {
+  private totalLines = 0;
+  private continuationLines = 0;
+  private formatCounts = new Map<DateFormat, number>();
+  private localeHits = new Map<string, number>();
+  private previousTimestamp: number | null = null;
+  private orphanLines = emptySamples();
+  private backwardsTimestamps = emptySamples();
+  private suspectedSenderSplits = emptySamples();
+
+  /**
+   * Count a raw line; returns its 1-based line number
+   */
+  line(): number {
+    return ++this.totalLines;
+  }
+
+  /**
+   * A non-empty line before any message header
+   */
+  orphan(lineNumber: number, line: string): void {
+    addSample(this.orphanLines, { lineNumber, line });
+  }
+
+  /**
+   * A line appended to the previous message
+   */
+  continuation(): void {
+    this.continuationLines++;
+  }
+
+  /**
+   * A line that starts a new message
+   */
+  header(lineNumber: number, line: string, header: ParsedHeader): void {
+    this.formatCounts.set(header.format, (this.formatCounts.get(header.format) || 0) + 1);
+
+    const timestamp = header.timestamp.getTime();
+    if (this.previousTimestamp !== null && timestamp < this.previousTimestamp) {
+      addSample(this.backwardsTimestamps, { lineNumber, line });
+    }
+    this.previousTimestamp = timestamp;
+
+    const reason = suspectSenderSplit(header.sender, header.content);
+    if (reason) addSample(this.suspectedSenderSplits, { lineNumber, line, reason });
+
+    for (const [locale, pattern] of Object.entries(LOCALE_HINTS)) {
+      if (pattern.test(header.content)) {
+        this.localeHits.set(locale, (this.localeHits.get(locale) || 0) + 1);
+      }
+    }
+  }
+
+  result(): ParserDiagnostics {
+    return {
+      format: mostFrequent(this.formatCounts),
+      locale: mostFrequent(this.localeHits),
+      totalLines: this.totalLines,
+      continuationLines: this.continuationLines,
+      orphanLines: this.orphanLines,
+      backwardsTimestamps: this.backwardsTimestamps,
+      suspectedSenderSplits: this.suspectedSenderSplits,
+    };
+  }
+}
+
+/**
+ * Explain why a "sender: content" split looks wrong, or null when it looks fine
+ */
+function suspectSenderSplit(sender: string, content: string): string | null {
+  if (!sender) return null;
+
+  if (/(^|\s)(https?|ftp)$/i.test(sender) || content.startsWith('//')) {
+    return 'URL split at its colon';
+  }
+  if (SYSTEM_PATTERNS.some((pattern) => pattern.test(sender))) {
+    return 'system message text taken as sender';
+  }
+  if (sender.split(/\s+/).length > MAX_SENDER_WORDS) {
+    return 'sender looks like a sentence';
+  }
+  return null;
+}
+
+function emptySamples(): DiagnosticSamples {
+  return { count: 0, samples: [] };
+}
+
+function addSample(target: DiagnosticSamples, sample: DiagnosticLine): void {
+  target.count++;
+  if (target.samples.length < MAX_SAMPLES) {
+    const line =
+      sample.line.length > MAX_SAMPLE_LENGTH
+        ? sample.line.slice(0, MAX_SAMPLE_LENGTH) + '...'
+        : sample.line;
+    target.samples.push({ ...sample, line });
+  }
+}
+
+function mostFrequent<T>(counts: Map<T, number>): T | null {
+  let best: T | null = null;
+  let bestCount = 0;
+  for (const [key, count] of counts) {
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  }
+  return best;
+}
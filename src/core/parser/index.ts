@@ -1,2 +1,11 @@
 export * from './types.js';
 export * from './whatsapp.js';
+export * from './archive.js';
+export * from './dates.js';
+export * from './diagnostics.js';
+export * from './stats.js';
+export * from './stream.js';
+export * from './telegram.js';
+export * from './messenger.js';
+export * from './attachments.js';
+export * from './registry.js';
@@ -0,0 +1,245 @@
+/**
+ * Messenger / Instagram Export Parser
+ * Parses the message_N.json files of a Meta "Download your information" export
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import type { ChatImporter, ParsedMessage, ParserOptions, ParserResult } from './types.js';
+import { describeLocalAttachment, resolveLocalAttachments } from './attachments.js';
+import { buildParserResult } from './stats.js';
+import { assignMessageIds } from '../ids/index.js';
+
+interface MessengerMedia {
+  uri: string;
+  creation_timestamp?: number;
+}
+
+interface MessengerMessage {
+  sender_name: string;
+  timestamp_ms: number;
+  content?: string;
+  type?: string;
+  is_unsent?: boolean;
+  photos?: MessengerMedia[];
+  videos?: MessengerMedia[];
+  audio_files?: MessengerMedia[];
+  gifs?: MessengerMedia[];
+  files?: MessengerMedia[];
+  sticker?: MessengerMedia;
+  share?: { link?: string; share_text?: string };
+}
+
+export interface MessengerExport {
+  participants?: Array<{ name: string }>;
+  messages: MessengerMessage[];
+  title?: string;
+  thread_path?: string;
+}
+
+export interface MessengerParserOptions extends ParserOptions {
+  /**
+   * Root of the export, which media URIs ("messages/inbox/...") are relative to
+   * Default: media is described but not linked
+   */
+  mediaDir?: string;
+}
+
+/**
+ * Numbered files of one conversation (message_1.json holds the newest messages)
+ */
+const MESSAGE_FILE = /^message_\d+\.json$/;
+
+/**
+ * Media lists and how they map onto message media types, in order of precedence
+ */
+const MEDIA_FIELDS = [
+  { field: 'photos', mediaType: 'image', placeholder: 'photo' },
+  { field: 'videos', mediaType: 'video', placeholder: 'video' },
+  { field: 'audio_files', mediaType: 'audio', placeholder: 'audio' },
+  { field: 'gifs', mediaType: 'image', placeholder: 'GIF' },
+  { field: 'files', mediaType: 'document', placeholder: 'file' },
+] as const;
+
+/**
+ * Message types that describe conversation events rather than things people said
+ */
+const SYSTEM_TYPES = new Set(['Subscribe', 'Unsubscribe', 'Call']);
+
+/**
+ * Facebook Messenger and Instagram JSON export importer
+ */
+export const messengerImporter: ChatImporter = {
+  name: 'messenger',
+  extensions: ['.json'],
+  detect: ({ head, isZip }) =>
+    !isZip && /^\s*\{/.test(head) && /"sender_name"\s*:/.test(head) && /"timestamp_ms"\s*:/.test(head),
+  parse: parseMessengerFile,
+};
+
+/**
+ * Parse a Messenger/Instagram export file
+ * Sibling message_N.json files of the same conversation are merged into one result
+ */
+export async function parseMessengerFile(
+  filePath: string,
+  options: ParserOptions = {},
+): Promise<ParserResult> {
+  const dir = dirname(filePath);
+  const files = MESSAGE_FILE.test(basename(filePath))
+    ? (await readdir(dir))
+        .filter((name) => MESSAGE_FILE.test(name))
+        .sort((a, b) => parseInt(a.slice(8), 10) - parseInt(b.slice(8), 10))
+        .map((name) => join(dir, name))
+    : [filePath];
+
+  const parts: MessengerExport[] = [];
+  for (const file of files) {
+    parts.push(JSON.parse(await readFile(file, 'utf-8')));
+  }
+
+  const merged: MessengerExport = {
+    ...parts[0],
+    messages: parts.flatMap((part) => part.messages || []),
+  };
+
+  const result = parseMessengerExport(merged, {
+    ...options,
+    mediaDir: findExportRoot(dir, merged.messages),
+  });
+  result.attachments = await resolveLocalAttachments(result.messages, options.attachmentsDir);
+  return result;
+}
+
+/**
+ * Parse an already decoded Messenger/Instagram export
+ */
+export function parseMessengerExport(
+  data: MessengerExport,
+  options: MessengerParserOptions = {},
+): ParserResult {
+  if (!Array.isArray(data?.messages)) {
+    throw new Error('Not a Messenger/Instagram export (no "messages" list)');
+  }
+
+  const includeSystemMessages = options.includeSystemMessages ?? true;
+  const includeDeletedMessages = options.includeDeletedMessages ?? true;
+
+  // Exports list the newest messages first (across message_1.json, message_2.json, ...)
+  const all = [...data.messages]
+    .reverse()
+    .map((raw) => toParsedMessage(fixMetaEncoding(raw), options.mediaDir))
+    .filter((m): m is ParsedMessage => m !== null)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  // IDs are assigned before filtering, so that they do not depend on the options
+  assignMessageIds(all);
+  const messages = all
+    .filter((m) => includeSystemMessages || m.type !== 'system')
+    .filter((m) => includeDeletedMessages || m.type !== 'deleted');
+
+  const attachments = messages.flatMap((m) => (m.attachment ? [m.attachment] : []));
+  return buildParserResult(messages, { attachments, conversationKey: all[0]?.id });
+}
+
+function toParsedMessage(raw: MessengerMessage, mediaDir: string | undefined): ParsedMessage | null {
+  const timestamp = new Date(raw.timestamp_ms);
+  if (!raw.sender_name || isNaN(timestamp.getTime())) return null;
+
+  const message: ParsedMessage = {
+    id: '', // Assigned once messages are in order
+    timestamp,
+    sender: raw.sender_name,
+    content: (raw.content || '').trim(),
+    type: 'text',
+    rawLine: JSON.stringify(raw),
+  };
+
+  if (raw.is_unsent) {
+    return { ...message, type: 'deleted', content: message.content || 'This message was unsent' };
+  }
+  if (raw.type && SYSTEM_TYPES.has(raw.type)) {
+    return { ...message, type: 'system' };
+  }
+
+  if (raw.share?.link && !message.content.includes(raw.share.link)) {
+    message.content = [message.content, raw.share.share_text, raw.share.link]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  const media = findMedia(raw);
+  if (media) {
+    message.type = 'media';
+    message.mediaType = media.mediaType;
+    if (!message.content) message.content = media.placeholder;
+
+    const attachment = mediaDir ? describeLocalAttachment(mediaDir, media.uri) : null;
+    if (attachment) message.attachment = attachment;
+  }
+
+  return message;
+}
+
+function findMedia(
+  raw: MessengerMessage,
+): { mediaType: ParsedMessage['mediaType']; placeholder: string; uri: string } | null {
+  for (const { field, mediaType, placeholder } of MEDIA_FIELDS) {
+    const items = raw[field];
+    if (!items?.length) continue;
+
+    const label =
+      field === 'files'
+        ? basename(items[0].uri)
+        : items.length > 1
+          ? `<${items.length} ${placeholder}s>`
+          : `<${placeholder}>`;
+    return { mediaType, placeholder: label, uri: items[0].uri };
+  }
+
+  if (raw.sticker?.uri) {
+    return { mediaType: 'sticker', placeholder: '<sticker>', uri: raw.sticker.uri };
+  }
+  return null;
+}
+
+/**
+ * Undo Meta's encoding bug: UTF-8 bytes are written as one \u00XX escape each,
+ * so "é" shows up as "Ã©". Re-reading the characters as bytes restores the text
+ */
+export function fixMetaEncoding<T>(value: T): T {
+  if (typeof value === 'string') {
+    // Anything above U+00FF can't be a mis-decoded byte: the string is already fine
+    if (!/[\u0080-\u00FF]/.test(value) || /[\u0100-\uFFFF]/.test(value)) return value;
+    const fixed = Buffer.from(value, 'latin1').toString('utf-8');
+    return (fixed.includes('\uFFFD') ? value : fixed) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => fixMetaEncoding(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fixMetaEncoding(item)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Media URIs are relative to the export root ("messages/inbox/alice_123/photos/1.jpg"
+ * or "your_instagram_activity/messages/inbox/..."), while the JSON file sits in the
+ * conversation folder: strip the part of the folder path the URIs repeat
+ */
+function findExportRoot(conversationDir: string, messages: MessengerMessage[]): string {
+  const uri = messages
+    .flatMap((m) => [...MEDIA_FIELDS.flatMap(({ field }) => m[field] || []), m.sticker])
+    .find((media) => media?.uri)?.uri;
+  if (!uri) return conversationDir;
+
+  const dir = conversationDir.replace(/\\/g, '/');
+  const segments = uri.split('/').slice(0, -1);
+  for (let i = segments.length; i > 0; i--) {
+    const prefix = segments.slice(0, i).join('/');
+    if (dir.endsWith('/' + prefix)) return dir.slice(0, -(prefix.length + 1));
+  }
+  return conversationDir;
+}
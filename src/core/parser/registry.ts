@@ -0,0 +1,162 @@
+/**
+ * Importer Registry
+ * Picks the chat importer for a file from its content, falling back to its extension
+ */
+
+import { open, readFile } from 'fs/promises';
+import { basename, extname } from 'path';
+import type {
+  ChatImporter,
+  ImportSample,
+  ParsedMessageStream,
+  ParserOptions,
+  ParserResult,
+} from './types.js';
+import { DATE_FORMATS } from './types.js';
+import { normalizeLine, parseWhatsAppFile } from './whatsapp.js';
+import { isZipFile } from './archive.js';
+import { streamWhatsAppFile } from './stream.js';
+import { telegramImporter } from './telegram.js';
+import { messengerImporter } from './messenger.js';
+
+/**
+ * Bytes read from the start of a file for content sniffing
+ */
+const SAMPLE_BYTES = 4096;
+
+/**
+ * WhatsApp .txt transcript or "Export with media" .zip importer
+ */
+export const whatsappImporter: ChatImporter = {
+  name: 'whatsapp',
+  extensions: ['.txt', '.zip'],
+  detect: ({ head, isZip }) =>
+    isZip ||
+    head
+      .split(/\r?\n/)
+      .some((line) => Object.values(DATE_FORMATS).some((format) => format.test(normalizeLine(line)))),
+  parse: parseWhatsAppFile,
+  stream: streamWhatsAppFile,
+};
+
+const importers: ChatImporter[] = [telegramImporter, messengerImporter, whatsappImporter];
+
+/**
+ * Register an additional importer (checked before the built-in ones)
+ */
+export function registerImporter(importer: ChatImporter): void {
+  const existing = importers.findIndex((i) => i.name === importer.name);
+  if (existing !== -1) importers.splice(existing, 1);
+  importers.unshift(importer);
+}
+
+/**
+ * Names of the registered formats
+ */
+export function getImporterNames(): string[] {
+  return importers.map((i) => i.name);
+}
+
+/**
+ * Find the importer for a file
+ * An explicit format wins; otherwise content sniffing, then the file extension (when
+ * several formats share it, the one whose markers the whole file holds)
+ */
+export async function resolveImporter(filePath: string, format?: string): Promise<ChatImporter> {
+  if (format && format !== 'auto') {
+    const importer = importers.find((i) => i.name === format);
+    if (!importer) {
+      throw new Error(
+        `Unknown chat format "${format}" (expected one of: ${getImporterNames().join(', ')})`,
+      );
+    }
+    return importer;
+  }
+
+  const sample = await readSample(filePath);
+  const detected = importers.find((i) => i.detect(sample));
+  if (detected) return detected;
+
+  const extension = extname(filePath).toLowerCase();
+  const byExtension = importers.filter((i) => i.extensions.includes(extension));
+  if (byExtension.length === 1) return byExtension[0];
+
+  if (byExtension.length > 1) {
+    const whole = await readSample(filePath, { whole: true });
+    const matching = byExtension.filter((i) => i.detect(whole));
+    if (matching.length === 1) return matching[0];
+
+    const names = byExtension.map((i) => i.name);
+    throw new Error(
+      `Unrecognized chat export: ${basename(filePath)} could be ${names.slice(0, -1).join(', ')} or ` +
+        `${names[names.length - 1]} (set the format)`,
+    );
+  }
+
+  throw new Error(`Unrecognized chat export: ${basename(filePath)}`);
+}
+
+/**
+ * Parse any supported chat export
+ */
+export async function parseChatFile(
+  filePath: string,
+  options: ParserOptions & { format?: string } = {},
+): Promise<ParserResult & { format: string }> {
+  const importer = await resolveImporter(filePath, options.format);
+  const result = await importer.parse(filePath, options);
+  return { ...result, format: importer.name };
+}
+
+/**
+ * Stream any supported chat export
+ * Importers without a streaming reader are parsed whole, then replayed
+ */
+export async function streamChatFile(
+  filePath: string,
+  options: ParserOptions & { format?: string } = {},
+): Promise<ParsedMessageStream & { format: string }> {
+  const importer = await resolveImporter(filePath, options.format);
+
+  if (importer.stream) {
+    const stream = await importer.stream(filePath, options);
+    return { ...stream, format: importer.name };
+  }
+
+  const result = await importer.parse(filePath, options);
+  let replayed = 0;
+  async function* messages() {
+    for (const message of result.messages) {
+      replayed++;
+      yield message;
+    }
+  }
+  return {
+    messages: messages(),
+    dateOrder: result.dateOrder,
+    attachments: result.attachments,
+    getDiagnostics: result.diagnostics ? () => result.diagnostics! : undefined,
+    getConversationKey: () => result.conversationKey,
+    getReadProgress: () => (result.messages.length > 0 ? replayed / result.messages.length : 1),
+    format: importer.name,
+  };
+}
+
+async function readSample(filePath: string, options: { whole?: boolean } = {}): Promise<ImportSample> {
+  const fileName = basename(filePath);
+  if (await isZipFile(filePath)) {
+    return { fileName, head: '', isZip: true };
+  }
+  if (options.whole) {
+    return { fileName, head: await readFile(filePath, 'utf-8'), isZip: false };
+  }
+
+  const handle = await open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SAMPLE_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SAMPLE_BYTES, 0);
+    return { fileName, head: buffer.toString('utf-8', 0, bytesRead), isZip: false };
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Parser Statistics
+ * Incrementally collects participants, date range and counts for parsed messages
+ */
+
+import type { ParsedMessage, ParserResult } from './types.js';
+
+export class MessageStats {
+  private participantsSet = new Set<string>();
+  startDate: Date | null = null;
+  endDate: Date | null = null;
+  readonly metadata: ParserResult['metadata'] = {
+    totalMessages: 0,
+    textMessages: 0,
+    mediaMessages: 0,
+    systemMessages: 0,
+    deletedMessages: 0,
+  };
+
+  add(message: ParsedMessage): void {
+    if (!this.startDate) this.startDate = message.timestamp;
+    this.endDate = message.timestamp;
+
+    if (message.sender && message.type !== 'system') {
+      this.participantsSet.add(message.sender);
+    }
+
+    this.metadata.totalMessages++;
+    switch (message.type) {
+      case 'text':
+        this.metadata.textMessages++;
+        break;
+      case 'media':
+        this.metadata.mediaMessages++;
+        break;
+      case 'system':
+        this.metadata.systemMessages++;
+        break;
+      case 'deleted':
+        this.metadata.deletedMessages++;
+        break;
+    }
+  }
+
+  get participants(): string[] {
+    return Array.from(this.participantsSet).sort();
+  }
+}
+
+/**
+ * Build a parser result from a complete list of messages
+ */
+export function buildParserResult(
+  messages: ParsedMessage[],
+  extra: Partial<Pick<ParserResult, 'dateOrder' | 'attachments' | 'conversationKey'>> = {},
+): ParserResult {
+  const stats = new MessageStats();
+  messages.forEach((m) => stats.add(m));
+
+  return {
+    messages,
+    participants: stats.participants,
+    startDate: stats.startDate,
+    endDate: stats.endDate,
+    attachments: extra.attachments || [],
+    dateOrder: extra.dateOrder,
+    conversationKey: extra.conversationKey,
+    metadata: stats.metadata,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Streaming WhatsApp Parser
+ * Parses exports line by line so memory stays bounded regardless of file size
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import type { Readable } from 'stream';
+import type {
+  MessageAttachment,
+  ParsedMessage,
+  ParsedMessageStream,
+  ParserOptions,
+} from './types.js';
+import { DateOrderDetector } from './dates.js';
+import { WhatsAppLineParser, normalizeLine } from './whatsapp.js';
+import {
+  inspectWhatsAppArchive,
+  isZipFile,
+  linkAttachment,
+  openArchiveEntry,
+} from './archive.js';
+
+/**
+ * Stream messages from a WhatsApp export file (.txt or "Export with media" .zip)
+ */
+export async function streamWhatsAppFile(
+  filePath: string,
+  options: ParserOptions = {},
+): Promise<ParsedMessageStream> {
+  if (await isZipFile(filePath)) {
+    const { chatFileName, attachments } = await inspectWhatsAppArchive(filePath, {
+      extractTo: options.attachmentsDir,
+    });
+    return streamWhatsAppLines(() => readArchiveLines(filePath, chatFileName), options, attachments);
+  }
+
+  return streamWhatsAppLines(
+    () => readLines(createReadStream(filePath, { encoding: 'utf-8' })),
+    options,
+  );
+}
+
+/**
+ * Stream messages from a re-readable source of lines
+ * The source is read twice: once to detect the day/month order (and count lines for progress),
+ * once to parse. A given date order skips the first read, and progress is not reported
+ */
+export async function streamWhatsAppLines(
+  openLines: () => AsyncIterable<string>,
+  options: ParserOptions = {},
+  attachments: MessageAttachment[] = [],
+): Promise<ParsedMessageStream> {
+  const detector = new DateOrderDetector(options.dateOrder);
+  let totalLines = 0;
+  if (detector.needsInput) {
+    for await (const line of openLines()) {
+      totalLines++;
+      detector.add(normalizeLine(line));
+    }
+  }
+  const dateOrder = detector.result();
+  let linesRead = 0;
+
+  const byName = new Map(attachments.map((a) => [a.fileName.toLowerCase(), a]));
+
+  const parser = new WhatsAppLineParser(dateOrder.order, options);
+
+  async function* messages(): AsyncGenerator<ParsedMessage> {
+    for await (const line of openLines()) {
+      linesRead++;
+      const message = parser.push(line);
+      if (message) yield linkAttachment(message, byName);
+    }
+
+    const last = parser.flush();
+    if (last) yield linkAttachment(last, byName);
+  }
+
+  return {
+    messages: messages(),
+    dateOrder,
+    attachments,
+    getDiagnostics: () => parser.diagnostics.result(),
+    getConversationKey: () => parser.conversationKey,
+    getReadProgress: detector.needsInput
+      ? () => (totalLines > 0 ? Math.min(linesRead / totalLines, 1) : 1)
+      : undefined,
+  };
+}
+
+/**
+ * Split a text stream into lines (handles \r\n)
+ */
+export async function* readLines(input: Readable): AsyncGenerator<string> {
+  const reader = createInterface({ input, crlfDelay: Infinity });
+  try {
+    for await (const line of reader) {
+      yield line;
+    }
+  } finally {
+    reader.close();
+  }
+}
+
+async function* readArchiveLines(zipPath: string, fileName: string): AsyncGenerator<string> {
+  const entry = await openArchiveEntry(zipPath, fileName);
+  try {
+    entry.stream.setEncoding('utf-8');
+    yield* readLines(entry.stream);
+  } finally {
+    entry.close();
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Telegram Export Parser
+ * Parses Telegram Desktop "Export chat history" JSON files (result.json)
+ */
+
+import { readFile } from 'fs/promises';
+import { basename, dirname } from 'path';
+import type {
+  ChatImporter,
+  ParsedMessage,
+  ParserOptions,
+  ParserResult,
+} from './types.js';
+import { describeLocalAttachment, resolveLocalAttachments } from './attachments.js';
+import { buildParserResult } from './stats.js';
+import { MessageIdGenerator } from '../ids/index.js';
+
+/**
+ * Rich text is exported either as a plain string or as a list of strings and entities
+ */
+type TelegramText = string | Array<string | { type: string; text: string }>;
+
+interface TelegramMessage {
+  id: number;
+  type: 'message' | 'service' | string;
+  date: string;
+  date_unixtime?: string;
+  from?: string | null;
+  from_id?: string;
+  actor?: string | null;
+  actor_id?: string;
+  action?: string;
+  title?: string;
+  members?: Array<string | null>;
+  text?: TelegramText;
+  edited?: string;
+  reply_to_message_id?: number;
+  forwarded_from?: string | null;
+  photo?: string;
+  file?: string;
+  file_name?: string;
+  media_type?: string;
+  mime_type?: string;
+  sticker_emoji?: string;
+  location_information?: { latitude: number; longitude: number };
+  contact_information?: { first_name?: string; last_name?: string; phone_number?: string };
+  poll?: { question: string; answers?: Array<{ text: string; voters: number }> };
+}
+
+export interface TelegramExport {
+  name?: string;
+  type?: string;
+  id?: number;
+  messages: TelegramMessage[];
+}
+
+export interface TelegramParserOptions extends ParserOptions {
+  /**
+   * Directory the export's relative media paths (photos/, files/, ...) resolve against
+   * Default: media is described but not linked
+   */
+  mediaDir?: string;
+}
+
+/**
+ * Media types Telegram writes in `media_type`
+ */
+const MEDIA_TYPES: Record<string, ParsedMessage['mediaType']> = {
+  sticker: 'sticker',
+  animation: 'video',
+  video_file: 'video',
+  video_message: 'video',
+  voice_message: 'audio',
+  audio_file: 'audio',
+};
+
+/**
+ * Chat types of a single-chat export, written near the top of result.json
+ */
+const CHAT_TYPE =
+  /"type"\s*:\s*"(personal_chat|bot_chat|saved_messages|private_group|private_supergroup|public_supergroup|private_channel|public_channel)"/;
+
+/**
+ * Placeholder Telegram writes when media was left out of the export
+ */
+const FILE_NOT_INCLUDED = /^\(File not included/;
+
+/**
+ * Telegram Desktop JSON export importer
+ */
+export const telegramImporter: ChatImporter = {
+  name: 'telegram',
+  extensions: ['.json'],
+  detect: ({ head, isZip }) => !isZip && /^\s*\{/.test(head) && CHAT_TYPE.test(head),
+  parse: parseTelegramFile,
+};
+
+/**
+ * Parse a Telegram export file; media paths resolve against the file's directory
+ */
+export async function parseTelegramFile(
+  filePath: string,
+  options: ParserOptions = {},
+): Promise<ParserResult> {
+  const content = await readFile(filePath, 'utf-8');
+  const result = parseTelegramExport(JSON.parse(content.replace(/^\uFEFF/, '')), {
+    ...options,
+    mediaDir: dirname(filePath),
+  });
+
+  result.attachments = await resolveLocalAttachments(result.messages, options.attachmentsDir);
+  return result;
+}
+
+/**
+ * Parse an already decoded Telegram export
+ */
+export function parseTelegramExport(
+  data: TelegramExport,
+  options: TelegramParserOptions = {},
+): ParserResult {
+  if (!Array.isArray(data?.messages)) {
+    throw new Error(
+      'Not a Telegram chat export (no "messages" list). Export a single chat as JSON from Telegram Desktop',
+    );
+  }
+
+  const includeSystemMessages = options.includeSystemMessages ?? true;
+
+  // Telegram IDs are only unique within one chat; map them to our own IDs for replies
+  const ids = new MessageIdGenerator();
+  const idsByTelegramId = new Map<number, string>();
+  const messages: ParsedMessage[] = [];
+  let conversationKey: string | undefined;
+
+  for (const raw of data.messages) {
+    const message = toParsedMessage(raw, options.mediaDir);
+    if (!message) continue;
+
+    message.id = ids.next(message);
+    conversationKey ??= message.id;
+    idsByTelegramId.set(raw.id, message.id);
+    if (message.type === 'system' && !includeSystemMessages) continue;
+
+    // Replies always point to earlier messages
+    if (raw.reply_to_message_id !== undefined && idsByTelegramId.has(raw.reply_to_message_id)) {
+      message.replyTo = idsByTelegramId.get(raw.reply_to_message_id);
+    }
+    messages.push(message);
+  }
+
+  const attachments = messages.flatMap((m) => (m.attachment ? [m.attachment] : []));
+  return buildParserResult(messages, { attachments, conversationKey });
+}
+
+/**
+ * Map one exported message (its ID is assigned by the caller)
+ */
+function toParsedMessage(raw: TelegramMessage, mediaDir: string | undefined): ParsedMessage | null {
+  const timestamp = raw.date_unixtime
+    ? new Date(parseInt(raw.date_unixtime, 10) * 1000)
+    : new Date(raw.date);
+  if (isNaN(timestamp.getTime())) return null;
+
+  const text = flattenText(raw.text);
+  const base = { id: '', timestamp, rawLine: JSON.stringify(raw) };
+
+  if (raw.type === 'service') {
+    return { ...base, sender: '', content: describeServiceAction(raw), type: 'system' };
+  }
+  if (raw.type !== 'message') return null;
+
+  const sender = raw.from || raw.from_id || 'Deleted Account';
+  const message: ParsedMessage = { ...base, sender, content: text, type: 'text' };
+  if (raw.forwarded_from) message.forwardedFrom = raw.forwarded_from;
+  if (raw.edited) message.edited = true;
+
+  if (raw.poll) {
+    message.content = raw.poll.question;
+    message.poll = {
+      question: raw.poll.question,
+      options: (raw.poll.answers || []).map((a) => ({ text: a.text, votes: a.voters })),
+    };
+  }
+
+  const media = describeMedia(raw);
+  if (media) {
+    message.type = 'media';
+    message.mediaType = media.mediaType;
+    message.content = text || media.placeholder;
+
+    if (raw.location_information) {
+      const { latitude, longitude } = raw.location_information;
+      message.location = { latitude, longitude };
+    }
+    if (media.contactName) message.contactName = media.contactName;
+
+    const attachment =
+      mediaDir && media.path ? describeLocalAttachment(mediaDir, media.path, raw.mime_type) : null;
+    if (attachment) message.attachment = attachment;
+  }
+
+  return message;
+}
+
+/**
+ * Join a rich text value into plain text
+ */
+function flattenText(text: TelegramText | undefined): string {
+  if (!text) return '';
+  if (typeof text === 'string') return text.trim();
+  return text
+    .map((part) => (typeof part === 'string' ? part : part.text))
+    .join('')
+    .trim();
+}
+
+function describeMedia(
+  raw: TelegramMessage,
+): {
+  mediaType: ParsedMessage['mediaType'];
+  placeholder: string;
+  path?: string;
+  contactName?: string;
+} | null {
+  const path = (p: string | undefined) => (p && !FILE_NOT_INCLUDED.test(p) ? p : undefined);
+
+  if (raw.photo) {
+    return { mediaType: 'image', placeholder: '<photo>', path: path(raw.photo) };
+  }
+  if (raw.file || raw.media_type) {
+    const mediaType = (raw.media_type && MEDIA_TYPES[raw.media_type]) || 'document';
+    const name = raw.file_name || (path(raw.file) ? basename(raw.file!) : undefined);
+    const placeholder =
+      raw.media_type === 'sticker' && raw.sticker_emoji
+        ? `<sticker ${raw.sticker_emoji}>`
+        : name || `<${raw.media_type?.replace(/_/g, ' ') || 'file'}>`;
+    return { mediaType, placeholder, path: path(raw.file) };
+  }
+  if (raw.location_information) {
+    const { latitude, longitude } = raw.location_information;
+    return { mediaType: 'location', placeholder: `Location: ${latitude}, ${longitude}` };
+  }
+  if (raw.contact_information) {
+    const { first_name, last_name, phone_number } = raw.contact_information;
+    const name = [first_name, last_name].filter(Boolean).join(' ');
+    return {
+      mediaType: 'contact',
+      placeholder: `Contact: ${[name, phone_number].filter(Boolean).join(' ')}`,
+      contactName: name || phone_number,
+    };
+  }
+  return null;
+}
+
+/**
+ * Describe a service message ("Alice created group "Friends"", "Bob joined the group", ...)
+ */
+function describeServiceAction(raw: TelegramMessage): string {
+  const actor = raw.actor || raw.actor_id || 'Someone';
+  const members = (raw.members || []).filter(Boolean).join(', ');
+
+  switch (raw.action) {
+    case 'create_group':
+    case 'create_channel':
+      return `${actor} created group "${raw.title || ''}"`;
+    case 'invite_members':
+      return `${actor} added ${members}`;
+    case 'remove_members':
+      return `${actor} removed ${members}`;
+    case 'join_group_by_link':
+      return `${actor} joined the group via invite link`;
+    case 'edit_group_title':
+      return `${actor} changed the group name to "${raw.title || ''}"`;
+    case 'edit_group_photo':
+      return `${actor} changed the group photo`;
+    case 'pin_message':
+      return `${actor} pinned a message`;
+    case 'phone_call':
+      return `${actor} called`;
+    default:
+      return `${actor}: ${(raw.action || 'service message').replace(/_/g, ' ')}`;
+  }
+}
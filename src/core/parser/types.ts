@@ -1,5 +1,5 @@
 /**
- * WhatsApp Parser Types
+ * Chat Parser Types
  */
 
 export type MessageType = 'text' | 'media' | 'system' | 'deleted';
@@ -11,14 +11,120 @@ export interface ParsedMessage {
   content: string;
   type: MessageType;
   mediaType?: 'image' | 'video' | 'audio' | 'document' | 'sticker' | 'location' | 'contact';
+  attachment?: MessageAttachment;
+  /**
+   * ID of the message this one replies to (importers that export reply links)
+   */
+  replyTo?: string;
+  /**
+   * Original author of a forwarded message
+   */
+  forwardedFrom?: string;
+  /**
+   * The message was edited after sending (the export's edit marker is stripped from content)
+   */
+  edited?: boolean;
+  poll?: MessagePoll;
+  location?: MessageLocation;
+  /**
+   * Name of a shared contact card (.vcf)
+   */
+  contactName?: string;
+  /**
+   * View-once media, never included in exports
+   */
+  viewOnce?: boolean;
   rawLine: string;
 }
 
+export interface MessagePoll {
+  question: string;
+  options: Array<{
+    text: string;
+    /**
+     * Vote count at export time (0 when the export doesn't include it)
+     */
+    votes: number;
+  }>;
+}
+
+export interface MessageLocation {
+  latitude: number;
+  longitude: number;
+  /**
+   * Map link as exported, when there is one
+   */
+  url?: string;
+}
+
+/**
+ * A media file shipped alongside the chat in an "Export with media" archive
+ */
+export interface MessageAttachment {
+  fileName: string;
+  size: number;
+  mimeType: string;
+  /**
+   * Location of the extracted file on disk (only set when extraction was requested)
+   */
+  path?: string;
+}
+
+/**
+ * Order of the day and month fields in numeric export dates
+ */
+export type DateOrder = 'DMY' | 'MDY';
+
+export interface DateOrderDetection {
+  order: DateOrder;
+  /**
+   * 0 (no evidence at all) to 1 (unambiguous)
+   */
+  confidence: number;
+  source: 'override' | 'detected' | 'default';
+  evidence: {
+    /**
+     * Lines whose first field is over 12 (only valid as a day)
+     */
+    dayFirstLines: number;
+    /**
+     * Lines whose second field is over 12 (only valid as a day)
+     */
+    monthFirstLines: number;
+    /**
+     * Timestamps going backwards when reading the file day-first / month-first
+     */
+    backwardsIfDayFirst: number;
+    backwardsIfMonthFirst: number;
+    /**
+     * Share of date lines using a 12-hour clock (AM/PM)
+     */
+    amPmRatio: number;
+  };
+}
+
 export interface ParserResult {
   messages: ParsedMessage[];
   participants: string[];
   startDate: Date | null;
   endDate: Date | null;
+  /**
+   * Every media file found in the export archive (empty for plain .txt exports)
+   */
+  attachments: MessageAttachment[];
+  /**
+   * Day/month order used for numeric dates (only for formats that have ambiguous dates)
+   */
+  dateOrder?: DateOrderDetection;
+  /**
+   * Why lines were dropped or look misparsed (WhatsApp transcripts)
+   */
+  diagnostics?: ParserDiagnostics;
+  /**
+   * Identifies the chat whatever the parsing options: taken from the first message of the
+   * export before any is filtered out (see ParsedMessageStream.getConversationKey)
+   */
+  conversationKey?: string;
   metadata: {
     totalMessages: number;
     textMessages: number;
@@ -28,6 +134,114 @@ export interface ParserResult {
   };
 }
 
+/**
+ * A transcript line quoted in diagnostics
+ */
+export interface DiagnosticLine {
+  /**
+   * 1-based line number in the transcript
+   */
+  lineNumber: number;
+  line: string;
+  reason?: string;
+}
+
+export interface DiagnosticSamples {
+  count: number;
+  /**
+   * First few occurrences
+   */
+  samples: DiagnosticLine[];
+}
+
+export interface ParserDiagnostics {
+  /**
+   * Date layout of the message headers (see DATE_FORMATS), null when no header matched
+   */
+  format: keyof typeof DATE_FORMATS | null;
+  /**
+   * Language guessed from system messages and media placeholders (e.g. 'en', 'fr')
+   */
+  locale: string | null;
+  totalLines: number;
+  /**
+   * Lines appended to the previous message (multi-line messages)
+   */
+  continuationLines: number;
+  /**
+   * Non-empty lines before the first message header, which are dropped
+   */
+  orphanLines: DiagnosticSamples;
+  /**
+   * Message headers dated before the previous one
+   */
+  backwardsTimestamps: DiagnosticSamples;
+  /**
+   * Headers whose "sender: content" split looks wrong (e.g. a URL or system text taken as sender)
+   */
+  suspectedSenderSplits: DiagnosticSamples;
+}
+
+/**
+ * Messages parsed lazily from a file, for exports too large to hold in memory
+ */
+export interface ParsedMessageStream {
+  /**
+   * Messages in file order (single pass)
+   */
+  messages: AsyncIterable<ParsedMessage>;
+  dateOrder?: DateOrderDetection;
+  attachments: MessageAttachment[];
+  /**
+   * Diagnostics, complete once the messages have been fully consumed
+   */
+  getDiagnostics?(): ParserDiagnostics;
+  /**
+   * Share of the export read so far (0 to 1)
+   */
+  getReadProgress?(): number;
+  /**
+   * Identifies the chat whatever the parsing options (system or deleted messages left out,
+   * date order forced), known once the first message has been read
+   */
+  getConversationKey?(): string | undefined;
+}
+
+/**
+ * Beginning of a file, used by importers to recognise their format
+ */
+export interface ImportSample {
+  fileName: string;
+  /**
+   * First few kilobytes decoded as UTF-8 (empty for ZIP archives)
+   */
+  head: string;
+  isZip: boolean;
+}
+
+/**
+ * A chat export format (WhatsApp, Telegram, ...)
+ */
+export interface ChatImporter {
+  /**
+   * Format name, as accepted by the `format` option
+   */
+  readonly name: string;
+  /**
+   * File extensions used as a fallback when content sniffing is inconclusive
+   */
+  readonly extensions: string[];
+  /**
+   * Whether the sampled file looks like this format
+   */
+  detect(sample: ImportSample): boolean;
+  parse(filePath: string, options?: ParserOptions): Promise<ParserResult>;
+  /**
+   * Lazy variant of parse for formats that can be read incrementally
+   */
+  stream?(filePath: string, options?: ParserOptions): Promise<ParsedMessageStream>;
+}
+
 export interface ParserOptions {
   /**
    * Locale hint for date parsing (auto-detected if not provided)
@@ -35,6 +249,12 @@ export interface ParserOptions {
    */
   locale?: string;
 
+  /**
+   * Day/month order for numeric dates like 03/04/2023
+   * Default: 'auto' (detected from the whole file)
+   */
+  dateOrder?: DateOrder | 'auto';
+
   /**
    * Whether to include system messages (e.g., "X joined the group")
    * Default: true
@@ -46,10 +266,18 @@ export interface ParserOptions {
    * Default: true
    */
   includeDeletedMessages?: boolean;
+
+  /**
+   * Directory to extract archive attachments into (ZIP exports only)
+   * Default: attachments are described but not extracted
+   */
+  attachmentsDir?: string;
 }
 
 /**
  * Supported WhatsApp export date formats
+ * Except for ISO, the day/month order of these is resolved per file (see dates.ts):
+ * the names only reflect the locale each layout usually comes from
  */
 export const DATE_FORMATS = {
   // US format: 1/15/23, 10:30 AM (requires AM/PM)
@@ -66,8 +294,25 @@ export const DATE_FORMATS = {
 
   // Brazilian format: 15/01/2023 10:30
   BR: /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/,
+
+  // iOS US format: [1/15/23, 10:30:45 AM] (closing bracket left for the separator)
+  IOS_US: /^\[(\d{1,2})\/(\d{1,2})\/(\d{2,4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)(?=\])/i,
+
+  // iOS format: [15/01/2023, 10:30:45], [15.01.23, 10:30:45], [15/01/2023 10:30:45]
+  IOS: /^\[(\d{1,2})[/.](\d{1,2})[/.](\d{2,4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?=\])/,
 } as const;
 
+/**
+ * Invisible characters inserted by WhatsApp (mostly iOS): bidi marks and embeddings,
+ * plus the byte order mark
+ */
+export const INVISIBLE_CHARACTERS = /[\u200E\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/g;
+
+/**
+ * Non-standard spaces used between time and AM/PM (narrow no-break space, no-break space)
+ */
+export const SPECIAL_SPACES = /[\u202F\u00A0]/g;
+
 /**
  * Common media placeholders in different languages
  */
@@ -87,18 +332,27 @@ export const MEDIA_PLACEHOLDERS: Record<string, string> = {
   '<Téléchargement indisponible>': 'media',
   '<Téléchargement du fichier média impossible>': 'media',
   'image téléchargement indisponible': 'image',
+  'image absente': 'image',
+  'vidéo absente': 'video',
+  'audio omis': 'audio',
 
   // German
   '<Medien weggelassen>': 'media',
   'Bild weggelassen': 'image',
+  'Video weggelassen': 'video',
+  'Audio weggelassen': 'audio',
 
   // Spanish
   '<Multimedia omitido>': 'media',
   'imagen omitida': 'image',
+  'video omitido': 'video',
+  'audio omitido': 'audio',
 
   // Portuguese
   '<Mídia oculta>': 'media',
   'imagem ocultada': 'image',
+  'vídeo ocultado': 'video',
+  'áudio ocultado': 'audio',
 };
 
 /**
@@ -114,6 +368,10 @@ export const SYSTEM_PATTERNS = [
   /joined using/i,
   /changed the group/i,
   /messages and calls are end-to-end encrypted/i,
+  /chiffrés de bout en bout/i,
+  /ende-zu-ende-verschlüsselt/i,
+  /cifrados de extremo a extremo/i,
+  /criptografia de ponta a ponta/i,
   /security code changed/i,
   /vous a ajouté/i,
   /a quitté/i,
@@ -131,3 +389,38 @@ export const DELETED_PATTERNS = [
   /este mensaje fue eliminado/i,
   /esta mensagem foi apagada/i,
 ];
+
+/**
+ * Markers appended to edited messages
+ */
+export const EDITED_PATTERNS = [
+  /\s*<This message was edited>$/i,
+  /\s*<Ce message a été modifié>$/i,
+  /\s*<Diese Nachricht wurde bearbeitet\.?>$/i,
+  /\s*<Se editó este mensaje\.?>$/i,
+  /\s*<Mensagem editada>$/i,
+];
+
+/**
+ * First line of a poll block, followed by the question and one line per option
+ */
+export const POLL_HEADER_PATTERN = /^(POLL|SONDAGE|UMFRAGE|ENCUESTA|ENQUETE)\s?:$/i;
+
+/**
+ * Poll option line: "OPTION: Pizza (3 votes)"
+ */
+export const POLL_OPTION_PATTERN = /^(?:OPTION|OPCIÓN|OPÇÃO)\s?:\s*(.+?)(?:\s*\((\d+)\s+[^)]+\))?$/i;
+
+/**
+ * Shared map link with coordinates ("location: https://maps.google.com/?q=48.85,2.35")
+ */
+export const LOCATION_URL_PATTERN =
+  /(https?:\/\/maps\.(?:google|apple)\.com\/\S*?[?&](?:q|ll)=(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)\S*)/i;
+
+/**
+ * View-once media placeholders ("<View once voice message omitted>")
+ */
+export const VIEW_ONCE_PATTERNS = [
+  /^<?[^<>\n]*view[ -]once[^<>\n]*omitted>?$/i,
+  /^<[^<>\n]*(view[ -]once|vue unique|einmalige ansicht|ver una vez|visualização única)[^<>\n]*>$/i,
+];
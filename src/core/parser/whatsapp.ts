@@ -3,109 +3,162 @@
  * Parses WhatsApp chat exports into structured messages
  */
 
-import { nanoid } from 'nanoid';
-import type { ParsedMessage, ParserResult, ParserOptions } from './types.js';
+import type {
+  DateOrder,
+  MessageLocation,
+  MessagePoll,
+  ParsedMessage,
+  ParserResult,
+  ParserOptions,
+} from './types.js';
 import {
   DATE_FORMATS,
+  EDITED_PATTERNS,
+  LOCATION_URL_PATTERN,
+  POLL_HEADER_PATTERN,
+  POLL_OPTION_PATTERN,
+  VIEW_ONCE_PATTERNS,
   MEDIA_PLACEHOLDERS,
   SYSTEM_PATTERNS,
   DELETED_PATTERNS,
+  INVISIBLE_CHARACTERS,
+  SPECIAL_SPACES,
 } from './types.js';
+import { detectDateOrder, readDateFields, toTimestamp, type DateFormat } from './dates.js';
+import { buildParserResult } from './stats.js';
+import { DiagnosticsCollector } from './diagnostics.js';
+import { MessageIdGenerator } from '../ids/index.js';
 
 /**
  * Parse a WhatsApp export file content
  */
 export function parseWhatsAppExport(content: string, options: ParserOptions = {}): ParserResult {
-  const {
-    includeSystemMessages = true,
-    includeDeletedMessages = true,
-  } = options;
-
   const lines = content.split(/\r?\n/);
   const messages: ParsedMessage[] = [];
-  const participantsSet = new Set<string>();
 
-  let currentMessage: Partial<ParsedMessage> | null = null;
-  let detectedFormat: keyof typeof DATE_FORMATS | null = null;
+  // Resolve day/month order once for the whole file
+  const dateOrder = detectDateOrder(lines.map(normalizeLine), options.dateOrder);
+  const parser = new WhatsAppLineParser(dateOrder.order, options);
 
   for (const line of lines) {
-    if (!line.trim()) continue;
+    const message = parser.push(line);
+    if (message) messages.push(message);
+  }
+
+  // Don't forget the last message
+  const last = parser.flush();
+  if (last) messages.push(last);
+
+  return {
+    ...buildParserResult(messages, { dateOrder, conversationKey: parser.conversationKey }),
+    diagnostics: parser.diagnostics.result(),
+  };
+}
+
+/**
+ * Line-by-line WhatsApp parser
+ * Messages can span several lines, so each one is only returned once the next one starts
+ */
+export class WhatsAppLineParser {
+  private currentMessage: Partial<ParsedMessage> | null = null;
+  private detectedFormat: DateFormat | null = null;
+  private includeSystemMessages: boolean;
+  private includeDeletedMessages: boolean;
+  readonly diagnostics = new DiagnosticsCollector();
+  private ids = new MessageIdGenerator();
+  private firstLine: string | undefined;
+
+  constructor(
+    private dateOrder: DateOrder,
+    options: ParserOptions = {},
+  ) {
+    this.includeSystemMessages = options.includeSystemMessages ?? true;
+    this.includeDeletedMessages = options.includeDeletedMessages ?? true;
+  }
+
+  /**
+   * First message line as written: unlike the message, it does not depend on the options
+   * (filtered out system messages, forced date order)
+   */
+  get conversationKey(): string | undefined {
+    return this.firstLine;
+  }
+
+  /**
+   * Feed a raw line; returns the previous message when this line starts a new one
+   */
+  push(rawLine: string): ParsedMessage | null {
+    const lineNumber = this.diagnostics.line();
+    const line = normalizeLine(rawLine);
+    if (!line.trim()) return null;
 
     // Try to parse as a new message
-    const parsed = parseMessageLine(line, detectedFormat);
+    const parsed = parseMessageLine(line, this.detectedFormat, this.dateOrder);
 
     if (parsed) {
+      this.diagnostics.header(lineNumber, line, parsed);
+      this.firstLine ??= line;
+
       // Save previous message if exists
-      if (currentMessage?.timestamp && currentMessage?.content !== undefined) {
-        const finalMessage = finalizeMessage(currentMessage as ParsedMessage);
-
-        // Filter based on options
-        if (finalMessage.type === 'system' && !includeSystemMessages) {
-          // Skip system messages
-        } else if (finalMessage.type === 'deleted' && !includeDeletedMessages) {
-          // Skip deleted messages
-        } else {
-          messages.push(finalMessage);
-          if (finalMessage.sender && finalMessage.type !== 'system') {
-            participantsSet.add(finalMessage.sender);
-          }
-        }
-      }
+      const completed = this.complete();
 
       // Start new message
-      currentMessage = {
-        id: nanoid(),
+      this.currentMessage = {
         timestamp: parsed.timestamp,
         sender: parsed.sender,
         content: parsed.content,
-        rawLine: line,
+        rawLine,
       };
-      detectedFormat = parsed.format;
-    } else if (currentMessage) {
+      this.detectedFormat = parsed.format;
+      return completed;
+    }
+
+    if (this.currentMessage) {
       // Continuation of previous message (multi-line)
-      currentMessage.content += '\n' + line;
-      currentMessage.rawLine += '\n' + line;
+      this.currentMessage.content += '\n' + line;
+      this.currentMessage.rawLine += '\n' + rawLine;
+      this.diagnostics.continuation();
+    } else {
+      this.diagnostics.orphan(lineNumber, line);
     }
+    return null;
   }
 
-  // Don't forget the last message
-  if (currentMessage?.timestamp && currentMessage?.content !== undefined) {
-    const finalMessage = finalizeMessage(currentMessage as ParsedMessage);
-    if (
-      (finalMessage.type !== 'system' || includeSystemMessages) &&
-      (finalMessage.type !== 'deleted' || includeDeletedMessages)
-    ) {
-      messages.push(finalMessage);
-      if (finalMessage.sender && finalMessage.type !== 'system') {
-        participantsSet.add(finalMessage.sender);
-      }
-    }
+  /**
+   * Return the message still being accumulated (call once the input is exhausted)
+   */
+  flush(): ParsedMessage | null {
+    const completed = this.complete();
+    this.currentMessage = null;
+    return completed;
   }
 
-  // Calculate metadata
-  const participants = Array.from(participantsSet).sort();
-  const metadata = {
-    totalMessages: messages.length,
-    textMessages: messages.filter((m) => m.type === 'text').length,
-    mediaMessages: messages.filter((m) => m.type === 'media').length,
-    systemMessages: messages.filter((m) => m.type === 'system').length,
-    deletedMessages: messages.filter((m) => m.type === 'deleted').length,
-  };
+  private complete(): ParsedMessage | null {
+    const message = this.currentMessage;
+    if (!message?.timestamp || message.content === undefined) return null;
 
-  return {
-    messages,
-    participants,
-    startDate: messages.length > 0 ? messages[0].timestamp : null,
-    endDate: messages.length > 0 ? messages[messages.length - 1].timestamp : null,
-    metadata,
-  };
+    const finalMessage = finalizeMessage(message as ParsedMessage);
+
+    // Filter based on options
+    if (finalMessage.type === 'system' && !this.includeSystemMessages) return null;
+    if (finalMessage.type === 'deleted' && !this.includeDeletedMessages) return null;
+
+    return { ...finalMessage, id: this.ids.next(finalMessage) };
+  }
+}
+
+/**
+ * Strip invisible bidi marks and normalize special spaces (iOS exports are full of them)
+ */
+export function normalizeLine(line: string): string {
+  return line.replace(INVISIBLE_CHARACTERS, '').replace(SPECIAL_SPACES, ' ');
 }
 
 interface ParsedLine {
   timestamp: Date;
   sender: string;
   content: string;
-  format: keyof typeof DATE_FORMATS;
+  format: DateFormat;
 }
 
 /**
@@ -113,19 +166,22 @@ interface ParsedLine {
  */
 function parseMessageLine(
   line: string,
-  preferredFormat: keyof typeof DATE_FORMATS | null,
+  preferredFormat: DateFormat | null,
+  dateOrder: DateOrder,
 ): ParsedLine | null {
   // Try preferred format first
-  const formatsToTry = preferredFormat
-    ? [preferredFormat, ...Object.keys(DATE_FORMATS).filter((f) => f !== preferredFormat)]
-    : Object.keys(DATE_FORMATS);
+  const formatsToTry = (
+    preferredFormat
+      ? [preferredFormat, ...Object.keys(DATE_FORMATS).filter((f) => f !== preferredFormat)]
+      : Object.keys(DATE_FORMATS)
+  ) as DateFormat[];
 
   for (const formatKey of formatsToTry) {
-    const format = DATE_FORMATS[formatKey as keyof typeof DATE_FORMATS];
+    const format = DATE_FORMATS[formatKey];
     const match = line.match(format);
 
     if (match) {
-      const timestamp = parseDateFromMatch(match, formatKey as keyof typeof DATE_FORMATS);
+      const timestamp = parseDateFromMatch(match, formatKey, dateOrder);
       if (!timestamp) continue;
 
       // Find the separator between date and message content
@@ -152,7 +208,7 @@ function parseMessageLine(
           timestamp,
           sender,
           content,
-          format: formatKey as keyof typeof DATE_FORMATS,
+          format: formatKey,
         };
       } else {
         // System message (no sender)
@@ -160,7 +216,7 @@ function parseMessageLine(
           timestamp,
           sender: '',
           content: messageContent.trim(),
-          format: formatKey as keyof typeof DATE_FORMATS,
+          format: formatKey,
         };
       }
     }
@@ -170,115 +226,69 @@ function parseMessageLine(
 }
 
 /**
- * Parse date from regex match based on format
+ * Parse date from regex match based on format and the file's day/month order
+ * A date that is impossible in the file's order (e.g. month 13) falls back to the other order
  */
-function parseDateFromMatch(match: RegExpMatchArray, format: keyof typeof DATE_FORMATS): Date | null {
-  try {
-    let year: number;
-    let month: number;
-    let day: number;
-    let hour: number;
-    let minute: number;
-    let second = 0;
-
-    switch (format) {
-      case 'US': {
-        // m/d/y, h:mm AM/PM
-        month = parseInt(match[1], 10);
-        day = parseInt(match[2], 10);
-        year = normalizeYear(parseInt(match[3], 10));
-        hour = parseInt(match[4], 10);
-        minute = parseInt(match[5], 10);
-        second = match[6] ? parseInt(match[6], 10) : 0;
-
-        // Handle AM/PM
-        const ampm = match[7]?.toUpperCase();
-        if (ampm === 'PM' && hour !== 12) hour += 12;
-        if (ampm === 'AM' && hour === 12) hour = 0;
-        break;
-      }
-
-      case 'EU':
-      case 'BR': {
-        // d/m/y, h:mm
-        day = parseInt(match[1], 10);
-        month = parseInt(match[2], 10);
-        year = normalizeYear(parseInt(match[3], 10));
-        hour = parseInt(match[4], 10);
-        minute = parseInt(match[5], 10);
-        second = match[6] ? parseInt(match[6], 10) : 0;
-        break;
-      }
-
-      case 'ISO': {
-        // y-m-d, h:mm
-        year = parseInt(match[1], 10);
-        month = parseInt(match[2], 10);
-        day = parseInt(match[3], 10);
-        hour = parseInt(match[4], 10);
-        minute = parseInt(match[5], 10);
-        second = match[6] ? parseInt(match[6], 10) : 0;
-        break;
-      }
-
-      case 'DE': {
-        // d.m.y, h:mm
-        day = parseInt(match[1], 10);
-        month = parseInt(match[2], 10);
-        year = normalizeYear(parseInt(match[3], 10));
-        hour = parseInt(match[4], 10);
-        minute = parseInt(match[5], 10);
-        second = match[6] ? parseInt(match[6], 10) : 0;
-        break;
-      }
-
-      default:
-        return null;
-    }
-
-    const date = new Date(year, month - 1, day, hour, minute, second);
-
-    // Validate the date is reasonable
-    if (isNaN(date.getTime())) return null;
-    if (date.getFullYear() < 2009 || date.getFullYear() > 2100) return null;
-
-    return date;
-  } catch {
-    return null;
-  }
+function parseDateFromMatch(
+  match: RegExpMatchArray,
+  format: DateFormat,
+  dateOrder: DateOrder,
+): Date | null {
+  const swapped: DateOrder = dateOrder === 'DMY' ? 'MDY' : 'DMY';
+  const date =
+    toTimestamp(readDateFields(match, format, dateOrder)) ||
+    (format !== 'ISO' ? toTimestamp(readDateFields(match, format, swapped)) : null);
+
+  // Validate the date is reasonable
+  if (!date) return null;
+  if (date.getFullYear() < 2009 || date.getFullYear() > 2100) return null;
+
+  return date;
 }
 
 /**
- * Normalize 2-digit years to 4-digit
- */
-function normalizeYear(year: number): number {
-  if (year < 100) {
-    return year >= 50 ? 1900 + year : 2000 + year;
-  }
-  return year;
-}
-
-/**
- * Finalize a message by detecting its type
+ * Finalize a message by detecting its type and structured content
  */
 function finalizeMessage(message: ParsedMessage): ParsedMessage {
-  const content = message.content.trim();
+  let content = message.content.trim();
+
+  // Strip the edit marker first so it doesn't hide the real content
+  const editMarker = EDITED_PATTERNS.find((pattern) => pattern.test(content));
+  if (editMarker) content = content.replace(editMarker, '').trim();
+  const base: ParsedMessage = editMarker ? { ...message, edited: true } : message;
 
   // Check for deleted message
   if (DELETED_PATTERNS.some((pattern) => pattern.test(content))) {
-    return { ...message, type: 'deleted', content };
+    return { ...base, type: 'deleted', content };
   }
 
   // Check for system message
   if (!message.sender || SYSTEM_PATTERNS.some((pattern) => pattern.test(content))) {
-    return { ...message, type: 'system', content };
+    return { ...base, type: 'system', content };
+  }
+
+  // Check for poll (content becomes the question)
+  const poll = parsePoll(content);
+  if (poll) {
+    return { ...base, type: 'text', content: poll.question, poll };
+  }
+
+  // Check for view-once media (never part of the export)
+  if (VIEW_ONCE_PATTERNS.some((pattern) => pattern.test(content))) {
+    return { ...base, type: 'media', viewOnce: true, content };
+  }
+
+  // Check for shared location (before placeholders: the "location:" label is localized)
+  const location = parseLocation(content);
+  if (location) {
+    return { ...base, type: 'media', mediaType: 'location', location, content };
   }
 
   // Check for media
   for (const [placeholder, mediaType] of Object.entries(MEDIA_PLACEHOLDERS)) {
     if (content.toLowerCase().includes(placeholder.toLowerCase())) {
       return {
-        ...message,
+        ...base,
         type: 'media',
         mediaType: mediaType as ParsedMessage['mediaType'],
         content,
@@ -287,13 +297,83 @@ function finalizeMessage(message: ParsedMessage): ParsedMessage {
   }
 
   // Check for attached media file pattern (e.g., "IMG-20230115-WA0001.jpg (file attached)")
-  if (/\.(jpg|jpeg|png|gif|webp|mp4|mp3|opus|ogg|pdf|doc|docx)\s*\(file attached\)/i.test(content)) {
-    const mediaType = detectMediaTypeFromFilename(content);
-    return { ...message, type: 'media', mediaType, content };
+  const attachedFile = getAttachmentFileName(content);
+  if (attachedFile) {
+    const mediaType = detectMediaTypeFromFilename(attachedFile);
+    if (mediaType === 'contact') {
+      return { ...base, type: 'media', mediaType, contactName: getContactName(attachedFile), content };
+    }
+    return { ...base, type: 'media', mediaType, content };
   }
 
   // Regular text message
-  return { ...message, type: 'text', content };
+  return { ...base, type: 'text', content };
+}
+
+/**
+ * Parse a poll block:
+ * POLL:
+ * Where should we eat?
+ * OPTION: Pizza (3 votes)
+ * OPTION: Sushi (1 vote)
+ */
+function parsePoll(content: string): MessagePoll | null {
+  const [header, question, ...optionLines] = content.split('\n').map((line) => line.trim());
+  if (!POLL_HEADER_PATTERN.test(header) || !question) return null;
+
+  const options: MessagePoll['options'] = [];
+  for (const line of optionLines) {
+    const match = line.match(POLL_OPTION_PATTERN);
+    if (!match) continue;
+    options.push({ text: match[1], votes: match[2] ? parseInt(match[2], 10) : 0 });
+  }
+
+  return { question, options };
+}
+
+/**
+ * Parse a shared location ("location: https://maps.google.com/?q=48.8566,2.3522")
+ * Only messages that are just the (optionally labelled) map link count: links
+ * mentioned in the middle of a sentence stay text
+ */
+function parseLocation(content: string): MessageLocation | null {
+  const match = content.match(LOCATION_URL_PATTERN);
+  if (!match) return null;
+
+  const line = content.split('\n').find((l) => l.includes(match[1]))!.trim();
+  const label = line.slice(0, line.indexOf(match[1])).trim();
+  if (label && !/^[^:]{1,60}:$/.test(label)) return null;
+
+  const latitude = parseFloat(match[2]);
+  const longitude = parseFloat(match[3]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+
+  return { latitude, longitude, url: match[1] };
+}
+
+/**
+ * Contact name from a shared card file ("John Doe.vcf", iOS "00000012-John Doe.vcf")
+ */
+function getContactName(fileName: string): string {
+  return fileName
+    .replace(/\.vcf$/i, '')
+    .replace(/^\d{8}-/, '')
+    .trim();
+}
+
+/**
+ * Extract the attachment file name referenced by a media message
+ * Android: "IMG-20230115-WA0001.jpg (file attached)"
+ * iOS: "<attached: 00000012-PHOTO-2023-01-15-10-30-45.jpg>"
+ */
+export function getAttachmentFileName(content: string): string | null {
+  const android = content.match(/^(.+?\.\w{2,5})\s*\(file attached\)/im);
+  if (android) return android[1].trim();
+
+  const ios = content.match(/<attached:\s*([^>]+?\.\w{2,5})>/i);
+  if (ios) return ios[1].trim();
+
+  return null;
 }
 
 /**
@@ -306,17 +386,23 @@ function detectMediaTypeFromFilename(content: string): ParsedMessage['mediaType'
   if (/\.(mp4|mov|avi)/i.test(lower)) return 'video';
   if (/\.(mp3|opus|ogg|m4a)/i.test(lower)) return 'audio';
   if (/\.(pdf|doc|docx|xls|xlsx)/i.test(lower)) return 'document';
+  if (/\.vcf/i.test(lower)) return 'contact';
 
   return undefined;
 }
 
 /**
- * Parse WhatsApp export from file path
+ * Parse WhatsApp export from file path (.txt transcript or "Export with media" .zip)
  */
 export async function parseWhatsAppFile(
   filePath: string,
   options: ParserOptions = {},
 ): Promise<ParserResult> {
+  const { isZipFile, parseWhatsAppArchive } = await import('./archive.js');
+  if (await isZipFile(filePath)) {
+    return parseWhatsAppArchive(filePath, options);
+  }
+
   const fs = await import('fs/promises');
   const content = await fs.readFile(filePath, 'utf-8');
   return parseWhatsAppExport(content, options);
@@ -0,0 +1,128 @@
+/**
+ * Incremental Ingestion
+ * Compares a new export of a chat with the chunks already stored for it, so that only
+ * the messages after the last stored chunk are chunked and embedded again
+ */
+
+import type { Chunk } from '../core/chunker/types.js';
+import type { ParsedMessage } from '../core/parser/types.js';
+import type { ConversationHistory } from '../storage/types.js';
+
+/**
+ * Messages read from the start of an export to find the conversation it continues
+ * (the first ones may be system messages that were never stored)
+ */
+export const MATCH_WINDOW = 20;
+
+export interface MessageDeltaCounts {
+  /**
+   * Messages not stored yet
+   */
+  newMessages: number;
+  /**
+   * Messages already stored unchanged
+   */
+  skippedMessages: number;
+  /**
+   * Messages of the stored history that differ from what is stored (edited, deleted or missing)
+   */
+  changedMessages: number;
+}
+
+/**
+ * Classifies the messages of a new export against the stored chunks of its conversation
+ *
+ * The last stored chunk (the boundary) is the only one the new messages can extend: messages
+ * before it are counted but not chunked again, and the stream is replayed into the chunker
+ * from the boundary's first message on. Changes before the boundary are reported only;
+ * a full re-ingestion rewrites them.
+ */
+export class ConversationDelta {
+  readonly counts: MessageDeltaCounts = { newMessages: 0, skippedMessages: 0, changedMessages: 0 };
+  private knownIds = new Set<string>();
+  private knownSlots = new Set<string>();
+  private storedChunkIds = new Set<string>();
+  private boundary: Chunk | null = null;
+  private replaying: boolean;
+  private boundaryKept = false;
+
+  /**
+   * @param history What is stored of the conversation (none for a new one)
+   */
+  constructor(history?: ConversationHistory) {
+    for (const id of history?.chunkIds ?? []) this.storedChunkIds.add(id);
+    for (const message of history?.messages ?? []) {
+      this.knownIds.add(message.id);
+      this.knownSlots.add(getSlot(message));
+    }
+    this.boundary = history?.lastChunk ?? null;
+    this.replaying = this.boundary === null;
+  }
+
+  /**
+   * Delta against chunks held in full
+   */
+  static fromChunks(chunks: Chunk[]): ConversationDelta {
+    const lastChunk = chunks.reduce<Chunk | null>(
+      (last, chunk) => (!last || chunk.endTime.getTime() > last.endTime.getTime() ? chunk : last),
+      null,
+    );
+    return new ConversationDelta({
+      chunkIds: chunks.map((chunk) => chunk.id),
+      messages: chunks.flatMap((chunk) => chunk.messages),
+      lastChunk: lastChunk && { ...lastChunk, embedding: [] },
+    });
+  }
+
+  /**
+   * Whether the export continues a stored conversation
+   */
+  get incremental(): boolean {
+    return this.boundary !== null;
+  }
+
+  /**
+   * Count a message of the export; returns whether it must go through the chunker
+   */
+  add(message: ParsedMessage): boolean {
+    if (!this.replaying && this.boundary) {
+      const [first] = this.boundary.messages;
+      this.replaying =
+        message.id === first.id || message.timestamp.getTime() > this.boundary.startTime.getTime();
+    }
+
+    if (this.knownIds.has(message.id)) {
+      this.counts.skippedMessages++;
+    } else if (this.knownSlots.has(getSlot(message)) || !this.replaying) {
+      this.counts.changedMessages++;
+    } else {
+      this.counts.newMessages++;
+    }
+
+    return this.replaying;
+  }
+
+  /**
+   * Whether a chunk produced from the replayed messages has to be embedded
+   * (an unchanged boundary chunk comes out with the ID it was stored under)
+   */
+  needsStoring(chunk: Chunk): boolean {
+    if (chunk.id === this.boundary?.id) this.boundaryKept = true;
+    return !this.storedChunkIds.has(chunk.id);
+  }
+
+  /**
+   * Stored chunks replaced by the re-chunked boundary, to delete once the new ones are stored
+   */
+  get replacedChunkIds(): string[] {
+    if (!this.boundary || !this.replaying || this.boundaryKept) return [];
+    return [this.boundary.id];
+  }
+}
+
+/**
+ * Position of a message in the history, kept when its content is edited or deleted
+ */
+function getSlot(message: Pick<ParsedMessage, 'timestamp' | 'sender'>): string {
+  return `${message.timestamp.getTime()}\u0000${message.sender}`;
+}
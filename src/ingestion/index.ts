@@ -1,2 +1,7 @@
 export * from './types.js';
 export * from './pipeline.js';
+export * from './scheduler.js';
+export * from './preview.js';
+export * from './reindex.js';
+export * from './queue.js';
+export * from './worker.js';
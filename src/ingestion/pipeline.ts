@@ -1,20 +1,53 @@
 /**
  * Ingestion Pipeline
- * Orchestrates the process of ingesting WhatsApp exports
+ * Orchestrates the process of ingesting chat exports
  */
 
+import { createReadStream } from 'fs';
+import { rename, rm, stat } from 'fs/promises';
+import { createHash } from 'crypto';
+import { basename, join } from 'path';
 import { nanoid } from 'nanoid';
-import { parseWhatsAppFile } from '../core/parser/index.js';
-import { chunkMessages, getChunkText } from '../core/chunker/index.js';
-import { getEmbedProvider, getLLMProvider } from '../providers/index.js';
-import { QdrantVectorStore } from '../storage/index.js';
-import type { StoredChunk } from '../storage/types.js';
+import { config } from '../config/index.js';
+import { MessageStats, streamChatFile } from '../core/parser/index.js';
+import { StreamingChunker, getChunkText } from '../core/chunker/index.js';
+import type { Chunk } from '../core/chunker/types.js';
+import type { MessageAttachment, ParsedMessage } from '../core/parser/types.js';
+import { getConversationId } from '../core/ids/index.js';
+import { ConversationDelta, MATCH_WINDOW } from './incremental.js';
+import { estimateProgress } from './progress.js';
+import { EmbeddingScheduler, mapConcurrent } from './scheduler.js';
+import { ChunkingPreview } from './preview.js';
+import {
+  estimateTokens,
+  getConfiguredEmbedModel,
+  getEmbedProvider,
+  getEmbeddingPrice,
+  getLLMProvider,
+  getRateLimiter,
+  withRetry,
+  type RetryEvent,
+} from '../providers/index.js';
+import { getMetadataStore, getVectorStore, type SqliteMetadataStore } from '../storage/index.js';
+import type { StoredChunk, VectorStore } from '../storage/types.js';
 import type {
+  IngestionDryRun,
+  IngestionHooks,
   IngestionOptions,
   IngestionProgress,
   IngestionResult,
 } from './types.js';
 
+/**
+ * Messages between progress updates while no batch is being stored (e.g. skipped history)
+ */
+const PROGRESS_INTERVAL = 1000;
+
+/**
+ * Safe input limit for most embedding models
+ */
+const MAX_EMBED_CHARS = 6000;
+
 const DEFAULT_OPTIONS: Required<IngestionOptions> = {
   chunkGapMinutes: 30,
   chunkMaxMessages: 50,
@@ -22,15 +55,19 @@ const DEFAULT_OPTIONS: Required<IngestionOptions> = {
   generateSummaries: false,
   includeSystemMessages: true,
   includeDeletedMessages: false,
+  dateOrder: 'auto',
+  format: 'auto',
+  incremental: true,
 };
 
 export class IngestionPipeline {
-  private vectorStore: QdrantVectorStore;
+  private vectorStore: VectorStore;
+  private metadata: SqliteMetadataStore;
   private progress: Map<string, IngestionProgress> = new Map();
 
   constructor() {
-    const embedProvider = getEmbedProvider();
-    this.vectorStore = new QdrantVectorStore(embedProvider.dimensions);
+    this.vectorStore = getVectorStore();
+    this.metadata = getMetadataStore();
   }
 
   async initialize(): Promise<void> {
@@ -38,113 +75,358 @@ export class IngestionPipeline {
   }
 
   /**
-   * Ingest a WhatsApp export file
+   * Ingest a chat export file (WhatsApp .txt or .zip, Telegram result.json, ...)
    */
   async ingest(
     filePath: string,
     conversationName?: string,
     options: IngestionOptions = {},
+    hooks: IngestionHooks = {},
   ): Promise<IngestionResult> {
-    const jobId = nanoid();
+    const jobId = hooks.jobId || nanoid();
+    const { signal } = hooks;
     const opts = { ...DEFAULT_OPTIONS, ...options };
     const startTime = Date.now();
 
-    this.updateProgress(jobId, { status: 'pending', startedAt: new Date() });
+    this.updateProgress(jobId, { status: 'pending', startedAt: new Date() }, hooks);
+    const sourceName = hooks.sourceName || basename(filePath);
+    this.metadata.recordJobStart({ id: jobId, fileName: sourceName, options: opts });
+
+    // Attachments are extracted before the conversation ID is known (it is derived from
+    // the first message), so they go to a staging directory first
+    const stagingDir = join(config.attachments.path, `.incoming-${jobId}`);
 
     try {
-      // Step 1: Parse the file
-      this.updateProgress(jobId, { status: 'parsing' });
-      const parsed = await parseWhatsAppFile(filePath, {
+      // Step 1: Open the export (the first pass detects the date order)
+      this.updateProgress(jobId, { status: 'parsing' }, hooks);
+      const sourceHash = await hashFile(filePath);
+      const stream = await streamChatFile(filePath, {
+        format: opts.format,
         includeSystemMessages: opts.includeSystemMessages,
         includeDeletedMessages: opts.includeDeletedMessages,
+        dateOrder: opts.dateOrder,
+        attachmentsDir: stagingDir,
       });
 
-      this.updateProgress(jobId, { totalMessages: parsed.metadata.totalMessages });
+      // Recognise a newer export of a stored conversation from its first messages
+      const messages = stream.messages[Symbol.asyncIterator]();
+      const head: ParsedMessage[] = [];
+      while (head.length < MATCH_WINDOW) {
+        const next = await messages.next();
+        if (next.done) break;
+        head.push(next.value);
+      }
+
+      const existingId = await this.findConversation(head);
+      const conversationId =
+        existingId ??
+        getConversationId(stream.format, stream.getConversationKey?.() ?? head[0]?.id ?? basename(filePath));
+
+      // A full re-ingestion keeps the stored chunks until the new ones are stored
+      let delta = new ConversationDelta();
+      let previousChunkIds: string[] = [];
+      if (existingId && opts.incremental) {
+        const history = this.metadata.getConversationHistory(existingId);
+        delta = new ConversationDelta(history);
+        conversationName ??= this.metadata.getConversation(existingId)?.name ?? history.lastChunk?.conversationName;
+      } else if (existingId) {
+        previousChunkIds = this.metadata.listChunkIds(existingId);
+      }
+      const storedChunkIds = new Set<string>();
 
-      // Step 2: Chunk the messages
-      this.updateProgress(jobId, { status: 'chunking' });
-      const chunked = chunkMessages(parsed.messages, {
+      if (!this.metadata.getConversation(conversationId)) {
+        this.metadata.upsertConversation({
+          id: conversationId,
+          name: conversationName,
+          format: stream.format,
+          participants: [],
+          startTime: null,
+          endTime: null,
+          sourceFile: sourceName,
+          sourceHash,
+          ingestOptions: opts,
+        });
+      }
+      this.metadata.updateJob(jobId, { conversationId, sourceHash, format: stream.format });
+
+      await moveAttachments(stream.attachments, stagingDir, join(config.attachments.path, conversationId));
+
+      // Step 2: Parse, chunk, embed and store as the file streams in,
+      // so only the chunks of the current batch are held in memory
+      this.updateProgress(jobId, { status: 'embedding', totalMessages: 0, processedChunks: 0 }, hooks);
+      const embeddingStartedAt = Date.now();
+      const stats = new MessageStats();
+      const chunker = new StreamingChunker({
         gapMinutes: opts.chunkGapMinutes,
         maxMessages: opts.chunkMaxMessages,
         maxChunkChars: opts.chunkMaxChars,
+        conversationId,
       });
 
-      this.updateProgress(jobId, { totalChunks: chunked.chunks.length });
-
-      // Step 3: Generate embeddings
-      this.updateProgress(jobId, { status: 'embedding' });
-      const embedProvider = getEmbedProvider();
+      let retries = 0;
+      const onRetry = (event: RetryEvent) => {
+        retries++;
+        this.updateProgress(jobId, { retries, lastRetry: event }, hooks);
+      };
+      const scheduler = new EmbeddingScheduler(getEmbedProvider(), { signal, onRetry });
 
-      const storedChunks: StoredChunk[] = [];
+      // Enough chunks to keep every concurrent request busy
+      const batchSize = scheduler.capacity;
+      let batch: Chunk[] = [];
+      let totalChunks = 0;
 
-      // Process in batches for embedding
-      const batchSize = 10;
-      const maxEmbedChars = 6000; // Safe limit for most embedding models
+      const reportProgress = () => {
+        this.updateProgress(
+          jobId,
+          {
+            totalMessages: stats.metadata.totalMessages,
+            processedChunks: totalChunks,
+            ...estimateProgress(stream.getReadProgress?.(), Date.now() - embeddingStartedAt),
+          },
+          hooks,
+        );
+      };
 
-      for (let i = 0; i < chunked.chunks.length; i += batchSize) {
-        const batch = chunked.chunks.slice(i, i + batchSize);
-        const texts = batch.map((chunk) => {
-          const text = getChunkText(chunk);
-          // Truncate text if it exceeds embedding model's context limit
-          return text.length > maxEmbedChars ? text.slice(0, maxEmbedChars) + '...' : text;
+      const flushBatch = async () => {
+        if (batch.length === 0) return;
+        await this.storeBatch(batch, conversationName, opts.generateSummaries, scheduler, onRetry, signal);
+        for (const chunk of batch) storedChunkIds.add(chunk.id);
+        totalChunks += batch.length;
+        batch = [];
+        reportProgress();
+        await hooks.onBatchStored?.({
+          conversationId,
+          storedChunks: totalChunks,
+          processedMessages: stats.metadata.totalMessages,
         });
+        signal?.throwIfAborted();
+      };
 
-        const embeddings = await embedProvider.embedBatch(texts);
+      const addChunks = (chunks: Chunk[]) => {
+        batch.push(...chunks.filter((chunk) => delta.needsStoring(chunk)));
+      };
 
-        for (let j = 0; j < batch.length; j++) {
-          const chunk = batch[j];
-          let summary: string | undefined;
+      const add = async (message: ParsedMessage) => {
+        signal?.throwIfAborted();
+        stats.add(message);
+        if (stats.metadata.totalMessages % PROGRESS_INTERVAL === 0) reportProgress();
+        // Only the last stored chunk and what follows it are chunked again
+        if (!delta.add(message)) return;
+        addChunks(chunker.push(message));
+        if (batch.length >= batchSize) await flushBatch();
+      };
 
-          // Generate summary if enabled
-          if (opts.generateSummaries) {
-            summary = await this.generateSummary(texts[j]);
-          }
+      for (const message of head) await add(message);
+      for (let next = await messages.next(); !next.done; next = await messages.next()) {
+        await add(next.value);
+      }
+      addChunks(chunker.flush());
+      await flushBatch();
 
-          storedChunks.push({
-            ...chunk,
-            embedding: embeddings[j],
-            summary,
-            conversationName,
-          });
-        }
+      // The boundary chunk was re-chunked with the new messages: drop its old version.
+      // A full re-ingestion drops every stored chunk the new export did not produce again
+      const replacedChunkIds = [
+        ...delta.replacedChunkIds,
+        ...previousChunkIds.filter((id) => !storedChunkIds.has(id)),
+      ];
+      await this.vectorStore.deleteByIds(replacedChunkIds);
+      this.metadata.deleteChunks(replacedChunkIds);
+      if (previousChunkIds.length > 0) this.metadata.deleteDetachedMessages(conversationId);
 
-        this.updateProgress(jobId, { processedChunks: i + batch.length });
-      }
+      this.metadata.upsertConversation({
+        id: conversationId,
+        name: conversationName,
+        format: stream.format,
+        participants: stats.participants,
+        startTime: stats.startDate,
+        endTime: stats.endDate,
+        sourceFile: sourceName,
+        sourceHash,
+        ingestOptions: opts,
+      });
 
-      // Step 4: Store in vector database
-      this.updateProgress(jobId, { status: 'storing' });
-      await this.vectorStore.upsertBatch(storedChunks);
+      this.updateProgress(jobId, { totalMessages: stats.metadata.totalMessages, totalChunks }, hooks);
 
       // Complete
       const duration = Date.now() - startTime;
-      this.updateProgress(jobId, {
-        status: 'completed',
-        completedAt: new Date(),
-      });
+      this.updateProgress(
+        jobId,
+        {
+          status: 'completed',
+          percent: 100,
+          etaSeconds: 0,
+          completedAt: new Date(),
+        },
+        hooks,
+      );
 
-      return {
+      const result: IngestionResult = {
         jobId,
-        conversationId: chunked.chunks[0]?.metadata.conversationId || nanoid(),
+        conversationId,
         conversationName,
-        totalMessages: parsed.metadata.totalMessages,
-        totalChunks: chunked.chunks.length,
-        participants: parsed.participants,
+        totalMessages: stats.metadata.totalMessages,
+        totalChunks,
+        incremental: delta.incremental,
+        ...delta.counts,
+        totalAttachments: stream.attachments.length,
+        participants: stats.participants,
         dateRange: {
-          start: parsed.startDate,
-          end: parsed.endDate,
+          start: stats.startDate,
+          end: stats.endDate,
         },
+        format: stream.format,
+        dateOrder: stream.dateOrder,
+        diagnostics: stream.getDiagnostics?.(),
         duration,
       };
+
+      this.metadata.updateJob(jobId, {
+        status: 'completed',
+        result: {
+          totalMessages: result.totalMessages,
+          totalChunks: result.totalChunks,
+          newMessages: result.newMessages,
+          skippedMessages: result.skippedMessages,
+          changedMessages: result.changedMessages,
+          incremental: result.incremental,
+        },
+      });
+      return result;
     } catch (error) {
-      this.updateProgress(jobId, {
-        status: 'failed',
+      const cancelled = signal?.aborted ?? false;
+      this.metadata.updateJob(jobId, {
+        status: cancelled ? 'cancelled' : 'failed',
         error: error instanceof Error ? error.message : 'Unknown error',
-        completedAt: new Date(),
       });
+      this.updateProgress(
+        jobId,
+        {
+          status: cancelled ? 'cancelled' : 'failed',
+          error: cancelled ? 'Ingestion cancelled' : error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date(),
+        },
+        hooks,
+      );
       throw error;
+    } finally {
+      await rm(stagingDir, { recursive: true, force: true });
     }
   }
 
+  /**
+   * Parse and chunk an export as an ingestion would, without embedding or storing anything,
+   * and report the chunks it would produce with an estimate of the embedding cost
+   * The whole export is chunked (incremental ingestion would only embed its new tail)
+   */
+  async dryRun(filePath: string, options: IngestionOptions = {}, sampleCount?: number): Promise<IngestionDryRun> {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const startTime = Date.now();
+
+    const stream = await streamChatFile(filePath, {
+      format: opts.format,
+      includeSystemMessages: opts.includeSystemMessages,
+      includeDeletedMessages: opts.includeDeletedMessages,
+      dateOrder: opts.dateOrder,
+    });
+
+    const stats = new MessageStats();
+    const preview = new ChunkingPreview({
+      maxMessages: opts.chunkMaxMessages,
+      maxChars: opts.chunkMaxChars,
+      sampleCount,
+      getText: getEmbeddingText,
+      maxEmbedChars: MAX_EMBED_CHARS,
+    });
+    let chunker: StreamingChunker | undefined;
+
+    for await (const message of stream.messages) {
+      stats.add(message);
+      // Same conversation ID as an ingestion, so that sample chunk IDs match the stored ones
+      chunker ??= new StreamingChunker({
+        gapMinutes: opts.chunkGapMinutes,
+        maxMessages: opts.chunkMaxMessages,
+        maxChunkChars: opts.chunkMaxChars,
+        conversationId: getConversationId(stream.format, stream.getConversationKey?.() ?? message.id),
+      });
+      for (const chunk of chunker.push(message)) preview.add(chunk);
+    }
+    for (const chunk of chunker?.flush() ?? []) preview.add(chunk);
+
+    const { tokens, ...report } = preview.getReport();
+    const { provider, model } = getConfiguredEmbedModel();
+    const price = getEmbeddingPrice(provider, model);
+
+    return {
+      format: stream.format,
+      dateOrder: stream.dateOrder,
+      diagnostics: stream.getDiagnostics?.(),
+      totalMessages: stats.metadata.totalMessages,
+      participants: stats.participants,
+      dateRange: {
+        start: stats.startDate,
+        end: stats.endDate,
+      },
+      options: {
+        chunkGapMinutes: opts.chunkGapMinutes,
+        chunkMaxMessages: opts.chunkMaxMessages,
+        chunkMaxChars: opts.chunkMaxChars,
+      },
+      ...report,
+      embedding: {
+        provider,
+        model,
+        tokens,
+        pricePerMillionTokens: price,
+        cost: price !== null ? (tokens / 1_000_000) * price : null,
+      },
+      duration: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Find the stored conversation holding one of the first messages of an export
+   */
+  private async findConversation(head: ParsedMessage[]): Promise<string | null> {
+    for (const message of head) {
+      const chunk = await this.vectorStore.findByMessageId(message.id);
+      if (chunk) return chunk.metadata.conversationId;
+    }
+    return null;
+  }
+
+  /**
+   * Embed a batch of chunks and store them in the vector database
+   */
+  private async storeBatch(
+    chunks: Chunk[],
+    conversationName: string | undefined,
+    generateSummaries: boolean,
+    scheduler: EmbeddingScheduler,
+    onRetry: (event: RetryEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const texts = chunks.map(getEmbeddingText);
+
+    const embeddings = await scheduler.embed(texts);
+
+    // Generate summaries if enabled
+    const summaries = generateSummaries
+      ? await mapConcurrent(texts, config.embedding.concurrency, (text) =>
+          this.generateSummary(text, onRetry, signal),
+        )
+      : [];
+
+    const storedChunks: StoredChunk[] = chunks.map((chunk, j) => ({
+      ...chunk,
+      embedding: embeddings[j],
+      summary: summaries[j],
+      conversationName,
+    }));
+
+    await this.vectorStore.upsertBatch(storedChunks);
+    this.metadata.upsertChunks(storedChunks);
+  }
+
   /**
    * Get progress for a job
    */
@@ -153,23 +435,86 @@ export class IngestionPipeline {
   }
 
   /**
-   * Generate a summary for chunk text
+   * Generate a summary for chunk text, within the LLM provider's rate limits
+   * A summary that keeps failing is left empty rather than failing the job
    */
-  private async generateSummary(text: string): Promise<string> {
+  private async generateSummary(
+    text: string,
+    onRetry: (event: RetryEvent) => void,
+    signal?: AbortSignal,
+  ): Promise<string> {
     const llm = getLLMProvider();
+    const limiter = getRateLimiter(llm.name);
     const prompt = `Summarize this conversation excerpt in 1-2 sentences. Focus on the main topics discussed:\n\n${text}\n\nSummary:`;
+    const maxTokens = 100;
+    const { maxRetries, retryBaseMs, retryMaxMs } = config.embedding;
 
     try {
-      return await llm.generate(prompt, { maxTokens: 100, temperature: 0.3 });
+      return await withRetry(
+        async () => {
+          await limiter.acquire(estimateTokens(prompt) + maxTokens, signal);
+          return llm.generate(prompt, { maxTokens, temperature: 0.3 });
+        },
+        { maxRetries, baseDelayMs: retryBaseMs, maxDelayMs: retryMaxMs, signal, onRetry },
+      );
     } catch {
+      signal?.throwIfAborted();
       return '';
     }
   }
 
-  private updateProgress(jobId: string, update: Partial<IngestionProgress>): void {
+  private updateProgress(
+    jobId: string,
+    update: Partial<IngestionProgress>,
+    hooks: IngestionHooks = {},
+  ): void {
     const current = this.progress.get(jobId) || { jobId, status: 'pending' as const };
-    this.progress.set(jobId, { ...current, ...update });
+    const progress = { ...current, ...update };
+    this.progress.set(jobId, progress);
+    hooks.onProgress?.(progress);
+  }
+}
+
+/**
+ * Text embedded for a chunk, truncated if it exceeds the embedding model's context limit
+ */
+export function getEmbeddingText(chunk: Chunk): string {
+  const text = getChunkText(chunk);
+  return text.length > MAX_EMBED_CHARS ? text.slice(0, MAX_EMBED_CHARS) + '...' : text;
+}
+
+/**
+ * Move extracted attachments into their conversation's directory
+ * A previous ingestion of the same conversation is replaced
+ */
+async function moveAttachments(
+  attachments: MessageAttachment[],
+  from: string,
+  to: string,
+): Promise<void> {
+  try {
+    await stat(from);
+  } catch {
+    return; // Nothing was extracted
+  }
+
+  await rm(to, { recursive: true, force: true });
+  await rename(from, to);
+
+  for (const attachment of attachments) {
+    if (attachment.path) attachment.path = join(to, basename(attachment.path));
+  }
+}
+
+/**
+ * SHA-256 of a file, to tell exports apart in the ingestion history
+ */
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const data of createReadStream(filePath)) {
+    hash.update(data);
   }
+  return hash.digest('hex');
 }
 
 // Singleton instance
@@ -0,0 +1,150 @@
+/**
+ * Chunking Preview
+ * Statistics of the chunks an ingestion would store, gathered as they stream by
+ * (for dry runs, to tune the chunking options before embedding anything)
+ */
+
+import type { Chunk, ChunkBoundary } from '../core/chunker/types.js';
+import { estimateTokens } from '../providers/index.js';
+import type { ChunkSample, HistogramBucket, IngestionDryRun } from './types.js';
+
+const HISTOGRAM_BUCKETS = 10;
+
+export interface ChunkingPreviewOptions {
+  /**
+   * Chunk limits the histograms are scaled to
+   */
+  maxMessages: number;
+  maxChars: number;
+  /**
+   * Number of sample chunks
+   * Default: 5
+   */
+  sampleCount?: number;
+  /**
+   * Text embedded for a chunk
+   */
+  getText: (chunk: Chunk) => string;
+  /**
+   * Length past which the embedded text is cut
+   */
+  maxEmbedChars: number;
+}
+
+export type ChunkingPreviewReport = Pick<IngestionDryRun, 'totalChunks' | 'chunkSizes' | 'boundaries' | 'samples'> & {
+  /**
+   * Estimated embedding input tokens
+   */
+  tokens: number;
+};
+
+export class ChunkingPreview {
+  private messages: Histogram;
+  private chars: Histogram;
+  private boundaries: Record<ChunkBoundary['reason'], number> = {
+    time_gap: 0,
+    max_messages: 0,
+    max_chars: 0,
+    end_of_input: 0,
+  };
+  private totalChunks = 0;
+  private totalMessages = 0;
+  private totalChars = 0;
+  private tokens = 0;
+  private truncated = 0;
+
+  // Every `stride`-th chunk is kept; the stride doubles whenever the candidates fill up,
+  // so that they stay spread over the whole export
+  private candidates: ChunkSample[] = [];
+  private stride = 1;
+  private sampleCount: number;
+
+  constructor(private options: ChunkingPreviewOptions) {
+    this.messages = new Histogram(options.maxMessages);
+    this.chars = new Histogram(options.maxChars);
+    this.sampleCount = options.sampleCount ?? 5;
+  }
+
+  add(chunk: Chunk): void {
+    const text = this.options.getText(chunk);
+    const messageCount = chunk.messages.length;
+
+    this.messages.add(messageCount);
+    this.chars.add(text.length);
+    if (chunk.boundary) this.boundaries[chunk.boundary.reason]++;
+    if (text.length > this.options.maxEmbedChars) this.truncated++;
+    this.tokens += estimateTokens(text);
+    this.totalMessages += messageCount;
+    this.totalChars += text.length;
+
+    if (this.sampleCount > 0 && this.totalChunks % this.stride === 0) {
+      this.candidates.push({ id: chunk.id, startTime: chunk.startTime, messageCount, text, boundary: chunk.boundary });
+      if (this.candidates.length >= this.sampleCount * 2) {
+        this.candidates = this.candidates.filter((_, i) => i % 2 === 0);
+        this.stride *= 2;
+      }
+    }
+    this.totalChunks++;
+  }
+
+  getReport(): ChunkingPreviewReport {
+    const { totalChunks } = this;
+
+    return {
+      totalChunks,
+      chunkSizes: {
+        messages: this.messages.getBuckets(),
+        chars: this.chars.getBuckets(),
+        averageMessages: totalChunks > 0 ? Math.round((this.totalMessages / totalChunks) * 10) / 10 : 0,
+        averageChars: totalChunks > 0 ? Math.round(this.totalChars / totalChunks) : 0,
+        truncated: this.truncated,
+      },
+      boundaries: { ...this.boundaries },
+      samples: this.pickSamples(),
+      tokens: this.tokens,
+    };
+  }
+
+  /**
+   * Samples evenly spaced among the candidates
+   */
+  private pickSamples(): ChunkSample[] {
+    const { candidates, sampleCount } = this;
+    if (candidates.length <= sampleCount) return [...candidates];
+    if (sampleCount === 1) return [candidates[0]];
+
+    return Array.from(
+      { length: sampleCount },
+      (_, i) => candidates[Math.round((i * (candidates.length - 1)) / (sampleCount - 1))],
+    );
+  }
+}
+
+/**
+ * Equal-width buckets from 0 to max, plus one for values at or above max
+ */
+class Histogram {
+  private counts: number[];
+  private width: number;
+
+  constructor(private max: number) {
+    this.width = Math.max(Math.ceil(max / HISTOGRAM_BUCKETS), 1);
+    this.counts = new Array(Math.ceil(max / this.width) + 1).fill(0);
+  }
+
+  add(value: number): void {
+    const index = value >= this.max ? this.counts.length - 1 : Math.floor(value / this.width);
+    this.counts[index]++;
+  }
+
+  getBuckets(): HistogramBucket[] {
+    return this.counts.map((count, i) => {
+      const last = i === this.counts.length - 1;
+      return {
+        min: last ? this.max : i * this.width,
+        max: last ? null : Math.min((i + 1) * this.width, this.max),
+        count,
+      };
+    });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Ingestion Progress Estimates
+ */
+
+import type { IngestionProgress } from './types.js';
+
+/**
+ * Share of the export to read before extrapolating an ETA (earlier estimates swing too much)
+ */
+const MIN_ETA_FRACTION = 0.02;
+
+/**
+ * Percentage done and time left, extrapolated from the share of the export read so far
+ */
+export function estimateProgress(
+  fraction: number | undefined,
+  elapsedMs: number,
+): Pick<IngestionProgress, 'percent' | 'etaSeconds'> {
+  if (fraction === undefined) return {};
+
+  const done = Math.min(Math.max(fraction, 0), 1);
+  if (done < MIN_ETA_FRACTION) {
+    return { percent: Math.floor(done * 100) };
+  }
+
+  return {
+    percent: Math.floor(done * 100),
+    etaSeconds: Math.round((elapsedMs * (1 - done)) / done / 1000),
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Ingestion Queue
+ * Ingestion runs as BullMQ jobs: uploads return a job ID right away, and jobs and their
+ * progress are kept in Redis, so they survive server restarts
+ */
+
+import { EventEmitter } from 'events';
+import { Queue, QueueEvents, type Job, type JobState, type JobType } from 'bullmq';
+import { Redis } from 'ioredis';
+import { nanoid } from 'nanoid';
+import { config } from '../config/index.js';
+import type {
+  IngestionCheckpoint,
+  IngestionOptions,
+  IngestionProgress,
+  IngestionResult,
+} from './types.js';
+
+export const INGEST_QUEUE = 'ingest';
+
+/**
+ * How long a cancel request waits for the worker running the job to see it
+ */
+const CANCEL_TTL_SECONDS = 24 * 60 * 60;
+
+export interface IngestJobData {
+  /**
+   * Uploaded export, kept until the job completes or the queue drops it (failed jobs can be retried)
+   */
+  filePath: string;
+  /**
+   * Name of the file as uploaded
+   */
+  fileName: string;
+  conversationName?: string;
+  options: IngestionOptions;
+  /**
+   * Set once an embedding batch is stored: later attempts resume from there
+   */
+  checkpoint?: IngestionCheckpoint;
+  cancelled?: boolean;
+}
+
+export type IngestJob = Job<IngestJobData, IngestionResult>;
+
+export interface IngestJobInfo {
+  id: string;
+  state: JobState | 'unknown' | 'cancelled' | 'cancelling';
+  fileName: string;
+  conversationName?: string;
+  progress: IngestionProgress | null;
+  result?: IngestionResult;
+  error?: string;
+  attempts: number;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * Update pushed to job watchers: progress while the job runs, then its outcome
+ */
+export interface IngestJobEvent {
+  type: 'progress' | 'completed' | 'failed' | 'cancelled';
+  progress: IngestionProgress | null;
+  result?: IngestionResult;
+  error?: string;
+}
+
+let connection: Redis | null = null;
+let queue: Queue<IngestJobData, IngestionResult> | null = null;
+let queueEvents: QueueEvents | null = null;
+const watchers = new EventEmitter().setMaxListeners(0);
+
+/**
+ * Shared Redis connection (BullMQ workers need maxRetriesPerRequest: null)
+ */
+export function getRedisConnection(): Redis {
+  if (!connection) {
+    connection = new Redis(config.redis.url, { maxRetriesPerRequest: null });
+  }
+  return connection;
+}
+
+export function getIngestQueue(): Queue<IngestJobData, IngestionResult> {
+  if (!queue) {
+    queue = new Queue<IngestJobData, IngestionResult>(INGEST_QUEUE, {
+      connection: getRedisConnection(),
+      defaultJobOptions: {
+        attempts: config.ingestion.attempts,
+        backoff: { type: 'exponential', delay: 10_000 },
+        removeOnComplete: 1000,
+        removeOnFail: 1000,
+      },
+    });
+  }
+  return queue;
+}
+
+/**
+ * Queue an uploaded export for ingestion
+ */
+export async function enqueueIngestion(
+  data: Omit<IngestJobData, 'checkpoint' | 'cancelled'>,
+): Promise<IngestJobInfo> {
+  const job = await getIngestQueue().add('ingest', data, { jobId: nanoid() });
+  return toJobInfo(job, 'waiting');
+}
+
+/**
+ * List jobs, newest first
+ */
+export async function listIngestJobs(
+  states: JobType[] = ['active', 'waiting', 'delayed', 'completed', 'failed'],
+  limit: number = 50,
+): Promise<IngestJobInfo[]> {
+  const jobs = await getIngestQueue().getJobs(states, 0, limit - 1);
+  const valid = jobs.filter((job): job is IngestJob => Boolean(job?.id));
+  const infos = await Promise.all(valid.map(async (job) => toJobInfo(job, await job.getState())));
+  return infos.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()).slice(0, limit);
+}
+
+export async function getIngestJob(jobId: string): Promise<IngestJobInfo | null> {
+  const job = await getIngestQueue().getJob(jobId);
+  return job ? toJobInfo(job, await job.getState()) : null;
+}
+
+/**
+ * Cancel a job: a queued job fails as soon as a worker picks it up,
+ * a running one stops after its current embedding batch
+ */
+export async function cancelIngestJob(jobId: string): Promise<IngestJobInfo | null> {
+  const job = await getIngestQueue().getJob(jobId);
+  if (!job) return null;
+
+  const state = await job.getState();
+  if (state === 'completed' || state === 'failed') {
+    throw new Error(`Job ${jobId} is already ${state}`);
+  }
+
+  await job.updateData({ ...job.data, cancelled: true });
+  await getRedisConnection().set(getCancelKey(jobId), '1', 'EX', CANCEL_TTL_SECONDS);
+  return toJobInfo(job, state);
+}
+
+/**
+ * Whether a cancel request was made for a job
+ */
+export async function isCancelRequested(jobId: string): Promise<boolean> {
+  return (await getRedisConnection().exists(getCancelKey(jobId))) === 1;
+}
+
+/**
+ * Run a failed or cancelled job again (it resumes from its last stored batch)
+ */
+export async function retryIngestJob(jobId: string): Promise<IngestJobInfo | null> {
+  const job = await getIngestQueue().getJob(jobId);
+  if (!job) return null;
+
+  const state = await job.getState();
+  if (state !== 'failed') {
+    throw new Error(`Only failed or cancelled jobs can be retried (job ${jobId} is ${state})`);
+  }
+
+  await job.updateData({ ...job.data, cancelled: false });
+  await getRedisConnection().del(getCancelKey(jobId));
+  await job.retry('failed', { resetAttemptsMade: true });
+  return toJobInfo(job, 'waiting');
+}
+
+/**
+ * Watch a job: the listener gets its current state right away, then every update
+ * (from whichever worker runs it) until it completes or fails
+ * Returns null for unknown jobs, otherwise a function to stop watching
+ */
+export async function watchIngestJob(
+  jobId: string,
+  listener: (event: IngestJobEvent) => void,
+): Promise<(() => void) | null> {
+  startQueueEvents();
+
+  // Subscribe before reading the job so no update falls in between
+  watchers.on(jobId, listener);
+  const unsubscribe = () => {
+    watchers.off(jobId, listener);
+  };
+
+  const job = await getIngestJob(jobId);
+  if (!job) {
+    unsubscribe();
+    return null;
+  }
+
+  listener(toJobEvent(job));
+  return unsubscribe;
+}
+
+export async function closeIngestQueue(): Promise<void> {
+  await queueEvents?.close();
+  queueEvents = null;
+  await queue?.close();
+  queue = null;
+  await connection?.quit();
+  connection = null;
+}
+
+/**
+ * Relay queue events to job watchers
+ * QueueEvents reads a Redis stream with blocking calls, so it gets its own connection
+ */
+function startQueueEvents(): void {
+  if (queueEvents) return;
+
+  queueEvents = new QueueEvents(INGEST_QUEUE, {
+    connection: new Redis(config.redis.url, { maxRetriesPerRequest: null }),
+  });
+
+  queueEvents.on('progress', ({ jobId, data }) => {
+    if (typeof data === 'object' && data !== null) {
+      watchers.emit(jobId, { type: 'progress', progress: data as IngestionProgress });
+    }
+  });
+
+  // Outcomes are read back from the job: events only carry them serialized
+  const emitOutcome = async (jobId: string) => {
+    if (watchers.listenerCount(jobId) === 0) return;
+    const job = await getIngestJob(jobId);
+    if (job) watchers.emit(jobId, toJobEvent(job));
+  };
+  queueEvents.on('completed', ({ jobId }) => void emitOutcome(jobId).catch(() => undefined));
+  queueEvents.on('failed', ({ jobId }) => void emitOutcome(jobId).catch(() => undefined));
+}
+
+function toJobEvent(job: IngestJobInfo): IngestJobEvent {
+  switch (job.state) {
+    case 'completed':
+      return { type: 'completed', progress: job.progress, result: job.result };
+    case 'cancelled':
+      return { type: 'cancelled', progress: job.progress, error: job.error };
+    case 'failed':
+      return { type: 'failed', progress: job.progress, error: job.error };
+    default:
+      return { type: 'progress', progress: job.progress };
+  }
+}
+
+function getCancelKey(jobId: string): string {
+  return `${INGEST_QUEUE}:cancel:${jobId}`;
+}
+
+/**
+ * Describe a job, cancelled jobs being told apart from failed ones
+ */
+export function toJobInfo(job: IngestJob, state: JobState | 'unknown'): IngestJobInfo {
+  const progress =
+    typeof job.progress === 'object' && job.progress !== null
+      ? (job.progress as IngestionProgress)
+      : null;
+
+  let reportedState: IngestJobInfo['state'] = state;
+  if (job.data.cancelled && state !== 'completed') {
+    reportedState = state === 'active' ? 'cancelling' : 'cancelled';
+  }
+
+  return {
+    id: job.id!,
+    state: reportedState,
+    fileName: job.data.fileName,
+    conversationName: job.data.conversationName,
+    progress,
+    result: job.returnvalue ?? undefined,
+    error: job.failedReason || undefined,
+    attempts: job.attemptsMade,
+    createdAt: new Date(job.timestamp),
+    startedAt: job.processedOn ? new Date(job.processedOn) : undefined,
+    finishedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Reindexing
+ * Re-embeds the stored chunks with the configured embedding model into that model's
+ * collection, then switches the active collection over, without re-reading the exports
+ */
+
+import { config } from '../config/index.js';
+import { EmbeddingScheduler } from './scheduler.js';
+import { getEmbeddingText } from './pipeline.js';
+import { getEmbedProvider, type RetryEvent } from '../providers/index.js';
+import { QdrantVectorStore, getCollectionName } from '../storage/index.js';
+import type { VectorStore } from '../storage/types.js';
+
+export interface ReindexProgress {
+  source: string;
+  target: string;
+  totalChunks: number;
+  processedChunks: number;
+  retries: number;
+  lastRetry?: RetryEvent;
+}
+
+export interface ReindexOptions {
+  /**
+   * Delete the previous collection once the new one is active
+   */
+  dropPrevious?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (progress: ReindexProgress) => void;
+}
+
+export interface ReindexResult {
+  /**
+   * Previously active collection (null when nothing was stored yet)
+   */
+  source: string | null;
+  target: string;
+  totalChunks: number;
+  /**
+   * False when the active collection already belonged to the configured model
+   */
+  switched: boolean;
+  /**
+   * Whether the previous collection was deleted (always the case for an unversioned one)
+   */
+  droppedPrevious: boolean;
+  duration: number;
+}
+
+/**
+ * Re-embed the chunks of the active collection into the configured model's collection
+ * and make it the active one
+ * The active collection keeps serving queries meanwhile; re-running after an
+ * interruption is cheap since the embeddings computed so far are cached
+ */
+export async function reindex(options: ReindexOptions = {}): Promise<ReindexResult> {
+  if (config.vectorStore !== 'qdrant') {
+    throw new Error('Reindexing only applies to the Qdrant vector store (VECTOR_STORE=qdrant)');
+  }
+
+  const startTime = Date.now();
+  const embedProvider = getEmbedProvider();
+  const target = new QdrantVectorStore(embedProvider, { collection: getCollectionName(embedProvider) });
+
+  const active = await target.getActiveCollection();
+  if (active?.name === target.collectionName) {
+    return {
+      source: active.name,
+      target: active.name,
+      totalChunks: 0,
+      switched: false,
+      droppedPrevious: false,
+      duration: 0,
+    };
+  }
+
+  await target.initialize();
+
+  let totalChunks = 0;
+  if (active) {
+    const source = new QdrantVectorStore(embedProvider, { collection: active.name });
+    const progress: ReindexProgress = {
+      source: active.name,
+      target: target.collectionName,
+      totalChunks: await source.count(),
+      processedChunks: 0,
+      retries: 0,
+    };
+
+    const scheduler = new EmbeddingScheduler(embedProvider, {
+      signal: options.signal,
+      onRetry: (event) => {
+        progress.retries++;
+        progress.lastRetry = event;
+        options.onProgress?.({ ...progress });
+      },
+    });
+
+    totalChunks = await copyChunks(source, target, scheduler, (processedChunks) => {
+      progress.processedChunks = processedChunks;
+      progress.totalChunks = Math.max(progress.totalChunks, processedChunks);
+      options.onProgress?.({ ...progress });
+    }, options.signal);
+  }
+
+  await target.activate();
+
+  if (active && !active.legacy && options.dropPrevious) {
+    await new QdrantVectorStore(embedProvider, { collection: active.name }).drop();
+  }
+
+  return {
+    source: active?.name ?? null,
+    target: target.collectionName,
+    totalChunks,
+    switched: true,
+    droppedPrevious: Boolean(active && (active.legacy || options.dropPrevious)),
+    duration: Date.now() - startTime,
+  };
+}
+
+/**
+ * Embed every chunk of the source into the target, returning how many were copied
+ * Chunks stored in the source while copying (an ingestion still writing to it) are
+ * picked up by a second pass
+ */
+export async function copyChunks(
+  source: Pick<VectorStore, 'scrollPages'>,
+  target: Pick<VectorStore, 'upsertBatch'>,
+  scheduler: EmbeddingScheduler,
+  onProgress?: (processedChunks: number) => void,
+  signal?: AbortSignal,
+): Promise<number> {
+  const copied = new Set<string>();
+
+  for (let pass = 0; pass < 2; pass++) {
+    for await (const page of source.scrollPages(undefined, false, scheduler.capacity)) {
+      signal?.throwIfAborted();
+      const chunks = page.filter((chunk) => !copied.has(chunk.id));
+      if (chunks.length === 0) continue;
+
+      const embeddings = await scheduler.embed(chunks.map(getEmbeddingText));
+      await target.upsertBatch(chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] })));
+
+      for (const chunk of chunks) copied.add(chunk.id);
+      onProgress?.(copied.size);
+    }
+  }
+
+  return copied.size;
+}
@@ -0,0 +1,143 @@
+/**
+ * Embedding Scheduler
+ * Embeds texts in batches sent concurrently, retrying transient provider errors and
+ * shrinking batches the provider rejects as too large
+ */
+
+import { config } from '../config/index.js';
+import { isInputTooLargeError, withRetry, type RetryEvent } from '../providers/retry.js';
+import type { EmbedProvider } from '../providers/types.js';
+
+export interface EmbeddingSchedulerOptions {
+  /**
+   * Batches in flight at once
+   */
+  concurrency: number;
+  /**
+   * Texts per request; lowered for the rest of the job when the provider rejects a batch as too large
+   */
+  batchSize: number;
+  maxRetries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  signal?: AbortSignal;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * A text rejected on its own is cut in half until it fits, but not below this length
+ */
+const MIN_TEXT_CHARS = 200;
+
+export class EmbeddingScheduler {
+  private options: EmbeddingSchedulerOptions;
+  private batchSize: number;
+
+  constructor(
+    private provider: EmbedProvider,
+    options: Partial<EmbeddingSchedulerOptions> = {},
+  ) {
+    this.options = { ...config.embedding, ...options };
+    this.batchSize = this.options.batchSize;
+  }
+
+  /**
+   * Current batch size (lower than configured once the provider rejected a batch)
+   */
+  get currentBatchSize(): number {
+    return this.batchSize;
+  }
+
+  /**
+   * Texts a caller should gather before calling embed, to keep every worker busy
+   */
+  get capacity(): number {
+    return this.options.batchSize * this.options.concurrency;
+  }
+
+  /**
+   * Embed texts, in order
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = new Array(texts.length);
+    let next = 0;
+    let failed = false;
+
+    const worker = async () => {
+      while (next < texts.length && !failed) {
+        const start = next;
+        const end = Math.min(start + this.batchSize, texts.length);
+        next = end;
+
+        try {
+          const vectors = await this.embedBatch(texts.slice(start, end));
+          vectors.forEach((vector, i) => {
+            embeddings[start + i] = vector;
+          });
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+
+    const workers = Math.min(this.options.concurrency, Math.ceil(texts.length / this.batchSize));
+    await Promise.all(Array.from({ length: workers }, worker));
+    return embeddings;
+  }
+
+  private async embedBatch(texts: string[]): Promise<number[][]> {
+    const { maxRetries, retryBaseMs, retryMaxMs, signal, onRetry } = this.options;
+
+    try {
+      return await withRetry(
+        async () => (texts.length === 1 ? [await this.provider.embed(texts[0])] : this.provider.embedBatch(texts)),
+        { maxRetries, baseDelayMs: retryBaseMs, maxDelayMs: retryMaxMs, signal, onRetry },
+      );
+    } catch (error) {
+      if (!isInputTooLargeError(error)) throw error;
+
+      if (texts.length > 1) {
+        // Split the batch, and send smaller ones from now on
+        const half = Math.ceil(texts.length / 2);
+        this.batchSize = Math.min(this.batchSize, half);
+        const first = await this.embedBatch(texts.slice(0, half));
+        const second = await this.embedBatch(texts.slice(half));
+        return [...first, ...second];
+      }
+
+      const [text] = texts;
+      if (text.length <= MIN_TEXT_CHARS) throw error;
+      return this.embedBatch([text.slice(0, Math.floor(text.length / 2))]);
+    }
+  }
+}
+
+/**
+ * Map items with at most `concurrency` calls in flight, keeping their order
+ * Stops starting new calls once one fails
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (next < items.length && !failed) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
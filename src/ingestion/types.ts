@@ -2,6 +2,10 @@
  * Ingestion Pipeline Types
  */
 
+import type { ChunkBoundary } from '../core/chunker/types.js';
+import type { DateOrder, DateOrderDetection, ParserDiagnostics } from '../core/parser/types.js';
+import type { RetryEvent } from '../providers/retry.js';
+
 export interface IngestionJob {
   id: string;
   filePath: string;
@@ -40,14 +44,87 @@ export interface IngestionOptions {
    * Include deleted message placeholders
    */
   includeDeletedMessages?: boolean;
+
+  /**
+   * Day/month order of numeric dates ('auto' detects it from the whole file)
+   */
+  dateOrder?: DateOrder | 'auto';
+
+  /**
+   * Chat export format ('whatsapp', 'telegram', ...); 'auto' detects it from the file
+   */
+  format?: string;
+
+  /**
+   * Only embed what a newer export of a stored conversation adds (default: true)
+   * When false, the stored conversation is deleted and the whole export is ingested again
+   */
+  incremental?: boolean;
+}
+
+/**
+ * Hooks for running an ingestion as a background job
+ */
+export interface IngestionHooks {
+  /**
+   * ID reported in progress and results (default: a new one)
+   */
+  jobId?: string;
+
+  /**
+   * Name of the export as uploaded, for the ingestion history (default: the file name)
+   */
+  sourceName?: string;
+
+  /**
+   * Called on every progress update
+   */
+  onProgress?: (progress: IngestionProgress) => void;
+
+  /**
+   * Called after each embedding batch is stored
+   */
+  onBatchStored?: (checkpoint: IngestionCheckpoint) => Promise<void>;
+
+  /**
+   * Stops the ingestion between batches when aborted
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Where an ingestion got to: the chunks stored so far belong to the conversation,
+ * so an incremental run over the same export resumes after them
+ */
+export interface IngestionCheckpoint {
+  conversationId: string;
+  storedChunks: number;
+  processedMessages: number;
 }
 
 export interface IngestionProgress {
   jobId: string;
-  status: 'pending' | 'parsing' | 'chunking' | 'embedding' | 'storing' | 'completed' | 'failed';
+  /**
+   * The export is chunked, embedded and stored batch by batch as it streams in,
+   * all of which is reported as 'embedding'
+   */
+  status: 'pending' | 'parsing' | 'embedding' | 'completed' | 'failed' | 'cancelled';
   totalMessages?: number;
   totalChunks?: number;
   processedChunks?: number;
+  /**
+   * Share of the export processed (0-100), when the export reports how much of it was read
+   */
+  percent?: number;
+  /**
+   * Estimated seconds left
+   */
+  etaSeconds?: number;
+  /**
+   * Provider calls retried so far (rate limits, timeouts, server errors)
+   */
+  retries?: number;
+  lastRetry?: RetryEvent;
   error?: string;
   startedAt?: Date;
   completedAt?: Date;
@@ -58,11 +135,129 @@ export interface IngestionResult {
   conversationId: string;
   conversationName?: string;
   totalMessages: number;
+  /**
+   * Chunks embedded and stored by this ingestion
+   */
+  totalChunks: number;
+  /**
+   * Whether the export continued a stored conversation (only its new tail was embedded)
+   */
+  incremental: boolean;
+  /**
+   * Messages not stored before
+   */
+  newMessages: number;
+  /**
+   * Messages already stored unchanged
+   */
+  skippedMessages: number;
+  /**
+   * Stored messages edited, deleted or missing in this export (stored chunks before
+   * the last one are not rewritten: re-ingest without incremental mode to update them)
+   */
+  changedMessages: number;
+  /**
+   * Media files found in the export archive (0 for .txt exports)
+   */
+  totalAttachments: number;
+  participants: string[];
+  dateRange: {
+    start: Date | null;
+    end: Date | null;
+  };
+  /**
+   * Chat export format the file was parsed as
+   */
+  format: string;
+  /**
+   * Day/month order used for parsing, with its confidence (formats with numeric dates only)
+   */
+  dateOrder?: DateOrderDetection;
+  /**
+   * Dropped and suspicious lines found while parsing (WhatsApp transcripts)
+   */
+  diagnostics?: ParserDiagnostics;
+  duration: number;
+}
+
+/**
+ * Chunks whose size falls in [min, max) (max is null for the last, open-ended bucket)
+ */
+export interface HistogramBucket {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface ChunkSample {
+  id: string;
+  startTime: Date;
+  messageCount: number;
+  /**
+   * Text that would be embedded
+   */
+  text: string;
+  boundary?: ChunkBoundary;
+}
+
+/**
+ * What an ingestion would produce, without embedding or storing anything
+ */
+export interface IngestionDryRun {
+  format: string;
+  dateOrder?: DateOrderDetection;
+  diagnostics?: ParserDiagnostics;
+  totalMessages: number;
   totalChunks: number;
   participants: string[];
   dateRange: {
     start: Date | null;
     end: Date | null;
   };
+  /**
+   * Chunking options used
+   */
+  options: {
+    chunkGapMinutes: number;
+    chunkMaxMessages: number;
+    chunkMaxChars: number;
+  };
+  chunkSizes: {
+    messages: HistogramBucket[];
+    /**
+     * Length of the embedded text
+     */
+    chars: HistogramBucket[];
+    averageMessages: number;
+    averageChars: number;
+    /**
+     * Chunks whose text is cut to the embedding input limit
+     */
+    truncated: number;
+  };
+  /**
+   * Chunks per reason they ended
+   */
+  boundaries: Record<ChunkBoundary['reason'], number>;
+  /**
+   * Chunks spread over the export
+   */
+  samples: ChunkSample[];
+  embedding: {
+    provider: string;
+    model: string;
+    /**
+     * Estimated input tokens
+     */
+    tokens: number;
+    /**
+     * USD per million tokens (null when the model's price is unknown)
+     */
+    pricePerMillionTokens: number | null;
+    /**
+     * Estimated USD cost (null when the model's price is unknown)
+     */
+    cost: number | null;
+  };
   duration: number;
 }
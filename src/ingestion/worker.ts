@@ -0,0 +1,143 @@
+/**
+ * Ingestion Worker
+ * Runs queued ingestion jobs through the pipeline, with progress kept in Redis
+ */
+
+import { UnrecoverableError, Worker } from 'bullmq';
+import { readdir, rm, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { config } from '../config/index.js';
+import { getIngestionPipeline } from './pipeline.js';
+import {
+  INGEST_QUEUE,
+  getIngestQueue,
+  getRedisConnection,
+  isCancelRequested,
+  type IngestJob,
+  type IngestJobData,
+} from './queue.js';
+import type { IngestionResult } from './types.js';
+
+const CANCELLED = 'Ingestion cancelled';
+
+/**
+ * Uploads younger than this are left alone: they may not be queued yet, or be in a dry run
+ */
+const UPLOAD_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Process one ingestion job
+ * A job that stored embedding batches before being interrupted (restart, crash, failed attempt)
+ * runs again incrementally, so it resumes after the chunks it already stored
+ */
+export async function processIngestJob(
+  job: IngestJob,
+  _token?: string,
+  signal?: AbortSignal,
+): Promise<IngestionResult> {
+  if (job.data.cancelled) {
+    throw new UnrecoverableError(CANCELLED);
+  }
+
+  const controller = new AbortController();
+  signal?.addEventListener('abort', () => controller.abort(signal.reason));
+
+  const { filePath, conversationName, options, checkpoint } = job.data;
+
+  try {
+    const result = await getIngestionPipeline().ingest(
+      filePath,
+      conversationName,
+      checkpoint ? { ...options, incremental: true } : options,
+      {
+        jobId: job.id,
+        sourceName: job.data.fileName,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          // Progress is informational: a lost update must not fail the job
+          job.updateProgress(progress).catch(() => undefined);
+        },
+        onBatchStored: async (next) => {
+          // job.data is this worker's copy: a cancel request made since (through another
+          // Job instance) must not be overwritten with it
+          const cancelled = await isCancelRequested(job.id!);
+          await job.updateData({ ...job.data, checkpoint: next, cancelled: cancelled || job.data.cancelled });
+          if (cancelled) controller.abort();
+        },
+      },
+    );
+
+    await rm(filePath, { force: true });
+    return result;
+  } catch (error) {
+    if (controller.signal.aborted && (await isCancelRequested(job.id!))) {
+      if (!job.data.cancelled) await job.updateData({ ...job.data, cancelled: true });
+      throw new UnrecoverableError(CANCELLED);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete the uploads no job in the queue refers to anymore
+ * Completed jobs delete their own upload; failed and cancelled ones keep it for a retry
+ * until the queue drops them (removeOnFail), which this catches up with
+ */
+export async function removeOrphanUploads(now: number = Date.now()): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await readdir(config.ingestion.uploadsPath);
+  } catch {
+    return [];
+  }
+
+  const jobs = await getIngestQueue().getJobs(['active', 'waiting', 'delayed', 'prioritized', 'paused', 'failed']);
+  const inUse = new Set(jobs.flatMap((job) => (job?.data ? [resolve(job.data.filePath)] : [])));
+
+  const removed: string[] = [];
+  for (const name of names) {
+    const path = join(config.ingestion.uploadsPath, name);
+    if (inUse.has(resolve(path))) continue;
+
+    const info = await stat(path).catch(() => null);
+    if (!info?.isFile() || now - info.mtimeMs < UPLOAD_GRACE_MS) continue;
+
+    await rm(path, { force: true });
+    removed.push(path);
+  }
+  return removed;
+}
+
+/**
+ * Start a worker on the ingestion queue
+ */
+export async function startIngestionWorker(): Promise<Worker<IngestJobData, IngestionResult>> {
+  await getIngestionPipeline().initialize();
+
+  const worker = new Worker<IngestJobData, IngestionResult>(INGEST_QUEUE, processIngestJob, {
+    connection: getRedisConnection(),
+    concurrency: config.ingestion.concurrency,
+    // Jobs of a worker that died are picked up again (and resume) after its lock expires
+    maxStalledCount: config.ingestion.attempts,
+  });
+
+  const cleanUploads = () => {
+    removeOrphanUploads().catch((error) => {
+      console.error(`Failed to remove leftover uploads: ${error instanceof Error ? error.message : error}`);
+    });
+  };
+
+  worker.on('failed', (job, error) => {
+    if (job && error.message !== CANCELLED) {
+      console.error(`Ingestion job ${job.id} failed (attempt ${job.attemptsMade}): ${error.message}`);
+    }
+
+    // Once a job has failed for good, the queue may have dropped older failed jobs
+    if (!job || error instanceof UnrecoverableError || job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      cleanUploads();
+    }
+  });
+
+  cleanUploads();
+  return worker;
+}
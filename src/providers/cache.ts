@@ -0,0 +1,282 @@
+/**
+ * Embedding Cache
+ * Embeddings stored in SQLite by provider, model and text hash, so re-ingesting identical
+ * text (new export of a chat, chunker tweak, retried job) or repeating a query does not
+ * call the embedding provider again
+ */
+
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { config } from '../config/index.js';
+import type { EmbedProvider } from './types.js';
+
+export interface EmbeddingCacheModelStats {
+  provider: string;
+  model: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  lastUsedAt: Date | null;
+}
+
+export interface EmbeddingCacheStats {
+  entries: number;
+  /**
+   * Size of the stored vectors
+   */
+  bytes: number;
+  models: EmbeddingCacheModelStats[];
+}
+
+export interface EmbeddingCachePruneOptions {
+  /**
+   * Remove entries not used for this many days
+   */
+  olderThanDays?: number;
+  /**
+   * Remove the entries of every model but this one
+   */
+  keepOnly?: { provider: string; model: string };
+  /**
+   * Keep at most this many entries, the most recently used ones
+   */
+  maxEntries?: number;
+}
+
+export class EmbeddingCache {
+  private db: Database.Database;
+
+  constructor(path: string = config.embeddingCache.path) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER NOT NULL,
+        PRIMARY KEY (provider, model, hash)
+      );
+      CREATE INDEX IF NOT EXISTS embeddings_last_used ON embeddings(last_used_at);
+
+      CREATE TABLE IF NOT EXISTS usage (
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        hits INTEGER NOT NULL DEFAULT 0,
+        misses INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (provider, model)
+      );
+    `);
+  }
+
+  /**
+   * Cached embeddings of texts, in order (undefined where missing)
+   */
+  get(provider: string, model: string, texts: string[]): Array<number[] | undefined> {
+    const select = this.db.prepare(
+      'SELECT embedding FROM embeddings WHERE provider = ? AND model = ? AND hash = ?',
+    );
+    const touch = this.db.prepare(
+      'UPDATE embeddings SET last_used_at = ? WHERE provider = ? AND model = ? AND hash = ?',
+    );
+
+    const now = Date.now();
+    let hits = 0;
+    const embeddings = this.db.transaction(() =>
+      texts.map((text) => {
+        const hash = hashText(text);
+        const row = select.get(provider, model, hash) as { embedding: Buffer } | undefined;
+        if (!row) return undefined;
+
+        hits++;
+        touch.run(now, provider, model, hash);
+        return fromBlob(row.embedding);
+      }),
+    )();
+
+    this.recordUsage(provider, model, hits, texts.length - hits);
+    return embeddings;
+  }
+
+  set(provider: string, model: string, texts: string[], embeddings: number[][]): void {
+    const insert = this.db.prepare(
+      `INSERT INTO embeddings (provider, model, hash, embedding, created_at, last_used_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(provider, model, hash) DO UPDATE SET
+         embedding = excluded.embedding, last_used_at = excluded.last_used_at`,
+    );
+
+    const now = Date.now();
+    this.db.transaction(() => {
+      texts.forEach((text, i) => {
+        insert.run(provider, model, hashText(text), toBlob(embeddings[i]), now, now);
+      });
+    })();
+  }
+
+  stats(): EmbeddingCacheStats {
+    const totals = this.db
+      .prepare('SELECT COUNT(*) AS entries, COALESCE(SUM(length(embedding)), 0) AS bytes FROM embeddings')
+      .get() as { entries: number; bytes: number };
+
+    const rows = this.db
+      .prepare(
+        `SELECT provider, model, SUM(entries) AS entries, SUM(hits) AS hits, SUM(misses) AS misses,
+           MAX(last_used_at) AS lastUsedAt
+         FROM (
+           SELECT provider, model, COUNT(*) AS entries, 0 AS hits, 0 AS misses, MAX(last_used_at) AS last_used_at
+           FROM embeddings GROUP BY provider, model
+           UNION ALL
+           SELECT provider, model, 0, hits, misses, NULL FROM usage
+         )
+         GROUP BY provider, model
+         ORDER BY entries DESC`,
+      )
+      .all() as Array<Omit<EmbeddingCacheModelStats, 'lastUsedAt'> & { lastUsedAt: number | null }>;
+
+    return {
+      ...totals,
+      models: rows.map((row) => ({
+        ...row,
+        lastUsedAt: row.lastUsedAt !== null ? new Date(row.lastUsedAt) : null,
+      })),
+    };
+  }
+
+  /**
+   * Remove entries, returning how many were removed
+   * Without options, everything is removed
+   */
+  prune(options: EmbeddingCachePruneOptions = {}): number {
+    const { olderThanDays, keepOnly, maxEntries } = options;
+
+    return this.db.transaction(() => {
+      if (olderThanDays === undefined && keepOnly === undefined && maxEntries === undefined) {
+        this.db.prepare('DELETE FROM usage').run();
+        return this.db.prepare('DELETE FROM embeddings').run().changes;
+      }
+
+      let removed = 0;
+      if (olderThanDays !== undefined) {
+        const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+        removed += this.db.prepare('DELETE FROM embeddings WHERE last_used_at < ?').run(cutoff).changes;
+      }
+      if (keepOnly) {
+        const others = 'NOT (provider = ? AND model = ?)';
+        removed += this.db.prepare(`DELETE FROM embeddings WHERE ${others}`).run(keepOnly.provider, keepOnly.model)
+          .changes;
+        this.db.prepare(`DELETE FROM usage WHERE ${others}`).run(keepOnly.provider, keepOnly.model);
+      }
+      if (maxEntries !== undefined) {
+        removed += this.db
+          .prepare(
+            `DELETE FROM embeddings WHERE rowid NOT IN (
+               SELECT rowid FROM embeddings ORDER BY last_used_at DESC LIMIT ?
+             )`,
+          )
+          .run(maxEntries).changes;
+      }
+      return removed;
+    })();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private recordUsage(provider: string, model: string, hits: number, misses: number): void {
+    this.db
+      .prepare(
+        `INSERT INTO usage (provider, model, hits, misses) VALUES (?, ?, ?, ?)
+         ON CONFLICT(provider, model) DO UPDATE SET
+           hits = usage.hits + excluded.hits, misses = usage.misses + excluded.misses`,
+      )
+      .run(provider, model, hits, misses);
+  }
+}
+
+/**
+ * Embedding provider answering from the cache, and only calling the wrapped provider
+ * for texts it has not embedded yet
+ */
+export class CachedEmbedProvider implements EmbedProvider {
+  constructor(
+    private provider: EmbedProvider,
+    private cache: EmbeddingCache,
+  ) {}
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  get dimensions(): number {
+    return this.provider.dimensions;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const { name, model } = this.provider;
+    const embeddings = this.cache.get(name, model, texts);
+
+    // Identical texts in a batch are embedded once
+    const missing = [...new Set(texts.filter((_, i) => !embeddings[i]))];
+    if (missing.length > 0) {
+      const computed = missing.length === 1
+        ? [await this.provider.embed(missing[0])]
+        : await this.provider.embedBatch(missing);
+      this.cache.set(name, model, missing, computed);
+
+      const byText = new Map(missing.map((text, i) => [text, computed[i]]));
+      texts.forEach((text, i) => {
+        embeddings[i] ??= byText.get(text);
+      });
+    }
+
+    return embeddings as number[][];
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Vectors are stored as float32, the precision vector stores keep them in
+ */
+function toBlob(embedding: number[]): Buffer {
+  return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+function fromBlob(blob: Buffer): number[] {
+  return Array.from(new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4));
+}
+
+// Singleton
+let cacheInstance: EmbeddingCache | null = null;
+
+export function getEmbeddingCache(): EmbeddingCache {
+  if (!cacheInstance) {
+    cacheInstance = new EmbeddingCache();
+  }
+  return cacheInstance;
+}
@@ -3,6 +3,8 @@ import type { LLMProvider, EmbedProvider, ProviderHealth } from './types.js';
 import { OllamaLLMProvider, OllamaEmbedProvider } from './ollama.js';
 import { OpenAILLMProvider, OpenAIEmbedProvider } from './openai.js';
 import { ClaudeLLMProvider } from './claude.js';
+import { CachedEmbedProvider, getEmbeddingCache } from './cache.js';
+import { RateLimitedEmbedProvider, getRateLimiter } from './rate-limit.js';
 
 /**
  * Create LLM provider based on configuration
@@ -108,11 +110,16 @@ export function getLLMProvider(): LLMProvider {
 }
 
 /**
- * Get embed provider singleton
+ * Get embed provider singleton (answering from the embedding cache when enabled,
+ * and within the provider's rate limits otherwise)
  */
 export function getEmbedProvider(): EmbedProvider {
   if (!embedInstance) {
-    embedInstance = createEmbedProvider();
+    const created = createEmbedProvider();
+    const provider = new RateLimitedEmbedProvider(created, getRateLimiter(created.name));
+    embedInstance = config.embeddingCache.enabled
+      ? new CachedEmbedProvider(provider, getEmbeddingCache())
+      : provider;
   }
   return embedInstance;
 }
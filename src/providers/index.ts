@@ -1,5 +1,9 @@
 export * from './types.js';
 export * from './factory.js';
+export * from './cache.js';
+export * from './pricing.js';
+export * from './rate-limit.js';
+export * from './retry.js';
 export { OllamaLLMProvider, OllamaEmbedProvider } from './ollama.js';
 export { OpenAILLMProvider, OpenAIEmbedProvider } from './openai.js';
 export { ClaudeLLMProvider } from './claude.js';
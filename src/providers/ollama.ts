@@ -115,7 +115,7 @@ export class OllamaEmbedProvider implements EmbedProvider {
   readonly name = 'ollama';
   readonly dimensions = 768; // nomic-embed-text default
   private client: Ollama;
-  private model: string;
+  readonly model: string;
 
   constructor(config: OllamaConfig) {
     this.client = new Ollama({ host: config.baseUrl });
@@ -113,7 +113,7 @@ export class OpenAIEmbedProvider implements EmbedProvider {
   readonly name = 'openai';
   readonly dimensions = 1536; // text-embedding-3-small default
   private client: OpenAI;
-  private model: string;
+  readonly model: string;
 
   constructor(config: OpenAIConfig) {
     this.client = new OpenAI({ apiKey: config.apiKey });
@@ -0,0 +1,31 @@
+/**
+ * Embedding Prices
+ * USD per million input tokens, for cost estimates
+ */
+
+import { config } from '../config/index.js';
+
+const EMBEDDING_PRICES: Record<string, Record<string, number>> = {
+  openai: {
+    'text-embedding-3-small': 0.02,
+    'text-embedding-3-large': 0.13,
+    'text-embedding-ada-002': 0.1,
+  },
+};
+
+/**
+ * Price of a provider's embedding model (0 for local models, null when unknown)
+ */
+export function getEmbeddingPrice(provider: string, model: string): number | null {
+  if (provider === 'ollama') return 0;
+  return EMBEDDING_PRICES[provider]?.[model] ?? null;
+}
+
+/**
+ * Configured embedding provider and model, without creating the provider (which needs its API key)
+ */
+export function getConfiguredEmbedModel(): { provider: string; model: string } {
+  const provider = config.embedProvider;
+  const model = provider === 'openai' ? config.openai.embedModel : config.ollama.embedModel;
+  return { provider, model };
+}
@@ -0,0 +1,152 @@
+/**
+ * Provider Rate Limits
+ * Requests-per-minute and tokens-per-minute budgets, shared by every call to a provider
+ * (embeddings and summaries of all running jobs in this process)
+ */
+
+import { config } from '../config/index.js';
+import { sleep } from './retry.js';
+import type { EmbedProvider } from './types.js';
+
+export interface RateLimits {
+  /**
+   * 0 = unlimited
+   */
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+/**
+ * Rough token count of a text (about 4 characters per token for the models used here)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Token buckets refilled continuously: a full minute of budget can be spent at once,
+ * then calls wait for the budget to refill
+ * Callers are served in order
+ */
+export class RateLimiter {
+  private requests: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private limits: RateLimits) {
+    this.requests = limits.requestsPerMinute;
+    this.tokens = limits.tokensPerMinute;
+  }
+
+  /**
+   * Wait until a request of the given size fits in the budget, then spend it
+   */
+  acquire(tokens: number = 0, signal?: AbortSignal): Promise<void> {
+    if (!this.limits.requestsPerMinute && !this.limits.tokensPerMinute) {
+      return Promise.resolve();
+    }
+
+    const turn = this.queue.then(() => this.take(tokens, signal));
+    // A caller giving up (abort) must not block the ones queued after it
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async take(tokens: number, signal?: AbortSignal): Promise<void> {
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    // A request larger than a minute of budget waits for a full bucket
+    const needed = tokensPerMinute ? Math.min(tokens, tokensPerMinute) : 0;
+
+    for (;;) {
+      this.refill();
+      const missingRequests = requestsPerMinute ? Math.max(1 - this.requests, 0) : 0;
+      const missingTokens = tokensPerMinute ? Math.max(needed - this.tokens, 0) : 0;
+
+      if (missingRequests === 0 && missingTokens === 0) {
+        if (requestsPerMinute) this.requests -= 1;
+        if (tokensPerMinute) this.tokens -= needed;
+        return;
+      }
+
+      const waitMs = Math.max(
+        requestsPerMinute ? (missingRequests / requestsPerMinute) * 60_000 : 0,
+        tokensPerMinute ? (missingTokens / tokensPerMinute) * 60_000 : 0,
+      );
+      await sleep(Math.ceil(waitMs), signal);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const minutes = (now - this.updatedAt) / 60_000;
+    this.updatedAt = now;
+
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    this.requests = Math.min(this.requests + minutes * requestsPerMinute, requestsPerMinute);
+    this.tokens = Math.min(this.tokens + minutes * tokensPerMinute, tokensPerMinute);
+  }
+}
+
+/**
+ * Embedding provider waiting for its provider's rate limits before each request
+ */
+export class RateLimitedEmbedProvider implements EmbedProvider {
+  constructor(
+    private provider: EmbedProvider,
+    private limiter: RateLimiter,
+  ) {}
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  get dimensions(): number {
+    return this.provider.dimensions;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    await this.limiter.acquire(estimateTokens(text));
+    return this.provider.embed(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    await this.limiter.acquire(texts.reduce((sum, text) => sum + estimateTokens(text), 0));
+    return this.provider.embedBatch(texts);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * Rate limiter of a provider ('ollama', 'openai' or 'claude'), configured from its settings
+ */
+export function getRateLimiter(provider: string): RateLimiter {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = new RateLimiter(getRateLimits(provider));
+    limiters.set(provider, limiter);
+  }
+  return limiter;
+}
+
+function getRateLimits(provider: string): RateLimits {
+  switch (provider) {
+    case 'ollama':
+      return config.ollama;
+    case 'openai':
+      return config.openai;
+    case 'claude':
+      return config.anthropic;
+    default:
+      return { requestsPerMinute: 0, tokensPerMinute: 0 };
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Provider Retries
+ * Classifies provider errors and retries transient ones with exponential backoff and jitter
+ */
+
+export interface RetryOptions {
+  /**
+   * Retries after the first attempt
+   */
+  maxRetries: number;
+  /**
+   * Delay before the first retry; it doubles with every attempt, up to maxDelayMs
+   */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * A failed attempt about to be retried
+ */
+export interface RetryEvent {
+  /**
+   * Retry number (1 for the first retry)
+   */
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+}
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+const NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+const NETWORK_MESSAGE = /fetch failed|timed? ?out|socket hang up|network|ECONNRESET|ECONNREFUSED/i;
+
+const INPUT_TOO_LARGE_MESSAGE =
+  /context length|maximum.*tokens|too many tokens|input.*(too long|too large|exceeds)|exceeds.*(limit|context)|payload too large/i;
+
+/**
+ * Whether an error is worth retrying: rate limits, server errors, timeouts and network failures
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isInputTooLargeError(error)) return false;
+
+  const status = getStatus(error);
+  if (status !== undefined) return RETRYABLE_STATUS.has(status);
+
+  const code = getCode(error);
+  if (code && NETWORK_CODES.has(code)) return true;
+
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') return false;
+    if (error.name === 'APIConnectionError' || error.name === 'APIConnectionTimeoutError') return true;
+    return NETWORK_MESSAGE.test(error.message);
+  }
+  return false;
+}
+
+/**
+ * Whether a request was rejected because its input exceeds the model's limits
+ * (retrying it as is cannot succeed, a smaller one can)
+ */
+export function isInputTooLargeError(error: unknown): boolean {
+  const status = getStatus(error);
+  if (status === 413) return true;
+  if (status !== undefined && status !== 400 && status !== 500) return false;
+  return error instanceof Error && INPUT_TOO_LARGE_MESSAGE.test(error.message);
+}
+
+/**
+ * Delay before a retry: "full jitter" exponential backoff (a random delay up to
+ * baseDelayMs * 2^(attempt - 1), capped), unless the provider said when to retry
+ */
+export function getRetryDelay(attempt: number, options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>, error?: unknown): number {
+  const retryAfter = getRetryAfterMs(error);
+  if (retryAfter !== undefined) return Math.min(retryAfter, options.maxDelayMs);
+
+  const ceiling = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Run a provider call, retrying retryable errors
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      options.signal?.throwIfAborted();
+      return await fn();
+    } catch (error) {
+      if (attempt > options.maxRetries || options.signal?.aborted || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(attempt, options, error);
+      options.onRetry?.({
+        attempt,
+        maxRetries: options.maxRetries,
+        delayMs,
+        reason: describeError(error),
+      });
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+/**
+ * Wait, waking up early (with the abort reason) if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function describeError(error: unknown): string {
+  const status = getStatus(error);
+  if (status === 429) return 'rate limited';
+  const message = error instanceof Error ? error.message : String(error);
+  return status !== undefined ? `HTTP ${status}: ${message}` : message;
+}
+
+/**
+ * HTTP status of a provider error (OpenAI SDK: status, Ollama client: status_code)
+ */
+function getStatus(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) return undefined;
+  const { status, status_code } = error as { status?: unknown; status_code?: unknown };
+  if (typeof status === 'number') return status;
+  if (typeof status_code === 'number') return status_code;
+  return undefined;
+}
+
+/**
+ * System error code of an error or of its causes (fetch wraps them)
+ */
+function getCode(error: unknown, depth: number = 0): string | undefined {
+  if (typeof error !== 'object' || error === null || depth > 3) return undefined;
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  if (typeof code === 'string') return code;
+  return getCode(cause, depth + 1);
+}
+
+function getRetryAfterMs(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) return undefined;
+  const headers = (error as { headers?: unknown }).headers as
+    | { get?: (name: string) => string | null }
+    | Record<string, string | undefined>
+    | undefined;
+  if (!headers) return undefined;
+
+  const value =
+    typeof headers.get === 'function'
+      ? headers.get('retry-after')
+      : (headers as Record<string, string | undefined>)['retry-after'];
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
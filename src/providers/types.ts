@@ -53,6 +53,10 @@ export interface LLMProvider {
  */
 export interface EmbedProvider {
   readonly name: string;
+  /**
+   * Embedding model (embeddings of different models are not comparable)
+   */
+  readonly model: string;
   readonly dimensions: number;
 
   /**
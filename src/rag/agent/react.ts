@@ -3,7 +3,9 @@
  * Implements the ReAct (Reasoning + Acting) pattern for complex queries
  */
 
+import { config } from '../../config/index.js';
 import { getLLMProvider } from '../../providers/index.js';
+import { getParticipantResolver, type ParticipantMatch } from '../participants.js';
 import { AGENT_TOOLS, getTool, formatToolsForPrompt } from './tools.js';
 import type { QueryFilters, QueryResponse } from '../types.js';
 
@@ -49,7 +51,7 @@ IMPORTANT for Final Answer:
 
 Begin!
 
-Question: {question}
+Question: {question}{people}
 Thought:`;
 
 const SYNTHESIS_PROMPT = `Based on the following conversation search results, provide a clear and helpful answer to the user's question.
@@ -88,8 +90,12 @@ export class ReActAgent {
     this.steps = [];
     this.currentQuestion = question;
 
+    // Exact sender names of the people mentioned, for the participant parameters of tools
+    const resolver = getParticipantResolver();
+    const participants = config.participants.matching === 'off' ? [] : resolver.resolve(question);
+
     const llm = getLLMProvider();
-    let prompt = REACT_PROMPT.replace('{question}', question);
+    let prompt = REACT_PROMPT.replace('{question}', question).replace('{people}', formatPeople(participants));
     let iterations = 0;
     let finalAnswer = '';
 
@@ -152,6 +158,8 @@ export class ReActAgent {
       metadata: {
         queryTime: Date.now() - startTime,
         chunksRetrieved: this.steps.length,
+        participants: participants.length > 0 ? participants : undefined,
+        aliasesError: resolver.aliasesError ?? undefined,
       },
     };
   }
@@ -290,6 +298,15 @@ export class ReActAgent {
   }
 }
 
+/**
+ * People mentioned in the question, as the conversations name them
+ */
+function formatPeople(participants: ParticipantMatch[]): string {
+  if (participants.length === 0) return '';
+  const people = participants.map((p) => `"${p.mention}" is ${p.participants.map((name) => `"${name}"`).join(' or ')}`);
+  return `\n(People mentioned: ${people.join('; ')})`;
+}
+
 // Singleton
 let agentInstance: ReActAgent | null = null;
 
@@ -4,6 +4,7 @@
  */
 
 import { getRetriever } from '../retriever.js';
+import { getParticipantResolver } from '../participants.js';
 import { getChunkText } from '../../core/chunker/index.js';
 
 export interface Tool {
@@ -43,7 +44,7 @@ export const searchTool: Tool = {
     const { chunks, scores } = await retriever.retrieve(query, {
       topK: limit,
       minScore: 0.6,
-      filters: participant ? { participants: [participant] } : undefined,
+      filters: participant ? { participants: getParticipantResolver().resolveFilter(participant) } : undefined,
     });
 
     if (chunks.length === 0) {
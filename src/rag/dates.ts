@@ -0,0 +1,395 @@
+/**
+ * Date Expressions
+ * Finds the time expressions of a question, in English or French ("last summer",
+ * "en mars dernier", "il y a 2 semaines", "15 March 2023"), and resolves them against
+ * a reference date into the range of dates they cover. Weeks start on Monday and seasons
+ * are meteorological (summer is June to August)
+ */
+
+import { foldAccents } from '../core/analyzer/index.js';
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface InterpretedDateRange extends DateRange {
+  /**
+   * Time expressions the range was read from, as written in the question
+   */
+  expressions: string[];
+}
+
+type Unit = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Names of periods, after accent folding: `month` is 0 for January, `weekday` 0 for Sunday,
+ * and seasons are named after the month they start in
+ */
+type PeriodName =
+  | { kind: 'unit'; unit: Unit }
+  | { kind: 'weekend' }
+  | { kind: 'season'; month: number }
+  | { kind: 'month'; month: number }
+  | { kind: 'weekday'; weekday: number };
+
+const MONTHS: Record<string, number> = {
+  january: 0, february: 1, march: 2, april: 3, may: 4, june: 5,
+  july: 6, august: 7, september: 8, october: 9, november: 10, december: 11,
+  janvier: 0, fevrier: 1, mars: 2, avril: 3, mai: 4, juin: 5,
+  juillet: 6, aout: 7, septembre: 8, octobre: 9, novembre: 10, decembre: 11,
+};
+
+const SEASONS: Record<string, number> = {
+  spring: 2, summer: 5, autumn: 8, fall: 8, winter: 11,
+  printemps: 2, ete: 5, automne: 8, hiver: 11,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+  dimanche: 0, lundi: 1, mardi: 2, mercredi: 3, jeudi: 4, vendredi: 5, samedi: 6,
+};
+
+const UNITS: Record<string, Unit> = {
+  day: 'day', days: 'day', jour: 'day', jours: 'day',
+  week: 'week', weeks: 'week', semaine: 'week', semaines: 'week',
+  month: 'month', months: 'month', mois: 'month',
+  year: 'year', years: 'year', an: 'year', ans: 'year', annee: 'year', annees: 'year',
+};
+
+const NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5,
+  sept: 7, huit: 8, neuf: 9, dix: 10, onze: 11, douze: 12,
+};
+
+const DAYS_AGO: Record<string, number> = { 'the day before yesterday': 2, 'avant-hier': 2, yesterday: 1, hier: 1 };
+
+const MONTH = alternation(MONTHS);
+const SEASON = alternation(SEASONS);
+const UNIT = alternation(UNITS);
+const NUMBER = `\\d{1,3}|${alternation(NUMBERS)}`;
+const NAME = `week-?end|${alternation({ ...UNITS, ...SEASONS, ...MONTHS, ...WEEKDAYS })}`;
+const YEAR = '(?:19|20)\\d{2}';
+
+/**
+ * "may" in lowercase away from a day or a year is the verb ("this may be", "we may go"),
+ * not the month ("in May", "may 15th", "15 may 2023")
+ */
+const MAY_VERB = new RegExp(
+  `(?<!\\d(?:st|nd|rd|th)?\\s+(?:of\\s+)?)\\bmay\\b(?!\\s+\\d{1,2}(?:st|nd|rd|th)?\\b|,?\\s+${YEAR}\\b)`,
+  'g',
+);
+
+interface DateContext {
+  reference: Date;
+  /**
+   * Year written elsewhere in the question, for dates without one ("between March and May 2023")
+   */
+  year?: number;
+}
+
+interface DateRule {
+  pattern: RegExp;
+  resolve: (match: RegExpExecArray, context: DateContext) => DateRange | null;
+}
+
+/**
+ * Rules in order of precedence: text matched by a rule is not matched again by the next ones
+ */
+const RULES: DateRule[] = [
+  // between March and May 2023, de janvier à mars
+  {
+    pattern: new RegExp(
+      `(?:\\b(?:between|from|entre|de)\\s+|\\bd')(${MONTH})\\s+(?:and|to|until|et|a|au|jusqu'en)\\s+(${MONTH})(?:\\s+(${YEAR}))?\\b`,
+      'g',
+    ),
+    resolve: ([, from, to, year], context) => {
+      const end = year ? monthRange(Number(year), MONTHS[to]) : resolveMonth(MONTHS[to], context);
+      const start = latestStarted((y) => monthRange(y, MONTHS[from]), end.start);
+      return { start: start.start, end: end.end };
+    },
+  },
+  // 2023-03-15, 2023-03
+  {
+    pattern: /\b(\d{4})-(\d{2})(?:-(\d{2}))?\b/g,
+    resolve: ([, year, month, day]) =>
+      day
+        ? dayRange(new Date(Number(year), Number(month) - 1, Number(day)))
+        : monthRange(Number(year), Number(month) - 1),
+  },
+  // 15 March 2023, le 1er mars
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th|er)?\\s+(?:of\\s+)?(${MONTH})(?:,?\\s+(${YEAR}))?\\b`, 'g'),
+    resolve: ([, day, month, year], context) => resolveDay(MONTHS[month], Number(day), year, context),
+  },
+  // March 15th, 2023
+  {
+    pattern: new RegExp(`\\b(${MONTH})\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(${YEAR}))?\\b`, 'g'),
+    resolve: ([, month, day, year], context) => resolveDay(MONTHS[month], Number(day), year, context),
+  },
+  // March 2023, summer of 2022, l'été 2022
+  {
+    pattern: new RegExp(`\\b(${MONTH}|${SEASON})\\s+(?:of\\s+|de\\s+|d')?(${YEAR})\\b`, 'g'),
+    resolve: ([, name, year]) =>
+      name in MONTHS ? monthRange(Number(year), MONTHS[name]) : seasonRange(Number(year), SEASONS[name]),
+  },
+  // the last 3 days, past two weeks
+  {
+    pattern: new RegExp(`\\b(?:the\\s+)?(?:last|past)\\s+(${NUMBER})\\s+(${UNIT})\\b`, 'g'),
+    resolve: ([, count, unit], { reference }) => lastUnits(UNITS[unit], parseNumber(count), reference),
+  },
+  // les 3 derniers jours, ces deux dernières semaines, depuis 3 jours
+  {
+    pattern: new RegExp(
+      `\\b(?:(?:les|ces)\\s+(${NUMBER})\\s+(?:derniers|dernieres)\\s+(${UNIT})|depuis\\s+(${NUMBER})\\s+(${UNIT}))\\b`,
+      'g',
+    ),
+    resolve: ([, count, unit, sinceCount, sinceUnit], { reference }) =>
+      lastUnits(UNITS[unit ?? sinceUnit], parseNumber(count ?? sinceCount), reference),
+  },
+  // 3 weeks ago, il y a trois semaines
+  {
+    pattern: new RegExp(`\\b(?:(${NUMBER})\\s+(${UNIT})\\s+ago|il y a\\s+(${NUMBER})\\s+(${UNIT}))\\b`, 'g'),
+    resolve: ([, count, unit, frenchCount, frenchUnit], { reference }) => {
+      const shifted = shift(reference, UNITS[unit ?? frenchUnit], -parseNumber(count ?? frenchCount));
+      return periodOf(UNITS[unit ?? frenchUnit], shifted);
+    },
+  },
+  // last summer, this week, last Monday
+  {
+    pattern: new RegExp(`\\b(last|previous|past|this)\\s+(${NAME})\\b`, 'g'),
+    resolve: ([, which, name], { reference }) => resolveName(name, which === 'this' ? 'this' : 'last', reference),
+  },
+  // l'été dernier, la semaine passée, mars dernier
+  {
+    pattern: new RegExp(`\\b(${NAME})\\s+(?:dernier|derniere|passe|passee|precedent|precedente)\\b`, 'g'),
+    resolve: ([, name], { reference }) => resolveName(name, 'last', reference),
+  },
+  // cette semaine, cet été, ce mois-ci
+  {
+    pattern: new RegExp(`\\b(?:cette|cet|ce)\\s+(${NAME})(?:-ci)?\\b`, 'g'),
+    resolve: ([, name], { reference }) => resolveName(name, 'this', reference),
+  },
+  // today, the day before yesterday, avant-hier
+  {
+    pattern: /\b(the day before yesterday|yesterday|today|avant-hier|hier|aujourd'hui)\b/g,
+    resolve: ([, day], { reference }) => dayRange(shift(reference, 'day', -(DAYS_AGO[day] ?? 0))),
+  },
+  // in March, during the summer, en mai, l'hiver (month names alone are too ambiguous: may, mars)
+  {
+    pattern: new RegExp(
+      `(?:\\b(?:in|during|since|en|pendant|depuis|au|au mois de)\\s+(?:the\\s+)?|\\bl')(${MONTH}|${SEASON})\\b`,
+      'g',
+    ),
+    resolve: ([, name], context) =>
+      name in MONTHS
+        ? resolveMonth(MONTHS[name], context)
+        : latestStarted((year) => seasonRange(year, SEASONS[name]), context.reference),
+  },
+  // in 2022, en 2022
+  {
+    pattern: new RegExp(`\\b(?:in|during|since|of|en|pendant|depuis|l'annee|annee)\\s+(${YEAR})\\b`, 'g'),
+    resolve: ([, year]) => ({ start: new Date(Number(year), 0, 1), end: endOfDay(new Date(Number(year), 11, 31)) }),
+  },
+];
+
+/**
+ * Range of dates covered by the time expressions of a question (all of them, for questions
+ * naming several), or null if it has none. Expressions after "since"/"depuis" extend to
+ * the reference date
+ */
+export function interpretDates(question: string, reference: Date = new Date()): InterpretedDateRange | null {
+  const original = question.normalize('NFC');
+  // Blanked out rather than removed, so that positions are kept
+  const folded = foldAccents(original.replace(MAY_VERB, '   ')).replace(/[‘’ʼ]/g, "'");
+  // Folding keeps positions unless a ligature expanded (œ -> oe)
+  const source = folded.length === original.length ? original : folded;
+
+  const year = folded.match(new RegExp(`\\b${YEAR}\\b`));
+  const context: DateContext = { reference, year: year ? Number(year[0]) : undefined };
+
+  let remaining = folded;
+  const found: Array<{ index: number; expression: string; range: DateRange }> = [];
+  for (const rule of RULES) {
+    for (const match of remaining.matchAll(rule.pattern)) {
+      const range = rule.resolve(match as RegExpExecArray, context);
+      if (!range) continue;
+
+      const index = match.index ?? 0;
+      const since = /^(?:since|depuis)\b/.test(match[0]) || /\b(?:since|depuis)\s+(?:le\s+|la\s+)?$/.test(folded.slice(0, index));
+      found.push({
+        index,
+        expression: source.slice(index, index + match[0].length).trim(),
+        range: since ? { start: range.start, end: endOfDay(reference) } : range,
+      });
+      remaining = remaining.slice(0, index) + ' '.repeat(match[0].length) + remaining.slice(index + match[0].length);
+    }
+  }
+
+  if (found.length === 0) return null;
+
+  found.sort((a, b) => a.index - b.index);
+  return {
+    start: new Date(Math.min(...found.map((f) => f.range.start.getTime()))),
+    end: new Date(Math.max(...found.map((f) => f.range.end.getTime()))),
+    expressions: found.map((f) => f.expression),
+  };
+}
+
+/**
+ * Period named after "last" or "this" (or their French equivalents)
+ */
+function resolveName(name: string, which: 'last' | 'this', reference: Date): DateRange {
+  const period = parseName(name);
+
+  switch (period.kind) {
+    case 'unit':
+      return periodOf(period.unit, which === 'last' ? shift(reference, period.unit, -1) : reference);
+
+    case 'weekend': {
+      // The weekend before this week, or the one ending it
+      const monday = startOfWeek(reference);
+      const saturday = shift(monday, 'day', which === 'last' ? -2 : 5);
+      return { start: saturday, end: endOfDay(shift(saturday, 'day', 1)) };
+    }
+
+    case 'weekday': {
+      if (which === 'this') {
+        return dayRange(shift(startOfWeek(reference), 'day', (period.weekday + 6) % 7));
+      }
+      const daysAgo = (reference.getDay() - period.weekday + 7) % 7 || 7;
+      return dayRange(shift(reference, 'day', -daysAgo));
+    }
+
+    case 'season':
+    case 'month': {
+      const occurrence = (year: number) =>
+        period.kind === 'season' ? seasonRange(year, period.month) : monthRange(year, period.month);
+      return which === 'last' ? latestEnded(occurrence, reference) : latestStarted(occurrence, reference);
+    }
+  }
+}
+
+function parseName(name: string): PeriodName {
+  if (/^week-?end$/.test(name)) return { kind: 'weekend' };
+  if (name in UNITS) return { kind: 'unit', unit: UNITS[name] };
+  if (name in SEASONS) return { kind: 'season', month: SEASONS[name] };
+  if (name in MONTHS) return { kind: 'month', month: MONTHS[name] };
+  return { kind: 'weekday', weekday: WEEKDAYS[name] };
+}
+
+/**
+ * A month without a year: the one of the year written in the question, or the latest one
+ * that started
+ */
+function resolveMonth(month: number, { reference, year }: DateContext): DateRange {
+  return year !== undefined ? monthRange(year, month) : latestStarted((y) => monthRange(y, month), reference);
+}
+
+function resolveDay(month: number, day: number, year: string | undefined, context: DateContext): DateRange | null {
+  if (day < 1 || day > 31) return null;
+  if (year) return dayRange(new Date(Number(year), month, day));
+  if (context.year !== undefined) return dayRange(new Date(context.year, month, day));
+  return latestStarted((y) => dayRange(new Date(y, month, day)), context.reference);
+}
+
+/**
+ * The latest occurrence (by start year) of a yearly period that started by the reference date
+ */
+function latestStarted(occurrence: (year: number) => DateRange, reference: Date): DateRange {
+  let year = reference.getFullYear();
+  while (occurrence(year).start > reference) year--;
+  return occurrence(year);
+}
+
+/**
+ * The latest occurrence of a yearly period that ended by the reference date
+ */
+function latestEnded(occurrence: (year: number) => DateRange, reference: Date): DateRange {
+  let year = reference.getFullYear();
+  while (occurrence(year).end > reference) year--;
+  return occurrence(year);
+}
+
+/**
+ * From the start of the day `count` units before the reference date to the end of its day
+ */
+function lastUnits(unit: Unit, count: number, reference: Date): DateRange {
+  return { start: startOfDay(shift(reference, unit, -count)), end: endOfDay(reference) };
+}
+
+/**
+ * The day, week (Monday to Sunday), month or year holding a date
+ */
+function periodOf(unit: Unit, date: Date): DateRange {
+  switch (unit) {
+    case 'day':
+      return dayRange(date);
+    case 'week': {
+      const monday = startOfWeek(date);
+      return { start: monday, end: endOfDay(shift(monday, 'day', 6)) };
+    }
+    case 'month':
+      return monthRange(date.getFullYear(), date.getMonth());
+    case 'year':
+      return { start: new Date(date.getFullYear(), 0, 1), end: endOfDay(new Date(date.getFullYear(), 11, 31)) };
+  }
+}
+
+function seasonRange(year: number, month: number): DateRange {
+  return { start: new Date(year, month, 1), end: endOfDay(new Date(year, month + 3, 0)) };
+}
+
+function monthRange(year: number, month: number): DateRange {
+  return { start: new Date(year, month, 1), end: endOfDay(new Date(year, month + 1, 0)) };
+}
+
+function dayRange(date: Date): DateRange {
+  return { start: startOfDay(date), end: endOfDay(date) };
+}
+
+/**
+ * Move a date by a number of units, keeping its day within shorter months (31 March - 1 month
+ * is 28 or 29 February)
+ */
+function shift(date: Date, unit: Unit, count: number): Date {
+  const shifted = new Date(date);
+  if (unit === 'day' || unit === 'week') {
+    shifted.setDate(date.getDate() + count * (unit === 'week' ? 7 : 1));
+    return shifted;
+  }
+
+  const months = unit === 'year' ? count * 12 : count;
+  shifted.setDate(1);
+  shifted.setMonth(date.getMonth() + months);
+  const lastDay = new Date(shifted.getFullYear(), shifted.getMonth() + 1, 0).getDate();
+  shifted.setDate(Math.min(date.getDate(), lastDay));
+  return shifted;
+}
+
+function startOfWeek(date: Date): Date {
+  return startOfDay(shift(date, 'day', -((date.getDay() + 6) % 7)));
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function endOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+}
+
+function parseNumber(text: string): number {
+  return NUMBERS[text] ?? parseInt(text, 10);
+}
+
+/**
+ * Regex alternation of the keys of a table, longest first so that the longest name matches
+ */
+function alternation(table: Record<string, unknown>): string {
+  return Object.keys(table)
+    .sort((a, b) => b.length - a.length)
+    .join('|');
+}
@@ -0,0 +1,50 @@
+/**
+ * Reciprocal Rank Fusion
+ * Merges the rankings of several searches by rank alone, so that scores on unrelated
+ * scales (cosine similarity, BM25) need no calibration
+ */
+
+/**
+ * Damps the weight of the very first ranks (60 in the original paper)
+ */
+export const RRF_K = 60;
+
+export interface FusedResult {
+  id: string;
+  /**
+   * Fused score, from 0 to 1 (1 for an item ranked first by every search)
+   */
+  score: number;
+  /**
+   * Rank of the item in each ranking (1 for the first), null where it is missing
+   */
+  ranks: Array<number | null>;
+}
+
+/**
+ * Fuse rankings (item IDs, best first) into one, best first: each item scores
+ * the sum of 1 / (k + rank) over the rankings holding it
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): FusedResult[] {
+  const results = new Map<string, FusedResult>();
+
+  rankings.forEach((ranking, i) => {
+    ranking.forEach((id, index) => {
+      let result = results.get(id);
+      if (!result) {
+        result = { id, score: 0, ranks: rankings.map(() => null) };
+        results.set(id, result);
+      }
+      // Duplicates keep their best rank
+      if (result.ranks[i] !== null) return;
+      result.ranks[i] = index + 1;
+      result.score += 1 / (k + index + 1);
+    });
+  });
+
+  const best = rankings.length / (k + 1);
+  // Ties keep the order items were first seen in (the first ranking's order first)
+  return [...results.values()]
+    .map((result) => ({ ...result, score: best > 0 ? result.score / best : 0 }))
+    .sort((a, b) => b.score - a.score);
+}
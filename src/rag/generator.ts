@@ -3,16 +3,21 @@
  * Generates responses using retrieved context
  */
 
+import { config } from '../config/index.js';
 import { getLLMProvider } from '../providers/index.js';
 import { getRetriever, Retriever } from './retriever.js';
-import type { QueryRequest, QueryResponse, ChunkReference } from './types.js';
+import { interpretDates, type InterpretedDateRange } from './dates.js';
+import { getParticipantResolver, type ParticipantMatch, type ParticipantResolver } from './participants.js';
+import type { QueryRequest, QueryResponse, ChunkReference, QueryFilters, QueryOptions } from './types.js';
 import { RAG_PROMPTS } from './types.js';
 
 export class Generator {
   private retriever: Retriever;
+  private participants: ParticipantResolver;
 
   constructor() {
     this.retriever = getRetriever();
+    this.participants = getParticipantResolver();
   }
 
   async initialize(): Promise<void> {
@@ -26,9 +31,11 @@ export class Generator {
     const startTime = Date.now();
     const {
       question,
-      filters,
       options = {},
     } = request;
+    const dated = this.withDateRange(question, request.filters, options);
+    const { filters, boostParticipants, participants, aliasesError } = this.withParticipants(question, dated.filters);
+    const dateRange = dated.dateRange;
 
     const {
       topK = 5,
@@ -39,10 +46,11 @@ export class Generator {
     } = options;
 
     // Step 1: Retrieve relevant chunks
-    const { chunks, scores } = await this.retriever.retrieve(question, {
+    const { chunks, scores, rerankScores, rerankError } = await this.retriever.retrieve(question, {
       topK,
       minScore,
       filters,
+      boostParticipants,
     });
 
     // Handle no results
@@ -53,6 +61,9 @@ export class Generator {
         metadata: {
           queryTime: Date.now() - startTime,
           chunksRetrieved: 0,
+          dateRange,
+          participants,
+          aliasesError,
         },
       };
     }
@@ -75,7 +86,7 @@ export class Generator {
 
     // Build references
     const sources: ChunkReference[] = includeSources
-      ? this.retriever.toReferences(chunks, scores)
+      ? this.retriever.toReferences(chunks, scores, rerankScores)
       : [];
 
     return {
@@ -84,6 +95,10 @@ export class Generator {
       metadata: {
         queryTime: Date.now() - startTime,
         chunksRetrieved: chunks.length,
+        dateRange,
+        participants,
+        aliasesError,
+        rerankError,
       },
     };
   }
@@ -94,9 +109,12 @@ export class Generator {
   async *queryStream(request: QueryRequest): AsyncIterable<string> {
     const {
       question,
-      filters,
       options = {},
     } = request;
+    const { filters, boostParticipants } = this.withParticipants(
+      question,
+      this.withDateRange(question, request.filters, options).filters,
+    );
 
     const {
       topK = 5,
@@ -110,6 +128,7 @@ export class Generator {
       topK,
       minScore,
       filters,
+      boostParticipants,
     });
 
     if (chunks.length === 0) {
@@ -134,6 +153,51 @@ export class Generator {
     }
   }
 
+  /**
+   * Filters with the date range of the time expressions of the question, unless the
+   * caller set one
+   */
+  private withDateRange(
+    question: string,
+    filters: QueryFilters | undefined,
+    options: QueryOptions,
+  ): { filters?: QueryFilters; dateRange?: InterpretedDateRange } {
+    if (options.interpretDates === false || filters?.dateRange) return { filters };
+
+    const dateRange = interpretDates(question, options.referenceDate) ?? undefined;
+    if (!dateRange) return { filters };
+    return {
+      filters: { ...filters, dateRange: { start: dateRange.start, end: dateRange.end } },
+      dateRange,
+    };
+  }
+
+  /**
+   * Filters (or boost) with the senders the question mentions, unless the caller set
+   * participants (see PARTICIPANT_MATCHING)
+   */
+  private withParticipants(
+    question: string,
+    filters: QueryFilters | undefined,
+  ): {
+    filters?: QueryFilters;
+    boostParticipants?: string[];
+    participants?: ParticipantMatch[];
+    aliasesError?: string;
+  } {
+    const { matching } = config.participants;
+    if (matching === 'off' || filters?.participants?.length) return { filters };
+
+    const participants = this.participants.resolve(question);
+    const aliasesError = this.participants.aliasesError ?? undefined;
+    if (participants.length === 0) return { filters, aliasesError };
+
+    const senders = [...new Set(participants.flatMap((p) => p.participants))];
+    return matching === 'filter'
+      ? { filters: { ...filters, participants: senders }, participants, aliasesError }
+      : { filters, boostParticipants: senders, participants, aliasesError };
+  }
+
   /**
    * Check if generator is available
    */
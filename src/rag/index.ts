@@ -1,4 +1,8 @@
 export * from './types.js';
 export * from './retriever.js';
+export * from './fusion.js';
+export * from './dates.js';
+export * from './participants.js';
+export * from './rerank.js';
 export * from './generator.js';
 export * from './agent/index.js';
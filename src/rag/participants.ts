@@ -0,0 +1,289 @@
+/**
+ * Participant Resolution
+ * Matches the people a question mentions ("herve", "Papa", "06 12 34 56 78") with the
+ * senders of the conversations as the exports spell them ("Hervé Dupont", "+33 6 12 34 56 78"):
+ * accents and case are ignored, a first or last name is enough, one typo is tolerated in
+ * longer names, and nicknames come from a user-edited alias table
+ */
+
+import { statSync, readFileSync } from 'fs';
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { Analyzer, foldAccents } from '../core/analyzer/index.js';
+import { getMetadataStore, type SqliteMetadataStore } from '../storage/index.js';
+
+export interface ParticipantMatch {
+  /**
+   * Words of the question naming the participants, as written
+   */
+  mention: string;
+  /**
+   * Senders as the exports spell them
+   */
+  participants: string[];
+}
+
+/**
+ * Nicknames and the senders they stand for, as in the aliases file:
+ * { "Papa": "Hervé Dupont", "The kids": ["Léa", "+33 6 12 34 56 78"] }
+ */
+export type Aliases = Record<string, string | string[]>;
+
+const AliasesSchema = z.record(z.union([z.string(), z.array(z.string())]));
+
+/**
+ * Phone numbers: at least 7 digits, with spaces, dots, dashes or parentheses between them
+ */
+const PHONE = /\+?\d[\d\s().-]{5,}\d/g;
+
+/**
+ * Trailing digits compared, so that national and international forms match (06 / +33 6)
+ */
+const PHONE_DIGITS = 9;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Match the mentions of a question against the known senders, in order of appearance
+ */
+export function matchParticipants(
+  question: string,
+  senders: string[],
+  aliases: Aliases = {},
+  analyzer: Analyzer = new Analyzer(['en', 'fr']),
+): ParticipantMatch[] {
+  const text = question.normalize('NFC');
+  const tokens = tokenize(text);
+  const claimed = new Set<number>();
+  const matches: Array<ParticipantMatch & { start: number }> = [];
+
+  const phones = senders.filter((sender) => isPhone(sender));
+  const names = senders.filter((sender) => !isPhone(sender));
+
+  // Phone numbers
+  for (const match of text.matchAll(PHONE)) {
+    const found = phones.filter((phone) => samePhone(phone, match[0]));
+    if (found.length === 0) continue;
+
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    tokens.forEach((token, i) => {
+      if (token.start >= start && token.end <= end) claimed.add(i);
+    });
+    matches.push({ mention: match[0].trim(), participants: found, start });
+  }
+
+  // Aliases, longest first so that "papa dupont" wins over "papa"
+  const aliasEntries = Object.entries(aliases)
+    .map(([alias, targets]) => ({ words: tokenize(alias).map((t) => t.word), targets }))
+    .filter((entry) => entry.words.length > 0)
+    .sort((a, b) => b.words.length - a.words.length);
+
+  for (const { words, targets } of aliasEntries) {
+    for (let i = 0; i + words.length <= tokens.length; i++) {
+      const span = tokens.slice(i, i + words.length);
+      if (span.some((_, j) => claimed.has(i + j) || span[j].word !== words[j])) continue;
+
+      span.forEach((_, j) => claimed.add(i + j));
+      matches.push({
+        mention: text.slice(span[0].start, span[span.length - 1].end),
+        participants: resolveTargets(targets, senders),
+        start: span[0].start,
+      });
+    }
+  }
+
+  // Names: each word goes to the senders sharing the most words with the question
+  const nameWords = names.map((name) =>
+    tokenize(name)
+      .map((t) => t.word)
+      .filter((w) => !analyzer.isStopword(w)),
+  );
+  const candidates = tokens.map(({ word }, i) => {
+    if (claimed.has(i) || word.length < 3 || /^\d+$/.test(word) || analyzer.isStopword(word)) {
+      return [];
+    }
+    // Exact words weigh more than typos
+    return names.flatMap((_, n) => {
+      const exact = nameWords[n].includes(word);
+      return exact || nameWords[n].some((w) => isTypo(word, w)) ? [{ sender: n, weight: exact ? 2 : 1 }] : [];
+    });
+  });
+
+  const scores = new Map<number, number>();
+  for (const { sender, weight } of candidates.flat()) {
+    scores.set(sender, (scores.get(sender) ?? 0) + weight);
+  }
+
+  let previous: { names: string; index: number } | null = null;
+  tokens.forEach((token, i) => {
+    const list = candidates[i];
+    if (list.length === 0) {
+      previous = null;
+      return;
+    }
+
+    const best = Math.max(...list.map((c) => scores.get(c.sender)!));
+    const winners = list.filter((c) => scores.get(c.sender) === best).map((c) => names[c.sender]);
+    const key = winners.join('\n');
+
+    // Consecutive words naming the same people make one mention: "Hervé Dupont"
+    const last = matches[matches.length - 1];
+    if (previous?.names === key && previous.index === i - 1) {
+      last.mention = text.slice(last.start, token.end);
+    } else {
+      matches.push({ mention: text.slice(token.start, token.end), participants: winners, start: token.start });
+    }
+    previous = { names: key, index: i };
+  });
+
+  return matches
+    .sort((a, b) => a.start - b.start)
+    .map(({ mention, participants }) => ({ mention, participants }));
+}
+
+/**
+ * Read the aliases file (none if it does not exist)
+ */
+export function loadAliases(path: string): Aliases {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') return {};
+    throw error;
+  }
+
+  try {
+    return AliasesSchema.parse(JSON.parse(content));
+  } catch (error) {
+    throw new Error(
+      `Invalid aliases file ${path}: expected an object of names to senders (or lists of senders). ` +
+        (error instanceof Error ? error.message : String(error)),
+    );
+  }
+}
+
+/**
+ * Resolves mentions against the senders of the ingested conversations, re-reading the
+ * aliases file when it changes (the previous aliases are kept while an edit is invalid)
+ */
+export class ParticipantResolver {
+  private aliases: Aliases = {};
+  private aliasesVersion: number | null = null;
+
+  /**
+   * Why the aliases file could not be read, for as long as it stays invalid
+   */
+  aliasesError: string | null = null;
+
+  constructor(
+    private metadata: Pick<SqliteMetadataStore, 'listParticipants'> = getMetadataStore(),
+    private aliasesPath: string = config.participants.aliasesPath,
+    private analyzer: Analyzer = new Analyzer(config.rag.searchLanguages),
+  ) {}
+
+  resolve(question: string): ParticipantMatch[] {
+    return matchParticipants(question, this.metadata.listParticipants(), this.getAliases(), this.analyzer);
+  }
+
+  /**
+   * Senders a participant filter given by name stands for (the name itself if it matches none)
+   */
+  resolveFilter(name: string): string[] {
+    const participants = [...new Set(this.resolve(name).flatMap((m) => m.participants))];
+    return participants.length > 0 ? participants : [name];
+  }
+
+  private getAliases(): Aliases {
+    let version: number;
+    try {
+      version = statSync(this.aliasesPath).mtimeMs;
+    } catch {
+      this.aliasesError = null;
+      return {};
+    }
+
+    if (version !== this.aliasesVersion) {
+      this.aliasesVersion = version;
+      try {
+        this.aliases = loadAliases(this.aliasesPath);
+        this.aliasesError = null;
+      } catch (error) {
+        this.aliasesError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    return this.aliases;
+  }
+}
+
+/**
+ * Senders an alias stands for: phone numbers and names are matched with the known senders,
+ * others are kept as written
+ */
+function resolveTargets(targets: string | string[], senders: string[]): string[] {
+  const list = Array.isArray(targets) ? targets : [targets];
+  return [
+    ...new Set(
+      list.flatMap((target) => {
+        const found = isPhone(target)
+          ? senders.filter((sender) => isPhone(sender) && samePhone(sender, target))
+          : senders.filter((sender) => foldAccents(sender).trim() === foldAccents(target).trim());
+        return found.length > 0 ? found : [target];
+      }),
+    ),
+  ];
+}
+
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({
+    word: foldAccents(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function isPhone(text: string): boolean {
+  return /^\+?[\d\s().-]+$/.test(text.trim()) && text.replace(/\D/g, '').length >= 7;
+}
+
+function samePhone(a: string, b: string): boolean {
+  const digitsA = a.replace(/\D/g, '');
+  const digitsB = b.replace(/\D/g, '');
+  const length = Math.min(PHONE_DIGITS, digitsA.length, digitsB.length);
+  return length >= 7 && digitsA.slice(-length) === digitsB.slice(-length);
+}
+
+/**
+ * Whether two words of 5 letters or more differ by one edit (a letter added, removed,
+ * replaced, or two letters swapped)
+ */
+function isTypo(a: string, b: string): boolean {
+  if (a === b || a.length < 5 || b.length < 5 || Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  while (i < a.length && a[i] === b[i]) i++;
+  const restA = a.slice(i);
+  const restB = b.slice(i);
+
+  return (
+    restA.slice(1) === restB.slice(1) || // replaced
+    restA.slice(1) === restB || // removed
+    restA === restB.slice(1) || // added
+    (restA[0] === restB[1] && restA[1] === restB[0] && restA.slice(2) === restB.slice(2)) // swapped
+  );
+}
+
+// Singleton
+let resolverInstance: ParticipantResolver | null = null;
+
+export function getParticipantResolver(): ParticipantResolver {
+  if (!resolverInstance) {
+    resolverInstance = new ParticipantResolver();
+  }
+  return resolverInstance;
+}
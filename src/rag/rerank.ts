@@ -0,0 +1,133 @@
+/**
+ * Rerankers
+ * Reorder the candidates of the hybrid search by reading the question and each chunk
+ * together, which embeddings and keywords, computed separately, cannot do
+ */
+
+import { config } from '../config/index.js';
+import { getChunkText } from '../core/chunker/index.js';
+import { getLLMProvider } from '../providers/index.js';
+import type { LLMProvider } from '../providers/types.js';
+import type { StoredChunk } from '../storage/types.js';
+import { RAG_PROMPTS } from './types.js';
+
+export interface Reranker {
+  readonly name: string;
+
+  /**
+   * Relevance of each chunk to the query, from 0 to 1, in the order of the chunks
+   * (which is the order of the first-stage ranking)
+   */
+  rerank(query: string, chunks: StoredChunk[]): Promise<number[]>;
+}
+
+/**
+ * Cross-encoder model run locally (e.g. bge-reranker, ms-marco-MiniLM): scores each
+ * (query, passage) pair with a relevance logit
+ */
+export interface CrossEncoderModel {
+  readonly name: string;
+
+  score(query: string, passages: string[]): Promise<number[]>;
+}
+
+/**
+ * Reranks with a cross-encoder model, turning its logits into probabilities
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name: string;
+
+  /**
+   * @param maxChars Characters of chunk text scored (cross-encoders read 512 tokens at most)
+   */
+  constructor(
+    private model: CrossEncoderModel,
+    private maxChars: number = 2000,
+  ) {
+    this.name = `cross-encoder:${model.name}`;
+  }
+
+  async rerank(query: string, chunks: StoredChunk[]): Promise<number[]> {
+    if (chunks.length === 0) return [];
+
+    const logits = await this.model.score(
+      query,
+      chunks.map((chunk) => getChunkText(chunk).slice(0, this.maxChars)),
+    );
+    if (logits.length !== chunks.length) {
+      throw new Error(`Cross-encoder ${this.model.name} returned ${logits.length} scores for ${chunks.length} chunks`);
+    }
+    return logits.map((logit) => 1 / (1 + Math.exp(-logit)));
+  }
+}
+
+/**
+ * Listwise reranking by the LLM: it sees every candidate at once and answers their
+ * numbers, most relevant first. Candidates it leaves out score 0 and keep their order
+ */
+export class LLMReranker implements Reranker {
+  readonly name: string;
+
+  /**
+   * @param maxChars Characters of chunk text shown per candidate
+   */
+  constructor(
+    private llm: LLMProvider,
+    private maxChars: number = 600,
+  ) {
+    this.name = `llm:${llm.name}`;
+  }
+
+  async rerank(query: string, chunks: StoredChunk[]): Promise<number[]> {
+    if (chunks.length <= 1) return chunks.map(() => 1);
+
+    const passages = chunks.map((chunk) => {
+      const text = getChunkText(chunk);
+      return text.length > this.maxChars ? `${text.slice(0, this.maxChars)}...` : text;
+    });
+    const answer = await this.llm.chat([{ role: 'user', content: RAG_PROMPTS.rerank(query, passages) }], {
+      // Room for every number and its separator
+      maxTokens: chunks.length * 4 + 20,
+      temperature: 0,
+    });
+
+    const scores = chunks.map(() => 0);
+    const ranking = parseRanking(answer, chunks.length);
+    ranking.forEach((index, position) => {
+      scores[index] = 1 - position / chunks.length;
+    });
+    return scores;
+  }
+}
+
+/**
+ * Indexes (from 0) of the passages an LLM ranked, from the passage numbers (from 1) of
+ * its answer, in order: "[3] > [1] > [2]" -> [2, 0, 1]. Numbers out of range and repeats
+ * are ignored
+ */
+export function parseRanking(answer: string, count: number): number[] {
+  const ranking: number[] = [];
+  for (const [number] of answer.matchAll(/\d+/g)) {
+    const index = parseInt(number, 10) - 1;
+    if (index >= 0 && index < count && !ranking.includes(index)) {
+      ranking.push(index);
+    }
+  }
+  return ranking;
+}
+
+/**
+ * Create the reranker set by configuration (null to keep the fused ranking)
+ */
+export function createReranker(): Reranker | null {
+  switch (config.rerank.provider) {
+    case 'llm':
+      return new LLMReranker(getLLMProvider());
+
+    case 'none':
+      return null;
+
+    default:
+      throw new Error(`Unknown reranker: ${config.rerank.provider}`);
+  }
+}
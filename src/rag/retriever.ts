@@ -1,76 +1,28 @@
 /**
  * RAG Retriever
- * Handles semantic search and context retrieval with hybrid keyword matching
+ * Handles semantic search and context retrieval with hybrid keyword matching (BM25),
+ * optionally reranked
  */
 
+import { config } from '../config/index.js';
 import { getEmbedProvider } from '../providers/index.js';
-import { QdrantVectorStore } from '../storage/index.js';
+import { getMetadataStore, getVectorStore, type SqliteMetadataStore } from '../storage/index.js';
 import { getChunkText, getChunkHeader } from '../core/chunker/index.js';
-import type { StoredChunk, VectorSearchOptions } from '../storage/types.js';
+import type { StoredChunk, VectorFilter, VectorSearchResult, VectorStore } from '../storage/types.js';
+import { reciprocalRankFusion } from './fusion.js';
+import { createReranker, type Reranker } from './rerank.js';
 import type { QueryFilters, RetrievalResult, ChunkReference } from './types.js';
 
-/**
- * Extract keywords from a query (with French contraction handling)
- */
-function extractKeywords(query: string): string[] {
-  const stopWords = new Set([
-    'le', 'la', 'les', 'de', 'du', 'des', 'un', 'une', 'et', 'ou', 'à', 'au', 'aux',
-    'ce', 'ces', 'on', 'qui', 'que', 'quoi', 'est', 'a', 'ont', 'sont', 'pour',
-    'dans', 'sur', 'avec', 'par', 'en', 'quand', 'comment', 'pourquoi',
-    'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
-    'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should',
-    'of', 'to', 'in', 'for', 'on', 'with', 'at', 'by', 'from', 'about',
-    'est-ce', "qu'on", "c'est", "n'est", "j'ai", "t'as",
-  ]);
-
-  // French contraction prefixes to remove
-  const contractionPrefixes = ["d'", "l'", "j'", "m'", "t'", "s'", "n'", "c'", "qu'"];
-
-  return query
-    .toLowerCase()
-    .replace(/['']/g, "'")
-    .replace(/[^\w\s'àâäéèêëïîôùûüç-]/g, ' ')
-    .split(/\s+/)
-    .flatMap(word => {
-      // Handle French contractions: d'antibio -> antibio
-      for (const prefix of contractionPrefixes) {
-        if (word.startsWith(prefix)) {
-          return [word.slice(prefix.length)];
-        }
-      }
-      // Also split on apostrophe in middle: aujourd'hui -> aujourd, hui
-      if (word.includes("'")) {
-        return word.split("'").filter(w => w.length > 2);
-      }
-      return [word];
-    })
-    .filter(word => word.length > 2 && !stopWords.has(word));
-}
-
-/**
- * Check if chunk contains any of the keywords
- */
-function chunkContainsKeywords(chunk: StoredChunk, keywords: string[]): { matches: boolean; count: number } {
-  const text = chunk.messages
-    .map(m => `${m.sender} ${m.content}`.toLowerCase())
-    .join(' ');
-
-  let count = 0;
-  for (const keyword of keywords) {
-    if (text.includes(keyword)) {
-      count++;
-    }
-  }
-
-  return { matches: count > 0, count };
-}
-
 export class Retriever {
-  private vectorStore: QdrantVectorStore;
+  private vectorStore: VectorStore;
+  private metadata: SqliteMetadataStore;
 
-  constructor() {
-    const embedProvider = getEmbedProvider();
-    this.vectorStore = new QdrantVectorStore(embedProvider.dimensions);
+  /**
+   * @param reranker Reorders the fused candidates (null to keep the fused ranking)
+   */
+  constructor(private reranker: Reranker | null = createReranker()) {
+    this.vectorStore = getVectorStore();
+    this.metadata = getMetadataStore();
   }
 
   async initialize(): Promise<void> {
@@ -78,27 +30,22 @@ export class Retriever {
   }
 
   /**
-   * Search for chunks containing specific keywords (fallback for short queries)
+   * Rank chunks by BM25 of the query keywords over the full-text index built at ingestion
+   * (data ingested before the metadata store existed is indexed by `conversations sync`)
    */
-  async keywordSearch(keywords: string[], limit: number = 10): Promise<StoredChunk[]> {
-    const allChunks = await this.vectorStore.scrollAll();
-    const matches: Array<{ chunk: StoredChunk; count: number }> = [];
-
-    for (const chunk of allChunks) {
-      const { matches: hasMatch, count } = chunkContainsKeywords(chunk, keywords);
-      if (hasMatch) {
-        matches.push({ chunk, count });
-      }
-    }
-
-    // Sort by keyword count (most matches first)
-    matches.sort((a, b) => b.count - a.count);
+  async keywordSearch(query: string, limit: number = 10, filter?: VectorFilter): Promise<VectorSearchResult[]> {
+    const matches = this.metadata.searchChunks(query, limit, filter);
+    const chunks = new Map(this.metadata.getChunks(matches.map((m) => m.chunkId)).map((c) => [c.id, c]));
 
-    return matches.slice(0, limit).map(m => m.chunk);
+    return matches.flatMap((match) => {
+      const chunk = chunks.get(match.chunkId);
+      return chunk ? [{ chunk, score: match.score }] : [];
+    });
   }
 
   /**
-   * Retrieve relevant chunks for a query using hybrid search
+   * Retrieve relevant chunks for a query using hybrid search: semantic and keyword
+   * rankings fused by reciprocal rank fusion, then reranked if a reranker is set
    */
   async retrieve(
     query: string,
@@ -106,77 +53,88 @@ export class Retriever {
       topK?: number;
       minScore?: number;
       filters?: QueryFilters;
+      /**
+       * Participants whose chunks are ranked higher (a third ranking fused with the others)
+       */
+      boostParticipants?: string[];
     } = {},
   ): Promise<RetrievalResult> {
-    const { topK = 5, minScore = 0.4, filters } = options;
-
-    // Extract keywords for hybrid matching
-    const keywords = extractKeywords(query);
+    const { topK = 5, minScore = 0.4, filters, boostParticipants = [] } = options;
 
     // Generate query embedding
     const embedProvider = getEmbedProvider();
     const queryEmbedding = await embedProvider.embed(query);
 
-    // Fetch more results for re-ranking (5x topK, min 25)
-    const searchOptions: VectorSearchOptions = {
-      topK: Math.max(topK * 5, 25),
-      minScore: Math.max(minScore - 0.3, 0.2), // Lower threshold for initial fetch
-      filter: filters ? {
-        participants: filters.participants,
-        dateRange: filters.dateRange,
-        conversationId: filters.conversationId,
-      } : undefined,
-    };
-
-    // Search vector store
-    const results = await this.vectorStore.search(queryEmbedding, searchOptions);
-
-    // Also do keyword search for short/specific queries
-    let keywordChunks: StoredChunk[] = [];
-    if (keywords.length > 0 && keywords.some(k => k.length >= 4)) {
-      keywordChunks = await this.keywordSearch(keywords, 10);
-    }
-
-    // Merge results: create a map of chunk ID -> result
-    const resultMap = new Map<string, { chunk: StoredChunk; score: number; hasKeywords: boolean }>();
-
-    // Add semantic results
-    for (const r of results) {
-      const { matches, count } = chunkContainsKeywords(r.chunk, keywords);
-      const keywordBoost = matches ? Math.min(0.2 * count, 0.5) : 0;
-      resultMap.set(r.chunk.id, {
-        chunk: r.chunk,
-        score: Math.min(r.score + keywordBoost, 1.0),
-        hasKeywords: matches,
-      });
+    // Queries naming no conversation are restricted to the default one, if set
+    const conversationId = filters?.conversationId ?? this.metadata.getDefaultConversationId() ?? undefined;
+    const filter: VectorFilter | undefined = filters || conversationId ? {
+      participants: filters?.participants,
+      dateRange: filters?.dateRange,
+      conversationId,
+    } : undefined;
+
+    // Candidates of each search, with a lower similarity threshold since keywords can
+    // vouch for weaker semantic matches
+    const candidates = Math.max(topK, config.rag.retrievalCandidates);
+    const semantic = await this.vectorStore.search(queryEmbedding, {
+      topK: candidates,
+      minScore: Math.max(minScore - 0.3, 0.2),
+      filter,
+    });
+    const lexical = await this.keywordSearch(query, candidates, filter);
+
+    const chunks = new Map([...lexical, ...semantic].map((r) => [r.chunk.id, r.chunk]));
+    const similarity = new Map(semantic.map((r) => [r.chunk.id, r.score]));
+    const keywordMatches = new Set(lexical.map((r) => r.chunk.id));
+
+    const rankings = [semantic.map((r) => r.chunk.id)];
+    if (lexical.length > 0) rankings.push(lexical.map((r) => r.chunk.id));
+
+    // Chunks of the boosted participants, in the order of the searches
+    if (boostParticipants.length > 0) {
+      const boosted = new Set(boostParticipants);
+      const ranking = reciprocalRankFusion(rankings)
+        .map((r) => r.id)
+        .filter((id) => chunks.get(id)!.participants.some((p) => boosted.has(p)));
+      if (ranking.length > 0) rankings.push(ranking);
     }
 
-    // Add keyword-only results with a base score
-    for (const chunk of keywordChunks) {
-      if (!resultMap.has(chunk.id)) {
-        const { count } = chunkContainsKeywords(chunk, keywords);
-        // Give keyword-only matches a base score of 0.6 + boost
-        const score = Math.min(0.6 + 0.1 * count, 0.9);
-        resultMap.set(chunk.id, {
-          chunk,
-          score,
-          hasKeywords: true,
-        });
+    // Semantic matches below minScore are only kept if they match keywords
+    const fused = reciprocalRankFusion(rankings)
+      .filter((r) => keywordMatches.has(r.id) || (similarity.get(r.id) ?? 0) >= minScore)
+      .slice(0, candidates);
+
+    // A failing reranker (model unavailable, provider down) leaves the fused ranking,
+    // the failure being reported with the result
+    let relevance: number[] | null = null;
+    let rerankError: string | undefined;
+    if (this.reranker && fused.length > 0) {
+      try {
+        relevance = await this.reranker.rerank(query, fused.map((r) => chunks.get(r.id)!));
+      } catch (error) {
+        rerankError = error instanceof Error ? error.message : String(error);
       }
     }
 
-    // Convert to array and sort
-    const allResults = Array.from(resultMap.values());
-    allResults.sort((a, b) => b.score - a.score);
+    if (!relevance) {
+      const results = fused.slice(0, topK);
+      return {
+        chunks: results.map((r) => chunks.get(r.id)!),
+        scores: results.map((r) => r.score),
+        rerankError,
+      };
+    }
 
-    // Filter by minScore and take topK
-    const filtered = allResults
-      .filter((r) => r.score >= minScore)
+    // Stable sort: candidates the reranker scores alike keep their fused order
+    const reranked = fused
+      .map((result, i) => ({ result, relevance: relevance[i] }))
+      .sort((a, b) => b.relevance - a.relevance)
       .slice(0, topK);
 
     return {
-      chunks: filtered.map((r) => r.chunk),
-      scores: filtered.map((r) => r.score),
+      chunks: reranked.map((r) => chunks.get(r.result.id)!),
+      scores: reranked.map((r) => r.result.score),
+      rerankScores: reranked.map((r) => r.relevance),
     };
   }
 
@@ -211,7 +169,7 @@ export class Retriever {
   /**
    * Convert chunks to references for response
    */
-  toReferences(chunks: StoredChunk[], scores: number[]): ChunkReference[] {
+  toReferences(chunks: StoredChunk[], scores: number[], rerankScores?: number[]): ChunkReference[] {
     return chunks.map((chunk, i) => {
       // Get first few messages as preview
       const previewMessages = chunk.messages.slice(0, 3);
@@ -221,7 +179,9 @@ export class Retriever {
 
       return {
         chunkId: chunk.id,
+        conversationId: chunk.metadata.conversationId,
         score: scores[i],
+        rerankScore: rerankScores?.[i],
         participants: chunk.participants,
         timeRange: {
           start: chunk.startTime,
@@ -3,6 +3,8 @@
  */
 
 import type { StoredChunk } from '../storage/types.js';
+import type { InterpretedDateRange } from './dates.js';
+import type { ParticipantMatch } from './participants.js';
 
 export interface QueryRequest {
   question: string;
@@ -26,10 +28,21 @@ export interface QueryOptions {
   topK?: number;
 
   /**
-   * Minimum similarity score
+   * Minimum similarity score of semantic matches (chunks matching keywords are kept regardless)
    */
   minScore?: number;
 
+  /**
+   * Whether to filter by the time expressions of the question ("last summer"), when the
+   * filters set no date range (default: true)
+   */
+  interpretDates?: boolean;
+
+  /**
+   * Date relative time expressions are resolved against (default: now)
+   */
+  referenceDate?: Date;
+
   /**
    * Whether to use the ReAct agent for complex queries
    */
@@ -53,7 +66,12 @@ export interface QueryOptions {
 
 export interface ChunkReference {
   chunkId: string;
+  conversationId: string;
   score: number;
+  /**
+   * Relevance given by the reranker, from 0 to 1, when one is configured
+   */
+  rerankScore?: number;
   participants: string[];
   timeRange: {
     start: Date;
@@ -70,12 +88,39 @@ export interface QueryResponse {
     queryTime: number;
     chunksRetrieved: number;
     tokensUsed?: number;
+    /**
+     * Date range read from the question and used as filter
+     */
+    dateRange?: InterpretedDateRange;
+    /**
+     * Senders matched with the people the question mentions
+     */
+    participants?: ParticipantMatch[];
+    /**
+     * Why the aliases file could not be read (the last valid aliases were used)
+     */
+    aliasesError?: string;
+    /**
+     * Why the sources could not be reranked (they keep the fused ranking)
+     */
+    rerankError?: string;
   };
 }
 
 export interface RetrievalResult {
   chunks: StoredChunk[];
+  /**
+   * Fused relevance of each chunk, from 0 to 1 (see reciprocalRankFusion)
+   */
   scores: number[];
+  /**
+   * Relevance of each chunk given by the reranker, which ordered them, when one is configured
+   */
+  rerankScores?: number[];
+  /**
+   * Why the reranker failed, in which case the chunks keep the fused ranking
+   */
+  rerankError?: string;
 }
 
 /**
@@ -107,6 +152,21 @@ ${question}
 
 ## Answer`,
 
+  rerank: (question: string, passages: string[]) => `Rank the conversation excerpts below by how well they answer the question.
+
+## Question
+${question}
+
+## Excerpts
+${passages.map((passage, i) => `[${i + 1}]\n${passage}`).join('\n\n')}
+
+## Instructions
+- List the numbers of the excerpts that help answer the question, most relevant first, like: [3] > [1] > [2]
+- Leave out excerpts that are off-topic
+- Answer with the ranking only
+
+## Ranking`,
+
   summarize: (text: string) => `Summarize this conversation excerpt in 1-2 sentences. Focus on the main topics discussed:
 
 ${text}
@@ -0,0 +1,181 @@
+/**
+ * Conversation Manager
+ * Renames, deletes and merges conversations across the vector store, the metadata store
+ * and the attachments extracted from their exports
+ */
+
+import { mkdir, readdir, rename, rm } from 'fs/promises';
+import { basename, join } from 'path';
+import { config } from '../config/index.js';
+import { uniqueFileName } from '../core/parser/archive.js';
+import { getVectorStore } from './factory.js';
+import { getMetadataStore, type SqliteMetadataStore } from './sqlite.js';
+import type { ConversationRecord, StoredChunk, VectorStore } from './types.js';
+
+export interface ConversationSummary extends ConversationRecord {
+  /**
+   * Chunks stored in the vector store
+   */
+  vectorCount: number;
+  /**
+   * Whether queries naming no conversation are restricted to this one
+   */
+  isDefault: boolean;
+}
+
+export class ConversationManager {
+  constructor(
+    private vectorStore: VectorStore,
+    private metadata: SqliteMetadataStore,
+    private attachmentsPath: string = config.attachments.path,
+  ) {}
+
+  async initialize(): Promise<void> {
+    await this.vectorStore.initialize();
+  }
+
+  async list(): Promise<ConversationSummary[]> {
+    const defaultId = this.metadata.getDefaultConversationId();
+    return Promise.all(
+      this.metadata.listConversations().map(async (conversation) => ({
+        ...conversation,
+        vectorCount: await this.vectorStore.countByConversation(conversation.id),
+        isDefault: conversation.id === defaultId,
+      })),
+    );
+  }
+
+  async get(id: string): Promise<ConversationSummary | null> {
+    const conversation = this.metadata.getConversation(id);
+    if (!conversation) return null;
+
+    return {
+      ...conversation,
+      vectorCount: await this.vectorStore.countByConversation(id),
+      isDefault: this.metadata.getDefaultConversationId() === id,
+    };
+  }
+
+  /**
+   * Rename a conversation (returns null if it does not exist)
+   */
+  async rename(id: string, name: string): Promise<ConversationSummary | null> {
+    if (!this.metadata.renameConversation(id, name)) return null;
+
+    await this.vectorStore.renameConversation(id, name);
+    return this.get(id);
+  }
+
+  /**
+   * Delete a conversation with its vectors, messages and attachments
+   * Returns the number of deleted chunks, or null if nothing was stored for it
+   */
+  async delete(id: string): Promise<number | null> {
+    const known = this.metadata.getConversation(id) !== null;
+    const deletedChunks = await this.vectorStore.deleteByConversation(id);
+    if (!known && deletedChunks === 0) return null;
+
+    this.metadata.deleteConversation(id);
+    await rm(this.getAttachmentsDir(id), { recursive: true, force: true });
+    return deletedChunks;
+  }
+
+  /**
+   * Merge a conversation into another one: its chunks keep their embeddings and move,
+   * with their attachments, to the target, and the source conversation is deleted
+   * Returns null if either conversation does not exist
+   */
+  async merge(sourceId: string, targetId: string): Promise<ConversationSummary | null> {
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a conversation into itself');
+    }
+
+    const target = this.metadata.getConversation(targetId);
+    if (!target || !this.metadata.getConversation(sourceId)) return null;
+
+    const sourceDir = this.getAttachmentsDir(sourceId);
+    const targetDir = this.getAttachmentsDir(targetId);
+
+    const chunks = await this.vectorStore.getConversationChunks(sourceId, true);
+    const names = await moveFiles(sourceDir, targetDir);
+    const moved = chunks.map((chunk): StoredChunk => ({
+      ...chunk,
+      conversationName: target.name,
+      metadata: { ...chunk.metadata, conversationId: targetId },
+      messages: chunk.messages.map((message) => {
+        if (!message.attachment?.path) return message;
+        const fileName = names.get(basename(message.attachment.path)) ?? basename(message.attachment.path);
+        return { ...message, attachment: { ...message.attachment, fileName, path: join(targetDir, fileName) } };
+      }),
+    }));
+
+    // Chunk IDs stay the same, so this overwrites the source chunks
+    await this.vectorStore.upsertBatch(moved);
+
+    this.metadata.mergeConversations(sourceId, targetId);
+    this.metadata.upsertChunks(moved);
+
+    return this.get(targetId);
+  }
+
+  getDefault(): string | null {
+    return this.metadata.getDefaultConversationId();
+  }
+
+  /**
+   * Restrict queries naming no conversation to one (null to query all of them)
+   * Returns false if the conversation does not exist
+   */
+  setDefault(id: string | null): boolean {
+    if (id !== null && !this.metadata.getConversation(id)) return false;
+
+    this.metadata.setDefaultConversationId(id);
+    return true;
+  }
+
+  private getAttachmentsDir(id: string): string {
+    // Conversation IDs name directories: anything that could escape them is rejected
+    if (basename(id) !== id) {
+      throw new Error(`Invalid conversation ID "${id}"`);
+    }
+    return join(this.attachmentsPath, id);
+  }
+}
+
+/**
+ * Move the files of a directory into another one, then remove it
+ * Files named like one already there are numbered (IMG.jpg -> IMG-1.jpg) instead of
+ * overwriting it; returns the names they were moved under
+ */
+async function moveFiles(from: string, to: string): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  let files: string[];
+  try {
+    files = await readdir(from);
+  } catch {
+    return names; // Nothing was extracted
+  }
+
+  await mkdir(to, { recursive: true });
+  const taken = new Set((await readdir(to)).map((file) => file.toLowerCase()));
+  for (const file of files) {
+    const name = uniqueFileName(file, taken);
+    await rename(join(from, file), join(to, name));
+    names.set(file, name);
+  }
+  await rm(from, { recursive: true, force: true });
+  return names;
+}
+
+// Singleton
+let managerInstance: ConversationManager | null = null;
+
+export function getConversationManager(): ConversationManager {
+  if (!managerInstance) {
+    managerInstance = new ConversationManager(
+      getVectorStore(),
+      getMetadataStore(),
+    );
+  }
+  return managerInstance;
+}
@@ -0,0 +1,34 @@
+/**
+ * Vector Store Factory
+ * Creates the vector store selected by VECTOR_STORE
+ */
+
+import { config } from '../config/index.js';
+import { getEmbedProvider } from '../providers/index.js';
+import { LocalVectorStore } from './local.js';
+import { QdrantVectorStore } from './qdrant.js';
+import { SqliteVectorStore } from './sqlite-vec.js';
+import type { EmbeddingModel, VectorStore } from './types.js';
+
+export function createVectorStore(embedding: EmbeddingModel): VectorStore {
+  switch (config.vectorStore) {
+    case 'qdrant':
+      return new QdrantVectorStore(embedding);
+    case 'sqlite':
+      return new SqliteVectorStore(embedding);
+    case 'local':
+      return new LocalVectorStore(embedding);
+    default:
+      throw new Error(`Unknown vector store: ${config.vectorStore}`);
+  }
+}
+
+// Singleton: the local store holds the chunks in memory, so every component shares one
+let vectorStoreInstance: VectorStore | null = null;
+
+export function getVectorStore(): VectorStore {
+  if (!vectorStoreInstance) {
+    vectorStoreInstance = createVectorStore(getEmbedProvider());
+  }
+  return vectorStoreInstance;
+}
@@ -1,2 +1,7 @@
 export * from './types.js';
 export * from './qdrant.js';
+export * from './sqlite.js';
+export * from './conversations.js';
+export * from './local.js';
+export * from './sqlite-vec.js';
+export * from './factory.js';
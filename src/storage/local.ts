@@ -0,0 +1,269 @@
+/**
+ * Local Vector Store Implementation
+ * Keeps chunks in process and searches them exhaustively, saving them to a JSON file
+ * after every change: no server to run, for tests, demos and archives of a few
+ * hundred thousand chunks at most
+ */
+
+import { mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { config } from '../config/index.js';
+import type { ParsedMessage } from '../core/parser/types.js';
+import type {
+  EmbeddingModel,
+  StoredChunk,
+  VectorFilter,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorStore,
+} from './types.js';
+
+/**
+ * Chunk as saved: dates as ISO strings, the embedding as base64 float32
+ */
+type ChunkRecord = Omit<StoredChunk, 'embedding' | 'startTime' | 'endTime' | 'messages' | 'boundary'> & {
+  embedding: string;
+  startTime: string;
+  endTime: string;
+  messages: Array<Omit<ParsedMessage, 'timestamp' | 'rawLine'> & { timestamp: string }>;
+};
+
+interface StoreFile {
+  version: 1;
+  embedding: EmbeddingModel;
+  chunks: ChunkRecord[];
+}
+
+export class LocalVectorStore implements VectorStore {
+  private chunks = new Map<string, StoredChunk>();
+  private saving: Promise<void> = Promise.resolve();
+  private loaded = false;
+
+  /**
+   * @param path File the chunks are saved to (':memory:' keeps them in memory only)
+   */
+  constructor(
+    private embedding: EmbeddingModel,
+    private path: string = config.localVectorStore.path,
+  ) {}
+
+  /**
+   * Load the saved chunks, checking they were embedded with the configured model
+   * (once: the store is shared by the components initializing it)
+   */
+  async initialize(): Promise<void> {
+    if (this.loaded || this.path === ':memory:') return;
+
+    let file: StoreFile;
+    try {
+      file = JSON.parse(readFileSync(this.path, 'utf-8')) as StoreFile;
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const stored = file.embedding;
+    const { name, model, dimensions } = this.embedding;
+    if (stored.name !== name || stored.model !== model || stored.dimensions !== dimensions) {
+      throw new Error(
+        `The local vector store ${this.path} holds embeddings of ${stored.name}/${stored.model} ` +
+          `(${stored.dimensions} dimensions), not of the configured embedding model ${name}/${model} ` +
+          `(${dimensions} dimensions). Move it away and ingest the exports again, ` +
+          'or restore the previous EMBED_PROVIDER and embedding model settings.',
+      );
+    }
+
+    this.chunks = new Map(file.chunks.map((record) => [record.id, fromRecord(record)]));
+    this.loaded = true;
+  }
+
+  async upsert(chunk: StoredChunk): Promise<void> {
+    await this.upsertBatch([chunk]);
+  }
+
+  async upsertBatch(chunks: StoredChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    // Stored as read back from the file, like a server would
+    for (const chunk of chunks) {
+      this.chunks.set(chunk.id, fromRecord(toRecord(chunk)));
+    }
+    await this.save();
+  }
+
+  async search(embedding: number[], options: VectorSearchOptions = {}): Promise<VectorSearchResult[]> {
+    const { topK = 5, minScore = 0.7, filter } = options;
+    const results: VectorSearchResult[] = [];
+
+    for (const chunk of this.chunks.values()) {
+      if (!matchesFilter(chunk, filter)) continue;
+      const score = cosineSimilarity(embedding, chunk.embedding);
+      if (score >= minScore) results.push({ chunk, score });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(({ chunk, score }) => ({ chunk: withoutEmbedding(chunk), score }));
+  }
+
+  async deleteByConversation(conversationId: string): Promise<number> {
+    const ids = this.filter({ conversationId }).map((chunk) => chunk.id);
+    await this.deleteByIds(ids);
+    return ids.length;
+  }
+
+  async countByConversation(conversationId: string): Promise<number> {
+    return this.filter({ conversationId }).length;
+  }
+
+  async renameConversation(conversationId: string, name: string): Promise<void> {
+    for (const chunk of this.filter({ conversationId })) {
+      chunk.conversationName = name;
+    }
+    await this.save();
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    for (const id of ids) this.chunks.delete(id);
+    await this.save();
+  }
+
+  async getById(id: string): Promise<StoredChunk | null> {
+    const chunk = this.chunks.get(id);
+    return chunk ? { ...chunk } : null;
+  }
+
+  async findByMessageId(messageId: string): Promise<StoredChunk | null> {
+    for (const chunk of this.chunks.values()) {
+      if (chunk.messages.some((message) => message.id === messageId)) return withoutEmbedding(chunk);
+    }
+    return null;
+  }
+
+  async getConversationChunks(conversationId: string, withEmbeddings: boolean = false): Promise<StoredChunk[]> {
+    return this.scrollAll({ conversationId }, withEmbeddings);
+  }
+
+  async scrollAll(filter?: VectorFilter, withEmbeddings: boolean = false): Promise<StoredChunk[]> {
+    return this.filter(filter).map((chunk) => (withEmbeddings ? { ...chunk } : withoutEmbedding(chunk)));
+  }
+
+  async *scrollPages(
+    filter?: VectorFilter,
+    withEmbeddings: boolean = false,
+    pageSize: number = 100,
+  ): AsyncGenerator<StoredChunk[]> {
+    const chunks = await this.scrollAll(filter, withEmbeddings);
+    for (let i = 0; i < chunks.length; i += pageSize) {
+      yield chunks.slice(i, i + pageSize);
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  private filter(filter?: VectorFilter): StoredChunk[] {
+    return [...this.chunks.values()].filter((chunk) => matchesFilter(chunk, filter));
+  }
+
+  /**
+   * Write the file (to a temporary file first, so that a crash never leaves it half-written)
+   * Saves run one at a time, each writing the latest state
+   */
+  private save(): Promise<void> {
+    if (this.path === ':memory:') return Promise.resolve();
+
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(async () => {
+        const file: StoreFile = {
+          version: 1,
+          embedding: {
+            name: this.embedding.name,
+            model: this.embedding.model,
+            dimensions: this.embedding.dimensions,
+          },
+          chunks: [...this.chunks.values()].map(toRecord),
+        };
+
+        mkdirSync(dirname(this.path), { recursive: true });
+        const temporary = `${this.path}.tmp`;
+        await writeFile(temporary, JSON.stringify(file));
+        await rename(temporary, this.path);
+      });
+    return this.saving;
+  }
+}
+
+function matchesFilter(chunk: StoredChunk, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+
+  if (filter.conversationId && chunk.metadata.conversationId !== filter.conversationId) return false;
+  if (filter.participants && filter.participants.length > 0) {
+    if (!filter.participants.some((participant) => chunk.participants.includes(participant))) return false;
+  }
+  if (filter.dateRange?.start && chunk.startTime < filter.dateRange.start) return false;
+  if (filter.dateRange?.end && chunk.endTime > filter.dateRange.end) return false;
+  return true;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function withoutEmbedding(chunk: StoredChunk): StoredChunk {
+  return { ...chunk, embedding: [] };
+}
+
+function toRecord(chunk: StoredChunk): ChunkRecord {
+  return {
+    id: chunk.id,
+    embedding: Buffer.from(new Float32Array(chunk.embedding).buffer).toString('base64'),
+    participants: chunk.participants,
+    startTime: chunk.startTime.toISOString(),
+    endTime: chunk.endTime.toISOString(),
+    summary: chunk.summary,
+    conversationName: chunk.conversationName,
+    metadata: chunk.metadata,
+    messages: chunk.messages.map((message) => {
+      const record: ChunkRecord['messages'][number] & { rawLine?: string } = {
+        ...message,
+        timestamp: message.timestamp.toISOString(),
+      };
+      delete record.rawLine;
+      return record;
+    }),
+  };
+}
+
+function fromRecord(record: ChunkRecord): StoredChunk {
+  const bytes = Buffer.from(record.embedding, 'base64');
+
+  return {
+    ...record,
+    embedding: Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4)),
+    startTime: new Date(record.startTime),
+    endTime: new Date(record.endTime),
+    metadata: { ...record.metadata },
+    messages: record.messages.map((message) => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+      rawLine: '',
+    })),
+  };
+}
@@ -1,29 +1,172 @@
 /**
  * Qdrant Vector Store Implementation
+ * Each embedding model gets its own collection (named after the provider, model and
+ * dimensions), and the configured collection name is an alias of the active one
  */
 
 import { QdrantClient } from '@qdrant/js-client-rest';
 import { config } from '../config/index.js';
-import type { VectorStore, StoredChunk, VectorSearchResult, VectorSearchOptions } from './types.js';
+import type {
+  MessageAttachment,
+  MessageLocation,
+  MessagePoll,
+  ParsedMessage,
+} from '../core/parser/types.js';
+import type {
+  EmbeddingModel,
+  VectorFilter,
+  VectorStore,
+  StoredChunk,
+  VectorSearchResult,
+  VectorSearchOptions,
+} from './types.js';
+
+export interface VectorCollection {
+  name: string;
+  dimensions: number;
+  /**
+   * Collection created before collections were versioned: it has the alias name
+   * itself, and holds embeddings of an unknown model
+   */
+  legacy: boolean;
+}
+
+export interface QdrantVectorStoreOptions {
+  /**
+   * Use this collection rather than the active one (reindexing into a new collection)
+   */
+  collection?: string;
+}
+
+/**
+ * Name of the collection holding the embeddings of a model
+ */
+export function getCollectionName(embedding: EmbeddingModel): string {
+  const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return `${config.qdrant.collection}_${slug(embedding.name)}_${slug(embedding.model)}_${embedding.dimensions}`;
+}
 
 export class QdrantVectorStore implements VectorStore {
   private client: QdrantClient;
   private collection: string;
+  private alias: string;
   private dimensions: number;
 
-  constructor(dimensions: number = 768) {
+  constructor(
+    private embedding: EmbeddingModel,
+    private options: QdrantVectorStoreOptions = {},
+  ) {
     const url = new URL(config.qdrant.url);
     this.client = new QdrantClient({
       host: url.hostname,
       port: parseInt(url.port) || 6333,
     });
-    this.collection = config.qdrant.collection;
-    this.dimensions = dimensions;
+    this.alias = config.qdrant.collection;
+    this.collection = options.collection ?? getCollectionName(embedding);
+    this.dimensions = embedding.dimensions;
+  }
+
+  /**
+   * Collection read and written by this store
+   */
+  get collectionName(): string {
+    return this.collection;
   }
 
+  /**
+   * Open the active collection, checking it holds embeddings of the configured model
+   * (created on first use)
+   */
   async initialize(): Promise<void> {
-    const collections = await this.client.getCollections();
-    const exists = collections.collections.some((c) => c.name === this.collection);
+    if (this.options.collection) {
+      await this.createCollection();
+      return;
+    }
+
+    const active = await this.getActiveCollection();
+    if (!active) {
+      await this.createCollection();
+      await this.activate();
+      return;
+    }
+
+    // An unversioned collection is kept as long as its vectors have the right size
+    if (active.name === this.collection || (active.legacy && active.dimensions === this.dimensions)) {
+      this.collection = active.name;
+      return;
+    }
+
+    const { name, model } = this.embedding;
+    throw new Error(
+      `The active vector collection "${active.name}" (${active.dimensions} dimensions) was not built ` +
+        `with the configured embedding model ${name}/${model} (${this.dimensions} dimensions). ` +
+        `Run \`rag-whatsapp reindex\` to re-embed the stored chunks with it into "${this.collection}", ` +
+        'or restore the previous EMBED_PROVIDER and embedding model settings.',
+    );
+  }
+
+  /**
+   * Collection the alias points to, if any
+   */
+  async getActiveCollection(): Promise<VectorCollection | null> {
+    const { aliases } = await this.client.getAliases();
+    const alias = aliases.find((a) => a.alias_name === this.alias);
+
+    if (alias) {
+      return {
+        name: alias.collection_name,
+        dimensions: await this.getDimensions(alias.collection_name),
+        legacy: false,
+      };
+    }
+
+    const { exists } = await this.client.collectionExists(this.alias);
+    return exists ? { name: this.alias, dimensions: await this.getDimensions(this.alias), legacy: true } : null;
+  }
+
+  /**
+   * Point the alias to this store's collection, in a single request so that readers
+   * switch from the previous collection at once
+   * A legacy collection holding the alias name is deleted first (names are shared by
+   * collections and aliases)
+   */
+  async activate(): Promise<void> {
+    const active = await this.getActiveCollection();
+    if (active?.legacy) {
+      await this.client.deleteCollection(active.name);
+    }
+
+    await this.client.updateCollectionAliases({
+      actions: [
+        ...(active && !active.legacy ? [{ delete_alias: { alias_name: this.alias } }] : []),
+        { create_alias: { collection_name: this.collection, alias_name: this.alias } },
+      ],
+    });
+  }
+
+  /**
+   * Delete this store's collection
+   */
+  async drop(): Promise<void> {
+    await this.client.deleteCollection(this.collection);
+  }
+
+  /**
+   * Count all chunks
+   */
+  async count(): Promise<number> {
+    const result = await this.client.count(this.collection, { exact: true });
+    return result.count;
+  }
+
+  private async getDimensions(collection: string): Promise<number> {
+    const info = await this.client.getCollection(collection);
+    const vectors = info.config.params.vectors as { size?: number } | undefined;
+    return vectors?.size ?? 0;
+  }
+
+  private async createCollection(): Promise<void> {
+    const { exists } = await this.client.collectionExists(this.collection);
 
     if (!exists) {
       await this.client.createCollection(this.collection, {
@@ -48,6 +191,11 @@ export class QdrantVectorStore implements VectorStore {
         field_name: 'startTime',
         field_schema: 'datetime',
       });
+
+      await this.client.createPayloadIndex(this.collection, {
+        field_name: 'messages[].id',
+        field_schema: 'keyword',
+      });
     }
   }
 
@@ -80,42 +228,11 @@ export class QdrantVectorStore implements VectorStore {
   ): Promise<VectorSearchResult[]> {
     const { topK = 5, minScore = 0.7, filter } = options;
 
-    const must: Array<Record<string, unknown>> = [];
-
-    if (filter?.participants && filter.participants.length > 0) {
-      must.push({
-        key: 'participants',
-        match: { any: filter.participants },
-      });
-    }
-
-    if (filter?.conversationId) {
-      must.push({
-        key: 'conversationId',
-        match: { value: filter.conversationId },
-      });
-    }
-
-    if (filter?.dateRange) {
-      if (filter.dateRange.start) {
-        must.push({
-          key: 'startTime',
-          range: { gte: filter.dateRange.start.toISOString() },
-        });
-      }
-      if (filter.dateRange.end) {
-        must.push({
-          key: 'endTime',
-          range: { lte: filter.dateRange.end.toISOString() },
-        });
-      }
-    }
-
     const results = await this.client.search(this.collection, {
       vector: embedding,
       limit: topK,
       score_threshold: minScore,
-      filter: must.length > 0 ? { must } : undefined,
+      filter: toQdrantFilter(filter),
       with_payload: true,
     });
 
@@ -130,7 +247,9 @@ export class QdrantVectorStore implements VectorStore {
   }
 
   async deleteByConversation(conversationId: string): Promise<number> {
-    const result = await this.client.delete(this.collection, {
+    const count = await this.countByConversation(conversationId);
+
+    await this.client.delete(this.collection, {
       wait: true,
       filter: {
         must: [
@@ -142,7 +261,37 @@ export class QdrantVectorStore implements VectorStore {
       },
     });
 
-    return typeof result === 'object' && 'status' in result ? 1 : 0;
+    return count;
+  }
+
+  async countByConversation(conversationId: string): Promise<number> {
+    const result = await this.client.count(this.collection, {
+      filter: {
+        must: [{ key: 'conversationId', match: { value: conversationId } }],
+      },
+      exact: true,
+    });
+
+    return result.count;
+  }
+
+  async renameConversation(conversationId: string, name: string): Promise<void> {
+    await this.client.setPayload(this.collection, {
+      wait: true,
+      payload: { conversationName: name },
+      filter: {
+        must: [{ key: 'conversationId', match: { value: conversationId } }],
+      },
+    });
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await this.client.delete(this.collection, {
+      wait: true,
+      points: ids,
+    });
   }
 
   async getById(id: string): Promise<StoredChunk | null> {
@@ -175,34 +324,64 @@ export class QdrantVectorStore implements VectorStore {
     }
   }
 
+  async findByMessageId(messageId: string): Promise<StoredChunk | null> {
+    const result = await this.client.scroll(this.collection, {
+      limit: 1,
+      filter: {
+        must: [{ key: 'messages[].id', match: { value: messageId } }],
+      },
+      with_payload: true,
+    });
+
+    const [point] = result.points;
+    return point ? this.pointToChunk({ id: point.id, payload: point.payload || {} }) : null;
+  }
+
+  async getConversationChunks(conversationId: string, withEmbeddings: boolean = false): Promise<StoredChunk[]> {
+    return this.scrollAll({ conversationId }, withEmbeddings);
+  }
+
   /**
-   * Scroll through all chunks (for keyword search fallback)
+   * Scroll through all chunks (for keyword search fallback), optionally filtered
    */
-  async scrollAll(): Promise<StoredChunk[]> {
+  async scrollAll(filter?: VectorFilter, withEmbeddings: boolean = false): Promise<StoredChunk[]> {
     const chunks: StoredChunk[] = [];
+    for await (const page of this.scrollPages(filter, withEmbeddings)) {
+      chunks.push(...page);
+    }
+    return chunks;
+  }
+
+  /**
+   * Scroll through all chunks a page at a time, without holding them all in memory
+   */
+  async *scrollPages(
+    filter?: VectorFilter,
+    withEmbeddings: boolean = false,
+    pageSize: number = 100,
+  ): AsyncGenerator<StoredChunk[]> {
     let offset: string | number | null | undefined = undefined;
 
     while (true) {
       const result = await this.client.scroll(this.collection, {
-        limit: 100,
+        limit: pageSize,
         offset,
+        filter: toQdrantFilter(filter),
         with_payload: true,
+        with_vector: withEmbeddings,
       });
 
-      for (const point of result.points) {
-        chunks.push(this.pointToChunk({
-          id: point.id,
-          payload: point.payload || {},
-        }));
-      }
+      yield result.points.map((point) => this.pointToChunk({
+        id: point.id,
+        payload: point.payload || {},
+        vector: Array.isArray(point.vector) ? point.vector as number[] : undefined,
+      }));
 
       if (!result.next_page_offset) {
         break;
       }
       offset = result.next_page_offset as string | number;
     }
-
-    return chunks;
   }
 
   private chunkToPoint(chunk: StoredChunk) {
@@ -227,6 +406,15 @@ export class QdrantVectorStore implements VectorStore {
           sender: m.sender,
           content: m.content,
           type: m.type,
+          mediaType: m.mediaType,
+          attachment: m.attachment,
+          replyTo: m.replyTo,
+          forwardedFrom: m.forwardedFrom,
+          edited: m.edited,
+          poll: m.poll,
+          location: m.location,
+          contactName: m.contactName,
+          viewOnce: m.viewOnce,
         })),
       },
     };
@@ -250,6 +438,15 @@ export class QdrantVectorStore implements VectorStore {
         sender: m.sender as string,
         content: m.content as string,
         type: m.type as 'text' | 'media' | 'system' | 'deleted',
+        mediaType: m.mediaType as ParsedMessage['mediaType'],
+        attachment: m.attachment as MessageAttachment | undefined,
+        replyTo: m.replyTo as string | undefined,
+        forwardedFrom: m.forwardedFrom as string | undefined,
+        edited: m.edited as boolean | undefined,
+        poll: m.poll as MessagePoll | undefined,
+        location: m.location as MessageLocation | undefined,
+        contactName: m.contactName as string | undefined,
+        viewOnce: m.viewOnce as boolean | undefined,
         rawLine: '',
       })),
       metadata: {
@@ -263,3 +460,41 @@ export class QdrantVectorStore implements VectorStore {
     };
   }
 }
+
+/**
+ * Qdrant filter matching a vector filter (undefined when it matches everything)
+ */
+function toQdrantFilter(filter?: VectorFilter): { must: Array<Record<string, unknown>> } | undefined {
+  const must: Array<Record<string, unknown>> = [];
+
+  if (filter?.participants && filter.participants.length > 0) {
+    must.push({
+      key: 'participants',
+      match: { any: filter.participants },
+    });
+  }
+
+  if (filter?.conversationId) {
+    must.push({
+      key: 'conversationId',
+      match: { value: filter.conversationId },
+    });
+  }
+
+  if (filter?.dateRange) {
+    if (filter.dateRange.start) {
+      must.push({
+        key: 'startTime',
+        range: { gte: filter.dateRange.start.toISOString() },
+      });
+    }
+    if (filter.dateRange.end) {
+      must.push({
+        key: 'endTime',
+        range: { lte: filter.dateRange.end.toISOString() },
+      });
+    }
+  }
+
+  return must.length > 0 ? { must } : undefined;
+}
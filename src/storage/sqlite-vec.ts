@@ -0,0 +1,408 @@
+/**
+ * SQLite Vector Store Implementation
+ * Keeps chunks and their embeddings in the metadata database file (DATABASE_PATH), searched
+ * with the sqlite-vec extension: a single file and no server, for small self-hosted setups
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import * as sqliteVec from 'sqlite-vec';
+import { config } from '../config/index.js';
+import type { ParsedMessage } from '../core/parser/types.js';
+import type {
+  EmbeddingModel,
+  StoredChunk,
+  VectorFilter,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorStore,
+} from './types.js';
+
+/**
+ * Most neighbours sqlite-vec returns from one KNN query
+ */
+const MAX_KNN = 4096;
+
+/**
+ * Chunk payloads, the participants and messages they hold (for filters and lookups) and
+ * the embedding model of the vectors. The vector table itself is created by initialize(),
+ * once the dimensions are known
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS vector_chunks (
+    rowid INTEGER PRIMARY KEY,
+    id TEXT NOT NULL UNIQUE,
+    conversation_id TEXT NOT NULL,
+    conversation_name TEXT,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    participants TEXT NOT NULL,
+    summary TEXT,
+    metadata TEXT NOT NULL,
+    messages TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS vector_chunks_conversation ON vector_chunks(conversation_id, start_time);
+
+  CREATE TABLE IF NOT EXISTS vector_chunk_participants (
+    chunk_rowid INTEGER NOT NULL REFERENCES vector_chunks(rowid) ON DELETE CASCADE,
+    participant TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS vector_chunk_participants_name ON vector_chunk_participants(participant);
+  CREATE INDEX IF NOT EXISTS vector_chunk_participants_chunk ON vector_chunk_participants(chunk_rowid);
+
+  CREATE TABLE IF NOT EXISTS vector_chunk_messages (
+    chunk_rowid INTEGER NOT NULL REFERENCES vector_chunks(rowid) ON DELETE CASCADE,
+    message_id TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS vector_chunk_messages_id ON vector_chunk_messages(message_id);
+  CREATE INDEX IF NOT EXISTS vector_chunk_messages_chunk ON vector_chunk_messages(chunk_rowid);
+
+  CREATE TABLE IF NOT EXISTS vector_model (
+    name TEXT NOT NULL,
+    model TEXT NOT NULL,
+    dimensions INTEGER NOT NULL
+  );
+`;
+
+interface VectorChunkRow {
+  rowid: number;
+  id: string;
+  conversation_id: string;
+  conversation_name: string | null;
+  start_time: number;
+  end_time: number;
+  participants: string;
+  summary: string | null;
+  metadata: string;
+  messages: string;
+  embedding?: Buffer | null;
+}
+
+type MessageRecord = Omit<ParsedMessage, 'timestamp' | 'rawLine'> & { timestamp: string };
+
+export class SqliteVectorStore implements VectorStore {
+  private db: Database.Database;
+  private initialized = false;
+
+  /**
+   * @param path Database file, shared with the metadata store (':memory:' keeps nothing)
+   */
+  constructor(
+    private embedding: EmbeddingModel,
+    path: string = config.database.path,
+  ) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    sqliteVec.load(this.db);
+  }
+
+  /**
+   * Create the tables, checking stored vectors were embedded with the configured model
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    const { name, model, dimensions } = this.embedding;
+    this.db.transaction(() => {
+      this.db.exec(SCHEMA);
+
+      const stored = this.db.prepare('SELECT name, model, dimensions FROM vector_model').get() as
+        | EmbeddingModel
+        | undefined;
+      if (!stored) {
+        this.db.prepare('INSERT INTO vector_model (name, model, dimensions) VALUES (?, ?, ?)').run(name, model, dimensions);
+        this.db.exec(
+          `CREATE VIRTUAL TABLE IF NOT EXISTS vector_embeddings USING vec0(
+            embedding float[${dimensions}] distance_metric=cosine,
+            conversation_id text,
+            start_time integer,
+            end_time integer
+          )`,
+        );
+      } else if (stored.name !== name || stored.model !== model || stored.dimensions !== dimensions) {
+        throw new Error(
+          `The SQLite vector store holds embeddings of ${stored.name}/${stored.model} ` +
+            `(${stored.dimensions} dimensions), not of the configured embedding model ${name}/${model} ` +
+            `(${dimensions} dimensions). Delete the conversations and ingest the exports again, ` +
+            'or restore the previous EMBED_PROVIDER and embedding model settings.',
+        );
+      }
+    })();
+
+    this.initialized = true;
+  }
+
+  async upsert(chunk: StoredChunk): Promise<void> {
+    await this.upsertBatch([chunk]);
+  }
+
+  async upsertBatch(chunks: StoredChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+
+    const upsertChunk = this.db.prepare(
+      `INSERT INTO vector_chunks (id, conversation_id, conversation_name, start_time, end_time,
+         participants, summary, metadata, messages)
+       VALUES (@id, @conversationId, @conversationName, @startTime, @endTime,
+         @participants, @summary, @metadata, @messages)
+       ON CONFLICT(id) DO UPDATE SET
+         conversation_id = excluded.conversation_id,
+         conversation_name = excluded.conversation_name,
+         start_time = excluded.start_time,
+         end_time = excluded.end_time,
+         participants = excluded.participants,
+         summary = excluded.summary,
+         metadata = excluded.metadata,
+         messages = excluded.messages
+       RETURNING rowid`,
+    );
+    const deleteParticipants = this.db.prepare('DELETE FROM vector_chunk_participants WHERE chunk_rowid = ?');
+    const insertParticipant = this.db.prepare(
+      'INSERT INTO vector_chunk_participants (chunk_rowid, participant) VALUES (?, ?)',
+    );
+    const deleteMessages = this.db.prepare('DELETE FROM vector_chunk_messages WHERE chunk_rowid = ?');
+    const insertMessage = this.db.prepare('INSERT INTO vector_chunk_messages (chunk_rowid, message_id) VALUES (?, ?)');
+    const deleteEmbedding = this.db.prepare('DELETE FROM vector_embeddings WHERE rowid = ?');
+    // vec0 only takes integers bound as BigInt
+    const insertEmbedding = this.db.prepare(
+      `INSERT INTO vector_embeddings (rowid, embedding, conversation_id, start_time, end_time)
+       VALUES (?, ?, ?, ?, ?)`,
+    );
+
+    this.db.transaction(() => {
+      for (const chunk of chunks) {
+        const { rowid } = upsertChunk.get({
+          id: chunk.id,
+          conversationId: chunk.metadata.conversationId,
+          conversationName: chunk.conversationName ?? null,
+          startTime: chunk.startTime.getTime(),
+          endTime: chunk.endTime.getTime(),
+          participants: JSON.stringify(chunk.participants),
+          summary: chunk.summary ?? null,
+          metadata: JSON.stringify(chunk.metadata),
+          messages: JSON.stringify(chunk.messages.map(toMessageRecord)),
+        }) as { rowid: number };
+
+        deleteParticipants.run(rowid);
+        for (const participant of new Set(chunk.participants)) insertParticipant.run(rowid, participant);
+        deleteMessages.run(rowid);
+        for (const message of chunk.messages) insertMessage.run(rowid, message.id);
+
+        deleteEmbedding.run(BigInt(rowid));
+        insertEmbedding.run(
+          BigInt(rowid),
+          new Float32Array(chunk.embedding),
+          chunk.metadata.conversationId,
+          BigInt(chunk.startTime.getTime()),
+          BigInt(chunk.endTime.getTime()),
+        );
+      }
+    })();
+  }
+
+  async search(embedding: number[], options: VectorSearchOptions = {}): Promise<VectorSearchResult[]> {
+    const { topK = 5, minScore = 0.7, filter } = options;
+    const conditions = ['embedding MATCH @embedding', 'k = @k'];
+    const params: Record<string, unknown> = {
+      embedding: new Float32Array(embedding),
+      k: Math.min(topK, MAX_KNN),
+    };
+
+    // Filtered during the KNN scan, so that topK matching chunks are returned
+    if (filter?.conversationId) {
+      conditions.push('conversation_id = @conversationId');
+      params.conversationId = filter.conversationId;
+    }
+    if (filter?.dateRange?.start) {
+      conditions.push('start_time >= @start');
+      params.start = BigInt(filter.dateRange.start.getTime());
+    }
+    if (filter?.dateRange?.end) {
+      conditions.push('end_time <= @end');
+      params.end = BigInt(filter.dateRange.end.getTime());
+    }
+    if (filter?.participants && filter.participants.length > 0) {
+      conditions.push(`rowid IN (${PARTICIPANT_ROWIDS})`);
+      params.participants = JSON.stringify(filter.participants);
+    }
+
+    const rows = this.db
+      .prepare(
+        `WITH knn AS (
+           SELECT rowid, distance FROM vector_embeddings WHERE ${conditions.join(' AND ')}
+         )
+         SELECT c.*, knn.distance FROM knn JOIN vector_chunks c ON c.rowid = knn.rowid
+         ORDER BY knn.distance`,
+      )
+      .all(params) as Array<VectorChunkRow & { distance: number }>;
+
+    return rows
+      .map((row) => ({ chunk: toChunk(row), score: 1 - row.distance }))
+      .filter((result) => result.score >= minScore);
+  }
+
+  async deleteByConversation(conversationId: string): Promise<number> {
+    return this.db.transaction(() => {
+      this.db
+        .prepare('DELETE FROM vector_embeddings WHERE rowid IN (SELECT rowid FROM vector_chunks WHERE conversation_id = ?)')
+        .run(conversationId);
+      return this.db.prepare('DELETE FROM vector_chunks WHERE conversation_id = ?').run(conversationId).changes;
+    })();
+  }
+
+  async countByConversation(conversationId: string): Promise<number> {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS count FROM vector_chunks WHERE conversation_id = ?')
+      .get(conversationId) as { count: number };
+    return row.count;
+  }
+
+  async renameConversation(conversationId: string, name: string): Promise<void> {
+    this.db.prepare('UPDATE vector_chunks SET conversation_name = ? WHERE conversation_id = ?').run(name, conversationId);
+  }
+
+  async deleteByIds(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const find = this.db.prepare('SELECT rowid FROM vector_chunks WHERE id = ?');
+    const deleteEmbedding = this.db.prepare('DELETE FROM vector_embeddings WHERE rowid = ?');
+    const deleteChunk = this.db.prepare('DELETE FROM vector_chunks WHERE rowid = ?');
+    this.db.transaction(() => {
+      for (const id of ids) {
+        const row = find.get(id) as { rowid: number } | undefined;
+        if (!row) continue;
+        deleteEmbedding.run(BigInt(row.rowid));
+        deleteChunk.run(row.rowid);
+      }
+    })();
+  }
+
+  async getById(id: string): Promise<StoredChunk | null> {
+    const row = this.db
+      .prepare(
+        `SELECT c.*, e.embedding FROM vector_chunks c
+         LEFT JOIN vector_embeddings e ON e.rowid = c.rowid
+         WHERE c.id = ?`,
+      )
+      .get(id) as VectorChunkRow | undefined;
+    return row ? toChunk(row) : null;
+  }
+
+  async findByMessageId(messageId: string): Promise<StoredChunk | null> {
+    const row = this.db
+      .prepare(
+        `SELECT c.* FROM vector_chunk_messages m JOIN vector_chunks c ON c.rowid = m.chunk_rowid
+         WHERE m.message_id = ? LIMIT 1`,
+      )
+      .get(messageId) as VectorChunkRow | undefined;
+    return row ? toChunk(row) : null;
+  }
+
+  async getConversationChunks(conversationId: string, withEmbeddings: boolean = false): Promise<StoredChunk[]> {
+    return this.scrollAll({ conversationId }, withEmbeddings);
+  }
+
+  async scrollAll(filter?: VectorFilter, withEmbeddings: boolean = false): Promise<StoredChunk[]> {
+    const chunks: StoredChunk[] = [];
+    for await (const page of this.scrollPages(filter, withEmbeddings)) {
+      chunks.push(...page);
+    }
+    return chunks;
+  }
+
+  /**
+   * Scroll through chunks a page at a time, in storage order
+   */
+  async *scrollPages(
+    filter?: VectorFilter,
+    withEmbeddings: boolean = false,
+    pageSize: number = 100,
+  ): AsyncGenerator<StoredChunk[]> {
+    const conditions = ['c.rowid > @after'];
+    const params: Record<string, unknown> = { after: 0, limit: pageSize };
+
+    if (filter?.conversationId) {
+      conditions.push('c.conversation_id = @conversationId');
+      params.conversationId = filter.conversationId;
+    }
+    if (filter?.dateRange?.start) {
+      conditions.push('c.start_time >= @start');
+      params.start = filter.dateRange.start.getTime();
+    }
+    if (filter?.dateRange?.end) {
+      conditions.push('c.end_time <= @end');
+      params.end = filter.dateRange.end.getTime();
+    }
+    if (filter?.participants && filter.participants.length > 0) {
+      conditions.push(`c.rowid IN (${PARTICIPANT_ROWIDS})`);
+      params.participants = JSON.stringify(filter.participants);
+    }
+
+    const page = this.db.prepare(
+      withEmbeddings
+        ? `SELECT c.*, e.embedding FROM vector_chunks c LEFT JOIN vector_embeddings e ON e.rowid = c.rowid
+           WHERE ${conditions.join(' AND ')} ORDER BY c.rowid LIMIT @limit`
+        : `SELECT c.* FROM vector_chunks c WHERE ${conditions.join(' AND ')} ORDER BY c.rowid LIMIT @limit`,
+    );
+
+    while (true) {
+      const rows = page.all(params) as VectorChunkRow[];
+      if (rows.length === 0) break;
+
+      yield rows.map(toChunk);
+      if (rows.length < pageSize) break;
+      params.after = rows[rows.length - 1].rowid;
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      this.db.prepare('SELECT vec_version()').get();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Close the database
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Chunks holding any of the participants given as a JSON array in @participants
+ */
+const PARTICIPANT_ROWIDS = `SELECT chunk_rowid FROM vector_chunk_participants
+  WHERE participant IN (SELECT value FROM json_each(@participants))`;
+
+function toMessageRecord(message: ParsedMessage): MessageRecord {
+  const record: MessageRecord & { rawLine?: string } = { ...message, timestamp: message.timestamp.toISOString() };
+  delete record.rawLine;
+  return record;
+}
+
+function toChunk(row: VectorChunkRow): StoredChunk {
+  const messages = JSON.parse(row.messages) as MessageRecord[];
+  // Copied, as a Float32Array view needs an aligned offset
+  const embedding = row.embedding ? Array.from(new Float32Array(Uint8Array.from(row.embedding).buffer)) : [];
+
+  return {
+    id: row.id,
+    embedding,
+    participants: JSON.parse(row.participants) as string[],
+    startTime: new Date(row.start_time),
+    endTime: new Date(row.end_time),
+    summary: row.summary ?? undefined,
+    conversationName: row.conversation_name ?? undefined,
+    metadata: JSON.parse(row.metadata) as StoredChunk['metadata'],
+    messages: messages.map((message) => ({ ...message, timestamp: new Date(message.timestamp), rawLine: '' })),
+  };
+}
@@ -0,0 +1,976 @@
+/**
+ * SQLite Metadata Store
+ * Conversations, messages (with the chunk they belong to) and ingestion history, so data can be
+ * listed and browsed without scanning the vector store
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { config } from '../config/index.js';
+import { Analyzer } from '../core/analyzer/index.js';
+import type { Chunk } from '../core/chunker/types.js';
+import type {
+  MessageAttachment,
+  MessageLocation,
+  MessagePoll,
+  ParsedMessage,
+} from '../core/parser/types.js';
+import type {
+  ConversationHistory,
+  ConversationMessage,
+  ConversationRecord,
+  IngestJobRecord,
+  KeywordMatch,
+  MessagePage,
+  MessagePageOptions,
+  StoredChunk,
+  VectorFilter,
+} from './types.js';
+
+/**
+ * Schema migrations, applied in order (PRAGMA user_version holds how many ran)
+ */
+const MIGRATIONS = [
+  `
+  CREATE TABLE conversations (
+    id TEXT PRIMARY KEY,
+    name TEXT,
+    format TEXT NOT NULL,
+    participants TEXT NOT NULL DEFAULT '[]',
+    start_time INTEGER,
+    end_time INTEGER,
+    source_file TEXT,
+    source_hash TEXT,
+    ingest_options TEXT NOT NULL DEFAULT '{}',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE chunks (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    participants TEXT NOT NULL,
+    message_count INTEGER NOT NULL,
+    summary TEXT
+  );
+  CREATE INDEX chunks_conversation ON chunks(conversation_id, start_time);
+
+  CREATE TABLE messages (
+    conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    chunk_id TEXT,
+    timestamp INTEGER NOT NULL,
+    sender TEXT NOT NULL,
+    content TEXT NOT NULL,
+    type TEXT NOT NULL,
+    media_type TEXT,
+    reply_to TEXT,
+    forwarded_from TEXT,
+    edited INTEGER,
+    view_once INTEGER,
+    contact_name TEXT,
+    attachment TEXT,
+    poll TEXT,
+    location TEXT,
+    PRIMARY KEY (conversation_id, id)
+  );
+  CREATE INDEX messages_timeline ON messages(conversation_id, timestamp);
+  CREATE INDEX messages_chunk ON messages(chunk_id);
+
+  CREATE TABLE ingest_jobs (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT,
+    file_name TEXT NOT NULL,
+    source_hash TEXT,
+    format TEXT,
+    status TEXT NOT NULL,
+    options TEXT NOT NULL DEFAULT '{}',
+    result TEXT,
+    error TEXT,
+    started_at INTEGER NOT NULL,
+    finished_at INTEGER
+  );
+  CREATE INDEX ingest_jobs_started ON ingest_jobs(started_at);
+  `,
+  `
+  CREATE TABLE settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  `,
+  // Full-text index of chunks (BM25): chunk_text holds the indexed text, kept in the
+  // FTS5 table by triggers, and goes away with its chunk
+  `
+  CREATE TABLE chunk_text (
+    rowid INTEGER PRIMARY KEY,
+    chunk_id TEXT NOT NULL UNIQUE REFERENCES chunks(id) ON DELETE CASCADE,
+    text TEXT NOT NULL
+  );
+
+  CREATE VIRTUAL TABLE chunk_search USING fts5(
+    text,
+    content = 'chunk_text',
+    content_rowid = 'rowid',
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER chunk_text_insert AFTER INSERT ON chunk_text BEGIN
+    INSERT INTO chunk_search (rowid, text) VALUES (new.rowid, new.text);
+  END;
+  CREATE TRIGGER chunk_text_delete AFTER DELETE ON chunk_text BEGIN
+    INSERT INTO chunk_search (chunk_search, rowid, text) VALUES ('delete', old.rowid, old.text);
+  END;
+  CREATE TRIGGER chunk_text_update AFTER UPDATE ON chunk_text BEGIN
+    INSERT INTO chunk_search (chunk_search, rowid, text) VALUES ('delete', old.rowid, old.text);
+    INSERT INTO chunk_search (rowid, text) VALUES (new.rowid, new.text);
+  END;
+
+  INSERT INTO chunk_text (chunk_id, text)
+    SELECT chunk_id, group_concat(sender || ' ' || content, char(10)) FROM messages
+    WHERE chunk_id IS NOT NULL GROUP BY chunk_id;
+  `,
+];
+
+/**
+ * Setting holding the conversation queries are restricted to when they name none
+ */
+const DEFAULT_CONVERSATION = 'defaultConversationId';
+
+/**
+ * Setting holding the signature of the analyzer the keyword index was built with
+ */
+const SEARCH_ANALYZER = 'searchAnalyzer';
+
+interface ConversationRow {
+  id: string;
+  name: string | null;
+  format: string;
+  participants: string;
+  start_time: number | null;
+  end_time: number | null;
+  source_file: string | null;
+  source_hash: string | null;
+  ingest_options: string;
+  created_at: number;
+  updated_at: number;
+  message_count: number;
+  chunk_count: number;
+}
+
+interface ChunkRow {
+  id: string;
+  conversation_id: string;
+  start_time: number;
+  end_time: number;
+  participants: string;
+  message_count: number;
+  summary: string | null;
+  name: string | null;
+}
+
+interface MessageRow {
+  rowid?: number;
+  id: string;
+  chunk_id: string | null;
+  timestamp: number;
+  sender: string;
+  content: string;
+  type: ParsedMessage['type'];
+  media_type: ParsedMessage['mediaType'] | null;
+  reply_to: string | null;
+  forwarded_from: string | null;
+  edited: number | null;
+  view_once: number | null;
+  contact_name: string | null;
+  attachment: string | null;
+  poll: string | null;
+  location: string | null;
+}
+
+/**
+ * Position of a message in its conversation: messages sharing a timestamp keep the
+ * order they were stored in (their order in the export)
+ */
+interface MessagePosition {
+  timestamp: number;
+  rowid: number;
+}
+
+interface IngestJobRow {
+  id: string;
+  conversation_id: string | null;
+  file_name: string;
+  source_hash: string | null;
+  format: string | null;
+  status: IngestJobRecord['status'];
+  options: string;
+  result: string | null;
+  error: string | null;
+  started_at: number;
+  finished_at: number | null;
+}
+
+export class SqliteMetadataStore {
+  private db: Database.Database;
+
+  /**
+   * @param analyzer Turns messages and queries into keyword search terms
+   */
+  constructor(
+    path: string = config.database.path,
+    private analyzer: Analyzer = new Analyzer(config.rag.searchLanguages),
+  ) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    // SQLite's lower() only folds ASCII
+    this.db.function('unicode_lower', { deterministic: true }, (value: unknown) =>
+      typeof value === 'string' ? value.toLowerCase() : value,
+    );
+    this.migrate();
+    this.syncSearchIndex();
+  }
+
+  /**
+   * Create or update a conversation (counts are computed from its messages and chunks)
+   */
+  upsertConversation(
+    conversation: Omit<ConversationRecord, 'messageCount' | 'chunkCount' | 'createdAt' | 'updatedAt'>,
+  ): void {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT INTO conversations (id, name, format, participants, start_time, end_time,
+           source_file, source_hash, ingest_options, created_at, updated_at)
+         VALUES (@id, @name, @format, @participants, @startTime, @endTime,
+           @sourceFile, @sourceHash, @ingestOptions, @now, @now)
+         ON CONFLICT(id) DO UPDATE SET
+           name = COALESCE(excluded.name, conversations.name),
+           format = excluded.format,
+           participants = excluded.participants,
+           start_time = excluded.start_time,
+           end_time = excluded.end_time,
+           source_file = excluded.source_file,
+           source_hash = excluded.source_hash,
+           ingest_options = excluded.ingest_options,
+           updated_at = excluded.updated_at`,
+      )
+      .run({
+        id: conversation.id,
+        name: conversation.name ?? null,
+        format: conversation.format,
+        participants: JSON.stringify(conversation.participants),
+        startTime: conversation.startTime?.getTime() ?? null,
+        endTime: conversation.endTime?.getTime() ?? null,
+        sourceFile: conversation.sourceFile ?? null,
+        sourceHash: conversation.sourceHash ?? null,
+        ingestOptions: JSON.stringify(conversation.ingestOptions),
+        now,
+      });
+  }
+
+  getConversation(id: string): ConversationRecord | null {
+    const row = this.db
+      .prepare(`${SELECT_CONVERSATIONS} WHERE c.id = ?`)
+      .get(id) as ConversationRow | undefined;
+    return row ? toConversation(row) : null;
+  }
+
+  /**
+   * All conversations, most recently active first
+   */
+  listConversations(): ConversationRecord[] {
+    const rows = this.db
+      .prepare(`${SELECT_CONVERSATIONS} ORDER BY c.end_time IS NULL, c.end_time DESC`)
+      .all() as ConversationRow[];
+    return rows.map(toConversation);
+  }
+
+  /**
+   * Senders of all the conversations, without counting their messages and chunks
+   */
+  listParticipants(): string[] {
+    const rows = this.db
+      .prepare('SELECT DISTINCT p.value AS name FROM conversations c, json_each(c.participants) p ORDER BY p.value')
+      .all() as Array<{ name: string }>;
+    return rows.map((row) => row.name);
+  }
+
+  /**
+   * Rename a conversation, returning false if it does not exist
+   */
+  renameConversation(id: string, name: string): boolean {
+    const result = this.db
+      .prepare('UPDATE conversations SET name = ?, updated_at = ? WHERE id = ?')
+      .run(name, Date.now(), id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete a conversation with its chunks and messages
+   */
+  deleteConversation(id: string): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM conversations WHERE id = ?').run(id);
+      this.db.prepare('DELETE FROM settings WHERE key = ? AND value = ?').run(DEFAULT_CONVERSATION, id);
+    })();
+  }
+
+  /**
+   * Move the chunks, messages and ingestion history of a conversation into another one,
+   * then delete it (messages both conversations hold are kept once)
+   */
+  mergeConversations(sourceId: string, targetId: string): void {
+    const source = this.getConversation(sourceId);
+    const target = this.getConversation(targetId);
+    if (!source || !target) {
+      throw new Error(`Conversation ${source ? targetId : sourceId} not found`);
+    }
+
+    const times = [source.startTime, source.endTime, target.startTime, target.endTime]
+      .filter((time): time is Date => time !== null)
+      .map((time) => time.getTime());
+
+    this.db.transaction(() => {
+      this.db.prepare('UPDATE chunks SET conversation_id = ? WHERE conversation_id = ?').run(targetId, sourceId);
+      this.db
+        .prepare('UPDATE OR IGNORE messages SET conversation_id = ? WHERE conversation_id = ?')
+        .run(targetId, sourceId);
+      this.db.prepare('UPDATE ingest_jobs SET conversation_id = ? WHERE conversation_id = ?').run(targetId, sourceId);
+      this.db
+        .prepare(
+          `UPDATE conversations SET participants = ?, start_time = ?, end_time = ?, updated_at = ?
+           WHERE id = ?`,
+        )
+        .run(
+          JSON.stringify([...new Set([...target.participants, ...source.participants])].sort()),
+          times.length > 0 ? Math.min(...times) : null,
+          times.length > 0 ? Math.max(...times) : null,
+          Date.now(),
+          targetId,
+        );
+      this.db
+        .prepare('UPDATE settings SET value = ? WHERE key = ? AND value = ?')
+        .run(targetId, DEFAULT_CONVERSATION, sourceId);
+      this.db.prepare('DELETE FROM conversations WHERE id = ?').run(sourceId);
+    })();
+  }
+
+  /**
+   * Conversation queries are restricted to when they name none
+   */
+  getDefaultConversationId(): string | null {
+    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get(DEFAULT_CONVERSATION) as
+      | { value: string }
+      | undefined;
+    return row?.value ?? null;
+  }
+
+  /**
+   * Set the default conversation of queries (null to query all conversations)
+   */
+  setDefaultConversationId(id: string | null): void {
+    if (id === null) {
+      this.db.prepare('DELETE FROM settings WHERE key = ?').run(DEFAULT_CONVERSATION);
+      return;
+    }
+    this.db
+      .prepare(
+        `INSERT INTO settings (key, value) VALUES (?, ?)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+      )
+      .run(DEFAULT_CONVERSATION, id);
+  }
+
+  /**
+   * Store chunks and their messages (messages already stored move to their new chunk)
+   */
+  upsertChunks(chunks: Array<Chunk & { summary?: string }>): void {
+    const insertChunk = this.db.prepare(
+      `INSERT INTO chunks (id, conversation_id, start_time, end_time, participants, message_count, summary)
+       VALUES (@id, @conversationId, @startTime, @endTime, @participants, @messageCount, @summary)
+       ON CONFLICT(id) DO UPDATE SET
+         start_time = excluded.start_time,
+         end_time = excluded.end_time,
+         participants = excluded.participants,
+         message_count = excluded.message_count,
+         summary = excluded.summary`,
+    );
+    const insertText = this.db.prepare(
+      `INSERT INTO chunk_text (chunk_id, text) VALUES (?, ?)
+       ON CONFLICT(chunk_id) DO UPDATE SET text = excluded.text`,
+    );
+    const insertMessage = this.db.prepare(
+      `INSERT INTO messages (conversation_id, id, chunk_id, timestamp, sender, content, type,
+         media_type, reply_to, forwarded_from, edited, view_once, contact_name, attachment, poll, location)
+       VALUES (@conversationId, @id, @chunkId, @timestamp, @sender, @content, @type,
+         @mediaType, @replyTo, @forwardedFrom, @edited, @viewOnce, @contactName, @attachment, @poll, @location)
+       ON CONFLICT(conversation_id, id) DO UPDATE SET
+         chunk_id = excluded.chunk_id,
+         attachment = excluded.attachment`,
+    );
+
+    this.db.transaction(() => {
+      for (const chunk of chunks) {
+        const { conversationId } = chunk.metadata;
+        insertChunk.run({
+          id: chunk.id,
+          conversationId,
+          startTime: chunk.startTime.getTime(),
+          endTime: chunk.endTime.getTime(),
+          participants: JSON.stringify(chunk.participants),
+          messageCount: chunk.messages.length,
+          summary: chunk.summary ?? null,
+        });
+        insertText.run(chunk.id, this.getSearchText(chunk.messages));
+
+        for (const message of chunk.messages) {
+          insertMessage.run({
+            conversationId,
+            id: message.id,
+            chunkId: chunk.id,
+            timestamp: message.timestamp.getTime(),
+            sender: message.sender,
+            content: message.content,
+            type: message.type,
+            mediaType: message.mediaType ?? null,
+            replyTo: message.replyTo ?? null,
+            forwardedFrom: message.forwardedFrom ?? null,
+            edited: toFlag(message.edited),
+            viewOnce: toFlag(message.viewOnce),
+            contactName: message.contactName ?? null,
+            attachment: toJson(message.attachment),
+            poll: toJson(message.poll),
+            location: toJson(message.location),
+          });
+        }
+      }
+    })();
+  }
+
+  /**
+   * Backfill chunks read from the vector store (data ingested before the metadata store existed)
+   * Conversations missing here are created from their chunks; returns how many were created
+   */
+  importChunks(chunks: StoredChunk[]): number {
+    const byConversation = new Map<string, StoredChunk[]>();
+    for (const chunk of chunks) {
+      const list = byConversation.get(chunk.metadata.conversationId) || [];
+      list.push(chunk);
+      byConversation.set(chunk.metadata.conversationId, list);
+    }
+
+    let created = 0;
+    for (const [id, list] of byConversation) {
+      if (!this.getConversation(id)) {
+        const participants = [...new Set(list.flatMap((chunk) => chunk.participants))].sort();
+        this.upsertConversation({
+          id,
+          name: list.find((chunk) => chunk.conversationName)?.conversationName,
+          format: 'unknown',
+          participants,
+          startTime: new Date(Math.min(...list.map((chunk) => chunk.startTime.getTime()))),
+          endTime: new Date(Math.max(...list.map((chunk) => chunk.endTime.getTime()))),
+          ingestOptions: {},
+        });
+        created++;
+      }
+      this.upsertChunks(list);
+    }
+    return created;
+  }
+
+  /**
+   * Delete chunks (their messages stay, detached, until a new chunk claims them)
+   */
+  deleteChunks(ids: string[]): void {
+    const detach = this.db.prepare('UPDATE messages SET chunk_id = NULL WHERE chunk_id = ?');
+    const remove = this.db.prepare('DELETE FROM chunks WHERE id = ?');
+    this.db.transaction(() => {
+      for (const id of ids) {
+        detach.run(id);
+        remove.run(id);
+      }
+    })();
+  }
+
+  /**
+   * Delete the messages of a conversation no chunk holds anymore
+   */
+  deleteDetachedMessages(conversationId: string): void {
+    this.db.prepare('DELETE FROM messages WHERE conversation_id = ? AND chunk_id IS NULL').run(conversationId);
+  }
+
+  /**
+   * IDs of the chunks of a conversation
+   */
+  listChunkIds(conversationId: string): string[] {
+    const rows = this.db.prepare('SELECT id FROM chunks WHERE conversation_id = ?').all(conversationId) as Array<{
+      id: string;
+    }>;
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * The stored messages of a conversation as identities, and its last chunk in full
+   */
+  getConversationHistory(conversationId: string): ConversationHistory {
+    const messages = this.db
+      .prepare(
+        `SELECT id, timestamp, sender FROM messages
+         WHERE conversation_id = ? AND chunk_id IS NOT NULL ORDER BY timestamp, rowid`,
+      )
+      .all(conversationId) as Array<{ id: string; timestamp: number; sender: string }>;
+    const last = this.db
+      .prepare('SELECT id FROM chunks WHERE conversation_id = ? ORDER BY end_time DESC LIMIT 1')
+      .get(conversationId) as { id: string } | undefined;
+
+    return {
+      chunkIds: this.listChunkIds(conversationId),
+      messages: messages.map((row) => ({ id: row.id, timestamp: new Date(row.timestamp), sender: row.sender })),
+      lastChunk: last ? this.getChunks([last.id])[0] ?? null : null,
+    };
+  }
+
+  /**
+   * Whether any chunk is stored (data ingested before the store existed is not)
+   */
+  hasChunks(): boolean {
+    return this.db.prepare('SELECT 1 FROM chunks LIMIT 1').get() !== undefined;
+  }
+
+  /**
+   * Rebuild chunks from their stored messages, in the order of the given IDs
+   * (chunks come back without embeddings)
+   */
+  getChunks(ids: string[]): StoredChunk[] {
+    if (ids.length === 0) return [];
+
+    const placeholders = ids.map(() => '?').join(', ');
+    const chunkRows = this.db
+      .prepare(
+        `SELECT k.*, c.name FROM chunks k JOIN conversations c ON c.id = k.conversation_id
+         WHERE k.id IN (${placeholders})`,
+      )
+      .all(...ids) as ChunkRow[];
+    const messageRows = this.db
+      .prepare(
+        `SELECT * FROM messages WHERE chunk_id IN (${placeholders})
+         ORDER BY timestamp, rowid`,
+      )
+      .all(...ids) as MessageRow[];
+
+    const messagesByChunk = new Map<string, ParsedMessage[]>();
+    for (const row of messageRows) {
+      const list = messagesByChunk.get(row.chunk_id!) || [];
+      list.push(toMessage(row));
+      messagesByChunk.set(row.chunk_id!, list);
+    }
+
+    const byId = new Map(chunkRows.map((row) => [row.id, row]));
+    return ids
+      .filter((id) => byId.has(id))
+      .map((id) => toChunk(byId.get(id)!, messagesByChunk.get(id) || []));
+  }
+
+  /**
+   * Page through the messages of a conversation, optionally filtered
+   * Throws on an invalid cursor or an around that is neither a message ID nor a timestamp
+   */
+  listMessages(conversationId: string, options: MessagePageOptions = {}): MessagePage {
+    const { limit = 50 } = options;
+
+    const conditions = ['conversation_id = @conversationId'];
+    const params: Record<string, unknown> = { conversationId };
+    if (options.sender) {
+      conditions.push('sender = @sender');
+      params.sender = options.sender;
+    }
+    if (options.type) {
+      conditions.push('type = @type');
+      params.type = options.type;
+    }
+    if (options.search) {
+      conditions.push('instr(unicode_lower(content), @search) > 0');
+      params.search = options.search.toLowerCase();
+    }
+    const where = conditions.join(' AND ');
+
+    const fetch = (position: MessagePosition, direction: 'before' | 'after', count: number, inclusive = false) => {
+      if (count <= 0) return [];
+      const comparison = direction === 'before' ? '<' : inclusive ? '>=' : '>';
+      const order = direction === 'before' ? 'DESC' : 'ASC';
+      const rows = this.db
+        .prepare(
+          `SELECT rowid, * FROM messages
+           WHERE ${where} AND (timestamp ${comparison[0]} @t OR (timestamp = @t AND rowid ${comparison} @r))
+           ORDER BY timestamp ${order}, rowid ${order} LIMIT @count`,
+        )
+        .all({ ...params, t: position.timestamp, r: position.rowid, count }) as MessageRow[];
+      return direction === 'before' ? rows.reverse() : rows;
+    };
+
+    let rows: MessageRow[];
+    let anchorId: string | undefined;
+
+    if (options.before) {
+      rows = fetch(decodeCursor(options.before), 'before', limit);
+    } else if (options.after) {
+      rows = fetch(decodeCursor(options.after), 'after', limit);
+    } else if (options.around !== undefined) {
+      const anchor = this.findPosition(conversationId, options.around);
+      // The anchor and what follows take half the page, or more at the start of the conversation
+      const following = fetch(anchor, 'after', limit - Math.floor(limit / 2), true);
+      rows = [...fetch(anchor, 'before', limit - following.length), ...following];
+      anchorId = following[0]?.id;
+    } else {
+      rows = fetch({ timestamp: Number.MAX_SAFE_INTEGER, rowid: 0 }, 'before', limit);
+    }
+
+    const hasMore = (row: MessageRow, direction: 'before' | 'after') =>
+      fetch(toPosition(row), direction, 1).length > 0;
+
+    return {
+      messages: rows.map(toConversationMessage),
+      prevCursor: rows.length > 0 && hasMore(rows[0], 'before') ? encodeCursor(toPosition(rows[0])) : null,
+      nextCursor:
+        rows.length > 0 && hasMore(rows[rows.length - 1], 'after')
+          ? encodeCursor(toPosition(rows[rows.length - 1]))
+          : null,
+      anchorId,
+    };
+  }
+
+  /**
+   * Rank chunks holding any keyword of the query by BM25, best first, among the chunks
+   * matching the filter (keywords are analyzed like the indexed messages; longer ones
+   * also match the words they start)
+   */
+  searchChunks(query: string, limit: number = 10, filter: VectorFilter = {}): KeywordMatch[] {
+    const keywords = this.analyzer.keywords(query);
+    if (keywords.length === 0) return [];
+
+    const conditions = ['chunk_search MATCH @query'];
+    const params: Record<string, unknown> = {
+      query: keywords.map((keyword) => (keyword.length >= 4 ? `"${keyword}"*` : `"${keyword}"`)).join(' OR '),
+      limit,
+    };
+    if (filter.conversationId) {
+      conditions.push('k.conversation_id = @conversationId');
+      params.conversationId = filter.conversationId;
+    }
+    if (filter.dateRange?.start) {
+      conditions.push('k.start_time >= @start');
+      params.start = filter.dateRange.start.getTime();
+    }
+    if (filter.dateRange?.end) {
+      conditions.push('k.end_time <= @end');
+      params.end = filter.dateRange.end.getTime();
+    }
+    if (filter.participants && filter.participants.length > 0) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM json_each(k.participants) p
+           WHERE p.value IN (SELECT value FROM json_each(@participants)))`,
+      );
+      params.participants = JSON.stringify(filter.participants);
+    }
+
+    // bm25() is lower for better matches
+    return this.db
+      .prepare(
+        `SELECT t.chunk_id AS chunkId, -bm25(chunk_search) AS score
+         FROM chunk_search JOIN chunk_text t ON t.rowid = chunk_search.rowid
+         JOIN chunks k ON k.id = t.chunk_id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY bm25(chunk_search) LIMIT @limit`,
+      )
+      .all(params) as KeywordMatch[];
+  }
+
+  /**
+   * Record the start of an ingestion (a retried job starts over)
+   */
+  recordJobStart(job: Pick<IngestJobRecord, 'id' | 'fileName' | 'options'>): void {
+    this.db
+      .prepare(
+        `INSERT INTO ingest_jobs (id, file_name, status, options, started_at)
+         VALUES (@id, @fileName, 'running', @options, @startedAt)
+         ON CONFLICT(id) DO UPDATE SET
+           status = 'running', error = NULL, result = NULL, finished_at = NULL,
+           started_at = excluded.started_at`,
+      )
+      .run({
+        id: job.id,
+        fileName: job.fileName,
+        options: JSON.stringify(job.options),
+        startedAt: Date.now(),
+      });
+  }
+
+  /**
+   * Record what an ingestion got to: its conversation once known, then its outcome
+   */
+  updateJob(
+    id: string,
+    update: Partial<Pick<IngestJobRecord, 'conversationId' | 'sourceHash' | 'format' | 'status' | 'result' | 'error'>>,
+  ): void {
+    const finished = update.status && update.status !== 'running';
+    this.db
+      .prepare(
+        `UPDATE ingest_jobs SET
+           conversation_id = COALESCE(@conversationId, conversation_id),
+           source_hash = COALESCE(@sourceHash, source_hash),
+           format = COALESCE(@format, format),
+           status = COALESCE(@status, status),
+           result = COALESCE(@result, result),
+           error = COALESCE(@error, error),
+           finished_at = COALESCE(@finishedAt, finished_at)
+         WHERE id = @id`,
+      )
+      .run({
+        id,
+        conversationId: update.conversationId ?? null,
+        sourceHash: update.sourceHash ?? null,
+        format: update.format ?? null,
+        status: update.status ?? null,
+        result: toJson(update.result),
+        error: update.error ?? null,
+        finishedAt: finished ? Date.now() : null,
+      });
+  }
+
+  /**
+   * Ingestion history, newest first
+   */
+  listJobs(options: { conversationId?: string; limit?: number } = {}): IngestJobRecord[] {
+    const { conversationId, limit = 50 } = options;
+    const rows = (
+      conversationId
+        ? this.db
+            .prepare('SELECT * FROM ingest_jobs WHERE conversation_id = ? ORDER BY started_at DESC LIMIT ?')
+            .all(conversationId, limit)
+        : this.db.prepare('SELECT * FROM ingest_jobs ORDER BY started_at DESC LIMIT ?').all(limit)
+    ) as IngestJobRow[];
+    return rows.map(toJob);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Position of a message given its ID, or of the first message at or after a timestamp
+   */
+  private findPosition(conversationId: string, around: string | Date): MessagePosition {
+    if (typeof around === 'string') {
+      const row = this.db
+        .prepare('SELECT rowid, timestamp FROM messages WHERE conversation_id = ? AND id = ?')
+        .get(conversationId, around) as MessagePosition | undefined;
+      if (row) return row;
+    }
+
+    const time = around instanceof Date ? around : parseTimestamp(around);
+    if (!time) {
+      throw new Error(`"${around}" is neither a message ID nor a timestamp`);
+    }
+    return { timestamp: time.getTime(), rowid: 0 };
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  /**
+   * Re-index the text of every chunk if the analyzer changed (languages or rules) since
+   * the keyword index was built
+   */
+  private syncSearchIndex(): void {
+    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get(SEARCH_ANALYZER) as
+      | { value: string }
+      | undefined;
+    if (row?.value === this.analyzer.signature) return;
+
+    const chunkIds = this.db.prepare('SELECT id FROM chunks').pluck().all() as string[];
+    const selectMessages = this.db.prepare(
+      'SELECT sender, content FROM messages WHERE chunk_id = ? ORDER BY timestamp, rowid',
+    );
+    const updateText = this.db.prepare(
+      `INSERT INTO chunk_text (chunk_id, text) VALUES (?, ?)
+       ON CONFLICT(chunk_id) DO UPDATE SET text = excluded.text`,
+    );
+
+    this.db.transaction(() => {
+      for (const id of chunkIds) {
+        const messages = selectMessages.all(id) as Array<Pick<ParsedMessage, 'sender' | 'content'>>;
+        updateText.run(id, this.getSearchText(messages));
+      }
+      this.db
+        .prepare(
+          `INSERT INTO settings (key, value) VALUES (?, ?)
+           ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+        )
+        .run(SEARCH_ANALYZER, this.analyzer.signature);
+    })();
+  }
+
+  /**
+   * Text of a chunk indexed for keyword search: the terms of who said what
+   */
+  private getSearchText(messages: Array<Pick<ParsedMessage, 'sender' | 'content'>>): string {
+    return messages.map((message) => this.analyzer.terms(`${message.sender} ${message.content}`).join(' ')).join('\n');
+  }
+}
+
+const SELECT_CONVERSATIONS = `
+  SELECT c.*,
+    (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count,
+    (SELECT COUNT(*) FROM chunks k WHERE k.conversation_id = c.id) AS chunk_count
+  FROM conversations c`;
+
+function toConversation(row: ConversationRow): ConversationRecord {
+  return {
+    id: row.id,
+    name: row.name ?? undefined,
+    format: row.format,
+    participants: JSON.parse(row.participants),
+    startTime: row.start_time !== null ? new Date(row.start_time) : null,
+    endTime: row.end_time !== null ? new Date(row.end_time) : null,
+    messageCount: row.message_count,
+    chunkCount: row.chunk_count,
+    sourceFile: row.source_file ?? undefined,
+    sourceHash: row.source_hash ?? undefined,
+    ingestOptions: JSON.parse(row.ingest_options),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function toConversationMessage(row: MessageRow): ConversationMessage {
+  return { ...toMessageFields(row), chunkId: row.chunk_id ?? undefined, cursor: encodeCursor(toPosition(row)) };
+}
+
+function toPosition(row: MessageRow): MessagePosition {
+  return { timestamp: row.timestamp, rowid: row.rowid! };
+}
+
+function encodeCursor(position: MessagePosition): string {
+  return Buffer.from(`${position.timestamp}:${position.rowid}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): MessagePosition {
+  const match = /^(-?\d+):(\d+)$/.exec(Buffer.from(cursor, 'base64url').toString());
+  if (!match) {
+    throw new Error('Invalid cursor');
+  }
+  return { timestamp: parseInt(match[1], 10), rowid: parseInt(match[2], 10) };
+}
+
+/**
+ * ISO date or epoch milliseconds
+ */
+function parseTimestamp(value: string): Date | null {
+  const time = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+  return isNaN(time.getTime()) ? null : time;
+}
+
+function toMessage(row: MessageRow): ParsedMessage {
+  return { ...toMessageFields(row), rawLine: '' };
+}
+
+function toMessageFields(row: MessageRow): Omit<ParsedMessage, 'rawLine'> {
+  return {
+    id: row.id,
+    timestamp: new Date(row.timestamp),
+    sender: row.sender,
+    content: row.content,
+    type: row.type,
+    mediaType: row.media_type ?? undefined,
+    attachment: fromJson<MessageAttachment>(row.attachment),
+    replyTo: row.reply_to ?? undefined,
+    forwardedFrom: row.forwarded_from ?? undefined,
+    edited: row.edited ? true : undefined,
+    poll: fromJson<MessagePoll>(row.poll),
+    location: fromJson<MessageLocation>(row.location),
+    contactName: row.contact_name ?? undefined,
+    viewOnce: row.view_once ? true : undefined,
+  };
+}
+
+function toChunk(row: ChunkRow, messages: ParsedMessage[]): StoredChunk {
+  const counts = new Map<string, number>();
+  for (const message of messages) {
+    counts.set(message.sender, (counts.get(message.sender) || 0) + 1);
+  }
+  const dominantParticipant = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const mediaCount = messages.filter((m) => m.type === 'media').length;
+
+  return {
+    id: row.id,
+    embedding: [],
+    messages,
+    participants: JSON.parse(row.participants),
+    startTime: new Date(row.start_time),
+    endTime: new Date(row.end_time),
+    summary: row.summary ?? undefined,
+    conversationName: row.name ?? undefined,
+    metadata: {
+      conversationId: row.conversation_id,
+      messageCount: row.message_count,
+      timeSpanMinutes: Math.round((row.end_time - row.start_time) / 60000),
+      dominantParticipant,
+      hasMedia: mediaCount > 0,
+      mediaCount,
+    },
+  };
+}
+
+function toJob(row: IngestJobRow): IngestJobRecord {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id ?? undefined,
+    fileName: row.file_name,
+    sourceHash: row.source_hash ?? undefined,
+    format: row.format ?? undefined,
+    status: row.status,
+    options: JSON.parse(row.options),
+    result: fromJson<Record<string, unknown>>(row.result),
+    error: row.error ?? undefined,
+    startedAt: new Date(row.started_at),
+    finishedAt: row.finished_at !== null ? new Date(row.finished_at) : undefined,
+  };
+}
+
+function toFlag(value: boolean | undefined): number | null {
+  return value ? 1 : null;
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+function fromJson<T>(value: string | null): T | undefined {
+  return value === null ? undefined : (JSON.parse(value) as T);
+}
+
+// Singleton instance
+let storeInstance: SqliteMetadataStore | null = null;
+
+export function getMetadataStore(): SqliteMetadataStore {
+  if (!storeInstance) {
+    storeInstance = new SqliteMetadataStore();
+  }
+  return storeInstance;
+}
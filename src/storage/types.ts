@@ -3,28 +3,44 @@
  */
 
 import type { Chunk } from '../core/chunker/types.js';
+import type { MessageType, ParsedMessage } from '../core/parser/types.js';
 
 export interface StoredChunk extends Chunk {
   embedding: number[];
   conversationName?: string;
 }
 
+/**
+ * Embedding model whose vectors a store holds
+ */
+export interface EmbeddingModel {
+  name: string;
+  model: string;
+  dimensions: number;
+}
+
 export interface VectorSearchResult {
   chunk: StoredChunk;
   score: number;
 }
 
+/**
+ * Chunks to search or list: any of the participants, starting at or after start and
+ * ending at or before end, in the conversation
+ */
+export interface VectorFilter {
+  participants?: string[];
+  dateRange?: {
+    start?: Date;
+    end?: Date;
+  };
+  conversationId?: string;
+}
+
 export interface VectorSearchOptions {
   topK?: number;
   minScore?: number;
-  filter?: {
-    participants?: string[];
-    dateRange?: {
-      start?: Date;
-      end?: Date;
-    };
-    conversationId?: string;
-  };
+  filter?: VectorFilter;
 }
 
 export interface VectorStore {
@@ -49,17 +65,166 @@ export interface VectorStore {
   search(embedding: number[], options?: VectorSearchOptions): Promise<VectorSearchResult[]>;
 
   /**
-   * Delete chunks by conversation ID
+   * Delete chunks by conversation ID, returning how many were deleted
    */
   deleteByConversation(conversationId: string): Promise<number>;
 
+  /**
+   * Count the chunks of a conversation
+   */
+  countByConversation(conversationId: string): Promise<number>;
+
+  /**
+   * Set the conversation name stored with every chunk of a conversation
+   */
+  renameConversation(conversationId: string, name: string): Promise<void>;
+
+  /**
+   * Delete chunks by ID
+   */
+  deleteByIds(ids: string[]): Promise<void>;
+
   /**
    * Get chunk by ID
    */
   getById(id: string): Promise<StoredChunk | null>;
 
+  /**
+   * Find a chunk holding the given message (without its embedding)
+   */
+  findByMessageId(messageId: string): Promise<StoredChunk | null>;
+
+  /**
+   * Get all chunks of a conversation (without their embeddings unless asked for)
+   */
+  getConversationChunks(conversationId: string, withEmbeddings?: boolean): Promise<StoredChunk[]>;
+
+  /**
+   * Get all chunks, optionally filtered (without their embeddings unless asked for)
+   */
+  scrollAll(filter?: VectorFilter, withEmbeddings?: boolean): Promise<StoredChunk[]>;
+
+  /**
+   * Scroll through chunks a page at a time, without holding them all in memory
+   */
+  scrollPages(filter?: VectorFilter, withEmbeddings?: boolean, pageSize?: number): AsyncGenerator<StoredChunk[]>;
+
   /**
    * Check if store is available
    */
   isAvailable(): Promise<boolean>;
 }
+
+export interface ConversationRecord {
+  id: string;
+  name?: string;
+  /**
+   * Chat export format ('whatsapp', 'telegram', ...)
+   */
+  format: string;
+  participants: string[];
+  startTime: Date | null;
+  endTime: Date | null;
+  messageCount: number;
+  chunkCount: number;
+  /**
+   * File name of the last export ingested into the conversation, and its SHA-256
+   */
+  sourceFile?: string;
+  sourceHash?: string;
+  ingestOptions: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * What a new export of a conversation is compared with, without loading its chunks
+ */
+export interface ConversationHistory {
+  chunkIds: string[];
+  /**
+   * Identity and position of every chunked message
+   */
+  messages: Array<Pick<ParsedMessage, 'id' | 'timestamp' | 'sender'>>;
+  /**
+   * Chunk ending last: the only one new messages can extend
+   */
+  lastChunk: StoredChunk | null;
+}
+
+export interface IngestJobRecord {
+  id: string;
+  conversationId?: string;
+  fileName: string;
+  sourceHash?: string;
+  format?: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  options: Record<string, unknown>;
+  /**
+   * Counts reported by the ingestion (messages, chunks, new/skipped/changed)
+   */
+  result?: Record<string, unknown>;
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * Message of a conversation as browsed, with the chunk it was embedded in
+ */
+export interface ConversationMessage extends Omit<ParsedMessage, 'rawLine'> {
+  chunkId?: string;
+  /**
+   * Position of the message, to page from it
+   */
+  cursor: string;
+}
+
+export interface MessagePageOptions {
+  /**
+   * Messages per page (default 50)
+   */
+  limit?: number;
+  /**
+   * Page of messages right before this cursor
+   */
+  before?: string;
+  /**
+   * Page of messages right after this cursor
+   */
+  after?: string;
+  /**
+   * Page centered on a message ID, or on the first message at or after a timestamp
+   */
+  around?: string | Date;
+  sender?: string;
+  type?: MessageType;
+  /**
+   * Case-insensitive substring of the message content
+   */
+  search?: string;
+}
+
+/**
+ * Page of messages in chronological order (without before, after or around: the latest ones)
+ */
+export interface MessagePage {
+  messages: ConversationMessage[];
+  /**
+   * Cursors of the adjacent pages (null when there are no more messages that way)
+   */
+  prevCursor: string | null;
+  nextCursor: string | null;
+  /**
+   * Message the page was centered on (around only)
+   */
+  anchorId?: string;
+}
+
+export interface KeywordMatch {
+  chunkId: string;
+  /**
+   * BM25 score of the chunk for the keywords (higher is better)
+   */
+  score: number;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Analyzer,
+  foldAccents,
+  stemEnglish,
+  stemFrench,
+  stemGerman,
+  stemPortuguese,
+  stemSpanish,
+  stripEmoji,
+} from '../src/core/analyzer/index.js';
+import { config } from '../src/config/index.js';
+
+describe('Analyzer', () => {
+  const english = new Analyzer(['en']);
+  const french = new Analyzer(['fr', 'en']);
+
+  it('should fold accents and ligatures', () => {
+    expect(foldAccents('Agnès Straße Œuvre ÇA')).toBe('agnes strasse oeuvre ca');
+  });
+
+  it('should strip emoji with their modifiers', () => {
+    expect(stripEmoji('pizza🍕night').trim()).toBe('pizza night');
+    expect(english.terms('great 👍🏽 game 🇫🇷 ❤️')).toEqual(['great', 'game']);
+  });
+
+  it('should drop stopwords and stem words', () => {
+    expect(english.terms('The plumbers fixed the boxes')).toEqual(['plumber', 'fixed', 'box']);
+    expect(english.terms("John's cars")).toEqual(['john', 'car']);
+    expect(english.terms('Flight AF1234 at 10:30')).toEqual(['flight', 'af1234', '10', '30']);
+  });
+
+  it('should drop French elisions', () => {
+    expect(french.terms("l'antibiotique des enfants")).toEqual(['antibiotiqu', 'antibiotique', 'enfant']);
+    expect(french.terms("qu’il prenne d’abord l'antibiotique")).toEqual([
+      'prenn',
+      'prenne',
+      'abord',
+      'antibiotiqu',
+      'antibiotique',
+    ]);
+    expect(french.terms("aujourd'hui")).toEqual([]);
+  });
+
+  it('should stem with each of the default languages', () => {
+    const analyzer = new Analyzer(config.rag.searchLanguages);
+
+    expect(analyzer.terms('Les chevaux sont heureux')).toEqual(['chevaux', 'cheval', 'heureux', 'heureu']);
+    expect(analyzer.keywords('cheval heureuse')).toEqual(['cheval', 'heureuse', 'heureus']);
+    expect(analyzer.terms('The plumbers fixed the boxes')).toEqual(['plumber', 'plumb', 'fixed', 'box']);
+  });
+
+  it('should list distinct query keywords', () => {
+    expect(english.keywords('Plumbers and the plumber')).toEqual(['plumber']);
+    expect(english.keywords('what is it?')).toEqual([]);
+  });
+
+  it('should identify its languages and rules', () => {
+    expect(new Analyzer(['en', 'fr', 'en']).signature).toBe('v2:en,fr');
+    expect(new Analyzer(['fr', 'en']).signature).not.toBe(new Analyzer(['en', 'fr']).signature);
+    expect(() => new Analyzer([])).toThrow('at least one language');
+  });
+});
+
+describe('Light Stemmers', () => {
+  it('should stem English plurals', () => {
+    expect(['parties', 'boxes', 'matches', 'days', 'cars', 'bus', 'glass'].map(stemEnglish)).toEqual([
+      'party',
+      'box',
+      'match',
+      'day',
+      'car',
+      'bus',
+      'glass',
+    ]);
+  });
+
+  it('should conflate French plurals and genders', () => {
+    expect(stemFrench('chevaux')).toBe(stemFrench('cheval'));
+    expect(stemFrench('antibiotiques')).toBe(stemFrench('antibiotique'));
+    expect(stemFrench('aimee')).toBe('aim');
+    expect(stemFrench('aimer')).toBe('aim');
+  });
+
+  it('should conflate German plurals', () => {
+    expect(stemGerman('hauser')).toBe(stemGerman('haus'));
+    expect(stemGerman('kindern')).toBe(stemGerman('kind'));
+  });
+
+  it('should conflate Spanish plurals and genders', () => {
+    expect(stemSpanish('luces')).toBe('luz');
+    expect(stemSpanish('casas')).toBe(stemSpanish('casa'));
+    expect(stemSpanish('mujeres')).toBe(stemSpanish('mujer'));
+  });
+
+  it('should conflate Portuguese plurals', () => {
+    expect(stemPortuguese('coracoes')).toBe(stemPortuguese('coracao'));
+    expect(stemPortuguese('animais')).toBe(stemPortuguese('animal'));
+    expect(stemPortuguese('homens')).toBe(stemPortuguese('homem'));
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createWriteStream } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import yazl from 'yazl';
+import { isZipFile, readWhatsAppArchive } from '../src/core/parser/archive.js';
+import { parseWhatsAppFile } from '../src/core/parser/whatsapp.js';
+import { streamWhatsAppFile } from '../src/core/parser/stream.js';
+
+async function createZip(path: string, files: Record<string, string | Buffer>): Promise<void> {
+  const zip = new yazl.ZipFile();
+  for (const [name, content] of Object.entries(files)) {
+    zip.addBuffer(Buffer.isBuffer(content) ? content : Buffer.from(content), name);
+  }
+  zip.end();
+
+  await new Promise<void>((resolve, reject) => {
+    zip.outputStream.pipe(createWriteStream(path)).on('close', resolve).on('error', reject);
+  });
+}
+
+describe('WhatsApp Archive', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rag-archive-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should detect ZIP files by signature', async () => {
+    const zipPath = join(dir, 'detect.zip');
+    const txtPath = join(dir, 'detect.txt');
+    await createZip(zipPath, { '_chat.txt': 'hello' });
+    await writeFile(txtPath, '1/15/23, 10:30 AM - John: Hello');
+
+    expect(await isZipFile(zipPath)).toBe(true);
+    expect(await isZipFile(txtPath)).toBe(false);
+  });
+
+  it('should find the Android chat transcript and list attachments', async () => {
+    const zipPath = join(dir, 'android.zip');
+    await createZip(zipPath, {
+      'WhatsApp Chat with Family.txt': '1/15/23, 10:30 AM - John: Hello',
+      'IMG-20230115-WA0001.jpg': Buffer.alloc(2048),
+      'PTT-20230115-WA0002.opus': Buffer.alloc(512),
+    });
+
+    const archive = await readWhatsAppArchive(zipPath);
+
+    expect(archive.chatFileName).toBe('WhatsApp Chat with Family.txt');
+    expect(archive.content).toContain('John: Hello');
+    expect(archive.attachments).toHaveLength(2);
+    expect(archive.attachments[0]).toEqual({
+      fileName: 'IMG-20230115-WA0001.jpg',
+      size: 2048,
+      mimeType: 'image/jpeg',
+    });
+    expect(archive.attachments[1].mimeType).toBe('audio/ogg');
+  });
+
+  it('should link media messages to their attachments', async () => {
+    const zipPath = join(dir, 'linked.zip');
+    await createZip(zipPath, {
+      '_chat.txt': `1/15/23, 10:30 AM - John: IMG-20230115-WA0001.jpg (file attached)
+Look at this!
+1/15/23, 10:31 AM - Jane: Nice photo
+1/15/23, 10:32 AM - Jane: report.pdf (file attached)`,
+      'IMG-20230115-WA0001.jpg': Buffer.alloc(100),
+      'report.pdf': Buffer.alloc(300),
+    });
+
+    const result = await parseWhatsAppFile(zipPath);
+
+    expect(result.messages).toHaveLength(3);
+    expect(result.attachments).toHaveLength(2);
+
+    expect(result.messages[0].type).toBe('media');
+    expect(result.messages[0].mediaType).toBe('image');
+    expect(result.messages[0].attachment).toMatchObject({
+      fileName: 'IMG-20230115-WA0001.jpg',
+      size: 100,
+      mimeType: 'image/jpeg',
+    });
+
+    expect(result.messages[1].attachment).toBeUndefined();
+    expect(result.messages[2].mediaType).toBe('document');
+    expect(result.messages[2].attachment?.mimeType).toBe('application/pdf');
+  });
+
+  it('should extract attachments when a directory is given', async () => {
+    const zipPath = join(dir, 'extract.zip');
+    const extractDir = join(dir, 'attachments');
+    await createZip(zipPath, {
+      '_chat.txt': '1/15/23, 10:30 AM - John: IMG-1.jpg (file attached)',
+      'media/IMG-1.jpg': Buffer.from('image-bytes'),
+    });
+
+    const result = await parseWhatsAppFile(zipPath, { attachmentsDir: extractDir });
+    const attachment = result.messages[0].attachment;
+
+    expect(attachment?.path).toBe(join(extractDir, 'IMG-1.jpg'));
+    expect(await readFile(attachment!.path!, 'utf-8')).toBe('image-bytes');
+  });
+
+  it('should number attachments sharing a name instead of overwriting them', async () => {
+    const zipPath = join(dir, 'collision.zip');
+    const extractDir = join(dir, 'collision');
+    await createZip(zipPath, {
+      '_chat.txt': '1/15/23, 10:30 AM - John: photo.jpg (file attached)',
+      'a/photo.jpg': Buffer.from('first'),
+      'b/photo.jpg': Buffer.from('second'),
+      'c/PHOTO.jpg': Buffer.from('third'),
+    });
+
+    const result = await parseWhatsAppFile(zipPath, { attachmentsDir: extractDir });
+
+    expect(result.attachments?.map((a) => a.fileName)).toEqual(['photo.jpg', 'photo-1.jpg', 'PHOTO-2.jpg']);
+    expect(result.attachments?.map((a) => a.path)).toEqual([
+      join(extractDir, 'photo.jpg'),
+      join(extractDir, 'photo-1.jpg'),
+      join(extractDir, 'PHOTO-2.jpg'),
+    ]);
+    expect(await readFile(join(extractDir, 'photo.jpg'), 'utf-8')).toBe('first');
+    expect(await readFile(join(extractDir, 'photo-1.jpg'), 'utf-8')).toBe('second');
+    expect(await readFile(join(extractDir, 'PHOTO-2.jpg'), 'utf-8')).toBe('third');
+    expect(result.messages[0].attachment?.path).toBe(join(extractDir, 'photo.jpg'));
+  });
+
+  it('should stream messages from an archive', async () => {
+    const zipPath = join(dir, 'stream.zip');
+    await createZip(zipPath, {
+      '_chat.txt': `15/01/2023, 10:30 - John: IMG-1.jpg (file attached)
+15/01/2023, 10:31 - Jane: Nice`,
+      'IMG-1.jpg': Buffer.alloc(10),
+    });
+
+    const stream = await streamWhatsAppFile(zipPath);
+    const messages = [];
+    for await (const message of stream.messages) messages.push(message);
+
+    expect(stream.dateOrder.order).toBe('DMY');
+    expect(stream.attachments).toHaveLength(1);
+    expect(messages).toHaveLength(2);
+    expect(messages[0].attachment?.fileName).toBe('IMG-1.jpg');
+  });
+
+  it('should fail when the archive has no transcript', async () => {
+    const zipPath = join(dir, 'empty.zip');
+    await createZip(zipPath, { 'IMG-1.jpg': Buffer.alloc(10) });
+
+    await expect(readWhatsAppArchive(zipPath)).rejects.toThrow('No chat transcript');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { request } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { config } from '../src/config/index.js';
+import { registerAttachmentRoutes } from '../src/api/routes/attachments.js';
+
+/**
+ * GET a path as written: inject() and fetch() would resolve dot segments before sending
+ */
+function get(app: FastifyInstance, path: string): Promise<{ statusCode: number; body: string }> {
+  const { port } = app.server.address() as AddressInfo;
+  return new Promise((resolve, reject) => {
+    request({ host: '127.0.0.1', port, path }, (response) => {
+      let body = '';
+      response.setEncoding('utf-8');
+      response.on('data', (chunk: string) => (body += chunk));
+      response.on('end', () => resolve({ statusCode: response.statusCode ?? 0, body }));
+    })
+      .on('error', reject)
+      .end();
+  });
+}
+
+describe('Attachment Routes', () => {
+  let dir: string;
+  let app: FastifyInstance;
+  const attachmentsPath = config.attachments.path;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rag-attachments-route-'));
+    await mkdir(join(dir, 'attachments', 'conv-1'), { recursive: true });
+    await writeFile(join(dir, 'attachments', 'conv-1', 'photo.jpg'), 'jpeg');
+    await writeFile(join(dir, 'metadata.db'), 'secret');
+    config.attachments.path = join(dir, 'attachments');
+
+    app = Fastify();
+    await registerAttachmentRoutes(app);
+    await app.listen({ host: '127.0.0.1', port: 0 });
+  });
+
+  afterAll(async () => {
+    config.attachments.path = attachmentsPath;
+    await app.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should serve an attachment', async () => {
+    const response = await app.inject({ url: '/api/attachments/conv-1/photo.jpg' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('image/jpeg');
+    expect(response.body).toBe('jpeg');
+  });
+
+  it('should reject paths leaving the attachments directory', async () => {
+    for (const path of [
+      '/api/attachments/%2E%2E/metadata.db',
+      '/api/attachments/%2e%2e/metadata.db',
+      '/api/attachments/conv-1/%2E%2E',
+      '/api/attachments/./photo.jpg',
+      '/api/attachments/conv-1/..%2Fphoto.jpg',
+    ]) {
+      const response = await get(app, path);
+      expect(response.statusCode, path).toBe(400);
+      expect(response.body, path).not.toContain('secret');
+    }
+  });
+
+  it('should answer 404 for missing attachments', async () => {
+    const response = await app.inject({ url: '/api/attachments/conv-1/missing.jpg' });
+    expect(response.statusCode).toBe(404);
+  });
+});
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { chunkMessages, getChunkText, getChunkHeader } from '../src/core/chunker/temporal.js';
+import {
+  chunkMessages,
+  chunkMessageStream,
+  getChunkText,
+  getChunkHeader,
+  formatMessageContent,
+  StreamingChunker,
+} from '../src/core/chunker/temporal.js';
 import type { ParsedMessage } from '../src/core/parser/types.js';
 
 function createMessage(
@@ -203,6 +210,46 @@ describe('Temporal Chunker', () => {
     });
   });
 
+  describe('Structured Content Rendering', () => {
+    const time = new Date('2023-01-15T10:00:00');
+
+    it('should render polls, locations, contacts and view-once media', () => {
+      const poll = {
+        ...createMessage('John', 'Where should we eat?', time),
+        poll: {
+          question: 'Where should we eat?',
+          options: [
+            { text: 'Pizza', votes: 3 },
+            { text: 'Sushi', votes: 1 },
+          ],
+        },
+      };
+      const location = {
+        ...createMessage('Jane', 'location: https://maps.google.com/?q=48.8566,2.3522', time, 'media'),
+        location: { latitude: 48.8566, longitude: 2.3522 },
+      };
+      const contact = {
+        ...createMessage('Jane', 'Paul Martin.vcf (file attached)', time, 'media'),
+        contactName: 'Paul Martin',
+      };
+      const viewOnce = { ...createMessage('John', '<View once photo omitted>', time, 'media'), viewOnce: true };
+
+      expect(formatMessageContent(poll)).toBe(
+        'Poll: Where should we eat? | Options: Pizza (3 votes), Sushi (1 vote)',
+      );
+      expect(formatMessageContent(location)).toBe('Shared location: 48.8566, 2.3522');
+      expect(formatMessageContent(contact)).toBe('Shared contact: Paul Martin');
+      expect(formatMessageContent(viewOnce)).toBe('View-once media (not included in the export)');
+    });
+
+    it('should mark edited messages in chunk text', () => {
+      const message = { ...createMessage('John', 'See you at 8', time), edited: true };
+      const chunk = chunkMessages([message]).chunks[0];
+
+      expect(getChunkText(chunk)).toContain('John: See you at 8 (edited)');
+    });
+  });
+
   describe('Result Metadata', () => {
     it('should calculate overall statistics', () => {
       const messages: ParsedMessage[] = [
@@ -224,4 +271,85 @@ describe('Temporal Chunker', () => {
       expect(result.metadata.timeSpan.end).toEqual(new Date('2023-01-15T12:02:00'));
     });
   });
+
+  describe('Chunk Boundaries', () => {
+    it('should record why each chunk ended', () => {
+      const base = new Date('2023-01-15T10:00:00').getTime();
+      const messages = [
+        ...Array.from({ length: 4 }, (_, i) => createMessage('John', `Message ${i}`, new Date(base + i * 60000))),
+        // 2 hour gap
+        createMessage('Jane', 'x'.repeat(300), new Date(base + 2 * 60 * 60000)),
+        createMessage('Jane', 'y'.repeat(300), new Date(base + 121 * 60000)),
+        createMessage('John', 'Done', new Date(base + 122 * 60000)),
+      ];
+
+      const result = chunkMessages(messages, { gapMinutes: 30, maxMessages: 3, maxChunkChars: 500, minMessages: 1 });
+
+      expect(result.chunks.map((c) => c.boundary)).toEqual([
+        { reason: 'max_messages', messageCount: 3 },
+        { reason: 'time_gap', gapMinutes: 117, messageCount: 1 },
+        { reason: 'max_chars', messageCount: 1 },
+        { reason: 'end_of_input', messageCount: 2 },
+      ]);
+    });
+  });
+
+  describe('Streaming Chunker', () => {
+    // Bursts of varying size separated by gaps, so splitting and merging both kick in
+    function createConversation(): ParsedMessage[] {
+      const messages: ParsedMessage[] = [];
+      let time = new Date('2023-01-15T08:00:00').getTime();
+      const burstSizes = [1, 4, 2, 1, 7, 1, 1, 3, 60, 2, 1];
+      burstSizes.forEach((size, burst) => {
+        for (let i = 0; i < size; i++) {
+          const content = burst === 4 ? 'x'.repeat(900) : `Message ${burst}-${i}`;
+          messages.push(createMessage(i % 2 ? 'Jane' : 'John', content, new Date(time)));
+          time += 60 * 1000;
+        }
+        time += 2 * 60 * 60 * 1000;
+      });
+      return messages;
+    }
+
+    it('should produce the same chunks as chunkMessages', () => {
+      const messages = createConversation();
+      const options = { gapMinutes: 30, minMessages: 3, maxChunkChars: 4000 };
+
+      const expected = chunkMessages(messages, options).chunks;
+
+      const chunker = new StreamingChunker(options);
+      const streamed = messages.flatMap((m) => chunker.push(m));
+      streamed.push(...chunker.flush());
+
+      expect(streamed.map((c) => c.messages.map((m) => m.content))).toEqual(
+        expected.map((c) => c.messages.map((m) => m.content)),
+      );
+    });
+
+    it('should emit chunks before the input ends', () => {
+      const messages = createConversation();
+      const chunker = new StreamingChunker({ gapMinutes: 30, minMessages: 3 });
+
+      const emittedEarly = messages.flatMap((m) => chunker.push(m));
+
+      expect(emittedEarly.length).toBeGreaterThan(0);
+      expect(chunker.flush().length).toBeGreaterThan(0);
+    });
+
+    it('should chunk an async message stream', async () => {
+      const messages = createConversation();
+      async function* source() {
+        yield* messages;
+      }
+
+      const chunks = [];
+      for await (const chunk of chunkMessageStream(source(), { conversationId: 'conv-1' })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.length).toBe(chunkMessages(messages).chunks.length);
+      expect(chunks.every((c) => c.metadata.conversationId === 'conv-1')).toBe(true);
+      expect(chunks.reduce((sum, c) => sum + c.messages.length, 0)).toBe(messages.length);
+    });
+  });
 });
@@ -0,0 +1,195 @@
+/**
+ * VectorStore contract: the behaviour every vector store implementation must have
+ * Run it from a test file with a factory creating an empty, initialized store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseWhatsAppExport } from '../../src/core/parser/whatsapp.js';
+import { chunkMessages } from '../../src/core/chunker/temporal.js';
+import type { StoredChunk, VectorStore } from '../../src/storage/types.js';
+
+export interface VectorStoreHandle {
+  store: VectorStore;
+  /**
+   * Remove what the store created (collection, file)
+   */
+  cleanup?: () => Promise<void>;
+}
+
+export const CONTRACT_EMBEDDING = { name: 'test', model: 'contract', dimensions: 3 };
+
+const FAMILY = `15/01/2023, 09:00 - John: Morning everyone
+15/01/2023, 09:01 - Jane: Morning!
+15/01/2023, 09:02 - John: Breakfast at 10?
+20/01/2023, 18:00 - Anna: Who is coming on Sunday?
+20/01/2023, 18:01 - Jane: Me
+20/01/2023, 18:02 - Anna: Great`;
+
+const WORK = `01/02/2023, 10:00 - Bob: Standup in 5
+01/02/2023, 10:01 - Alice: Joining
+01/02/2023, 10:02 - Bob: Thanks`;
+
+// Directions of the chunks' embeddings: the query [1, 0, 0] is closest to the first one
+const EMBEDDINGS = [
+  [1, 0, 0],
+  [0.6, 0.8, 0],
+  [0, 0, 1],
+];
+
+function createChunks(): StoredChunk[] {
+  const chunk = (text: string, conversationId: string, conversationName: string) =>
+    chunkMessages(parseWhatsAppExport(text).messages, { conversationId, gapMinutes: 60, minMessages: 1 }).chunks.map(
+      (c) => ({ ...c, conversationName, embedding: [] as number[] }),
+    );
+
+  const chunks = [...chunk(FAMILY, 'family', 'Family'), ...chunk(WORK, 'work', 'Work')];
+  return chunks.map((c, i) => ({ ...c, embedding: EMBEDDINGS[i], summary: `Summary ${i}` }));
+}
+
+export function vectorStoreContract(name: string, create: () => Promise<VectorStoreHandle>) {
+  describe(`VectorStore contract: ${name}`, () => {
+    let handle: VectorStoreHandle;
+    let store: VectorStore;
+    let chunks: StoredChunk[];
+
+    beforeEach(async () => {
+      handle = await create();
+      store = handle.store;
+      chunks = createChunks();
+      await store.upsertBatch(chunks);
+    });
+
+    afterEach(async () => {
+      await handle.cleanup?.();
+    });
+
+    it('should store chunks with their payload and embedding', async () => {
+      const stored = await store.getById(chunks[0].id);
+
+      expect(stored).not.toBeNull();
+      expect(stored!.id).toBe(chunks[0].id);
+      expect(stored!.participants).toEqual(['John', 'Jane']);
+      expect(stored!.startTime).toEqual(chunks[0].startTime);
+      expect(stored!.endTime).toEqual(chunks[0].endTime);
+      expect(stored!.summary).toBe('Summary 0');
+      expect(stored!.conversationName).toBe('Family');
+      expect(stored!.metadata).toMatchObject(chunks[0].metadata);
+      expect(stored!.messages.map((m) => [m.id, m.sender, m.content, m.timestamp])).toEqual(
+        chunks[0].messages.map((m) => [m.id, m.sender, m.content, m.timestamp]),
+      );
+      stored!.embedding.forEach((value, i) => expect(value).toBeCloseTo(EMBEDDINGS[0][i]));
+
+      expect(await store.getById('00000000-0000-0000-0000-000000000000')).toBeNull();
+    });
+
+    it('should replace a chunk stored again under the same ID', async () => {
+      await store.upsert({ ...chunks[0], summary: 'Updated' });
+
+      expect((await store.getById(chunks[0].id))!.summary).toBe('Updated');
+      expect(await store.countByConversation('family')).toBe(2);
+    });
+
+    it('should rank search results by similarity', async () => {
+      const results = await store.search([1, 0, 0], { topK: 5, minScore: 0 });
+
+      expect(results.map((r) => r.chunk.id)).toEqual([chunks[0].id, chunks[1].id, chunks[2].id]);
+      expect(results[0].score).toBeCloseTo(1);
+      expect(results[1].score).toBeCloseTo(0.6);
+    });
+
+    it('should apply topK and minScore', async () => {
+      expect(await store.search([1, 0, 0], { topK: 1, minScore: 0 })).toHaveLength(1);
+      expect((await store.search([1, 0, 0], { topK: 5, minScore: 0.5 })).map((r) => r.chunk.id)).toEqual([
+        chunks[0].id,
+        chunks[1].id,
+      ]);
+    });
+
+    it('should filter searches by conversation, participants and dates', async () => {
+      const search = async (filter: Parameters<VectorStore['search']>[1]) =>
+        (await store.search([1, 0, 0], { topK: 5, minScore: 0, ...filter })).map((r) => r.chunk.id);
+
+      expect(await search({ filter: { conversationId: 'work' } })).toEqual([chunks[2].id]);
+      expect(await search({ filter: { participants: ['Anna', 'Alice'] } })).toEqual([chunks[1].id, chunks[2].id]);
+      expect(await search({ filter: { dateRange: { start: new Date('2023-01-16') } } })).toEqual([
+        chunks[1].id,
+        chunks[2].id,
+      ]);
+      expect(await search({ filter: { dateRange: { end: new Date('2023-01-31') } } })).toEqual([
+        chunks[0].id,
+        chunks[1].id,
+      ]);
+      expect(
+        await search({
+          filter: { conversationId: 'family', participants: ['Jane'], dateRange: { start: new Date('2023-01-16') } },
+        }),
+      ).toEqual([chunks[1].id]);
+    });
+
+    it('should count, list and delete the chunks of a conversation', async () => {
+      expect(await store.countByConversation('family')).toBe(2);
+      expect(await store.countByConversation('missing')).toBe(0);
+
+      const listed = await store.getConversationChunks('family');
+      expect(listed.map((c) => c.id).sort()).toEqual([chunks[0].id, chunks[1].id].sort());
+      expect(listed.every((c) => c.embedding.length === 0)).toBe(true);
+
+      const withEmbeddings = await store.getConversationChunks('family', true);
+      expect(withEmbeddings.every((c) => c.embedding.length === 3)).toBe(true);
+
+      expect(await store.deleteByConversation('family')).toBe(2);
+      expect(await store.countByConversation('family')).toBe(0);
+      expect(await store.countByConversation('work')).toBe(1);
+    });
+
+    it('should delete chunks by ID', async () => {
+      await store.deleteByIds([chunks[0].id]);
+      await store.deleteByIds([]);
+
+      expect(await store.getById(chunks[0].id)).toBeNull();
+      expect(await store.countByConversation('family')).toBe(1);
+    });
+
+    it('should rename a conversation on all its chunks', async () => {
+      await store.renameConversation('family', 'Relatives');
+
+      const names = (await store.scrollAll()).map((c) => [c.metadata.conversationId, c.conversationName]);
+      expect(names.sort()).toEqual([
+        ['family', 'Relatives'],
+        ['family', 'Relatives'],
+        ['work', 'Work'],
+      ]);
+    });
+
+    it('should find the chunk holding a message', async () => {
+      const messageId = chunks[1].messages[1].id;
+
+      expect((await store.findByMessageId(messageId))?.id).toBe(chunks[1].id);
+      expect(await store.findByMessageId('missing')).toBeNull();
+    });
+
+    it('should list all chunks, optionally filtered', async () => {
+      expect(await store.scrollAll()).toHaveLength(3);
+      expect((await store.scrollAll({ participants: ['Bob'] })).map((c) => c.id)).toEqual([chunks[2].id]);
+    });
+
+    it('should scroll through chunks a page at a time', async () => {
+      const pages: string[][] = [];
+      for await (const page of store.scrollPages(undefined, true, 2)) {
+        pages.push(page.map((c) => c.id));
+        expect(page.every((c) => c.embedding.length === 3)).toBe(true);
+      }
+
+      expect(pages.map((page) => page.length)).toEqual([2, 1]);
+      expect(pages.flat().sort()).toEqual(chunks.map((c) => c.id).sort());
+
+      const filtered = [];
+      for await (const page of store.scrollPages({ conversationId: 'work' })) filtered.push(...page);
+      expect(filtered.map((c) => c.id)).toEqual([chunks[2].id]);
+    });
+
+    it('should be available', async () => {
+      expect(await store.isAvailable()).toBe(true);
+    });
+  });
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseWhatsAppExport } from '../src/core/parser/whatsapp.js';
+import { chunkMessages } from '../src/core/chunker/temporal.js';
+import { ConversationManager } from '../src/storage/conversations.js';
+import { SqliteMetadataStore } from '../src/storage/sqlite.js';
+import type { StoredChunk, VectorStore } from '../src/storage/types.js';
+
+/**
+ * Vector store keeping chunks in memory
+ */
+class MemoryVectorStore implements VectorStore {
+  chunks = new Map<string, StoredChunk>();
+
+  async initialize() {}
+  async upsert(chunk: StoredChunk) {
+    this.chunks.set(chunk.id, chunk);
+  }
+  async upsertBatch(chunks: StoredChunk[]) {
+    for (const chunk of chunks) this.chunks.set(chunk.id, chunk);
+  }
+  async search() {
+    return [];
+  }
+  async deleteByConversation(conversationId: string) {
+    const ids = this.ofConversation(conversationId).map((chunk) => chunk.id);
+    await this.deleteByIds(ids);
+    return ids.length;
+  }
+  async countByConversation(conversationId: string) {
+    return this.ofConversation(conversationId).length;
+  }
+  async renameConversation(conversationId: string, name: string) {
+    for (const chunk of this.ofConversation(conversationId)) chunk.conversationName = name;
+  }
+  async deleteByIds(ids: string[]) {
+    for (const id of ids) this.chunks.delete(id);
+  }
+  async getById(id: string) {
+    return this.chunks.get(id) ?? null;
+  }
+  async findByMessageId() {
+    return null;
+  }
+  async getConversationChunks(conversationId: string) {
+    return this.ofConversation(conversationId);
+  }
+  async scrollAll() {
+    return [...this.chunks.values()];
+  }
+  async *scrollPages() {
+    yield [...this.chunks.values()];
+  }
+  async isAvailable() {
+    return true;
+  }
+
+  private ofConversation(conversationId: string) {
+    return [...this.chunks.values()].filter((chunk) => chunk.metadata.conversationId === conversationId);
+  }
+}
+
+const FAMILY = `15/01/2023, 09:00 - John: Morning
+15/01/2023, 09:01 - Jane: IMG-0001.jpg (file attached)
+15/01/2023, 12:00 - John: Lunch?`;
+
+const FAMILY_OLD_PHONE = `10/01/2023, 20:00 - John: Testing the new group
+10/01/2023, 20:05 - Anna: Works`;
+
+async function storeConversation(
+  id: string,
+  name: string,
+  text: string,
+  vectors: MemoryVectorStore,
+  metadata: SqliteMetadataStore,
+) {
+  const messages = parseWhatsAppExport(text).messages;
+  const chunks = chunkMessages(messages, { conversationId: id, minMessages: 1 }).chunks.map(
+    (chunk): StoredChunk => ({ ...chunk, embedding: [0.1, 0.2], conversationName: name }),
+  );
+  metadata.upsertConversation({
+    id,
+    name,
+    format: 'whatsapp',
+    participants: [...new Set(messages.map((m) => m.sender))],
+    startTime: messages[0].timestamp,
+    endTime: messages[messages.length - 1].timestamp,
+    ingestOptions: {},
+  });
+  metadata.upsertChunks(chunks);
+  await vectors.upsertBatch(chunks);
+  return chunks;
+}
+
+describe('Conversation Manager', () => {
+  let attachmentsPath: string;
+  let vectors: MemoryVectorStore;
+  let metadata: SqliteMetadataStore;
+  let manager: ConversationManager;
+
+  beforeEach(async () => {
+    attachmentsPath = await mkdtemp(join(tmpdir(), 'attachments-'));
+    vectors = new MemoryVectorStore();
+    metadata = new SqliteMetadataStore(':memory:');
+    manager = new ConversationManager(vectors, metadata, attachmentsPath);
+    await storeConversation('family', 'Family', FAMILY, vectors, metadata);
+    await storeConversation('old', 'Family (old phone)', FAMILY_OLD_PHONE, vectors, metadata);
+  });
+
+  afterEach(async () => {
+    metadata.close();
+    await rm(attachmentsPath, { recursive: true, force: true });
+  });
+
+  it('should list conversations with their vector counts', async () => {
+    manager.setDefault('family');
+
+    const conversations = await manager.list();
+
+    expect(conversations.map((c) => [c.id, c.vectorCount, c.isDefault])).toEqual([
+      ['family', 2, true],
+      ['old', 1, false],
+    ]);
+  });
+
+  it('should rename a conversation in both stores', async () => {
+    const renamed = await manager.rename('family', 'The Smiths');
+
+    expect(renamed?.name).toBe('The Smiths');
+    expect((await vectors.getConversationChunks('family')).map((c) => c.conversationName)).toEqual([
+      'The Smiths',
+      'The Smiths',
+    ]);
+    expect(await manager.rename('missing', 'Nope')).toBeNull();
+  });
+
+  it('should delete a conversation with its vectors and attachments', async () => {
+    await mkdir(join(attachmentsPath, 'family'));
+    await writeFile(join(attachmentsPath, 'family', 'IMG-0001.jpg'), 'jpeg');
+    manager.setDefault('family');
+
+    expect(await manager.delete('family')).toBe(2);
+
+    expect(await vectors.countByConversation('family')).toBe(0);
+    expect(metadata.getConversation('family')).toBeNull();
+    expect(await readdir(attachmentsPath)).toEqual([]);
+    expect(manager.getDefault()).toBeNull();
+    expect(await manager.delete('family')).toBeNull();
+  });
+
+  it('should merge a conversation into another one', async () => {
+    await mkdir(join(attachmentsPath, 'old'));
+    await writeFile(join(attachmentsPath, 'old', 'VID-0001.mp4'), 'mp4');
+    const [oldChunk] = await vectors.getConversationChunks('old');
+    oldChunk.messages[0].attachment = {
+      fileName: 'VID-0001.mp4',
+      size: 3,
+      mimeType: 'video/mp4',
+      path: join(attachmentsPath, 'old', 'VID-0001.mp4'),
+    };
+    manager.setDefault('old');
+
+    const merged = await manager.merge('old', 'family');
+
+    expect(merged).toMatchObject({ id: 'family', name: 'Family', messageCount: 5, vectorCount: 3, isDefault: true });
+    expect(merged?.participants).toEqual(['Anna', 'Jane', 'John']);
+    expect(merged?.startTime).toEqual(new Date(2023, 0, 10, 20, 0));
+    expect(metadata.getConversation('old')).toBeNull();
+
+    const moved = await vectors.getById(oldChunk.id);
+    expect(moved?.metadata.conversationId).toBe('family');
+    expect(moved?.conversationName).toBe('Family');
+    expect(moved?.embedding).toEqual([0.1, 0.2]);
+    expect(moved?.messages[0].attachment?.path).toBe(join(attachmentsPath, 'family', 'VID-0001.mp4'));
+    expect(await readdir(join(attachmentsPath, 'family'))).toEqual(['VID-0001.mp4']);
+  });
+
+  it('should number attachments named like one of the target when merging', async () => {
+    for (const id of ['old', 'family']) {
+      await mkdir(join(attachmentsPath, id));
+      await writeFile(join(attachmentsPath, id, 'IMG-0001.jpg'), id);
+    }
+    const [oldChunk] = await vectors.getConversationChunks('old');
+    oldChunk.messages[0].attachment = {
+      fileName: 'IMG-0001.jpg',
+      size: 3,
+      mimeType: 'image/jpeg',
+      path: join(attachmentsPath, 'old', 'IMG-0001.jpg'),
+    };
+
+    await manager.merge('old', 'family');
+
+    const moved = await vectors.getById(oldChunk.id);
+    expect(moved?.messages[0].attachment).toMatchObject({
+      fileName: 'IMG-0001-1.jpg',
+      path: join(attachmentsPath, 'family', 'IMG-0001-1.jpg'),
+    });
+    expect((await readdir(join(attachmentsPath, 'family'))).sort()).toEqual(['IMG-0001-1.jpg', 'IMG-0001.jpg']);
+    expect(await readFile(join(attachmentsPath, 'family', 'IMG-0001.jpg'), 'utf-8')).toBe('family');
+    expect(await readFile(join(attachmentsPath, 'family', 'IMG-0001-1.jpg'), 'utf-8')).toBe('old');
+  });
+
+  it('should refuse to merge a conversation into itself', async () => {
+    await expect(manager.merge('family', 'family')).rejects.toThrow('into itself');
+    expect(await manager.merge('missing', 'family')).toBeNull();
+  });
+
+  it('should only set existing conversations as default', () => {
+    expect(manager.setDefault('missing')).toBe(false);
+    expect(manager.setDefault('family')).toBe(true);
+    expect(manager.getDefault()).toBe('family');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { interpretDates } from '../src/rag/dates.js';
+
+// Wednesday 10 July 2024, in the afternoon
+const REFERENCE = new Date(2024, 6, 10, 15, 30);
+
+function interpret(question: string) {
+  const range = interpretDates(question, REFERENCE);
+  return range && { start: range.start, end: range.end, expressions: range.expressions };
+}
+
+function day(year: number, month: number, date: number): Date {
+  return new Date(year, month - 1, date);
+}
+
+function endOf(year: number, month: number, date: number): Date {
+  return new Date(year, month - 1, date, 23, 59, 59, 999);
+}
+
+describe('Date Expressions', () => {
+  it('should resolve seasons and months against the reference date', () => {
+    // This summer has not ended yet, so last summer is the one of 2023
+    expect(interpret('What did we plan last summer?')).toEqual({
+      start: day(2023, 6, 1),
+      end: endOf(2023, 8, 31),
+      expressions: ['last summer'],
+    });
+    expect(interpret("Qu'est-ce qu'on a dit en mars dernier ?")).toEqual({
+      start: day(2024, 3, 1),
+      end: endOf(2024, 3, 31),
+      expressions: ['mars dernier'],
+    });
+    expect(interpret('cet été')).toMatchObject({ start: day(2024, 6, 1), end: endOf(2024, 8, 31) });
+    expect(interpret("l'hiver dernier")).toMatchObject({ start: day(2023, 12, 1), end: endOf(2024, 2, 29) });
+    expect(interpret('in December')).toMatchObject({ start: day(2023, 12, 1), end: endOf(2023, 12, 31) });
+    expect(interpret('en juillet')).toMatchObject({ start: day(2024, 7, 1), end: endOf(2024, 7, 31) });
+  });
+
+  it('should resolve days, weeks and weekends', () => {
+    expect(interpret('yesterday')).toMatchObject({ start: day(2024, 7, 9), end: endOf(2024, 7, 9) });
+    expect(interpret("Qu'a dit Agnès avant-hier ?")).toMatchObject({ start: day(2024, 7, 8), end: endOf(2024, 7, 8) });
+    expect(interpret("aujourd’hui")).toMatchObject({ start: day(2024, 7, 10) });
+    expect(interpret('last week')).toMatchObject({ start: day(2024, 7, 1), end: endOf(2024, 7, 7) });
+    expect(interpret('la semaine dernière')).toMatchObject({ start: day(2024, 7, 1), end: endOf(2024, 7, 7) });
+    expect(interpret('cette semaine')).toMatchObject({ start: day(2024, 7, 8), end: endOf(2024, 7, 14) });
+    expect(interpret('le week-end dernier')).toMatchObject({ start: day(2024, 7, 6), end: endOf(2024, 7, 7) });
+    expect(interpret('last Monday')).toMatchObject({ start: day(2024, 7, 8), end: endOf(2024, 7, 8) });
+    expect(interpret('mercredi dernier')).toMatchObject({ start: day(2024, 7, 3) });
+  });
+
+  it('should resolve counted periods', () => {
+    expect(interpret('in the last 3 days')).toMatchObject({ start: day(2024, 7, 7), end: endOf(2024, 7, 10) });
+    expect(interpret('les deux derniers mois')).toMatchObject({ start: day(2024, 5, 10), end: endOf(2024, 7, 10) });
+    expect(interpret('il y a 2 semaines')).toMatchObject({ start: day(2024, 6, 24), end: endOf(2024, 6, 30) });
+    expect(interpret('a month ago')).toMatchObject({ start: day(2024, 6, 1), end: endOf(2024, 6, 30) });
+    expect(interpret('il y a un an')).toMatchObject({ start: day(2023, 1, 1), end: endOf(2023, 12, 31) });
+  });
+
+  it('should resolve absolute dates', () => {
+    expect(interpret('on March 15th, 2023')).toMatchObject({ start: day(2023, 3, 15), end: endOf(2023, 3, 15) });
+    expect(interpret('le 1er mars 2023')).toMatchObject({ start: day(2023, 3, 1) });
+    // The latest 14 July is last year's
+    expect(interpret('le 14 juillet')).toMatchObject({ start: day(2023, 7, 14) });
+    expect(interpret('2023-03-15')).toMatchObject({ start: day(2023, 3, 15), end: endOf(2023, 3, 15) });
+    expect(interpret('summer of 2022')).toMatchObject({ start: day(2022, 6, 1), end: endOf(2022, 8, 31) });
+    expect(interpret('en 2022')).toMatchObject({ start: day(2022, 1, 1), end: endOf(2022, 12, 31) });
+  });
+
+  it('should cover ranges and several expressions', () => {
+    expect(interpret('between March and May 2023')).toMatchObject({
+      start: day(2023, 3, 1),
+      end: endOf(2023, 5, 31),
+      expressions: ['between March and May 2023'],
+    });
+    expect(interpret('de novembre à février')).toMatchObject({ start: day(2023, 11, 1), end: endOf(2024, 2, 29) });
+    expect(interpret('in January or in March 2022')).toMatchObject({ start: day(2022, 1, 1), end: endOf(2022, 3, 31) });
+    expect(interpret('since April')).toMatchObject({ start: day(2024, 4, 1), end: endOf(2024, 7, 10) });
+    expect(interpret('depuis 3 jours')).toMatchObject({ start: day(2024, 7, 7), end: endOf(2024, 7, 10) });
+  });
+
+  it('should ignore questions without time expressions', () => {
+    expect(interpret('What did the doctor recommend?')).toBeNull();
+    expect(interpret('May I ask what John said about Mars?')).toBeNull();
+    expect(interpret('this may be what John meant')).toBeNull();
+    expect(interpret('we may go to the beach')).toBeNull();
+  });
+
+  it('should read a lowercase may as the month only next to a day or a year', () => {
+    expect(interpret('what happened on may 15th?')).toMatchObject({ start: day(2024, 5, 15), end: endOf(2024, 5, 15) });
+    expect(interpret('the 3rd of may')).toMatchObject({ start: day(2024, 5, 3) });
+    expect(interpret('in may 2023')).toMatchObject({ start: day(2023, 5, 1), end: endOf(2023, 5, 31) });
+    expect(interpret('we may go to the beach in May')).toMatchObject({ expressions: ['in May'] });
+    expect(interpret('Who paid the 2000 euros?')).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CachedEmbedProvider, EmbeddingCache } from '../src/providers/cache.js';
+import type { EmbedProvider } from '../src/providers/types.js';
+
+function createProvider(model = 'nomic-embed-text') {
+  const provider = {
+    name: 'ollama',
+    model,
+    dimensions: 3,
+    embed: vi.fn(async (text: string) => [text.length, 0.5, model.length]),
+    embedBatch: vi.fn(async (texts: string[]) => texts.map((text) => [text.length, 0.5, model.length])),
+    isAvailable: vi.fn(async () => true),
+  };
+  return provider satisfies EmbedProvider;
+}
+
+describe('Embedding Cache', () => {
+  let cache: EmbeddingCache;
+
+  beforeEach(() => {
+    cache = new EmbeddingCache(':memory:');
+  });
+
+  afterEach(() => {
+    cache.close();
+  });
+
+  it('should only embed texts it has not seen', async () => {
+    const provider = createProvider();
+    const cached = new CachedEmbedProvider(provider, cache);
+
+    expect(await cached.embedBatch(['hello', 'world'])).toEqual([[5, 0.5, 16], [5, 0.5, 16]]);
+    expect(await cached.embedBatch(['hello', 'again', 'again'])).toEqual([
+      [5, 0.5, 16],
+      [5, 0.5, 16],
+      [5, 0.5, 16],
+    ]);
+    expect(await cached.embed('world')).toEqual([5, 0.5, 16]);
+
+    expect(provider.embedBatch).toHaveBeenCalledTimes(1);
+    expect(provider.embedBatch).toHaveBeenCalledWith(['hello', 'world']);
+    // Repeated texts of a batch are embedded once
+    expect(provider.embed).toHaveBeenCalledTimes(1);
+    expect(provider.embed).toHaveBeenCalledWith('again');
+  });
+
+  it('should keep the embeddings of different models apart', async () => {
+    await new CachedEmbedProvider(createProvider(), cache).embed('hello');
+    const other = createProvider('mxbai-embed-large');
+
+    expect(await new CachedEmbedProvider(other, cache).embed('hello')).toEqual([5, 0.5, 17]);
+    expect(other.embed).toHaveBeenCalled();
+  });
+
+  it('should report entries and hit rates per model', async () => {
+    const cached = new CachedEmbedProvider(createProvider(), cache);
+    await cached.embedBatch(['a', 'b']);
+    await cached.embedBatch(['a', 'c']);
+
+    const stats = cache.stats();
+    expect(stats.entries).toBe(3);
+    expect(stats.bytes).toBe(3 * 3 * 4);
+    expect(stats.models).toEqual([
+      expect.objectContaining({ provider: 'ollama', model: 'nomic-embed-text', entries: 3, hits: 1, misses: 3 }),
+    ]);
+  });
+
+  it('should prune other models, old entries or everything', async () => {
+    await new CachedEmbedProvider(createProvider(), cache).embedBatch(['a', 'b', 'c']);
+    await new CachedEmbedProvider(createProvider('old-model'), cache).embedBatch(['a', 'b']);
+
+    expect(cache.prune({ keepOnly: { provider: 'ollama', model: 'nomic-embed-text' } })).toBe(2);
+    expect(cache.prune({ olderThanDays: 1 })).toBe(0);
+    expect(cache.prune({ maxEntries: 1 })).toBe(2);
+    expect(cache.prune()).toBe(1);
+    expect(cache.stats()).toEqual({ entries: 0, bytes: 0, models: [] });
+  });
+});
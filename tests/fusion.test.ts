@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { reciprocalRankFusion, RRF_K } from '../src/rag/fusion.js';
+
+describe('Reciprocal Rank Fusion', () => {
+  it('should favour items ranked well by several searches', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b', 'c'],
+      ['b', 'd', 'c'],
+    ]);
+
+    expect(fused.map((r) => r.id)).toEqual(['b', 'c', 'a', 'd']);
+    expect(fused.find((r) => r.id === 'c')?.ranks).toEqual([3, 3]);
+    expect(fused.find((r) => r.id === 'd')?.ranks).toEqual([null, 2]);
+  });
+
+  it('should score from 0 to 1', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b'],
+      ['a', 'c'],
+    ]);
+
+    expect(fused[0]).toEqual({ id: 'a', score: 1, ranks: [1, 1] });
+    expect(fused[1].score).toBeCloseTo((RRF_K + 1) / (RRF_K + 2) / 2);
+    expect(reciprocalRankFusion([['a'], []])[0].score).toBeCloseTo(0.5);
+  });
+
+  it('should keep the first ranking order for ties', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b'],
+      ['b', 'a'],
+    ]);
+
+    expect(fused.map((r) => r.id)).toEqual(['a', 'b']);
+  });
+
+  it('should count an item once per ranking', () => {
+    const [result] = reciprocalRankFusion([['a', 'a']]);
+
+    expect(result).toEqual({ id: 'a', score: 1, ranks: [1] });
+  });
+
+  it('should fuse nothing', () => {
+    expect(reciprocalRankFusion([])).toEqual([]);
+    expect(reciprocalRankFusion([[], []])).toEqual([]);
+  });
+});
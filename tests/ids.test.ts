@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { parseWhatsAppExport } from '../src/core/parser/whatsapp.js';
+import { chunkMessages } from '../src/core/chunker/temporal.js';
+import {
+  MessageIdGenerator,
+  getChunkId,
+  getConversationId,
+} from '../src/core/ids/index.js';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+const EXPORT = `15/01/2023, 10:30 - John: Hello
+15/01/2023, 10:30 - John: Hello
+15/01/2023, 10:31 - Jane: Hi John
+15/01/2023, 12:00 - Jane: Lunch?
+15/01/2023, 12:01 - John: Sure
+15/01/2023, 12:02 - Jane: Great`;
+
+describe('Content-addressed IDs', () => {
+  it('should give messages the same IDs on every parse', () => {
+    const first = parseWhatsAppExport(EXPORT).messages.map((m) => m.id);
+    const second = parseWhatsAppExport(EXPORT).messages.map((m) => m.id);
+
+    expect(first).toEqual(second);
+    expect(first[0]).toHaveLength(21);
+  });
+
+  it('should tell identical consecutive messages apart', () => {
+    const [hello, helloAgain] = parseWhatsAppExport(EXPORT).messages;
+
+    expect(hello.id).not.toBe(helloAgain.id);
+  });
+
+  it('should not depend on the rest of the export', () => {
+    const full = parseWhatsAppExport(EXPORT).messages;
+    const tail = parseWhatsAppExport(EXPORT.split('\n').slice(2).join('\n')).messages;
+
+    expect(tail.map((m) => m.id)).toEqual(full.slice(2).map((m) => m.id));
+  });
+
+  it('should change when the content changes', () => {
+    const ids = new MessageIdGenerator();
+    const timestamp = new Date('2023-01-15T10:30:00');
+
+    const a = ids.next({ timestamp, sender: 'John', content: 'Hello' });
+    const b = ids.next({ timestamp, sender: 'John', content: 'Hello!' });
+    const c = ids.next({ timestamp, sender: 'Jane', content: 'Hello' });
+
+    expect(new Set([a, b, c]).size).toBe(3);
+  });
+
+  it('should derive UUID chunk IDs from their members', () => {
+    const messages = parseWhatsAppExport(EXPORT).messages;
+    const options = { conversationId: 'conv-1', minMessages: 1 };
+
+    const first = chunkMessages(messages, options).chunks;
+    const second = chunkMessages(messages, options).chunks;
+
+    expect(first).toHaveLength(2);
+    expect(first.map((c) => c.id)).toEqual(second.map((c) => c.id));
+    expect(first[0].id).toMatch(UUID);
+    expect(first[0].id).toBe(getChunkId('conv-1', first[0].messages.map((m) => m.id)));
+    expect(getChunkId('conv-2', first[0].messages.map((m) => m.id))).not.toBe(first[0].id);
+  });
+
+  it('should derive conversation IDs from the export identity', () => {
+    const [firstMessage] = parseWhatsAppExport(EXPORT).messages;
+
+    expect(getConversationId('whatsapp', firstMessage.id)).toMatch(UUID);
+    expect(getConversationId('whatsapp', firstMessage.id)).toBe(
+      getConversationId('whatsapp', firstMessage.id),
+    );
+    expect(getConversationId('telegram', firstMessage.id)).not.toBe(
+      getConversationId('whatsapp', firstMessage.id),
+    );
+
+    const chunks = chunkMessages(parseWhatsAppExport(EXPORT).messages).chunks;
+    expect(new Set(chunks.map((c) => c.metadata.conversationId)).size).toBe(1);
+  });
+
+  it('should identify an export whatever the parsing options', () => {
+    const withNotice = `03/02/2023, 09:00 - Messages and calls are end-to-end encrypted.
+${EXPORT}`;
+    const key = parseWhatsAppExport(withNotice).conversationKey;
+
+    expect(key).toBeDefined();
+    expect(parseWhatsAppExport(withNotice, { includeSystemMessages: false }).conversationKey).toBe(key);
+    expect(parseWhatsAppExport(withNotice, { dateOrder: 'MDY' }).conversationKey).toBe(key);
+    expect(parseWhatsAppExport(EXPORT).conversationKey).not.toBe(key);
+  });
+});
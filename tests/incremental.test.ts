@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { parseWhatsAppExport } from '../src/core/parser/whatsapp.js';
+import { StreamingChunker, chunkMessages } from '../src/core/chunker/temporal.js';
+import type { Chunk } from '../src/core/chunker/types.js';
+import { ConversationDelta } from '../src/ingestion/incremental.js';
+import { SqliteMetadataStore } from '../src/storage/sqlite.js';
+
+const CHUNKER_OPTIONS = { conversationId: 'conv-1', minMessages: 1 };
+
+const JANUARY = `15/01/2023, 09:00 - John: Morning
+15/01/2023, 09:01 - Jane: Hi!
+15/01/2023, 12:00 - John: Lunch?
+15/01/2023, 12:02 - Jane: Sure
+15/01/2023, 18:00 - John: Home now
+15/01/2023, 18:05 - Jane: Great`;
+
+const FEBRUARY = `${JANUARY}
+15/01/2023, 18:10 - John: Dinner at 8
+15/01/2023, 18:11 - Jane: OK
+20/02/2023, 10:00 - Jane: New month`;
+
+/**
+ * Replay an export through the delta the way the pipeline does
+ */
+function ingestAgain(storedChunks: Chunk[], text: string) {
+  const delta = ConversationDelta.fromChunks(storedChunks);
+  const chunker = new StreamingChunker(CHUNKER_OPTIONS);
+  const produced: Chunk[] = [];
+  let replayed = 0;
+
+  for (const message of parseWhatsAppExport(text).messages) {
+    if (!delta.add(message)) continue;
+    replayed++;
+    produced.push(...chunker.push(message));
+  }
+  produced.push(...chunker.flush());
+
+  const toStore = produced.filter((chunk) => delta.needsStoring(chunk));
+  return { delta, replayed, toStore };
+}
+
+describe('Incremental Ingestion', () => {
+  const stored = chunkMessages(parseWhatsAppExport(JANUARY).messages, CHUNKER_OPTIONS).chunks;
+
+  it('should embed only the boundary chunk and the new tail', () => {
+    const { delta, replayed, toStore } = ingestAgain(stored, FEBRUARY);
+
+    expect(stored).toHaveLength(3);
+    expect(delta.incremental).toBe(true);
+    expect(delta.counts).toEqual({ newMessages: 3, skippedMessages: 6, changedMessages: 0 });
+    // The last January chunk plus the new messages
+    expect(replayed).toBe(5);
+
+    expect(toStore).toHaveLength(2);
+    expect(toStore[0].messages.map((m) => m.content)).toEqual([
+      'Home now',
+      'Great',
+      'Dinner at 8',
+      'OK',
+    ]);
+    expect(toStore[1].messages.map((m) => m.content)).toEqual(['New month']);
+    expect(delta.replacedChunkIds).toEqual([stored[2].id]);
+  });
+
+  it('should store nothing when the export holds nothing new', () => {
+    const { delta, toStore } = ingestAgain(stored, JANUARY);
+
+    expect(delta.counts).toEqual({ newMessages: 0, skippedMessages: 6, changedMessages: 0 });
+    expect(toStore).toHaveLength(0);
+    expect(delta.replacedChunkIds).toEqual([]);
+  });
+
+  it('should report edits to the stored history without re-chunking it', () => {
+    const edited = FEBRUARY.replace('John: Lunch?', 'John: Lunch at noon?');
+    const { delta, replayed, toStore } = ingestAgain(stored, edited);
+
+    expect(delta.counts).toEqual({ newMessages: 3, skippedMessages: 5, changedMessages: 1 });
+    expect(replayed).toBe(5);
+    expect(toStore).toHaveLength(2);
+  });
+
+  it('should compare with the history of the metadata store', () => {
+    const store = new SqliteMetadataStore(':memory:');
+    store.upsertConversation({
+      id: 'conv-1',
+      format: 'whatsapp',
+      participants: [],
+      startTime: null,
+      endTime: null,
+      ingestOptions: {},
+    });
+    store.upsertChunks(stored);
+    const delta = new ConversationDelta(store.getConversationHistory('conv-1'));
+    store.close();
+
+    const chunker = new StreamingChunker(CHUNKER_OPTIONS);
+    const produced = parseWhatsAppExport(FEBRUARY).messages.flatMap((m) => (delta.add(m) ? chunker.push(m) : []));
+    produced.push(...chunker.flush());
+
+    expect(delta.counts).toEqual({ newMessages: 3, skippedMessages: 6, changedMessages: 0 });
+    expect(produced.filter((chunk) => delta.needsStoring(chunk))).toHaveLength(2);
+    expect(delta.replacedChunkIds).toEqual([stored[2].id]);
+  });
+
+  it('should ingest everything when nothing is stored', () => {
+    const { delta, replayed, toStore } = ingestAgain([], FEBRUARY);
+
+    expect(delta.incremental).toBe(false);
+    expect(delta.counts).toEqual({ newMessages: 9, skippedMessages: 0, changedMessages: 0 });
+    expect(replayed).toBe(9);
+    expect(toStore).toHaveLength(4);
+    expect(delta.replacedChunkIds).toEqual([]);
+  });
+});
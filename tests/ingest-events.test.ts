@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import websocket from '@fastify/websocket';
+import { request } from 'http';
+import type { AddressInfo } from 'net';
+import type { IngestJobEvent } from '../src/ingestion/index.js';
+
+type Listener = (event: IngestJobEvent) => void;
+
+const watchIngestJob = vi.fn<(jobId: string, listener: Listener) => Promise<(() => void) | null>>();
+
+vi.mock('../src/ingestion/index.js', () => ({
+  watchIngestJob: (jobId: string, listener: Listener) => watchIngestJob(jobId, listener),
+  startIngestionWorker: async () => ({ close: async () => undefined }),
+  closeIngestQueue: async () => undefined,
+  cancelIngestJob: vi.fn(),
+  enqueueIngestion: vi.fn(),
+  getIngestJob: vi.fn(),
+  getIngestionPipeline: vi.fn(),
+  listIngestJobs: vi.fn(),
+  retryIngestJob: vi.fn(),
+}));
+
+vi.mock('../src/storage/index.js', () => ({
+  getMetadataStore: vi.fn(),
+}));
+
+const { registerIngestRoutes } = await import('../src/api/routes/ingest.js');
+
+const PROGRESS: IngestJobEvent = {
+  type: 'progress',
+  progress: { jobId: 'job-1', status: 'embedding', processedChunks: 10 },
+};
+const COMPLETED: IngestJobEvent = { type: 'completed', progress: null, result: { jobId: 'job-1' } as never };
+
+/**
+ * A job sending a progress update right away, then its outcome
+ */
+function watchJob(stop: () => void) {
+  watchIngestJob.mockImplementation(async (_jobId, listener) => {
+    listener(PROGRESS);
+    setTimeout(() => listener(COMPLETED), 10);
+    return stop;
+  });
+}
+
+describe('Ingestion Progress Streams', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = Fastify();
+    await app.register(websocket);
+    await registerIngestRoutes(app);
+    await app.listen({ host: '127.0.0.1', port: 0 });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    watchIngestJob.mockReset();
+  });
+
+  describe('Server-Sent Events', () => {
+    it('should answer 404 for unknown jobs', async () => {
+      watchIngestJob.mockResolvedValue(null);
+
+      const response = await app.inject({ url: '/api/ingest/missing/events' });
+
+      expect(response.statusCode).toBe(404);
+      expect(response.json()).toEqual({ error: 'Job not found' });
+    });
+
+    it('should send progress events and end with the outcome of the job', async () => {
+      const stop = vi.fn();
+      watchJob(stop);
+
+      const response = await app.inject({ url: '/api/ingest/job-1/events' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/event-stream');
+      expect(response.body).toBe(
+        `event: progress\ndata: ${JSON.stringify(PROGRESS)}\n\n` +
+          `event: completed\ndata: ${JSON.stringify(COMPLETED)}\n\n`,
+      );
+      expect(stop).toHaveBeenCalled();
+    });
+
+    it('should stop watching when the client leaves while the job is looked up', async () => {
+      const stop = vi.fn();
+      let found: (stop: () => void) => void = () => undefined;
+      watchIngestJob.mockImplementation(() => new Promise((resolve) => (found = resolve)));
+
+      const { port } = app.server.address() as AddressInfo;
+      const client = request({ host: '127.0.0.1', port, path: '/api/ingest/job-1/events' });
+      client.on('error', () => undefined).end();
+      await vi.waitFor(() => expect(watchIngestJob).toHaveBeenCalled());
+
+      client.destroy();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      found(stop);
+
+      await vi.waitFor(() => expect(stop).toHaveBeenCalled());
+    });
+  });
+
+  describe('WebSocket', () => {
+    it('should report unknown jobs', async () => {
+      watchIngestJob.mockResolvedValue(null);
+
+      const messages = await receive('/api/ingest/missing/stream');
+
+      expect(messages).toEqual([{ type: 'error', error: 'Job not found' }]);
+    });
+
+    it('should send progress messages and close with the outcome of the job', async () => {
+      const stop = vi.fn();
+      watchJob(stop);
+
+      const messages = await receive('/api/ingest/job-1/stream');
+
+      expect(messages).toEqual([PROGRESS, COMPLETED]);
+      expect(stop).toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Messages of a WebSocket until the server closes it. Injected sockets never finish the
+   * closing handshake, so the close frame of the server is awaited instead
+   */
+  async function receive(path: string): Promise<unknown[]> {
+    const messages: unknown[] = [];
+    // Listened to on init, as the server may send before the socket is handed over
+    const socket = await app.injectWS(path, {}, {
+      onInit: (ws) => ws.on('message', (data) => messages.push(JSON.parse(data.toString()))),
+    });
+    await vi.waitFor(() => expect(socket.readyState).toBe(socket.CLOSING));
+    socket.terminate();
+    return messages;
+  }
+});
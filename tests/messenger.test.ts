@@ -0,0 +1,98 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  fixMetaEncoding,
+  parseMessengerExport,
+  parseMessengerFile,
+  type MessengerExport,
+} from '../src/core/parser/messenger.js';
+import { resolveImporter } from '../src/core/parser/registry.js';
+
+const CONVERSATION_DIR = join(__dirname, 'fixtures', 'messenger', 'messages', 'inbox', 'alice_123');
+const FIXTURE = join(CONVERSATION_DIR, 'message_1.json');
+
+describe('Messenger Importer', () => {
+  const tempDirs: string[] = [];
+
+  afterAll(async () => {
+    await Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true })));
+  });
+
+  it('should repair mojibake text', () => {
+    expect(fixMetaEncoding('cafÃ© ð\u009f\u0098\u0080')).toBe('café 😀');
+    // Already valid text is left alone
+    expect(fixMetaEncoding('déjà vu')).toBe('déjà vu');
+    expect(fixMetaEncoding({ names: ['DuprÃ©'] })).toEqual({ names: ['Dupré'] });
+  });
+
+  it('should merge numbered files into one chronological conversation', async () => {
+    const result = await parseMessengerFile(FIXTURE);
+
+    expect(result.messages).toHaveLength(6);
+    expect(result.participants).toEqual(['Alice Dupré', 'Bob']);
+    expect(result.startDate).toEqual(new Date(1673778000000));
+    expect(result.endDate).toEqual(new Date(1673787600000));
+    expect(result.messages.map((m) => m.type)).toEqual([
+      'system',
+      'text',
+      'media',
+      'text',
+      'media',
+      'deleted',
+    ]);
+    expect(result.messages[1].content).toBe('On se retrouve au café ? 😀');
+    expect(result.messages[3].content).toBe('Voilà le lien\nhttps://example.com/menu');
+  });
+
+  it('should map photos and audio files to media types', async () => {
+    const result = await parseMessengerFile(FIXTURE);
+    const audio = result.messages[2];
+    const photo = result.messages[4];
+
+    expect(audio).toMatchObject({ mediaType: 'audio', content: '<audio>' });
+    // Not shipped with the export
+    expect(audio.attachment).toBeUndefined();
+
+    expect(photo).toMatchObject({ mediaType: 'image', content: '<photo>' });
+    expect(photo.attachment).toEqual({
+      fileName: '1234567890.jpg',
+      size: 11,
+      mimeType: 'image/jpeg',
+    });
+    expect(result.attachments).toHaveLength(1);
+  });
+
+  it('should copy media when an attachments directory is given', async () => {
+    const attachmentsDir = await mkdtemp(join(tmpdir(), 'rag-messenger-'));
+    tempDirs.push(attachmentsDir);
+
+    const result = await parseMessengerFile(FIXTURE, { attachmentsDir });
+    const attachment = result.messages[4].attachment;
+
+    expect(attachment?.path).toBe(join(attachmentsDir, '1234567890.jpg'));
+    expect(await readFile(attachment!.path!, 'utf-8')).toBe('photo-bytes');
+  });
+
+  it('should filter unsent and event messages when asked', () => {
+    const data: MessengerExport = {
+      messages: [
+        { sender_name: 'Bob', timestamp_ms: 3000, content: 'gone', is_unsent: true },
+        { sender_name: 'Bob', timestamp_ms: 2000, content: 'Hi' },
+        { sender_name: 'Bob', timestamp_ms: 1000, content: 'Bob joined', type: 'Subscribe' },
+      ],
+    };
+    const result = parseMessengerExport(data, { includeSystemMessages: false, includeDeletedMessages: false });
+    const unfiltered = parseMessengerExport(data);
+
+    expect(result.messages.map((m) => m.content)).toEqual(['Hi']);
+    // IDs and the chat identity do not depend on the filters
+    expect(result.messages[0].id).toBe(unfiltered.messages[1].id);
+    expect(result.conversationKey).toBe(unfiltered.messages[0].id);
+  });
+
+  it('should be picked by the importer registry', async () => {
+    expect((await resolveImporter(FIXTURE)).name).toBe('messenger');
+  });
+});
@@ -0,0 +1,324 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseWhatsAppExport } from '../src/core/parser/whatsapp.js';
+import { chunkMessages } from '../src/core/chunker/temporal.js';
+import { Analyzer } from '../src/core/analyzer/index.js';
+import { SqliteMetadataStore } from '../src/storage/sqlite.js';
+
+const EXPORT = `15/01/2023, 09:00 - John: Morning
+15/01/2023, 09:01 - Jane: Are we still going to the café?
+15/01/2023, 12:00 - John: Lunch at the café
+15/01/2023, 12:02 - Jane: Sure
+15/01/2023, 18:00 - John: Home now
+15/01/2023, 18:05 - Jane: Great`;
+
+const CONVERSATION = {
+  id: 'conv-1',
+  name: 'Family',
+  format: 'whatsapp',
+  participants: ['Jane', 'John'],
+  startTime: new Date(2023, 0, 15, 9),
+  endTime: new Date(2023, 0, 15, 18, 5),
+  ingestOptions: {},
+};
+
+describe('SQLite Metadata Store', () => {
+  const { chunks } = chunkMessages(parseWhatsAppExport(EXPORT).messages, {
+    conversationId: 'conv-1',
+    minMessages: 1,
+  });
+  let store: SqliteMetadataStore;
+
+  beforeEach(() => {
+    store = new SqliteMetadataStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should list conversations with their counts', () => {
+    store.upsertConversation(CONVERSATION);
+    store.upsertChunks(chunks);
+
+    const [conversation] = store.listConversations();
+    expect(conversation).toMatchObject({ id: 'conv-1', name: 'Family', messageCount: 6, chunkCount: 3 });
+    expect(conversation.participants).toEqual(['Jane', 'John']);
+  });
+
+  it('should list the senders of all the conversations once', () => {
+    store.upsertConversation(CONVERSATION);
+    store.upsertConversation({ ...CONVERSATION, id: 'conv-2', participants: ['Jane', 'Léa'] });
+
+    expect(store.listParticipants()).toEqual(['Jane', 'John', 'Léa']);
+  });
+
+  it('should rebuild chunks from their messages', () => {
+    store.upsertConversation(CONVERSATION);
+    store.upsertChunks(chunks);
+
+    const [chunk] = store.getChunks([chunks[1].id]);
+    expect(chunk.id).toBe(chunks[1].id);
+    expect(chunk.conversationName).toBe('Family');
+    expect(chunk.messages.map((m) => m.content)).toEqual(chunks[1].messages.map((m) => m.content));
+    expect(chunk.messages[0].timestamp).toEqual(chunks[1].messages[0].timestamp);
+  });
+
+  it('should find chunks by keyword regardless of case and accents', () => {
+    store.upsertConversation(CONVERSATION);
+    store.upsertChunks(chunks);
+
+    const matches = store.searchChunks('CAFE lunch');
+    expect(matches.map((m) => m.chunkId)).toEqual([chunks[1].id, chunks[0].id]);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+    expect(store.searchChunks('"')).toEqual([]);
+  });
+
+  describe('Keyword search', () => {
+    const TOPICS = `20/01/2023, 10:00 - Anna: The plumber comes tomorrow
+20/01/2023, 10:01 - Bob: Which plumber?
+20/01/2023, 10:02 - Anna: The plumber from last year, the plumber Paul recommended
+21/01/2023, 10:00 - Bob: Paul asked about the plumber
+22/01/2023, 10:00 - Anna: Anyone up for tennis?
+22/01/2023, 10:01 - Bob: Tennis on Sunday, and the plumber can wait`;
+
+    const topics = chunkMessages(parseWhatsAppExport(TOPICS).messages, {
+      conversationId: 'conv-2',
+      gapMinutes: 60,
+      minMessages: 1,
+    }).chunks;
+
+    beforeEach(() => {
+      store.upsertConversation(CONVERSATION);
+      store.upsertChunks(chunks);
+      store.upsertConversation({ ...CONVERSATION, id: 'conv-2', name: 'Neighbours', participants: ['Anna', 'Bob'] });
+      store.upsertChunks(topics);
+    });
+
+    it('should rank chunks by BM25', () => {
+      // Repeated terms rank higher, and rare terms (tennis) weigh more than common ones (plumber)
+      expect(store.searchChunks('plumber').map((m) => m.chunkId)).toEqual([topics[0].id, topics[1].id, topics[2].id]);
+      expect(store.searchChunks('plumber tennis')[0].chunkId).toBe(topics[2].id);
+    });
+
+    it('should match words starting with a keyword', () => {
+      expect(store.searchChunks('recommend').map((m) => m.chunkId)).toEqual([topics[0].id]);
+    });
+
+    it('should apply the filters of semantic searches', () => {
+      const search = (filter: Parameters<SqliteMetadataStore['searchChunks']>[2]) =>
+        store.searchChunks('plumber morning', 10, filter).map((m) => m.chunkId).sort();
+
+      expect(search({ conversationId: 'conv-1' })).toEqual([chunks[0].id]);
+      expect(search({ participants: ['John'] })).toEqual([chunks[0].id]);
+      expect(search({ dateRange: { start: new Date(2023, 0, 21), end: new Date(2023, 0, 21, 23) } })).toEqual([
+        topics[1].id,
+      ]);
+    });
+
+    it('should match other forms of the keywords, ignoring stopwords', () => {
+      expect(store.searchChunks('plumbers').map((m) => m.chunkId)).toEqual([topics[0].id, topics[1].id, topics[2].id]);
+      expect(store.searchChunks("the plumber's").map((m) => m.chunkId)).toHaveLength(3);
+      expect(store.searchChunks('which of them')).toEqual([]);
+    });
+
+    it('should keep the index in sync with the chunks', () => {
+      store.upsertChunks([{ ...topics[2], messages: topics[2].messages.slice(0, 1) }]);
+      store.deleteChunks([topics[1].id]);
+      store.deleteConversation('conv-1');
+
+      expect(store.searchChunks('plumber').map((m) => m.chunkId)).toEqual([topics[0].id]);
+      expect(store.searchChunks('tennis').map((m) => m.chunkId)).toEqual([topics[2].id]);
+      expect(store.searchChunks('morning')).toEqual([]);
+    });
+  });
+
+  describe('Keyword analysis', () => {
+    const FRENCH = `10/02/2023, 08:00 - Agnès: Tu as pris l'antibiotique ? 💊
+10/02/2023, 08:05 - Marc: Oui, et les vitamines
+11/02/2023, 20:00 - Marc: Les enfants dorment 😴`;
+
+    const french = chunkMessages(parseWhatsAppExport(FRENCH).messages, {
+      conversationId: 'conv-3',
+      gapMinutes: 60,
+      minMessages: 1,
+    }).chunks;
+    const upsert = (target: SqliteMetadataStore) => {
+      target.upsertConversation({ ...CONVERSATION, id: 'conv-3', name: 'Maison', participants: ['Agnès', 'Marc'] });
+      target.upsertChunks(french);
+    };
+
+    it('should match plurals, elisions and accents in French', () => {
+      upsert(store);
+
+      expect(store.searchChunks('antibiotiques').map((m) => m.chunkId)).toEqual([french[0].id]);
+      expect(store.searchChunks("d'antibiotique").map((m) => m.chunkId)).toEqual([french[0].id]);
+      expect(store.searchChunks('Agnes').map((m) => m.chunkId)).toEqual([french[0].id]);
+      expect(store.searchChunks('enfant').map((m) => m.chunkId)).toEqual([french[1].id]);
+      expect(store.searchChunks('les 😴')).toEqual([]);
+    });
+
+    it('should re-index when the search languages change', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'rag-metadata-'));
+      const path = join(dir, 'metadata.db');
+      try {
+        const english = new SqliteMetadataStore(path, new Analyzer(['en']));
+        upsert(english);
+        // English rules keep French stopwords and plurals
+        expect(english.searchChunks('les').map((m) => m.chunkId)).toHaveLength(2);
+        english.close();
+
+        const reopened = new SqliteMetadataStore(path, new Analyzer(['fr', 'en']));
+        expect(reopened.searchChunks('les')).toEqual([]);
+        expect(reopened.searchChunks('vitamine').map((m) => m.chunkId)).toEqual([french[0].id]);
+        reopened.close();
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  it('should keep messages of deleted chunks until they are chunked again', () => {
+    store.upsertConversation(CONVERSATION);
+    store.upsertChunks(chunks);
+
+    store.deleteChunks([chunks[2].id]);
+    expect(store.getConversation('conv-1')).toMatchObject({ messageCount: 6, chunkCount: 2 });
+
+    store.upsertChunks([chunks[2]]);
+    expect(store.getChunks([chunks[2].id])[0].messages).toHaveLength(2);
+  });
+
+  it('should describe the stored history without loading every chunk', () => {
+    store.upsertConversation(CONVERSATION);
+    store.upsertChunks(chunks);
+    store.deleteChunks([chunks[0].id]);
+
+    const history = store.getConversationHistory('conv-1');
+    expect(history.chunkIds.sort()).toEqual([chunks[1].id, chunks[2].id].sort());
+    expect(history.messages.map((m) => m.id)).toEqual(
+      [...chunks[1].messages, ...chunks[2].messages].map((m) => m.id),
+    );
+    expect(history.messages[0]).toEqual({
+      id: chunks[1].messages[0].id,
+      timestamp: chunks[1].messages[0].timestamp,
+      sender: 'John',
+    });
+    expect(history.lastChunk?.id).toBe(chunks[2].id);
+    expect(history.lastChunk?.messages).toHaveLength(2);
+    expect(store.getConversationHistory('conv-2')).toEqual({ chunkIds: [], messages: [], lastChunk: null });
+  });
+
+  it('should delete the messages no chunk holds anymore', () => {
+    store.upsertConversation(CONVERSATION);
+    store.upsertChunks(chunks);
+
+    store.deleteChunks([chunks[0].id]);
+    store.deleteDetachedMessages('conv-1');
+
+    expect(store.listChunkIds('conv-1').sort()).toEqual([chunks[1].id, chunks[2].id].sort());
+    expect(store.getConversation('conv-1')).toMatchObject({ messageCount: 4, chunkCount: 2 });
+  });
+
+  it('should delete a conversation with its chunks and messages', () => {
+    store.upsertConversation(CONVERSATION);
+    store.upsertChunks(chunks);
+
+    store.deleteConversation('conv-1');
+
+    expect(store.listConversations()).toEqual([]);
+    expect(store.hasChunks()).toBe(false);
+  });
+
+  it('should backfill conversations from stored chunks', () => {
+    const created = store.importChunks(
+      chunks.map((chunk) => ({ ...chunk, embedding: [], conversationName: 'Family' })),
+    );
+
+    expect(created).toBe(1);
+    expect(store.getConversation('conv-1')).toMatchObject({ name: 'Family', format: 'unknown', messageCount: 6 });
+  });
+
+  describe('Message browsing', () => {
+    const TIMELINE = Array.from(
+      { length: 10 },
+      (_, i) => `16/01/2023, 10:0${i} - ${i % 2 ? 'Jane' : 'John'}: Message ${i}${i === 7 ? ' about the café' : ''}`,
+    ).join('\n');
+    const { chunks: timeline } = chunkMessages(parseWhatsAppExport(TIMELINE).messages, {
+      conversationId: 'conv-1',
+      minMessages: 1,
+      maxMessages: 4,
+    });
+    const contents = (page: { messages: Array<{ content: string }> }) =>
+      page.messages.map((m) => m.content.replace('Message ', ''));
+
+    beforeEach(() => {
+      store.upsertConversation(CONVERSATION);
+      store.upsertChunks(timeline);
+    });
+
+    it('should start from the latest messages and page both ways', () => {
+      const latest = store.listMessages('conv-1', { limit: 4 });
+      expect(contents(latest)).toEqual(['6', '7 about the café', '8', '9']);
+      expect(latest.nextCursor).toBeNull();
+
+      const previous = store.listMessages('conv-1', { limit: 4, before: latest.prevCursor! });
+      expect(contents(previous)).toEqual(['2', '3', '4', '5']);
+
+      const first = store.listMessages('conv-1', { limit: 4, before: previous.prevCursor! });
+      expect(contents(first)).toEqual(['0', '1']);
+      expect(first.prevCursor).toBeNull();
+
+      const next = store.listMessages('conv-1', { limit: 4, after: first.nextCursor! });
+      expect(contents(next)).toEqual(['2', '3', '4', '5']);
+    });
+
+    it('should center a page on a message or a timestamp', () => {
+      const messageId = timeline[1].messages[1].id;
+      const byId = store.listMessages('conv-1', { limit: 4, around: messageId });
+      expect(contents(byId)).toEqual(['3', '4', '5', '6']);
+      expect(byId.anchorId).toBe(messageId);
+      expect(byId.messages[2].chunkId).toBe(timeline[1].id);
+
+      const byTime = store.listMessages('conv-1', { limit: 4, around: new Date(2023, 0, 16, 10, 8, 30).toISOString() });
+      expect(contents(byTime)).toEqual(['6', '7 about the café', '8', '9']);
+      expect(byTime.messages.find((m) => m.id === byTime.anchorId)?.content).toBe('Message 9');
+
+      expect(() => store.listMessages('conv-1', { around: 'not-a-message' })).toThrow('neither a message ID');
+    });
+
+    it('should filter by sender, type and content', () => {
+      expect(contents(store.listMessages('conv-1', { sender: 'Jane', limit: 3 }))).toEqual([
+        '5',
+        '7 about the café',
+        '9',
+      ]);
+      expect(contents(store.listMessages('conv-1', { search: 'CAFÉ' }))).toEqual(['7 about the café']);
+      expect(store.listMessages('conv-1', { type: 'media' }).messages).toEqual([]);
+    });
+
+    it('should reject invalid cursors', () => {
+      expect(() => store.listMessages('conv-1', { before: 'garbage' })).toThrow('Invalid cursor');
+    });
+  });
+
+  it('should record ingestion history', () => {
+    store.recordJobStart({ id: 'job-1', fileName: 'chat.txt', options: { incremental: true } });
+    store.updateJob('job-1', { conversationId: 'conv-1', format: 'whatsapp' });
+    store.updateJob('job-1', { status: 'completed', result: { totalMessages: 6 } });
+    store.recordJobStart({ id: 'job-2', fileName: 'other.txt', options: {} });
+
+    const [job] = store.listJobs({ conversationId: 'conv-1' });
+    expect(job).toMatchObject({
+      id: 'job-1',
+      fileName: 'chat.txt',
+      status: 'completed',
+      format: 'whatsapp',
+      result: { totalMessages: 6 },
+    });
+    expect(job.finishedAt).toBeInstanceOf(Date);
+    expect(store.listJobs()).toHaveLength(2);
+  });
+});
@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import { parseWhatsAppExport } from '../src/core/parser/whatsapp.js';
+import { detectDateOrder } from '../src/core/parser/dates.js';
+import { streamWhatsAppLines } from '../src/core/parser/stream.js';
+
+function readFixture(name: string): string {
+  return readFileSync(join(__dirname, 'fixtures', name), 'utf-8');
+}
 
 describe('WhatsApp Parser', () => {
   describe('US Date Format', () => {
@@ -60,6 +68,247 @@ describe('WhatsApp Parser', () => {
     });
   });
 
+  describe('iOS Export Format', () => {
+    const locales: Array<{ locale: string; participants: string[]; afternoonHour: number }> = [
+      { locale: 'en-US', participants: ['Jane Doe', 'John Smith'], afternoonHour: 12 },
+      { locale: 'en-GB', participants: ['Jane Doe', 'John Smith'], afternoonHour: 14 },
+      { locale: 'fr-FR', participants: ['Agnès Martin', 'Hervé Dupont'], afternoonHour: 14 },
+      { locale: 'de-DE', participants: ['Hans Müller', 'Jürgen Weiß'], afternoonHour: 14 },
+      { locale: 'es-ES', participants: ['José García', 'María López'], afternoonHour: 14 },
+      { locale: 'pt-BR', participants: ['Ana Souza', 'João Silva'], afternoonHour: 14 },
+    ];
+
+    for (const { locale, participants, afternoonHour } of locales) {
+      it(`should parse the ${locale} iOS export`, () => {
+        const result = parseWhatsAppExport(readFixture(`ios/${locale}.txt`));
+
+        expect(result.messages).toHaveLength(5);
+        expect(result.participants).toEqual(participants);
+
+        const [system, first, multiline, image, attached] = result.messages;
+
+        expect(system.type).toBe('system');
+        expect(system.timestamp.getFullYear()).toBe(2023);
+        expect(system.timestamp.getMonth()).toBe(0);
+        expect(system.timestamp.getDate()).toBe(15);
+        expect(system.timestamp.getHours()).toBe(10);
+        expect(system.timestamp.getSeconds()).toBe(45);
+
+        expect(first.type).toBe('text');
+        expect(multiline.content.split('\n')).toHaveLength(2);
+
+        expect(image.type).toBe('media');
+        expect(image.mediaType).toBe('image');
+        expect(image.timestamp.getHours()).toBe(afternoonHour);
+        expect(image.content).not.toMatch(/\u200E/);
+
+        expect(attached.type).toBe('media');
+        expect(attached.mediaType).toBe('image');
+      });
+    }
+
+    it('should keep the original line (with direction marks) in rawLine', () => {
+      const line = '\u200E[15/01/2023, 14:05:13] John: \u200Eimage omitted';
+      const result = parseWhatsAppExport(line);
+
+      expect(result.messages[0].rawLine).toBe(line);
+      expect(result.messages[0].content).toBe('image omitted');
+    });
+
+    it('should handle narrow no-break spaces before AM/PM', () => {
+      const result = parseWhatsAppExport('[1/15/23, 2:30:00\u202FPM] John: Afternoon');
+
+      expect(result.messages[0].timestamp.getHours()).toBe(14);
+      expect(result.messages[0].sender).toBe('John');
+      expect(result.messages[0].content).toBe('Afternoon');
+    });
+  });
+
+  describe('Date Order Detection', () => {
+    it('should use a day over 12 anywhere in the file for every line', () => {
+      const content = `03/04/2023, 10:00 - Marie: Ambiguous
+15/04/2023, 10:00 - Pierre: Only valid day-first`;
+
+      const result = parseWhatsAppExport(content);
+
+      expect(result.dateOrder.order).toBe('DMY');
+      expect(result.dateOrder.source).toBe('detected');
+      expect(result.dateOrder.confidence).toBeGreaterThan(0.9);
+      expect(result.messages[0].timestamp.getMonth()).toBe(3); // April
+      expect(result.messages[0].timestamp.getDate()).toBe(3);
+    });
+
+    it('should detect month-first files with a field over 12 in second position', () => {
+      const content = `03/04/2023, 10:00 AM - John: Ambiguous
+03/24/2023, 10:00 AM - Jane: Only valid month-first`;
+
+      const result = parseWhatsAppExport(content);
+
+      expect(result.dateOrder.order).toBe('MDY');
+      expect(result.messages[0].timestamp.getMonth()).toBe(2); // March
+      expect(result.messages[0].timestamp.getDate()).toBe(4);
+    });
+
+    it('should use timestamp progression when every line is ambiguous', () => {
+      const lines = [
+        '10/04/2023, 9:00 am - Anna: a',
+        '11/04/2023, 9:00 am - Ben: b',
+        '12/04/2023, 9:00 am - Anna: c',
+        '01/05/2023, 9:00 am - Ben: d',
+        '02/05/2023, 9:00 am - Anna: e',
+        '01/06/2023, 9:00 am - Ben: f',
+      ];
+
+      const detection = detectDateOrder(lines);
+
+      expect(detection.order).toBe('DMY');
+      expect(detection.evidence.backwardsIfMonthFirst).toBeGreaterThan(
+        detection.evidence.backwardsIfDayFirst,
+      );
+      expect(detection.evidence.amPmRatio).toBe(1);
+    });
+
+    it('should lean month-first for AM/PM exports without other evidence', () => {
+      const detection = detectDateOrder(['1/2/23, 10:30 AM - John: Hello']);
+
+      expect(detection.order).toBe('MDY');
+      expect(detection.confidence).toBeLessThan(0.9);
+    });
+
+    it('should lean day-first for 24-hour exports without other evidence', () => {
+      const detection = detectDateOrder(['01/02/2023, 10:30 - Marie: Bonjour']);
+
+      expect(detection.order).toBe('DMY');
+      expect(detection.confidence).toBeLessThan(0.9);
+    });
+
+    it('should accept an explicit dateOrder override', () => {
+      const content = `03/04/2023, 10:00 - Marie: Bonjour`;
+
+      const result = parseWhatsAppExport(content, { dateOrder: 'MDY' });
+
+      expect(result.dateOrder).toMatchObject({ order: 'MDY', source: 'override', confidence: 1 });
+      expect(result.messages[0].timestamp.getMonth()).toBe(2); // March
+    });
+
+    it('should report a default with zero confidence when there are no dates', () => {
+      const result = parseWhatsAppExport('');
+
+      expect(result.dateOrder).toMatchObject({ order: 'DMY', source: 'default', confidence: 0 });
+    });
+  });
+
+  describe('Streaming Parser', () => {
+    async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+      const result: T[] = [];
+      for await (const item of items) result.push(item);
+      return result;
+    }
+
+    it('should yield the same messages as the whole-file parser', async () => {
+      const content = `15/01/2023, 10:30 - John: First line
+still the first message
+15/01/2023, 10:31 - John created group "Friends"
+3/02/2023, 09:00 - Jane: <Media omitted>
+3/02/2023, 09:05 - Jane: Last one`;
+      const lines = content.split('\n');
+
+      const expected = parseWhatsAppExport(content);
+      const stream = await streamWhatsAppLines(async function* () {
+        yield* lines;
+      });
+      const messages = await collect(stream.messages);
+
+      expect(stream.dateOrder).toEqual(expected.dateOrder);
+      expect(messages.map(({ id: _id, ...m }) => m)).toEqual(
+        expected.messages.map(({ id: _id, ...m }) => m),
+      );
+    });
+
+    it('should only read the lines once when the date order is given', async () => {
+      let reads = 0;
+      const stream = await streamWhatsAppLines(
+        async function* () {
+          reads++;
+          yield '1/15/23, 10:30 AM - John: Hello';
+        },
+        { dateOrder: 'MDY' },
+      );
+      const messages = await collect(stream.messages);
+
+      expect(reads).toBe(1);
+      expect(messages).toHaveLength(1);
+      expect(stream.dateOrder.source).toBe('override');
+    });
+  });
+
+  describe('Diagnostics', () => {
+    it('should report format, locale and line counts', () => {
+      const content = `15/01/2023, 10:30 - Les messages et les appels sont chiffrés de bout en bout.
+15/01/2023, 10:31 - Marie: Salut
+ça va ?
+15/01/2023, 10:32 - Jean: <Médias omis>`;
+
+      const { diagnostics } = parseWhatsAppExport(content);
+
+      expect(diagnostics).toMatchObject({
+        format: 'EU',
+        locale: 'fr',
+        totalLines: 4,
+        continuationLines: 1,
+      });
+      expect(diagnostics?.orphanLines.count).toBe(0);
+    });
+
+    it('should sample orphan lines before the first message', () => {
+      const content = `WhatsApp Chat with Family
+Exported on 2023-02-01
+
+1/15/23, 10:30 AM - John: Hello`;
+
+      const { diagnostics } = parseWhatsAppExport(content);
+
+      expect(diagnostics?.orphanLines).toEqual({
+        count: 2,
+        samples: [
+          { lineNumber: 1, line: 'WhatsApp Chat with Family' },
+          { lineNumber: 2, line: 'Exported on 2023-02-01' },
+        ],
+      });
+    });
+
+    it('should report timestamps that go backwards', () => {
+      const content = `15/01/2023, 10:30 - John: First
+15/01/2023, 09:00 - Jane: Earlier?
+15/01/2023, 11:00 - John: Later`;
+
+      const { diagnostics } = parseWhatsAppExport(content);
+
+      expect(diagnostics?.backwardsTimestamps.count).toBe(1);
+      expect(diagnostics?.backwardsTimestamps.samples[0].lineNumber).toBe(2);
+    });
+
+    it('should flag suspected sender/content split errors', () => {
+      const content = `15/01/2023, 10:30 - https://example.com/page
+15/01/2023, 10:31 - John changed the subject to "Trip: 2023"
+15/01/2023, 10:32 - Jane: Normal message with a time 10:45`;
+
+      const { diagnostics } = parseWhatsAppExport(content);
+      const reasons = diagnostics?.suspectedSenderSplits.samples.map((s) => s.reason);
+
+      expect(diagnostics?.suspectedSenderSplits.count).toBe(2);
+      expect(reasons).toEqual(['URL split at its colon', 'system message text taken as sender']);
+    });
+
+    it('should cap the number of samples', () => {
+      const orphans = Array.from({ length: 8 }, (_, i) => `garbage line ${i}`).join('\n');
+      const { diagnostics } = parseWhatsAppExport(`${orphans}\n1/15/23, 10:30 AM - John: Hello`);
+
+      expect(diagnostics?.orphanLines.count).toBe(8);
+      expect(diagnostics?.orphanLines.samples).toHaveLength(5);
+    });
+  });
+
   describe('Multi-line Messages', () => {
     it('should handle multi-line messages', () => {
       const content = `1/15/23, 10:30 AM - John: This is line 1
@@ -122,6 +371,77 @@ This is line 3
     });
   });
 
+  describe('Structured Content', () => {
+    it('should flag edited messages and strip the marker', () => {
+      const content = `1/15/23, 10:30 AM - John: See you at 8 <This message was edited>
+[15/01/2023, 10:31:00] Marie: À demain ‎<Ce message a été modifié>`;
+
+      const result = parseWhatsAppExport(content);
+
+      expect(result.messages[0]).toMatchObject({ content: 'See you at 8', edited: true, type: 'text' });
+      expect(result.messages[1]).toMatchObject({ content: 'À demain', edited: true });
+    });
+
+    it('should parse polls with their options and votes', () => {
+      const content = `1/15/23, 10:30 AM - John: POLL:
+Where should we eat?
+OPTION: Pizza (3 votes)
+OPTION: Sushi (1 vote)
+OPTION: Tacos (0 votes)`;
+
+      const [message] = parseWhatsAppExport(content).messages;
+
+      expect(message.type).toBe('text');
+      expect(message.content).toBe('Where should we eat?');
+      expect(message.poll).toEqual({
+        question: 'Where should we eat?',
+        options: [
+          { text: 'Pizza', votes: 3 },
+          { text: 'Sushi', votes: 1 },
+          { text: 'Tacos', votes: 0 },
+        ],
+      });
+    });
+
+    it('should parse shared locations into coordinates', () => {
+      const content = `15/01/2023, 10:30 - Jean: position : https://maps.google.com/?q=48.8566,2.3522
+15/01/2023, 10:31 - Jean: Check https://maps.google.com/?q=1,2 for the route`;
+
+      const [shared, mentioned] = parseWhatsAppExport(content).messages;
+
+      expect(shared).toMatchObject({ type: 'media', mediaType: 'location' });
+      expect(shared.location).toEqual({
+        latitude: 48.8566,
+        longitude: 2.3522,
+        url: 'https://maps.google.com/?q=48.8566,2.3522',
+      });
+      // A link inside a sentence stays a text message
+      expect(mentioned.type).toBe('text');
+      expect(mentioned.location).toBeUndefined();
+    });
+
+    it('should read the contact name of shared cards', () => {
+      const content = `1/15/23, 10:30 AM - John: Jane Doe.vcf (file attached)
+[15/01/2023, 10:31:00] Marie: <attached: 00000012-Paul Martin.vcf>`;
+
+      const [android, ios] = parseWhatsAppExport(content).messages;
+
+      expect(android).toMatchObject({ mediaType: 'contact', contactName: 'Jane Doe' });
+      expect(ios).toMatchObject({ mediaType: 'contact', contactName: 'Paul Martin' });
+    });
+
+    it('should flag view-once media', () => {
+      const content = `1/15/23, 10:30 AM - John: <View once voice message omitted>
+1/15/23, 10:31 AM - Jane: I only view once a week`;
+
+      const [viewOnce, text] = parseWhatsAppExport(content).messages;
+
+      expect(viewOnce).toMatchObject({ type: 'media', viewOnce: true });
+      expect(text.type).toBe('text');
+      expect(text.viewOnce).toBeUndefined();
+    });
+  });
+
   describe('Deleted Messages', () => {
     it('should detect deleted messages', () => {
       const content = `1/15/23, 10:30 AM - John: This message was deleted
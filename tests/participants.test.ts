@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadAliases, matchParticipants, ParticipantResolver } from '../src/rag/participants.js';
+
+const SENDERS = ['Hervé Dupont', 'Anne Dupont', 'Marie Curie', 'Marie Martin', 'Jean-Pierre', '+33 6 12 34 56 78'];
+
+describe('Participant Resolution', () => {
+  it('should match names regardless of accents and case', () => {
+    expect(matchParticipants('What did herve say?', SENDERS)).toEqual([
+      { mention: 'herve', participants: ['Hervé Dupont'] },
+    ]);
+    expect(matchParticipants('Qu’a dit JEAN-PIERRE ?', SENDERS)).toEqual([
+      { mention: 'JEAN-PIERRE', participants: ['Jean-Pierre'] },
+    ]);
+  });
+
+  it('should match partial names, preferring the senders sharing most words', () => {
+    expect(matchParticipants('What did the Duponts and Marie plan?', SENDERS)).toEqual([
+      { mention: 'Duponts', participants: ['Hervé Dupont', 'Anne Dupont'] },
+      { mention: 'Marie', participants: ['Marie Curie', 'Marie Martin'] },
+    ]);
+    expect(matchParticipants('Did Marie Martin call Dupont?', SENDERS)).toEqual([
+      { mention: 'Marie Martin', participants: ['Marie Martin'] },
+      { mention: 'Dupont', participants: ['Hervé Dupont', 'Anne Dupont'] },
+    ]);
+    expect(matchParticipants('Hervé Dupont', SENDERS)).toEqual([
+      { mention: 'Hervé Dupont', participants: ['Hervé Dupont'] },
+    ]);
+  });
+
+  it('should tolerate a typo in longer names', () => {
+    expect(matchParticipants('what did Herve Dupond say', SENDERS)).toEqual([
+      { mention: 'Herve Dupond', participants: ['Hervé Dupont'] },
+    ]);
+    expect(matchParticipants('Any news from Anna?', SENDERS)).toEqual([]);
+  });
+
+  it('should match phone numbers in national or international form', () => {
+    expect(matchParticipants('What did 06 12 34 56 78 send?', SENDERS)).toEqual([
+      { mention: '06 12 34 56 78', participants: ['+33 6 12 34 56 78'] },
+    ]);
+    expect(matchParticipants('and +33612345678?', SENDERS)[0].participants).toEqual(['+33 6 12 34 56 78']);
+    expect(matchParticipants('call 06 99 99 99 99', SENDERS)).toEqual([]);
+  });
+
+  it('should match aliases before names', () => {
+    const aliases = { Papa: 'herve dupont', 'Mamie Jo': ['Anne Dupont', '0612345678'], Boss: 'Someone New' };
+
+    expect(matchParticipants("Qu'a dit papa à Mamie Jo ?", SENDERS, aliases)).toEqual([
+      { mention: 'papa', participants: ['Hervé Dupont'] },
+      { mention: 'Mamie Jo', participants: ['Anne Dupont', '+33 6 12 34 56 78'] },
+    ]);
+    expect(matchParticipants('What did the boss say?', SENDERS, aliases)).toEqual([
+      { mention: 'boss', participants: ['Someone New'] },
+    ]);
+  });
+
+  it('should ignore common words', () => {
+    expect(matchParticipants('What did we say about the trip?', ['We Are Family', 'The Trip'])).toEqual([
+      { mention: 'trip', participants: ['The Trip'] },
+    ]);
+  });
+
+  describe('Aliases file', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'rag-aliases-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read aliases, and none when the file is missing', async () => {
+      const path = join(dir, 'aliases.json');
+      expect(loadAliases(path)).toEqual({});
+
+      await writeFile(path, JSON.stringify({ Papa: 'Hervé Dupont' }));
+      expect(loadAliases(path)).toEqual({ Papa: 'Hervé Dupont' });
+
+      await writeFile(path, JSON.stringify({ Papa: 3 }));
+      expect(() => loadAliases(path)).toThrow(`Invalid aliases file ${path}`);
+    });
+
+    it('should resolve against the senders of the conversations', async () => {
+      const path = join(dir, 'aliases.json');
+      await writeFile(path, JSON.stringify({ Papa: 'Hervé Dupont' }));
+      const resolver = new ParticipantResolver({ listParticipants: () => ['Hervé Dupont', 'Léa', 'Marc'] }, path);
+
+      expect(resolver.resolve('Papa et lea')).toEqual([
+        { mention: 'Papa', participants: ['Hervé Dupont'] },
+        { mention: 'lea', participants: ['Léa'] },
+      ]);
+      expect(resolver.resolveFilter('marc')).toEqual(['Marc']);
+      expect(resolver.resolveFilter('Nobody')).toEqual(['Nobody']);
+    });
+
+    it('should keep the previous aliases while the file is invalid', async () => {
+      const path = join(dir, 'aliases.json');
+      await writeFile(path, JSON.stringify({ Papa: 'Hervé Dupont' }));
+      const resolver = new ParticipantResolver({ listParticipants: () => ['Hervé Dupont', 'Léa'] }, path);
+      expect(resolver.resolveFilter('papa')).toEqual(['Hervé Dupont']);
+      expect(resolver.aliasesError).toBeNull();
+
+      // A later modification time, so that the edit is seen whatever the file system precision
+      await writeFile(path, '{ "Papa": ');
+      await utimes(path, new Date(Date.now() + 10_000), new Date(Date.now() + 10_000));
+
+      expect(resolver.resolveFilter('papa')).toEqual(['Hervé Dupont']);
+      expect(resolver.resolve('lea')).toEqual([{ mention: 'lea', participants: ['Léa'] }]);
+      expect(resolver.aliasesError).toContain(`Invalid aliases file ${path}`);
+
+      // Fixed by a later edit
+      await writeFile(path, JSON.stringify({ Papa: 'Léa' }));
+      await utimes(path, new Date(Date.now() + 20_000), new Date(Date.now() + 20_000));
+
+      expect(resolver.resolveFilter('papa')).toEqual(['Léa']);
+      expect(resolver.aliasesError).toBeNull();
+    });
+  });
+});
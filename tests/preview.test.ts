@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { chunkMessages, getChunkText } from '../src/core/chunker/temporal.js';
+import { ChunkingPreview } from '../src/ingestion/preview.js';
+import type { ParsedMessage } from '../src/core/parser/types.js';
+
+function createMessages(count: number, gapEvery: number): ParsedMessage[] {
+  let time = new Date('2023-01-15T08:00:00').getTime();
+  return Array.from({ length: count }, (_, i) => {
+    time += (i % gapEvery === 0 ? 3 * 60 : 1) * 60 * 1000;
+    return {
+      id: `msg-${i}`,
+      sender: i % 2 ? 'Jane' : 'John',
+      content: `Message ${i}`,
+      timestamp: new Date(time),
+      type: 'text' as const,
+      rawLine: '',
+    };
+  });
+}
+
+describe('ChunkingPreview', () => {
+  it('should report chunk sizes, boundaries and the embedding tokens', () => {
+    const { chunks } = chunkMessages(createMessages(100, 10), { gapMinutes: 60, maxMessages: 8, minMessages: 1 });
+    const preview = new ChunkingPreview({ maxMessages: 8, maxChars: 4000, getText: getChunkText, maxEmbedChars: 100 });
+
+    chunks.forEach((chunk) => preview.add(chunk));
+    const report = preview.getReport();
+
+    expect(report.totalChunks).toBe(20);
+    expect(report.boundaries).toEqual({ time_gap: 9, max_messages: 10, max_chars: 0, end_of_input: 1 });
+    expect(report.chunkSizes.averageMessages).toBe(5);
+    expect(report.chunkSizes.messages.find((b) => b.min === 2)?.count).toBe(10);
+    expect(report.chunkSizes.messages.find((b) => b.max === null)).toEqual({ min: 8, max: null, count: 10 });
+    expect(report.chunkSizes.chars.reduce((sum, b) => sum + b.count, 0)).toBe(20);
+    expect(report.chunkSizes.truncated).toBe(10);
+    expect(report.tokens).toBe(chunks.reduce((sum, c) => sum + Math.ceil(getChunkText(c).length / 4), 0));
+  });
+
+  it('should pick samples spread over the whole export', () => {
+    const { chunks } = chunkMessages(createMessages(200, 1), { gapMinutes: 60, minMessages: 1 });
+    const preview = new ChunkingPreview({
+      maxMessages: 50,
+      maxChars: 4000,
+      sampleCount: 3,
+      getText: getChunkText,
+      maxEmbedChars: 6000,
+    });
+
+    chunks.forEach((chunk) => preview.add(chunk));
+    const { samples } = preview.getReport();
+
+    expect(samples).toHaveLength(3);
+    expect(samples[0].id).toBe(chunks[0].id);
+    expect(samples[2].startTime.getTime()).toBeGreaterThan(chunks[150].startTime.getTime());
+    expect(samples[1].text).toContain('Message');
+  });
+
+  it('should report an empty export', () => {
+    const preview = new ChunkingPreview({ maxMessages: 50, maxChars: 4000, getText: getChunkText, maxEmbedChars: 6000 });
+
+    const report = preview.getReport();
+
+    expect(report.totalChunks).toBe(0);
+    expect(report.chunkSizes.averageChars).toBe(0);
+    expect(report.samples).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { estimateProgress } from '../src/ingestion/progress.js';
+import { streamWhatsAppLines } from '../src/core/parser/stream.js';
+
+describe('Ingestion Progress', () => {
+  it('should extrapolate the time left from the share read', () => {
+    expect(estimateProgress(0.25, 30_000)).toEqual({ percent: 25, etaSeconds: 90 });
+    expect(estimateProgress(1, 30_000)).toEqual({ percent: 100, etaSeconds: 0 });
+  });
+
+  it('should not guess an ETA too early or without a read position', () => {
+    expect(estimateProgress(0.01, 1_000)).toEqual({ percent: 1 });
+    expect(estimateProgress(undefined, 1_000)).toEqual({});
+  });
+
+  it('should report how much of a streamed export was read', async () => {
+    const lines = [
+      '15/01/2023, 10:30 - John: Hello',
+      '15/01/2023, 10:31 - Jane: Hi',
+      'still Jane',
+      '15/01/2023, 10:32 - John: Bye',
+    ];
+    async function* openLines() {
+      yield* lines;
+    }
+
+    const stream = await streamWhatsAppLines(openLines);
+    const seen: number[] = [];
+    for await (const _message of stream.messages) {
+      seen.push(stream.getReadProgress!());
+    }
+
+    // A message is complete once the next header is read
+    expect(seen).toEqual([0.5, 1, 1]);
+  });
+});
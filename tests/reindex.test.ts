@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseWhatsAppExport } from '../src/core/parser/whatsapp.js';
+import { chunkMessages } from '../src/core/chunker/temporal.js';
+import { config } from '../src/config/index.js';
+import { EmbeddingScheduler } from '../src/ingestion/scheduler.js';
+import { copyChunks } from '../src/ingestion/reindex.js';
+import { getCollectionName } from '../src/storage/qdrant.js';
+import type { StoredChunk } from '../src/storage/types.js';
+import type { EmbedProvider } from '../src/providers/types.js';
+
+const CHAT = `15/01/2023, 09:00 - John: Morning
+15/01/2023, 11:00 - Jane: Coffee?
+15/01/2023, 14:00 - John: Lunch?
+15/01/2023, 18:00 - Jane: Dinner at 8
+15/01/2023, 22:00 - John: Good night`;
+
+function storedChunks(): StoredChunk[] {
+  const messages = parseWhatsAppExport(CHAT).messages;
+  return chunkMessages(messages, { conversationId: 'family', gapMinutes: 60, minMessages: 1 }).chunks.map(
+    (chunk) => ({ ...chunk, embedding: [0.1, 0.2], conversationName: 'Family', summary: `About ${chunk.id}` }),
+  );
+}
+
+function createProvider(): EmbedProvider {
+  return {
+    name: 'openai',
+    model: 'text-embedding-3-small',
+    dimensions: 3,
+    embed: vi.fn(async () => [1, 2, 3]),
+    embedBatch: vi.fn(async (texts: string[]) => texts.map(() => [1, 2, 3])),
+    isAvailable: vi.fn(async () => true),
+  };
+}
+
+describe('Reindexing', () => {
+  it('should name collections after the embedding model', () => {
+    expect(getCollectionName({ name: 'ollama', model: 'nomic-embed-text', dimensions: 768 })).toBe(
+      `${config.qdrant.collection}_ollama_nomic_embed_text_768`,
+    );
+    expect(getCollectionName({ name: 'openai', model: 'text-embedding-3-small', dimensions: 1536 })).toBe(
+      `${config.qdrant.collection}_openai_text_embedding_3_small_1536`,
+    );
+  });
+
+  it('should re-embed every chunk, keeping its payload', async () => {
+    const chunks = storedChunks();
+    const source = {
+      async *scrollPages() {
+        yield chunks.slice(0, 3).map((chunk) => ({ ...chunk, embedding: [] }));
+        yield chunks.slice(3).map((chunk) => ({ ...chunk, embedding: [] }));
+      },
+    };
+    const target = new Map<string, StoredChunk>();
+    const provider = createProvider();
+    const scheduler = new EmbeddingScheduler(provider, { concurrency: 1, batchSize: 10, maxRetries: 0 });
+    const onProgress = vi.fn();
+
+    const copied = await copyChunks(
+      source,
+      { upsertBatch: async (batch) => batch.forEach((chunk) => target.set(chunk.id, chunk)) },
+      scheduler,
+      onProgress,
+    );
+
+    expect(copied).toBe(chunks.length);
+    expect(onProgress).toHaveBeenLastCalledWith(chunks.length);
+    for (const chunk of chunks) {
+      expect(target.get(chunk.id)).toMatchObject({
+        embedding: [1, 2, 3],
+        conversationName: 'Family',
+        summary: chunk.summary,
+        messages: chunk.messages,
+      });
+    }
+  });
+
+  it('should pick up chunks stored while copying', async () => {
+    const chunks = storedChunks();
+    const stored = chunks.slice(0, 2);
+    const source = {
+      async *scrollPages() {
+        yield [...stored];
+        // An ingestion still writing to the previous collection
+        stored.push(...chunks.slice(2));
+      },
+    };
+    const target = new Map<string, StoredChunk>();
+    const provider = createProvider();
+    const scheduler = new EmbeddingScheduler(provider, { concurrency: 1, batchSize: 10, maxRetries: 0 });
+
+    const copied = await copyChunks(
+      source,
+      { upsertBatch: async (batch) => batch.forEach((chunk) => target.set(chunk.id, chunk)) },
+      scheduler,
+    );
+
+    expect(copied).toBe(chunks.length);
+    expect([...target.keys()].sort()).toEqual(chunks.map((chunk) => chunk.id).sort());
+    expect(provider.embedBatch).toHaveBeenCalledTimes(2);
+  });
+});
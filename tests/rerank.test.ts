@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { parseWhatsAppExport } from '../src/core/parser/whatsapp.js';
+import { chunkMessages } from '../src/core/chunker/temporal.js';
+import { CrossEncoderReranker, LLMReranker, parseRanking } from '../src/rag/rerank.js';
+import type { ChatOptions, LLMProvider, Message } from '../src/providers/types.js';
+import type { StoredChunk } from '../src/storage/types.js';
+
+const EXPORT = `15/01/2023, 09:00 - John: The doctor recommended rest
+15/01/2023, 09:01 - Jane: And antibiotics?
+16/01/2023, 12:00 - John: Lunch at the café
+17/01/2023, 18:00 - Jane: The doctor's office called back`;
+
+const chunks: StoredChunk[] = chunkMessages(parseWhatsAppExport(EXPORT).messages, {
+  conversationId: 'conv-1',
+  gapMinutes: 60,
+  minMessages: 1,
+}).chunks.map((chunk) => ({ ...chunk, embedding: [] }));
+
+/**
+ * LLM answering a fixed text, recording the prompts it gets
+ */
+class FixedLLM implements LLMProvider {
+  readonly name = 'fixed';
+  prompts: string[] = [];
+
+  constructor(private answer: string) {}
+
+  async generate(): Promise<string> {
+    return this.answer;
+  }
+
+  async *generateStream(): AsyncIterable<string> {
+    yield this.answer;
+  }
+
+  async chat(messages: Message[], _options?: ChatOptions): Promise<string> {
+    this.prompts.push(messages[messages.length - 1].content);
+    return this.answer;
+  }
+
+  async *chatStream(): AsyncIterable<string> {
+    yield this.answer;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+describe('Rerankers', () => {
+  it('should parse the ranking of an LLM', () => {
+    expect(parseRanking('[3] > [1] > [2]', 3)).toEqual([2, 0, 1]);
+    expect(parseRanking('2, 2, 7, 0, 1', 3)).toEqual([1, 0]);
+    expect(parseRanking('None of them', 3)).toEqual([]);
+  });
+
+  it('should score chunks by their rank in the LLM answer', async () => {
+    const llm = new FixedLLM('[3] > [1]');
+    const scores = await new LLMReranker(llm).rerank('What did the doctor recommend?', chunks);
+
+    expect(chunks).toHaveLength(3);
+    expect(scores[2]).toBe(1);
+    expect(scores[0]).toBeCloseTo(2 / 3);
+    expect(scores[1]).toBe(0);
+    expect(llm.prompts[0]).toContain('What did the doctor recommend?');
+    expect(llm.prompts[0]).toMatch(/\[2\]\n.*Lunch at the café/);
+  });
+
+  it('should keep the order when the LLM answers no ranking', async () => {
+    const llm = new FixedLLM('I cannot tell');
+    expect(await new LLMReranker(llm).rerank('doctor', chunks)).toEqual([0, 0, 0]);
+    expect(await new LLMReranker(llm).rerank('doctor', chunks.slice(0, 1))).toEqual([1]);
+    expect(llm.prompts).toHaveLength(1);
+  });
+
+  it('should turn cross-encoder logits into probabilities', async () => {
+    const passages: string[][] = [];
+    const reranker = new CrossEncoderReranker({
+      name: 'test',
+      score: async (_query, texts) => {
+        passages.push(texts);
+        return texts.map((text) => (text.includes('doctor') ? 2 : -2));
+      },
+    });
+
+    const scores = await reranker.rerank('doctor', chunks);
+    expect(reranker.name).toBe('cross-encoder:test');
+    expect(passages[0][0]).toContain('The doctor recommended rest');
+    expect(scores[0]).toBeCloseTo(1 / (1 + Math.exp(-2)));
+    expect(scores[1]).toBeCloseTo(1 / (1 + Math.exp(2)));
+    expect(scores[0]).toBeGreaterThan(0.5);
+  });
+
+  it('should reject a cross-encoder answering too few scores', async () => {
+    const reranker = new CrossEncoderReranker({ name: 'broken', score: async () => [0] });
+    await expect(reranker.rerank('doctor', chunks)).rejects.toThrow('returned 1 scores for 3 chunks');
+  });
+});
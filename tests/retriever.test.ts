@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseWhatsAppExport } from '../src/core/parser/whatsapp.js';
+import { chunkMessages } from '../src/core/chunker/temporal.js';
+import type { Reranker } from '../src/rag/rerank.js';
+import type { StoredChunk } from '../src/storage/types.js';
+
+const EXPORT = `15/01/2023, 09:00 - John: The doctor recommended rest
+16/01/2023, 12:00 - John: Lunch at the café
+17/01/2023, 18:00 - Jane: The doctor's office called back`;
+
+const chunks: StoredChunk[] = chunkMessages(parseWhatsAppExport(EXPORT).messages, {
+  conversationId: 'conv-1',
+  gapMinutes: 60,
+  minMessages: 1,
+}).chunks.map((chunk) => ({ ...chunk, embedding: [] }));
+
+vi.mock('../src/providers/index.js', () => ({
+  getEmbedProvider: () => ({ embed: async () => [1, 0] }),
+  getLLMProvider: vi.fn(),
+}));
+
+vi.mock('../src/storage/index.js', () => ({
+  getVectorStore: () => ({
+    search: async () => chunks.map((chunk, i) => ({ chunk, score: 0.9 - i * 0.1 })),
+  }),
+  getMetadataStore: () => ({
+    getDefaultConversationId: () => null,
+    searchChunks: () => [],
+    getChunks: () => [],
+  }),
+}));
+
+const { Retriever } = await import('../src/rag/retriever.js');
+
+describe('Retriever', () => {
+  it('should rerank the fused candidates', async () => {
+    const reranker: Reranker = { name: 'reversed', rerank: async (_, list) => list.map((_, i) => i / list.length) };
+    const result = await new Retriever(reranker).retrieve('doctor', { topK: 2 });
+
+    expect(result.chunks.map((c) => c.id)).toEqual([chunks[2].id, chunks[1].id]);
+    expect(result.rerankScores).toHaveLength(2);
+    expect(result.rerankError).toBeUndefined();
+  });
+
+  it('should keep the fused ranking when the reranker fails', async () => {
+    const reranker: Reranker = {
+      name: 'failing',
+      rerank: async () => {
+        throw new Error('model unavailable');
+      },
+    };
+
+    const result = await new Retriever(reranker).retrieve('doctor', { topK: 2 });
+
+    expect(result.chunks.map((c) => c.id)).toEqual([chunks[0].id, chunks[1].id]);
+    expect(result.scores).toHaveLength(2);
+    expect(result.rerankScores).toBeUndefined();
+    expect(result.rerankError).toBe('model unavailable');
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { EmbeddingScheduler, mapConcurrent } from '../src/ingestion/scheduler.js';
+import { RateLimiter } from '../src/providers/rate-limit.js';
+import { getRetryDelay, isInputTooLargeError, isRetryableError, withRetry } from '../src/providers/retry.js';
+import type { EmbedProvider } from '../src/providers/types.js';
+
+function httpError(status: number, message: string, headers?: Record<string, string>) {
+  return Object.assign(new Error(message), { status, headers });
+}
+
+function createProvider(embedBatch: (texts: string[]) => Promise<number[][]>) {
+  const provider = {
+    name: 'ollama',
+    model: 'nomic-embed-text',
+    dimensions: 1,
+    embed: vi.fn(async (text: string) => (await embedBatch([text]))[0]),
+    embedBatch: vi.fn(embedBatch),
+    isAvailable: vi.fn(async () => true),
+  };
+  return provider satisfies EmbedProvider;
+}
+
+const embedLengths = async (texts: string[]) => texts.map((text) => [text.length]);
+
+const noDelay = { maxRetries: 3, retryBaseMs: 0, retryMaxMs: 0 };
+
+describe('Provider Retries', () => {
+  it('should classify provider errors', () => {
+    expect(isRetryableError(httpError(429, 'Too Many Requests'))).toBe(true);
+    expect(isRetryableError(httpError(503, 'Service Unavailable'))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('fetch failed'), { cause: { code: 'ECONNRESET' } }))).toBe(true);
+    expect(isRetryableError(httpError(401, 'Incorrect API key'))).toBe(false);
+    expect(isRetryableError(httpError(400, 'This model\'s maximum context length is 8192 tokens'))).toBe(false);
+
+    expect(isInputTooLargeError(httpError(400, 'This model\'s maximum context length is 8192 tokens'))).toBe(true);
+    expect(isInputTooLargeError(httpError(413, 'Payload Too Large'))).toBe(true);
+    expect(isInputTooLargeError(httpError(429, 'Too Many Requests'))).toBe(false);
+  });
+
+  it('should back off exponentially, with jitter and a cap', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 5000 };
+    vi.spyOn(Math, 'random').mockReturnValue(0.999);
+
+    expect(getRetryDelay(1, options)).toBe(999);
+    expect(getRetryDelay(2, options)).toBe(1998);
+    expect(getRetryDelay(5, options)).toBe(4995);
+
+    vi.restoreAllMocks();
+  });
+
+  it('should wait as long as the provider asks', () => {
+    const error = httpError(429, 'Too Many Requests', { 'retry-after': '2' });
+    expect(getRetryDelay(1, { baseDelayMs: 100, maxDelayMs: 60000 }, error)).toBe(2000);
+  });
+
+  it('should retry transient errors and report each retry', async () => {
+    const fn = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(429, 'Too Many Requests'))
+      .mockRejectedValueOnce(httpError(503, 'Service Unavailable'))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    expect(await withRetry(fn, { maxRetries: 3, baseDelayMs: 0, maxDelayMs: 0, onRetry })).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([event]) => [event.attempt, event.reason])).toEqual([
+      [1, 'rate limited'],
+      [2, 'HTTP 503: Service Unavailable'],
+    ]);
+  });
+
+  it('should give up after the last retry, and at once on other errors', async () => {
+    const transient = vi.fn(async () => {
+      throw httpError(429, 'Too Many Requests');
+    });
+    await expect(withRetry(transient, { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 })).rejects.toThrow(
+      'Too Many Requests',
+    );
+    expect(transient).toHaveBeenCalledTimes(3);
+
+    const fatal = vi.fn(async () => {
+      throw httpError(401, 'Incorrect API key');
+    });
+    await expect(withRetry(fatal, { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 })).rejects.toThrow(
+      'Incorrect API key',
+    );
+    expect(fatal).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Rate Limiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should spread requests over the minute once the budget is spent', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerMinute: 2, tokensPerMinute: 0 });
+    const granted: number[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      limiter.acquire().then(() => granted.push(i));
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(granted).toEqual([0, 1, 2]);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(granted).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should count tokens', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 1000 });
+    let granted = false;
+
+    await limiter.acquire(800);
+    limiter.acquire(400).then(() => (granted = true));
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(granted).toBe(false);
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(granted).toBe(true);
+  });
+
+  it('should not wait without limits', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 0 });
+    await Promise.all(Array.from({ length: 100 }, () => limiter.acquire(10_000)));
+  });
+});
+
+describe('Embedding Scheduler', () => {
+  it('should embed in batches, keeping the order of texts', async () => {
+    const provider = createProvider(embedLengths);
+    const scheduler = new EmbeddingScheduler(provider, { ...noDelay, concurrency: 2, batchSize: 3 });
+    const texts = ['a', 'bb', 'ccc', 'dddd', 'eeeee', 'ffffff', 'ggggggg'];
+
+    expect(await scheduler.embed(texts)).toEqual(texts.map((text) => [text.length]));
+    expect(provider.embedBatch.mock.calls.map(([batch]) => batch.length)).toEqual([3, 3]);
+    expect(provider.embed).toHaveBeenCalledWith('ggggggg');
+  });
+
+  it('should keep at most `concurrency` batches in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const provider = createProvider(async (texts) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return embedLengths(texts);
+    });
+    const scheduler = new EmbeddingScheduler(provider, { ...noDelay, concurrency: 3, batchSize: 2 });
+
+    await scheduler.embed(Array.from({ length: 20 }, (_, i) => `text ${i}`));
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should retry a rate-limited batch', async () => {
+    const onRetry = vi.fn();
+    let calls = 0;
+    const provider = createProvider(async (texts) => {
+      if (calls++ === 0) throw httpError(429, 'Too Many Requests');
+      return embedLengths(texts);
+    });
+    const scheduler = new EmbeddingScheduler(provider, { ...noDelay, concurrency: 1, batchSize: 10, onRetry });
+
+    expect(await scheduler.embed(['one', 'two'])).toEqual([[3], [3]]);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail on errors that cannot be retried', async () => {
+    const provider = createProvider(async () => {
+      throw httpError(401, 'Incorrect API key');
+    });
+    const scheduler = new EmbeddingScheduler(provider, { ...noDelay, concurrency: 2, batchSize: 2 });
+
+    await expect(scheduler.embed(['a', 'b', 'c', 'd', 'e'])).rejects.toThrow('Incorrect API key');
+    expect(provider.embedBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should split batches the provider rejects as too large', async () => {
+    // The provider accepts at most 50 characters per request
+    const provider = createProvider(async (texts) => {
+      if (texts.join('').length > 50) throw httpError(400, 'input length exceeds the context length');
+      return embedLengths(texts);
+    });
+    const scheduler = new EmbeddingScheduler(provider, { ...noDelay, concurrency: 1, batchSize: 8 });
+    const texts = Array.from({ length: 8 }, (_, i) => `${i}`.padEnd(20, '.'));
+
+    expect(await scheduler.embed(texts)).toEqual(texts.map(() => [20]));
+    expect(scheduler.currentBatchSize).toBe(2);
+  });
+
+  it('should shorten a single text the provider rejects as too large', async () => {
+    const provider = createProvider(async (texts) => {
+      if (texts[0].length > 1000) throw httpError(400, 'input length exceeds the context length');
+      return embedLengths(texts);
+    });
+    const scheduler = new EmbeddingScheduler(provider, { ...noDelay, concurrency: 1, batchSize: 1 });
+
+    expect(await scheduler.embed(['x'.repeat(3000)])).toEqual([[750]]);
+  });
+});
+
+describe('mapConcurrent', () => {
+  it('should map items in order', async () => {
+    const results = await mapConcurrent([30, 10, 20], 2, async (ms, i) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return i;
+    });
+    expect(results).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseTelegramExport, parseTelegramFile, type TelegramExport } from '../src/core/parser/telegram.js';
+import { parseChatFile, resolveImporter, streamChatFile } from '../src/core/parser/registry.js';
+
+const FIXTURE = join(__dirname, 'fixtures', 'telegram', 'result.json');
+
+describe('Telegram Importer', () => {
+  it('should map messages, replies, forwards and service messages', async () => {
+    const result = await parseTelegramFile(FIXTURE);
+
+    expect(result.messages).toHaveLength(8);
+    expect(result.participants).toEqual(['Alice', 'Bob']);
+    expect(result.dateOrder).toBeUndefined();
+    expect(result.startDate).toEqual(new Date(1673776800 * 1000));
+
+    const [created, question, photo, reply, forward] = result.messages;
+
+    expect(created.type).toBe('system');
+    expect(created.content).toBe('Alice created group "Weekend Hikers"');
+
+    expect(question).toMatchObject({ sender: 'Alice', type: 'text' });
+    expect(reply.content).toBe('Count me in, see https://example.com/trail');
+    expect(reply.replyTo).toBe(question.id);
+
+    expect(forward.forwardedFrom).toBe('Mountain Weather');
+
+    expect(photo.type).toBe('media');
+    expect(photo.mediaType).toBe('image');
+    expect(photo.content).toBe('Last time at the lake');
+
+    expect(result.messages[7].content).toBe('Alice added Carol');
+  });
+
+  it('should map media without a caption to placeholders', async () => {
+    const result = await parseTelegramFile(FIXTURE);
+    const [voice, sticker] = result.messages.slice(5, 7);
+
+    expect(voice).toMatchObject({ type: 'media', mediaType: 'audio', content: '<voice message>' });
+    expect(voice.attachment).toBeUndefined();
+    expect(sticker).toMatchObject({ mediaType: 'sticker', content: '<sticker 👍>' });
+    // Not shipped with the export
+    expect(sticker.attachment).toBeUndefined();
+  });
+
+  it('should link media found next to result.json', async () => {
+    const result = await parseTelegramFile(FIXTURE);
+
+    expect(result.attachments).toHaveLength(1);
+    expect(result.messages[2].attachment).toEqual({
+      fileName: 'photo_1@15-01-2023_10-31-00.jpg',
+      size: 10,
+      mimeType: 'image/jpeg',
+    });
+  });
+
+  it('should drop service messages when asked', () => {
+    const data: TelegramExport = {
+      messages: [
+        { id: 1, type: 'service', date: '2023-01-15T10:00:00', actor: 'Alice', action: 'pin_message' },
+        { id: 2, type: 'message', date: '2023-01-15T10:01:00', from: 'Alice', text: 'Hi' },
+      ],
+    };
+    const result = parseTelegramExport(data, { includeSystemMessages: false });
+
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].content).toBe('Hi');
+    // The chat is still identified by its first message
+    expect(result.conversationKey).toBe(parseTelegramExport(data).messages[0].id);
+  });
+
+  it('should map polls, locations, contacts and edits to structured fields', () => {
+    const date = '2023-01-15T10:00:00';
+    const result = parseTelegramExport({
+      messages: [
+        {
+          id: 1,
+          type: 'message',
+          date,
+          from: 'Alice',
+          poll: { question: 'Saturday?', answers: [{ text: 'Yes', voters: 2 }, { text: 'No', voters: 0 }] },
+        },
+        { id: 2, type: 'message', date, from: 'Bob', location_information: { latitude: 45.9, longitude: 6.1 } },
+        {
+          id: 3,
+          type: 'message',
+          date,
+          from: 'Bob',
+          contact_information: { first_name: 'Carol', last_name: 'King', phone_number: '+33600000000' },
+        },
+        { id: 4, type: 'message', date, from: 'Alice', text: 'Fixed typo', edited: '2023-01-15T10:05:00' },
+      ],
+    });
+    const [poll, location, contact, edited] = result.messages;
+
+    expect(poll.poll).toEqual({
+      question: 'Saturday?',
+      options: [
+        { text: 'Yes', votes: 2 },
+        { text: 'No', votes: 0 },
+      ],
+    });
+    expect(location).toMatchObject({ mediaType: 'location', location: { latitude: 45.9, longitude: 6.1 } });
+    expect(contact).toMatchObject({ mediaType: 'contact', contactName: 'Carol King' });
+    expect(edited.edited).toBe(true);
+  });
+
+  it('should reject JSON that is not a chat export', () => {
+    expect(() => parseTelegramExport({} as never)).toThrow('Not a Telegram chat export');
+  });
+});
+
+describe('Importer Registry', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rag-importers-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should pick the importer from the file content', async () => {
+    // Misleading extensions: content wins
+    const telegramPath = join(dir, 'export.txt');
+    const whatsappPath = join(dir, 'chat.json');
+    await writeFile(telegramPath, await readFile(FIXTURE));
+    await writeFile(whatsappPath, '15/01/2023, 10:30 - John: Hello');
+
+    expect((await resolveImporter(telegramPath)).name).toBe('telegram');
+    expect((await resolveImporter(whatsappPath)).name).toBe('whatsapp');
+  });
+
+  it('should look through the whole file when the start of a .json export is inconclusive', async () => {
+    // Markers pushed past the sniffed sample
+    const padding = { name: 'x'.repeat(5000) };
+    const telegramPath = join(dir, 'telegram.json');
+    const messengerPath = join(dir, 'messenger.json');
+    const unknownPath = join(dir, 'unknown.json');
+    await writeFile(telegramPath, JSON.stringify({ ...padding, type: 'personal_chat', messages: [] }));
+    await writeFile(
+      messengerPath,
+      JSON.stringify({ ...padding, messages: [{ sender_name: 'Bob', timestamp_ms: 1000, content: 'Hi' }] }),
+    );
+    await writeFile(unknownPath, JSON.stringify({ ...padding, messages: [] }));
+
+    expect((await resolveImporter(telegramPath)).name).toBe('telegram');
+    expect((await resolveImporter(messengerPath)).name).toBe('messenger');
+    await expect(resolveImporter(unknownPath)).rejects.toThrow('could be telegram or messenger');
+  });
+
+  it('should honour an explicit format and reject unknown ones', async () => {
+    expect((await resolveImporter(FIXTURE, 'whatsapp')).name).toBe('whatsapp');
+    await expect(resolveImporter(FIXTURE, 'signal')).rejects.toThrow('Unknown chat format');
+  });
+
+  it('should parse and stream through the selected importer', async () => {
+    const parsed = await parseChatFile(FIXTURE);
+    expect(parsed.format).toBe('telegram');
+
+    const stream = await streamChatFile(FIXTURE);
+    const messages = [];
+    for await (const message of stream.messages) messages.push(message);
+
+    expect(stream.format).toBe('telegram');
+    expect(messages.map((m) => m.content)).toEqual(parsed.messages.map((m) => m.content));
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalVectorStore } from '../src/storage/local.js';
+import { QdrantVectorStore } from '../src/storage/qdrant.js';
+import { SqliteMetadataStore } from '../src/storage/sqlite.js';
+import { SqliteVectorStore } from '../src/storage/sqlite-vec.js';
+import { CONTRACT_EMBEDDING, vectorStoreContract } from './contracts/vector-store.js';
+
+vectorStoreContract('LocalVectorStore (in memory)', async () => {
+  const store = new LocalVectorStore(CONTRACT_EMBEDDING, ':memory:');
+  await store.initialize();
+  return { store };
+});
+
+vectorStoreContract('LocalVectorStore (file)', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'vectors-'));
+  const store = new LocalVectorStore(CONTRACT_EMBEDDING, join(dir, 'vectors.json'));
+  await store.initialize();
+  return { store, cleanup: () => rm(dir, { recursive: true, force: true }) };
+});
+
+vectorStoreContract('SqliteVectorStore (in memory)', async () => {
+  const store = new SqliteVectorStore(CONTRACT_EMBEDDING, ':memory:');
+  await store.initialize();
+  return { store, cleanup: async () => store.close() };
+});
+
+vectorStoreContract('SqliteVectorStore (file)', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'vectors-'));
+  const store = new SqliteVectorStore(CONTRACT_EMBEDDING, join(dir, 'metadata.db'));
+  await store.initialize();
+  return {
+    store,
+    cleanup: async () => {
+      store.close();
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+});
+
+// Needs a running Qdrant (QDRANT_URL): QDRANT_CONTRACT_TESTS=true pnpm test
+if (process.env.QDRANT_CONTRACT_TESTS === 'true') {
+  vectorStoreContract('QdrantVectorStore', async () => {
+    const store = new QdrantVectorStore(CONTRACT_EMBEDDING, { collection: `contract_test_${Date.now()}` });
+    await store.initialize();
+    return { store, cleanup: () => store.drop() };
+  });
+}
+
+describe('LocalVectorStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vectors-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const chunk = {
+    id: '7d3c1f4e-0000-4000-8000-000000000001',
+    messages: [],
+    participants: ['John'],
+    startTime: new Date('2023-01-15T09:00:00Z'),
+    endTime: new Date('2023-01-15T09:30:00Z'),
+    embedding: [0.5, 0.25, 0.125],
+    conversationName: 'Family',
+    metadata: {
+      conversationId: 'family',
+      messageCount: 0,
+      timeSpanMinutes: 30,
+      hasMedia: false,
+      mediaCount: 0,
+    },
+  };
+
+  it('should load the chunks saved by a previous process', async () => {
+    const path = join(dir, 'vectors.json');
+    const store = new LocalVectorStore(CONTRACT_EMBEDDING, path);
+    await store.initialize();
+    await store.upsert(chunk);
+    await store.renameConversation('family', 'Relatives');
+
+    const reopened = new LocalVectorStore(CONTRACT_EMBEDDING, path);
+    await reopened.initialize();
+
+    expect(await reopened.getById(chunk.id)).toMatchObject({
+      participants: ['John'],
+      startTime: new Date('2023-01-15T09:00:00Z'),
+      embedding: [0.5, 0.25, 0.125],
+      conversationName: 'Relatives',
+    });
+  });
+
+  it('should refuse a file embedded with another model', async () => {
+    const path = join(dir, 'vectors.json');
+    const store = new LocalVectorStore(CONTRACT_EMBEDDING, path);
+    await store.initialize();
+    await store.upsert(chunk);
+
+    const other = new LocalVectorStore({ name: 'openai', model: 'text-embedding-3-small', dimensions: 1536 }, path);
+    await expect(other.initialize()).rejects.toThrow('not of the configured embedding model openai/text-embedding-3-small');
+  });
+});
+
+describe('SqliteVectorStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vectors-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const chunk = {
+    id: '7d3c1f4e-0000-4000-8000-000000000001',
+    messages: [],
+    participants: ['John'],
+    startTime: new Date('2023-01-15T09:00:00Z'),
+    endTime: new Date('2023-01-15T09:30:00Z'),
+    embedding: [0.5, 0.25, 0.125],
+    conversationName: 'Family',
+    metadata: {
+      conversationId: 'family',
+      messageCount: 0,
+      timeSpanMinutes: 30,
+      hasMedia: false,
+      mediaCount: 0,
+    },
+  };
+
+  it('should share the database file with the metadata store', async () => {
+    const path = join(dir, 'metadata.db');
+    const metadata = new SqliteMetadataStore(path);
+    const store = new SqliteVectorStore(CONTRACT_EMBEDDING, path);
+    await store.initialize();
+
+    metadata.upsertConversation({
+      id: 'family',
+      format: 'whatsapp',
+      participants: ['John'],
+      startTime: null,
+      endTime: null,
+      ingestOptions: {},
+    });
+    await store.upsert(chunk);
+    store.close();
+
+    const reopened = new SqliteVectorStore(CONTRACT_EMBEDDING, path);
+    await reopened.initialize();
+
+    expect(metadata.getConversation('family')?.format).toBe('whatsapp');
+    expect(await reopened.getById(chunk.id)).toMatchObject({ embedding: [0.5, 0.25, 0.125], conversationName: 'Family' });
+    reopened.close();
+  });
+
+  it('should refuse a database embedded with another model', async () => {
+    const path = join(dir, 'metadata.db');
+    const store = new SqliteVectorStore(CONTRACT_EMBEDDING, path);
+    await store.initialize();
+    store.close();
+
+    const other = new SqliteVectorStore({ name: 'openai', model: 'text-embedding-3-small', dimensions: 1536 }, path);
+    await expect(other.initialize()).rejects.toThrow('not of the configured embedding model openai/text-embedding-3-small');
+    other.close();
+  });
+
+  it('should return topK matches of a filter even when closer chunks do not match', async () => {
+    const store = new SqliteVectorStore(CONTRACT_EMBEDDING, ':memory:');
+    await store.initialize();
+    await store.upsertBatch(
+      Array.from({ length: 20 }, (_, i) => ({
+        ...chunk,
+        id: `7d3c1f4e-0000-4000-8000-${String(i).padStart(12, '0')}`,
+        participants: i < 18 ? ['John'] : ['Jane'],
+        embedding: [1, i / 20, 0],
+      })),
+    );
+
+    const results = await store.search([1, 0, 0], { topK: 2, minScore: 0, filter: { participants: ['Jane'] } });
+
+    expect(results.map((r) => r.chunk.participants)).toEqual([['Jane'], ['Jane']]);
+    store.close();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { UnrecoverableError } from 'bullmq';
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { config } from '../src/config/index.js';
+import type { IngestJob, IngestJobData } from '../src/ingestion/queue.js';
+import type { IngestionHooks, IngestionOptions } from '../src/ingestion/types.js';
+
+const ingest = vi.fn();
+const isCancelRequested = vi.fn();
+const getJobs = vi.fn();
+
+vi.mock('../src/ingestion/pipeline.js', () => ({
+  getIngestionPipeline: () => ({ ingest }),
+}));
+
+vi.mock('../src/ingestion/queue.js', async (importOriginal) => ({
+  toJobInfo: (await importOriginal<typeof import('../src/ingestion/queue.js')>()).toJobInfo,
+  INGEST_QUEUE: 'ingest',
+  getRedisConnection: vi.fn(),
+  getIngestQueue: () => ({ getJobs }),
+  isCancelRequested: (jobId: string) => isCancelRequested(jobId),
+}));
+
+const { processIngestJob, removeOrphanUploads } = await import('../src/ingestion/worker.js');
+const { toJobInfo } = await import('../src/ingestion/queue.js');
+
+function createJob(data: Partial<IngestJobData> = {}) {
+  const job = {
+    id: 'job-1',
+    data: { filePath: '/tmp/missing-upload.txt', fileName: 'chat.txt', options: {}, ...data },
+    updateData: vi.fn(async (next: IngestJobData) => {
+      job.data = next;
+    }),
+    updateProgress: vi.fn(async () => undefined),
+  };
+  return job;
+}
+
+describe('Ingestion Worker', () => {
+  beforeEach(() => {
+    ingest.mockReset();
+    isCancelRequested.mockReset().mockResolvedValue(false);
+  });
+
+  it('should report progress and checkpoint every stored batch', async () => {
+    ingest.mockImplementation(
+      async (_file: string, _name: string, _options: IngestionOptions, hooks: IngestionHooks) => {
+        hooks.onProgress?.({ jobId: hooks.jobId!, status: 'embedding', processedChunks: 10 });
+        await hooks.onBatchStored?.({ conversationId: 'conv-1', storedChunks: 10, processedMessages: 120 });
+        return { jobId: hooks.jobId };
+      },
+    );
+    const job = createJob({ options: { incremental: false } });
+
+    await processIngestJob(job as unknown as IngestJob);
+
+    expect(ingest.mock.calls[0][2]).toEqual({ incremental: false });
+    expect(job.updateProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ jobId: 'job-1', processedChunks: 10 }),
+    );
+    expect(job.data.checkpoint).toEqual({ conversationId: 'conv-1', storedChunks: 10, processedMessages: 120 });
+  });
+
+  it('should resume incrementally after an interrupted attempt', async () => {
+    ingest.mockResolvedValue({});
+    const job = createJob({
+      options: { incremental: false },
+      checkpoint: { conversationId: 'conv-1', storedChunks: 20, processedMessages: 300 },
+    });
+
+    await processIngestJob(job as unknown as IngestJob);
+
+    expect(ingest.mock.calls[0][2]).toEqual({ incremental: true });
+  });
+
+  it('should fail cancelled jobs without retrying them', async () => {
+    const job = createJob({ cancelled: true });
+
+    await expect(processIngestJob(job as unknown as IngestJob)).rejects.toBeInstanceOf(UnrecoverableError);
+    expect(ingest).not.toHaveBeenCalled();
+  });
+
+  it('should stop a running job after the batch during which it was cancelled', async () => {
+    isCancelRequested.mockResolvedValue(true);
+    ingest.mockImplementation(
+      async (_file: string, _name: string, _options: IngestionOptions, hooks: IngestionHooks) => {
+        await hooks.onBatchStored?.({ conversationId: 'conv-1', storedChunks: 10, processedMessages: 120 });
+        hooks.signal?.throwIfAborted();
+        return {};
+      },
+    );
+
+    await expect(processIngestJob(createJob() as unknown as IngestJob)).rejects.toThrow('Ingestion cancelled');
+  });
+
+  it('should keep a cancel request made while the job runs', async () => {
+    const job = createJob();
+    // Job data as stored in Redis: the API cancels through its own copy of the job
+    let stored: IngestJobData = job.data;
+    job.updateData.mockImplementation(async (next: IngestJobData) => {
+      job.data = next;
+      stored = next;
+    });
+    const cancel = () => {
+      stored = { ...stored, cancelled: true };
+      isCancelRequested.mockResolvedValue(true);
+    };
+
+    ingest.mockImplementation(
+      async (_file: string, _name: string, _options: IngestionOptions, hooks: IngestionHooks) => {
+        await hooks.onBatchStored?.({ conversationId: 'conv-1', storedChunks: 10, processedMessages: 120 });
+        cancel();
+        await hooks.onBatchStored?.({ conversationId: 'conv-1', storedChunks: 20, processedMessages: 240 });
+        expect(toJobInfo({ ...job, data: stored } as unknown as IngestJob, 'active').state).toBe('cancelling');
+        hooks.signal?.throwIfAborted();
+        return {};
+      },
+    );
+
+    await expect(processIngestJob(job as unknown as IngestJob)).rejects.toBeInstanceOf(UnrecoverableError);
+    expect(stored.cancelled).toBe(true);
+    expect(stored.checkpoint?.storedChunks).toBe(20);
+    expect(toJobInfo({ ...job, data: stored } as unknown as IngestJob, 'failed').state).toBe('cancelled');
+  });
+
+  it('should let failures be retried', async () => {
+    ingest.mockRejectedValue(new Error('Embedding provider unavailable'));
+
+    const error = await processIngestJob(createJob() as unknown as IngestJob).catch((e) => e);
+
+    expect(error).not.toBeInstanceOf(UnrecoverableError);
+    expect(error.message).toBe('Embedding provider unavailable');
+  });
+
+  it('should delete the uploads of jobs the queue dropped', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'rag-uploads-'));
+    const uploadsPath = config.ingestion.uploadsPath;
+    config.ingestion.uploadsPath = dir;
+
+    try {
+      const now = Date.now();
+      const old = new Date(now - 2 * 60 * 60 * 1000);
+      for (const name of ['failed.txt', 'dropped.zip', 'new.txt']) {
+        await writeFile(join(dir, name), 'export');
+        if (name !== 'new.txt') await utimes(join(dir, name), old, old);
+      }
+      getJobs.mockResolvedValue([{ data: { filePath: join(dir, 'failed.txt') } }, undefined]);
+
+      const removed = await removeOrphanUploads(now);
+
+      expect(removed).toEqual([join(dir, 'dropped.zip')]);
+      // Failed jobs keep their upload for a retry, recent uploads may not be queued yet
+      expect((await readdir(dir)).sort()).toEqual(['failed.txt', 'new.txt']);
+    } finally {
+      config.ingestion.uploadsPath = uploadsPath;
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
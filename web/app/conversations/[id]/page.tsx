@@ -0,0 +1,290 @@
+'use client';
+
+import { Suspense, useEffect, useLayoutEffect, useMemo, useRef, useState, type FormEvent } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { Sidebar } from '@/components/Sidebar';
+import { MessageBubble } from '@/components/MessageBubble';
+import {
+  getConversation,
+  getMessages,
+  type Conversation,
+  type ConversationMessage,
+  type MessageQuery,
+} from '@/lib/api';
+import { MessagesSquare, Search, ChevronUp, ChevronDown, Loader2, AlertCircle } from 'lucide-react';
+
+const PAGE_SIZE = 60;
+
+/**
+ * Where to scroll once a page is rendered: the anchor message, the bottom (latest
+ * messages), or back to where the reader was after earlier messages were prepended
+ */
+type ScrollTarget = { type: 'anchor' } | { type: 'bottom' } | { type: 'keep'; fromBottom: number };
+
+function ConversationBrowser() {
+  const { id } = useParams<{ id: string }>();
+  const searchParams = useSearchParams();
+  const around = searchParams.get('around') ?? undefined;
+  const highlightedChunk = searchParams.get('chunk') ?? undefined;
+
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [viewAs, setViewAs] = useState('');
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [prevCursor, setPrevCursor] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [anchorId, setAnchorId] = useState<string | undefined>();
+  const [sender, setSender] = useState('');
+  const [type, setType] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const anchorRef = useRef<HTMLDivElement>(null);
+  const scrollTarget = useRef<ScrollTarget | null>(null);
+
+  const filters = useMemo<MessageQuery>(
+    () => ({
+      sender: sender || undefined,
+      type: (type || undefined) as MessageQuery['type'],
+      q: search || undefined,
+    }),
+    [sender, type, search],
+  );
+
+  useEffect(() => {
+    getConversation(id)
+      .then((data) => {
+        setConversation(data);
+        setViewAs(data.participants[0] ?? '');
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load conversation'));
+  }, [id]);
+
+  // First page: around the requested message or time, otherwise the latest messages
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getMessages(id, { ...filters, around, limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        scrollTarget.current = around ? { type: 'anchor' } : { type: 'bottom' };
+        setMessages(page.messages);
+        setPrevCursor(page.prevCursor);
+        setNextCursor(page.nextCursor);
+        setAnchorId(page.anchorId);
+      })
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load messages'))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, around, filters]);
+
+  useLayoutEffect(() => {
+    const target = scrollTarget.current;
+    const container = scrollRef.current;
+    if (!target || !container) return;
+    scrollTarget.current = null;
+
+    if (target.type === 'anchor' && anchorRef.current) {
+      anchorRef.current.scrollIntoView({ block: 'center' });
+    } else if (target.type === 'keep') {
+      container.scrollTop = container.scrollHeight - target.fromBottom;
+    } else {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [messages]);
+
+  const loadEarlier = async () => {
+    if (!prevCursor || loading) return;
+    setLoading(true);
+    try {
+      const page = await getMessages(id, { ...filters, before: prevCursor, limit: PAGE_SIZE });
+      const container = scrollRef.current;
+      scrollTarget.current = {
+        type: 'keep',
+        fromBottom: container ? container.scrollHeight - container.scrollTop : 0,
+      };
+      setMessages((current) => [...page.messages, ...current]);
+      setPrevCursor(page.prevCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load messages');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadLater = async () => {
+    if (!nextCursor || loading) return;
+    setLoading(true);
+    try {
+      const page = await getMessages(id, { ...filters, after: nextCursor, limit: PAGE_SIZE });
+      setMessages((current) => [...current, ...page.messages]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load messages');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+  };
+
+  return (
+    <div className="flex h-screen">
+      <Sidebar />
+
+      <main className="flex-1 flex flex-col bg-[var(--background)] min-w-0">
+        {/* Header */}
+        <header className="p-4 border-b border-[var(--border)] bg-[var(--earth-700)]">
+          <div className="flex items-center gap-3 mb-3">
+            <div className="w-10 h-10 rounded-2xl bg-gradient-to-br from-[var(--greenhouse-400)] to-[var(--greenhouse-600)] flex items-center justify-center shadow-[var(--shadow-botanical)]">
+              <MessagesSquare className="w-5 h-5 text-white" />
+            </div>
+            <div className="min-w-0">
+              <h1 className="text-lg font-display font-semibold text-[var(--foreground)] truncate">
+                {conversation?.name || 'Conversation'}
+              </h1>
+              <p className="text-xs text-[var(--graphite)] truncate">
+                {conversation
+                  ? `${conversation.participants.join(', ')} · ${conversation.messageCount} messages`
+                  : 'Loading...'}
+              </p>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <form onSubmit={handleSearch} className="relative flex-1 min-w-[200px]">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[var(--muted)]" />
+              <input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Search messages"
+                className="input-organic w-full !py-2 pl-9"
+              />
+            </form>
+            <select
+              value={sender}
+              onChange={(e) => setSender(e.target.value)}
+              className="input-organic !py-2"
+            >
+              <option value="">Everyone</option>
+              {conversation?.participants.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+            <select value={type} onChange={(e) => setType(e.target.value)} className="input-organic !py-2">
+              <option value="">All messages</option>
+              <option value="text">Text</option>
+              <option value="media">Media</option>
+              <option value="system">System</option>
+              <option value="deleted">Deleted</option>
+            </select>
+            <label className="flex items-center gap-2 text-xs text-[var(--graphite)]">
+              View as
+              <select value={viewAs} onChange={(e) => setViewAs(e.target.value)} className="input-organic !py-2">
+                {conversation?.participants.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </header>
+
+        {/* Messages */}
+        <div ref={scrollRef} className="flex-1 overflow-y-auto px-6 py-4">
+          {error && (
+            <div className="flex items-center gap-2 p-3 mb-4 rounded-xl bg-[var(--earth-500)] text-sm text-[var(--terracotta)]">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          )}
+
+          {prevCursor && (
+            <div className="flex justify-center mb-2">
+              <button
+                onClick={loadEarlier}
+                disabled={loading}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs text-[var(--graphite)] bg-[var(--earth-500)] hover:text-[var(--foreground)] disabled:opacity-50"
+              >
+                <ChevronUp className="w-3.5 h-3.5" />
+                Earlier messages
+              </button>
+            </div>
+          )}
+
+          {!loading && !error && messages.length === 0 && (
+            <p className="text-center text-sm text-[var(--muted)] mt-10">No messages match these filters</p>
+          )}
+
+          {messages.map((message, index) => {
+            const previous = messages[index - 1];
+            const day = new Date(message.timestamp).toDateString();
+            const newDay = !previous || new Date(previous.timestamp).toDateString() !== day;
+
+            return (
+              <div key={message.cursor} ref={message.id === anchorId ? anchorRef : undefined}>
+                {newDay && (
+                  <div className="flex justify-center my-4">
+                    <span className="px-3 py-1 rounded-lg bg-[var(--earth-500)] text-xs font-medium text-[var(--graphite)]">
+                      {new Date(message.timestamp).toLocaleDateString([], {
+                        weekday: 'short',
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                      })}
+                    </span>
+                  </div>
+                )}
+                <MessageBubble
+                  message={message}
+                  conversationId={id}
+                  own={message.sender === viewAs}
+                  showSender={newDay || previous.sender !== message.sender || previous.type === 'system'}
+                  highlighted={highlightedChunk !== undefined && message.chunkId === highlightedChunk}
+                />
+              </div>
+            );
+          })}
+
+          {nextCursor && (
+            <div className="flex justify-center mt-4">
+              <button
+                onClick={loadLater}
+                disabled={loading}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs text-[var(--graphite)] bg-[var(--earth-500)] hover:text-[var(--foreground)] disabled:opacity-50"
+              >
+                <ChevronDown className="w-3.5 h-3.5" />
+                Later messages
+              </button>
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-[var(--greenhouse-400)]" />
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default function ConversationPage() {
+  // useSearchParams needs a Suspense boundary
+  return (
+    <Suspense>
+      <ConversationBrowser />
+    </Suspense>
+  );
+}
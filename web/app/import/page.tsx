@@ -18,12 +18,12 @@ const steps = [
   {
     icon: FileText,
     title: 'Choose Format',
-    description: 'Select "Without Media" for faster processing',
+    description: 'Choose "Without Media", or "Attach Media" to keep photos and files',
   },
   {
     icon: Upload,
     title: 'Upload Here',
-    description: 'Drop the .txt file in the upload area',
+    description: 'Drop the .txt, .zip or Telegram .json file in the upload area',
   },
 ];
 
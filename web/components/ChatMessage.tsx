@@ -2,6 +2,7 @@
 
 import { User, Bot, Clock, Users, ChevronDown, ChevronUp } from 'lucide-react';
 import { useState } from 'react';
+import Link from 'next/link';
 import type { ChunkSource } from '@/lib/api';
 
 interface Message {
@@ -118,9 +119,11 @@ export function ChatMessage({ message }: ChatMessageProps) {
             </p>
             <div className="flex flex-wrap gap-2">
               {message.sources.map((source) => (
-                <div
+                <Link
                   key={source.chunkId}
-                  className="source-tag group cursor-default"
+                  href={`/conversations/${encodeURIComponent(source.conversationId)}?around=${encodeURIComponent(source.timeRange.start)}&chunk=${encodeURIComponent(source.chunkId)}`}
+                  title="Read the conversation around this excerpt"
+                  className="source-tag group"
                 >
                   <Clock className="w-3 h-3 opacity-60" />
                   <span>{new Date(source.timeRange.start).toLocaleDateString()}</span>
@@ -132,7 +135,7 @@ export function ChatMessage({ message }: ChatMessageProps) {
                   <span className="ml-1 px-1.5 py-0.5 rounded-full bg-[var(--greenhouse-600)] text-white text-[10px] font-medium">
                     {(source.score * 100).toFixed(0)}%
                   </span>
-                </div>
+                </Link>
               ))}
             </div>
           </div>
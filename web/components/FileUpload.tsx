@@ -12,7 +12,22 @@ import {
   Users,
   Clock,
 } from 'lucide-react';
-import { ingest, type IngestResult } from '@/lib/api';
+import { ingest, type IngestProgress, type IngestResult } from '@/lib/api';
+
+const STAGE_LABELS: Record<IngestProgress['status'], string> = {
+  pending: 'Waiting in queue...',
+  parsing: 'Reading export...',
+  embedding: 'Embedding conversations...',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+function formatEta(seconds: number): string {
+  if (seconds < 60) return `${seconds}s left`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `about ${minutes} min left` : `about ${Math.floor(minutes / 60)}h ${minutes % 60}min left`;
+}
 
 interface FileUploadProps {
   onComplete?: (result: IngestResult) => void;
@@ -23,6 +38,7 @@ export function FileUpload({ onComplete }: FileUploadProps) {
   const [name, setName] = useState('');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<IngestResult | null>(null);
+  const [progress, setProgress] = useState<IngestProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -31,11 +47,11 @@ export function FileUpload({ onComplete }: FileUploadProps) {
     e.preventDefault();
     setIsDragging(false);
     const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile && droppedFile.name.endsWith('.txt')) {
+    if (droppedFile && /\.(txt|zip|json)$/i.test(droppedFile.name)) {
       setFile(droppedFile);
       setError(null);
     } else {
-      setError('Please upload a .txt file');
+      setError('Please upload a .txt, .zip or .json file');
     }
   };
 
@@ -52,9 +68,10 @@ export function FileUpload({ onComplete }: FileUploadProps) {
 
     setLoading(true);
     setError(null);
+    setProgress(null);
 
     try {
-      const res = await ingest(file, { conversationName: name || undefined });
+      const res = await ingest(file, { conversationName: name || undefined }, setProgress);
       setResult(res);
       onComplete?.(res);
     } catch (err) {
@@ -84,7 +101,9 @@ export function FileUpload({ onComplete }: FileUploadProps) {
               Import Complete!
             </h3>
             <p className="text-sm text-[var(--graphite)]">
-              Your conversations are ready to query
+              {result.result.incremental
+                ? `Existing conversation updated: ${result.result.newMessages.toLocaleString()} new, ${result.result.skippedMessages.toLocaleString()} unchanged, ${result.result.changedMessages.toLocaleString()} changed messages`
+                : 'Your conversations are ready to query'}
             </p>
           </div>
         </div>
@@ -189,7 +208,7 @@ export function FileUpload({ onComplete }: FileUploadProps) {
         <input
           ref={inputRef}
           type="file"
-          accept=".txt"
+          accept=".txt,.zip,.json"
           onChange={handleFileSelect}
           className="hidden"
         />
@@ -215,7 +234,7 @@ export function FileUpload({ onComplete }: FileUploadProps) {
               Drop your WhatsApp export here
             </p>
             <p className="text-sm text-[var(--graphite)]">
-              or click to browse for a .txt file
+              or click to browse for a .txt, .zip or .json file
             </p>
           </div>
         )}
@@ -246,6 +265,41 @@ export function FileUpload({ onComplete }: FileUploadProps) {
         </div>
       )}
 
+      {/* Progress */}
+      {loading && (
+        <div className="p-4 rounded-xl bg-[var(--earth-200)] border border-[var(--border)] animate-fadeIn">
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span className="font-medium text-[var(--foreground)]">
+              {progress ? STAGE_LABELS[progress.status] : 'Uploading...'}
+            </span>
+            {progress?.percent !== undefined && (
+              <span className="text-[var(--graphite)]">{progress.percent}%</span>
+            )}
+          </div>
+          <div className="h-2 rounded-full bg-[var(--earth-300)] overflow-hidden">
+            <div
+              className={`h-full rounded-full bg-gradient-to-r from-[var(--greenhouse-400)] to-[var(--greenhouse-600)] transition-all duration-500 ${
+                progress?.percent === undefined ? 'w-1/3 animate-pulse' : ''
+              }`}
+              style={progress?.percent !== undefined ? { width: `${progress.percent}%` } : undefined}
+            />
+          </div>
+          <div className="flex items-center justify-between mt-2 text-xs text-[var(--graphite)]">
+            <span>
+              {(progress?.totalMessages ?? 0).toLocaleString()} messages · {(progress?.processedChunks ?? 0).toLocaleString()} chunks
+            </span>
+            {progress?.etaSeconds !== undefined && progress.status === 'embedding' && (
+              <span>{formatEta(progress.etaSeconds)}</span>
+            )}
+          </div>
+          {progress?.lastRetry && (
+            <p className="mt-1 text-xs text-[var(--terracotta)] truncate" title={progress.lastRetry.reason}>
+              {progress.retries} {progress.retries === 1 ? 'retry' : 'retries'} · last: {progress.lastRetry.reason}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Upload button */}
       {file && (
         <button
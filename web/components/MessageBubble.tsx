@@ -0,0 +1,102 @@
+'use client';
+
+import Image from 'next/image';
+import { FileText, Forward, Pencil, Ban } from 'lucide-react';
+import type { ConversationMessage } from '@/lib/api';
+
+interface MessageBubbleProps {
+  message: ConversationMessage;
+  conversationId: string;
+  /**
+   * Whether the message was sent by the participant the conversation is viewed as
+   */
+  own: boolean;
+  /**
+   * Whether to print the sender (first message of a run from the same sender)
+   */
+  showSender: boolean;
+  highlighted?: boolean;
+}
+
+export function MessageBubble({ message, conversationId, own, showSender, highlighted }: MessageBubbleProps) {
+  const time = new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  if (message.type === 'system') {
+    return (
+      <div className="flex justify-center my-2">
+        <span className="px-3 py-1 rounded-lg bg-[var(--earth-500)] text-xs text-[var(--graphite)] max-w-[80%] text-center">
+          {message.content}
+        </span>
+      </div>
+    );
+  }
+
+  const attachment = message.attachment;
+  const attachmentUrl = attachment
+    ? `/api/attachments/${encodeURIComponent(conversationId)}/${encodeURIComponent(attachment.fileName)}`
+    : undefined;
+
+  return (
+    <div className={`flex ${own ? 'justify-end' : 'justify-start'} ${showSender ? 'mt-3' : 'mt-0.5'}`}>
+      <div
+        className={`
+          max-w-[75%] px-3.5 py-2 transition-shadow
+          ${own ? 'bubble-user' : 'bubble-assistant'}
+          ${highlighted ? 'ring-2 ring-[var(--terracotta)] ring-offset-2 ring-offset-[var(--background)]' : ''}
+        `}
+      >
+        {showSender && !own && (
+          <p className="text-xs font-semibold text-[var(--greenhouse-400)] mb-0.5">{message.sender}</p>
+        )}
+
+        {message.forwardedFrom && (
+          <p className="flex items-center gap-1 text-[11px] italic opacity-70 mb-0.5">
+            <Forward className="w-3 h-3" />
+            Forwarded
+          </p>
+        )}
+
+        {attachment && attachment.mimeType.startsWith('image/') && attachment.path ? (
+          <a href={attachmentUrl} target="_blank" rel="noreferrer">
+            {/* Served as stored: the image optimizer would cache private attachments */}
+            <Image
+              src={attachmentUrl!}
+              alt={attachment.fileName}
+              width={0}
+              height={0}
+              sizes="20rem"
+              unoptimized
+              className="w-auto h-auto rounded-lg max-h-64 mb-1"
+            />
+          </a>
+        ) : attachment ? (
+          <a
+            href={attachment.path ? attachmentUrl : undefined}
+            target="_blank"
+            rel="noreferrer"
+            className="flex items-center gap-2 text-sm underline-offset-2 hover:underline mb-1"
+          >
+            <FileText className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{attachment.fileName}</span>
+          </a>
+        ) : null}
+
+        {message.type === 'deleted' ? (
+          <p className="flex items-center gap-1.5 text-sm italic opacity-70">
+            <Ban className="w-3.5 h-3.5" />
+            {message.content}
+          </p>
+        ) : (
+          message.content && (
+            <p className="whitespace-pre-wrap text-[15px] leading-relaxed break-words">{message.content}</p>
+          )
+        )}
+
+        <p className="flex items-center justify-end gap-1 text-[10px] font-mono opacity-60 mt-0.5">
+          {message.edited && <Pencil className="w-2.5 h-2.5" />}
+          {time}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ export interface QueryRequest {
 
 export interface ChunkSource {
   chunkId: string;
+  conversationId: string;
   score: number;
   participants: string[];
   timeRange: {
@@ -41,6 +42,11 @@ export interface QueryResponse {
   };
 }
 
+export interface DiagnosticSamples {
+  count: number;
+  samples: Array<{ lineNumber: number; line: string; reason?: string }>;
+}
+
 export interface IngestResult {
   success: boolean;
   result: {
@@ -49,15 +55,128 @@ export interface IngestResult {
     conversationName?: string;
     totalMessages: number;
     totalChunks: number;
+    incremental: boolean;
+    newMessages: number;
+    skippedMessages: number;
+    changedMessages: number;
+    totalAttachments: number;
     participants: string[];
     dateRange: {
       start: string | null;
       end: string | null;
     };
+    format: string;
+    dateOrder?: {
+      order: 'DMY' | 'MDY';
+      confidence: number;
+      source: 'override' | 'detected' | 'default';
+    };
+    diagnostics?: {
+      format: string | null;
+      locale: string | null;
+      totalLines: number;
+      continuationLines: number;
+      orphanLines: DiagnosticSamples;
+      backwardsTimestamps: DiagnosticSamples;
+      suspectedSenderSplits: DiagnosticSamples;
+    };
     duration: number;
   };
 }
 
+export interface IngestProgress {
+  jobId: string;
+  status: 'pending' | 'parsing' | 'embedding' | 'completed' | 'failed' | 'cancelled';
+  totalMessages?: number;
+  totalChunks?: number;
+  processedChunks?: number;
+  percent?: number;
+  etaSeconds?: number;
+  retries?: number;
+  lastRetry?: {
+    attempt: number;
+    maxRetries: number;
+    delayMs: number;
+    reason: string;
+  };
+  error?: string;
+}
+
+export interface IngestJobEvent {
+  type: 'progress' | 'completed' | 'failed' | 'cancelled';
+  progress: IngestProgress | null;
+  result?: IngestResult['result'];
+  error?: string;
+}
+
+export interface IngestJob {
+  id: string;
+  state: 'waiting' | 'active' | 'delayed' | 'completed' | 'failed' | 'cancelled' | 'cancelling' | string;
+  fileName: string;
+  conversationName?: string;
+  progress: IngestProgress | null;
+  result?: IngestResult['result'];
+  error?: string;
+  attempts: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface Conversation {
+  id: string;
+  name?: string;
+  format: string;
+  participants: string[];
+  startTime: string | null;
+  endTime: string | null;
+  messageCount: number;
+  chunkCount: number;
+  vectorCount: number;
+  isDefault: boolean;
+}
+
+export interface ConversationMessage {
+  id: string;
+  timestamp: string;
+  sender: string;
+  content: string;
+  type: 'text' | 'media' | 'system' | 'deleted';
+  mediaType?: string;
+  attachment?: {
+    fileName: string;
+    size: number;
+    mimeType: string;
+    path?: string;
+  };
+  replyTo?: string;
+  forwardedFrom?: string;
+  edited?: boolean;
+  contactName?: string;
+  chunkId?: string;
+  cursor: string;
+}
+
+export interface MessagePage {
+  messages: ConversationMessage[];
+  prevCursor: string | null;
+  nextCursor: string | null;
+  anchorId?: string;
+}
+
+export interface MessageQuery {
+  limit?: number;
+  before?: string;
+  after?: string;
+  /**
+   * Message ID or ISO timestamp to center the page on
+   */
+  around?: string;
+  sender?: string;
+  type?: ConversationMessage['type'];
+  q?: string;
+}
+
 export interface HealthStatus {
   status: 'ok' | 'healthy' | 'degraded';
   timestamp: string;
@@ -144,7 +263,7 @@ export function queryStream(
 }
 
 /**
- * Ingest a WhatsApp export file
+ * Upload a chat export and wait for its ingestion job to finish
  */
 export async function ingest(
   file: File,
@@ -152,7 +271,104 @@ export async function ingest(
     conversationName?: string;
     generateSummaries?: boolean;
   },
+  onProgress?: (progress: IngestProgress) => void,
 ): Promise<IngestResult> {
+  const job = await submitIngest(file, options);
+
+  const outcome = await new Promise<IngestJobEvent>((resolve) => {
+    watchIngestJob(job.id, (event) => {
+      if (event.type === 'progress') {
+        if (event.progress) onProgress?.(event.progress);
+      } else {
+        resolve(event);
+      }
+    });
+  });
+
+  if (outcome.type !== 'completed' || !outcome.result) {
+    throw new Error(outcome.error || `Ingestion ${outcome.type}`);
+  }
+  return { success: true, result: outcome.result };
+}
+
+/**
+ * Follow an ingestion job over Server-Sent Events until it ends
+ * Falls back to polling when the event stream can't be opened
+ */
+export function watchIngestJob(
+  jobId: string,
+  onEvent: (event: IngestJobEvent) => void,
+): () => void {
+  let closed = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const source = new EventSource(`${API_BASE}/ingest/${encodeURIComponent(jobId)}/events`);
+
+  const close = () => {
+    closed = true;
+    source.close();
+    clearTimeout(timer);
+  };
+
+  const handle = (message: MessageEvent) => {
+    const event: IngestJobEvent = JSON.parse(message.data);
+    if (event.type !== 'progress') close();
+    onEvent(event);
+  };
+  for (const type of ['progress', 'completed', 'failed', 'cancelled']) {
+    source.addEventListener(type, handle as EventListener);
+  }
+
+  const poll = async () => {
+    if (closed) return;
+    try {
+      const job = await getIngestJob(jobId);
+      const type = ['completed', 'failed', 'cancelled'].includes(job.state)
+        ? (job.state as IngestJobEvent['type'])
+        : 'progress';
+      if (type !== 'progress') close();
+      onEvent({ type, progress: job.progress, result: job.result, error: job.error });
+    } catch {
+      // Keep polling through transient errors
+    }
+    if (!closed) timer = setTimeout(poll, 1000);
+  };
+
+  source.onerror = () => {
+    if (closed) return;
+    source.close();
+    poll();
+  };
+
+  return close;
+}
+
+/**
+ * Get an ingestion job with its progress
+ */
+export async function getIngestJob(jobId: string): Promise<IngestJob> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/ingest/${encodeURIComponent(jobId)}`);
+  } catch {
+    throw new Error('Failed to connect to API server');
+  }
+
+  if (!response.ok) {
+    throw new Error(`API error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Upload a chat export; the API queues it and returns the ingestion job
+ */
+export async function submitIngest(
+  file: File,
+  options?: {
+    conversationName?: string;
+    generateSummaries?: boolean;
+  },
+): Promise<IngestJob> {
   const formData = new FormData();
   formData.append('file', file);
 
@@ -184,6 +400,58 @@ export async function ingest(
     }
   }
 
+  try {
+    return JSON.parse(text).job;
+  } catch {
+    throw new Error('Invalid JSON response from API');
+  }
+}
+
+/**
+ * Get a conversation with its stats
+ */
+export async function getConversation(conversationId: string): Promise<Conversation> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/conversations/${encodeURIComponent(conversationId)}`);
+  } catch {
+    throw new Error('Failed to connect to API server');
+  }
+
+  if (!response.ok) {
+    throw new Error(response.status === 404 ? 'Conversation not found' : `API error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Get a page of messages of a conversation
+ */
+export async function getMessages(conversationId: string, params: MessageQuery = {}): Promise<MessagePage> {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') search.set(key, String(value));
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/conversations/${encodeURIComponent(conversationId)}/messages?${search}`);
+  } catch {
+    throw new Error('Failed to connect to API server');
+  }
+
+  const text = await response.text();
+
+  if (!response.ok) {
+    let message = `API error: ${response.status} ${response.statusText}`;
+    try {
+      message = JSON.parse(text).error || message;
+    } catch {
+      // Not a JSON error body
+    }
+    throw new Error(message);
+  }
+
   try {
     return JSON.parse(text);
   } catch {